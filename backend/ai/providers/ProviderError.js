@@ -0,0 +1,11 @@
+// Error raised by an AI provider. `status` is the HTTP status to answer with: 503 when the provider
+// is not configured on this server, 502 when the model service failed or gave an unusable answer.
+class ProviderError extends Error {
+  constructor(message, { status = 502 } = {}) {
+    super(message);
+    this.name = 'ProviderError';
+    this.status = status;
+  }
+}
+
+module.exports = ProviderError;
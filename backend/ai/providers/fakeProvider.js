@@ -0,0 +1,82 @@
+const crypto = require('crypto');
+
+const OPENINGS = ['Good news!', 'Just for you:', 'Don\'t miss out!', 'Hello {{first_name}},', 'Heads up!'];
+const CLOSINGS = ['Reply YES to learn more.', 'See you soon!', 'Tap to find out more.', 'Thanks for being with us.'];
+
+// The JSON data in the user message, or null when it is plain text.
+const dataOf = (userContent) => {
+  try {
+    const data = JSON.parse(userContent);
+    return data && typeof data === 'object' ? data : null;
+  } catch (err) {
+    return null;
+  }
+};
+
+// The text a request is about: the last string value of its JSON data, or the message itself.
+const subjectOf = (userContent) => {
+  const values = Object.values(dataOf(userContent) || {}).filter((value) => typeof value === 'string' && value);
+  return values.length ? values[values.length - 1] : userContent;
+};
+
+// Offline provider for tests and demos without a model service. The same request always gets the
+// same answer. Answers in JSON follow the requested schema: a string property named like a field
+// of the request's JSON data repeats that field marked with the model name (so a "translation"
+// keeps the text and its placeholders), other strings are sample text, arrays of strings hold
+// `minItems` entries (one by default), other arrays are empty and enums take their first value.
+const createFakeProvider = ({ model = 'fake', delayMs = 40 } = {}) => {
+  const sampleText = (prompt, index) => {
+    const seed = crypto.createHash('sha256').update(`${prompt.systemInstruction}\n${prompt.userContent}\n${index}`).digest();
+    const subject = subjectOf(prompt.userContent).slice(0, 200).trim();
+    return `${OPENINGS[seed[0] % OPENINGS.length]} ${subject.replace(/[.!?]*$/, '.')} ${CLOSINGS[seed[1] % CLOSINGS.length]}`;
+  };
+
+  const sampleValue = (schema, prompt, index = 0, key = null) => {
+    const type = String(schema?.type || 'string').toLowerCase();
+    if (type === 'object') {
+      return Object.fromEntries(Object.entries(schema.properties || {})
+        .map(([property, propertySchema]) => [property, sampleValue(propertySchema, prompt, index, property)]));
+    }
+    if (type === 'array') {
+      const itemType = String(schema.items?.type || 'string').toLowerCase();
+      const count = itemType === 'string' ? (schema.minItems ?? 1) : 0;
+      return Array.from({ length: count }, (_, item) => sampleValue(schema.items, prompt, item));
+    }
+    if (type === 'boolean') return false;
+    if (type === 'number' || type === 'integer') return 0;
+    if (Array.isArray(schema?.enum) && schema.enum.length > 0) return schema.enum[0];
+    const data = dataOf(prompt.userContent);
+    if (key && data && typeof data[key] === 'string') {
+      return data[key] && `[${model}] ${data[key]}`;
+    }
+    return sampleText(prompt, index);
+  };
+
+  const wait = (signal) => new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(resolve, delayMs);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+
+  return {
+    name: 'fake',
+    model,
+
+    async generate(prompt) {
+      return prompt.schema ? JSON.stringify(sampleValue(prompt.schema, prompt)) : sampleText(prompt, 0);
+    },
+
+    // Streams the sample text word by word, slowly enough to watch it arrive.
+    async *stream(prompt) {
+      for (const word of sampleText(prompt, 0).split(/(?<= )/)) {
+        await wait(prompt.signal);
+        yield word;
+      }
+    },
+  };
+};
+
+module.exports = createFakeProvider;
@@ -0,0 +1,64 @@
+const { GoogleGenAI } = require('@google/genai');
+const ProviderError = require('./ProviderError');
+
+const toProviderError = (err) => {
+  const message = err.status
+    ? `The Gemini API request failed with status ${err.status}.`
+    : `Could not reach the Gemini API: ${err.message}`;
+  return new ProviderError(message);
+};
+
+// Provider for Google's Gemini API.
+const createGeminiProvider = ({ apiKey, model }) => {
+  if (!apiKey) {
+    throw new ProviderError('Gemini is not configured on the server. Set GEMINI_API_KEY.', { status: 503 });
+  }
+  const ai = new GoogleGenAI({ apiKey });
+
+  const request = ({ systemInstruction, userContent, maxOutputTokens, temperature, schema, signal }) => ({
+    model,
+    contents: [{ role: 'user', parts: [{ text: userContent }] }],
+    config: {
+      systemInstruction,
+      temperature,
+      topP: 1,
+      topK: 32,
+      maxOutputTokens,
+      ...(schema && { responseMimeType: 'application/json', responseJsonSchema: schema }),
+      // Flash models think by default, which would spend the output budget before any text is
+      // written; other models cannot turn thinking off.
+      ...(/flash/.test(model) && { thinkingConfig: { thinkingBudget: 0 } }),
+      abortSignal: signal,
+    },
+  });
+
+  return {
+    name: 'gemini',
+    model,
+
+    async generate(prompt) {
+      try {
+        const response = await ai.models.generateContent(request(prompt));
+        return response.text || '';
+      } catch (err) {
+        if (prompt.signal?.aborted) throw err;
+        throw toProviderError(err);
+      }
+    },
+
+    async *stream(prompt) {
+      let chunks;
+      try {
+        chunks = await ai.models.generateContentStream(request(prompt));
+      } catch (err) {
+        if (prompt.signal?.aborted) throw err;
+        throw toProviderError(err);
+      }
+      for await (const chunk of chunks) {
+        if (chunk.text) yield chunk.text;
+      }
+    },
+  };
+};
+
+module.exports = createGeminiProvider;
@@ -0,0 +1,93 @@
+const createGeminiProvider = require('./geminiProvider');
+const createOpenAiProvider = require('./openAiProvider');
+const createFakeProvider = require('./fakeProvider');
+const ProviderError = require('./ProviderError');
+
+// Every AI provider implements the same interface:
+//   name              - provider identifier, one of the keys of PROVIDERS
+//   model             - the model requests go to
+//   generate(prompt)  - resolves to the model's whole answer as text
+//   stream(prompt)    - async iterable of the answer's text as it is written
+// `prompt` is { systemInstruction, userContent, maxOutputTokens, temperature, schema, signal }:
+// `schema` is a JSON Schema the answer must be JSON for (omit it for plain text), and aborting
+// `signal` cancels the request. Failures reject with a ProviderError.
+//
+// The workspace chooses the provider and model; API keys and endpoints are server configuration.
+const PROVIDERS = {
+  gemini: {
+    label: 'Google Gemini',
+    defaultModel: 'gemini-2.5-flash',
+    isConfigured: () => Boolean(process.env.GEMINI_API_KEY || process.env.API_KEY),
+    create: (model) => createGeminiProvider({
+      // API_KEY is the older name of the setting.
+      apiKey: process.env.GEMINI_API_KEY || process.env.API_KEY,
+      model,
+    }),
+  },
+  openai: {
+    label: 'OpenAI-compatible',
+    defaultModel: 'gpt-4o-mini',
+    // Local model servers need no key, so a base URL alone is enough.
+    isConfigured: () => Boolean(process.env.OPENAI_API_KEY || process.env.OPENAI_BASE_URL),
+    create: (model) => createOpenAiProvider({
+      baseUrl: process.env.OPENAI_BASE_URL || undefined,
+      apiKey: process.env.OPENAI_API_KEY,
+      model,
+    }),
+  },
+  fake: {
+    label: 'Offline sample text',
+    defaultModel: 'fake',
+    // Sample text must not reach customers, so production uses it only when asked for by name.
+    isConfigured: () => process.env.NODE_ENV !== 'production' || process.env.AI_PROVIDER === 'fake',
+    create: (model) => createFakeProvider({ model }),
+  },
+};
+
+const PROVIDER_NAMES = Object.keys(PROVIDERS);
+
+// The provider used when the workspace has not chosen one: AI_PROVIDER, otherwise Gemini when it
+// has a key. Outside production an unconfigured server falls back to the offline fake; in
+// production it stays on Gemini, so requests fail as not configured instead of sending sample text.
+const defaultProviderName = () => {
+  const configured = process.env.AI_PROVIDER;
+  if (configured) {
+    if (!PROVIDERS[configured]) {
+      throw new Error(`Unknown AI_PROVIDER "${configured}". Expected one of: ${PROVIDER_NAMES.join(', ')}.`);
+    }
+    return configured;
+  }
+  if (PROVIDERS.gemini.isConfigured() || process.env.NODE_ENV === 'production') return 'gemini';
+  return 'fake';
+};
+
+const providers = new Map();
+
+// Returns the provider for the workspace's AI settings ({ provider, model }, either may be null
+// for the server default). Throws a ProviderError with status 503 when it is not configured.
+const getProvider = ({ provider, model } = {}) => {
+  const name = provider || defaultProviderName();
+  if (!PROVIDERS[name].isConfigured()) {
+    throw new ProviderError(`The AI provider "${PROVIDERS[name].label}" is not configured on the server.`, { status: 503 });
+  }
+  const modelName = model || PROVIDERS[name].defaultModel;
+  const key = `${name}:${modelName}`;
+  if (!providers.has(key)) {
+    providers.set(key, PROVIDERS[name].create(modelName));
+  }
+  return providers.get(key);
+};
+
+// Describes the providers for the settings screen.
+const listProviders = () => {
+  const defaultName = defaultProviderName();
+  return PROVIDER_NAMES.map((name) => ({
+    name,
+    label: PROVIDERS[name].label,
+    defaultModel: PROVIDERS[name].defaultModel,
+    configured: PROVIDERS[name].isConfigured(),
+    isDefault: name === defaultName,
+  }));
+};
+
+module.exports = { PROVIDER_NAMES, ProviderError, getProvider, listProviders };
@@ -0,0 +1,80 @@
+const ProviderError = require('./ProviderError');
+
+// Provider for the OpenAI chat completions API, which many other services and local model servers
+// (Ollama, llama.cpp, vLLM, LM Studio, ...) also offer. `baseUrl` is the API root, such as
+// https://api.openai.com/v1 or http://localhost:11434/v1. Local servers usually need no `apiKey`.
+const createOpenAiProvider = ({ baseUrl = 'https://api.openai.com/v1', apiKey, model }) => {
+  const completionsUrl = `${baseUrl.replace(/\/$/, '')}/chat/completions`;
+
+  const post = async ({ systemInstruction, userContent, maxOutputTokens, temperature, schema, signal }, stream) => {
+    let response;
+    try {
+      response = await fetch(completionsUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+        },
+        body: JSON.stringify({
+          model,
+          messages: [
+            { role: 'system', content: systemInstruction },
+            { role: 'user', content: userContent },
+          ],
+          max_tokens: maxOutputTokens,
+          temperature,
+          ...(schema && { response_format: { type: 'json_schema', json_schema: { name: 'response', schema } } }),
+          ...(stream && { stream: true }),
+        }),
+        signal,
+      });
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      throw new ProviderError(`Could not reach the model server at ${baseUrl}: ${err.message}`);
+    }
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      const detail = body?.error?.message ? `: ${body.error.message}` : '.';
+      throw new ProviderError(`The model server answered with status ${response.status}${detail}`);
+    }
+    return response;
+  };
+
+  return {
+    name: 'openai',
+    model,
+
+    async generate(prompt) {
+      const response = await post(prompt, false);
+      const body = await response.json().catch(() => null);
+      return body?.choices?.[0]?.message?.content || '';
+    },
+
+    // Reads the Server-Sent Events the API streams: one `data:` line per chunk, then `data: [DONE]`.
+    async *stream(prompt) {
+      const response = await post(prompt, true);
+      const decoder = new TextDecoder();
+      let buffer = '';
+      for await (const bytes of response.body) {
+        buffer += decoder.decode(bytes, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop();
+        for (const line of lines) {
+          const data = line.startsWith('data:') ? line.slice(5).trim() : '';
+          if (!data) continue;
+          if (data === '[DONE]') return;
+          let chunk;
+          try {
+            chunk = JSON.parse(data);
+          } catch (err) {
+            throw new ProviderError('The model server streamed a chunk that is not JSON.');
+          }
+          const text = chunk.choices?.[0]?.delta?.content;
+          if (text) yield text;
+        }
+      }
+    },
+  };
+};
+
+module.exports = createOpenAiProvider;
@@ -0,0 +1,153 @@
+const MessageRecipient = require('../models/MessageRecipient');
+
+// Campaign reporting, computed with aggregation pipelines over MessageRecipient so no route ever
+// loads a campaign's recipient rows into memory.
+
+const ratio = (part, whole) => (whole > 0 ? Math.round((part / whole) * 1000) / 1000 : 0);
+
+// Delivery rates (0..1) from per-status recipient counts, as returned by MessageRecipient.countByStatus.
+// Delivered and read messages count as sent too.
+//   delivered / read - share of sent messages that reached the phone / were opened
+//   failed           - share of attempted messages (sent or failed) that failed
+const deliveryRates = (stats) => {
+  const sent = stats.sent + stats.delivered + stats.read;
+  return {
+    delivered: ratio(stats.delivered + stats.read, sent),
+    read: ratio(stats.read, sent),
+    failed: ratio(stats.failed, sent + stats.failed),
+  };
+};
+
+// Sums per-campaign stats into one set of counts.
+const totalStats = (statsByCampaign) => {
+  const totals = Object.fromEntries(MessageRecipient.STATUSES.map((status) => [status, 0]));
+  for (const stats of Object.values(statsByCampaign)) {
+    for (const status of MessageRecipient.STATUSES) totals[status] += stats[status];
+  }
+  return totals;
+};
+
+// Bucket sizes tried in order for the delivery chart; the first that keeps it to
+// MAX_TIMELINE_POINTS points is used.
+const TIMELINE_BUCKETS = [
+  { unit: 'minute', binSize: 1, ms: 60 * 1000 },
+  { unit: 'minute', binSize: 5, ms: 5 * 60 * 1000 },
+  { unit: 'minute', binSize: 15, ms: 15 * 60 * 1000 },
+  { unit: 'hour', binSize: 1, ms: 60 * 60 * 1000 },
+  { unit: 'hour', binSize: 6, ms: 6 * 60 * 60 * 1000 },
+  { unit: 'day', binSize: 1, ms: 24 * 60 * 60 * 1000 },
+];
+const MAX_TIMELINE_POINTS = 60;
+
+const TIMELINE_EVENTS = { sent: 'sentAt', delivered: 'deliveredAt', read: 'readAt', failed: 'failedAt' };
+
+const eventStages = (campaignId) => [
+  { $match: { campaign: campaignId } },
+  {
+    $project: {
+      events: Object.entries(TIMELINE_EVENTS).map(([type, field]) => ({ type, at: `$${field}` })),
+    },
+  },
+  { $unwind: '$events' },
+  { $match: { 'events.at': { $ne: null } } },
+];
+
+// Counts how many messages of a campaign were sent, delivered, read and failed in each time bucket.
+// Returns { bucket: { unit, binSize }, points: [{ at, sent, delivered, read, failed }] } with one
+// point per bucket from the first event to the last, empty buckets included.
+const deliveryTimeline = async (campaignId) => {
+  const [range] = await MessageRecipient.aggregate([
+    ...eventStages(campaignId),
+    { $group: { _id: null, from: { $min: '$events.at' }, to: { $max: '$events.at' } } },
+  ]);
+  if (!range) return { bucket: null, points: [] };
+
+  const span = range.to.getTime() - range.from.getTime();
+  const bucket = TIMELINE_BUCKETS.find((b) => span / b.ms < MAX_TIMELINE_POINTS) || TIMELINE_BUCKETS[TIMELINE_BUCKETS.length - 1];
+
+  const rows = await MessageRecipient.aggregate([
+    ...eventStages(campaignId),
+    {
+      $group: {
+        _id: {
+          at: { $dateTrunc: { date: '$events.at', unit: bucket.unit, binSize: bucket.binSize } },
+          type: '$events.type',
+        },
+        count: { $sum: 1 },
+      },
+    },
+  ]);
+
+  const counts = new Map();
+  for (const row of rows) {
+    const key = row._id.at.getTime();
+    if (!counts.has(key)) counts.set(key, {});
+    counts.get(key)[row._id.type] = row.count;
+  }
+
+  // Bucket boundaries line up with the Unix epoch for every size above, as they do for $dateTrunc.
+  const points = [];
+  for (let at = Math.floor(range.from.getTime() / bucket.ms) * bucket.ms; at <= range.to.getTime(); at += bucket.ms) {
+    const bucketCounts = counts.get(at) || {};
+    points.push({
+      at: new Date(at),
+      ...Object.fromEntries(Object.keys(TIMELINE_EVENTS).map((type) => [type, bucketCounts[type] || 0])),
+    });
+  }
+  return { bucket: { unit: bucket.unit, binSize: bucket.binSize }, points };
+};
+
+// The most common reasons messages failed, grouped by WhatsApp error code. `match` narrows the
+// recipients, e.g. { campaign: id } or { campaign: { $in: ids } }.
+const failureReasons = (match, limit = 10) => MessageRecipient.aggregate([
+  { $match: { ...match, status: 'failed' } },
+  { $sort: { failedAt: -1 } },
+  {
+    $group: {
+      _id: { $ifNull: ['$error.code', null] },
+      count: { $sum: 1 },
+      // The most recent wording; Meta's message for the same code varies slightly.
+      message: { $first: '$error.message' },
+      campaigns: { $addToSet: '$campaign' },
+      lastSeenAt: { $first: '$failedAt' },
+    },
+  },
+  { $sort: { count: -1 } },
+  { $limit: limit },
+  {
+    $project: {
+      _id: 0,
+      code: '$_id',
+      count: 1,
+      message: 1,
+      campaignCount: { $size: '$campaigns' },
+      lastSeenAt: 1,
+    },
+  },
+]);
+
+// Recipient counts and rates for each language version of a campaign (see campaigns/translations.js),
+// largest first: [{ language, recipients, stats, rates }]. `language` is null for recipients sent
+// the campaign's text when it has no language set.
+const languageBreakdown = async (campaignId) => {
+  const rows = await MessageRecipient.aggregate([
+    { $match: { campaign: campaignId } },
+    { $group: { _id: { language: '$language', status: '$status' }, count: { $sum: 1 } } },
+  ]);
+  const byLanguage = new Map();
+  for (const row of rows) {
+    const language = row._id.language ?? null;
+    if (!byLanguage.has(language)) {
+      byLanguage.set(language, Object.fromEntries(MessageRecipient.STATUSES.map((status) => [status, 0])));
+    }
+    byLanguage.get(language)[row._id.status] = row.count;
+  }
+  return Array.from(byLanguage, ([language, stats]) => ({
+    language,
+    recipients: Object.values(stats).reduce((sum, count) => sum + count, 0),
+    stats,
+    rates: deliveryRates(stats),
+  })).sort((a, b) => b.recipients - a.recipients);
+};
+
+module.exports = { deliveryRates, totalStats, deliveryTimeline, failureReasons, languageBreakdown };
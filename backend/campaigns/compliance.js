@@ -0,0 +1,176 @@
+const { CAPTION_TYPES, buildMessageBody } = require('../senders/message');
+const { PLACEHOLDER_PATTERN } = require('../senders/personalize');
+
+// Checks a broadcast before it is sent: against WhatsApp's Business Messaging and Commerce
+// policies, for patterns spam filters and recipients react badly to, against WhatsApp's length
+// limits, and for placeholders that would be sent empty. Each issue is either `blocking`, which
+// stops the send, or a `warning`, which the sender has to confirm:
+//   { severity: 'warning', category: 'spam', code: 'shortened_link', message: '...', language: 'es' }
+// `language` is set for issues found in a translation only. The checks are word lists and
+// patterns, so they catch the common cases rather than judge the message; an AI review (see
+// ai/review.js) can be asked for on top.
+
+const SEVERITIES = ['blocking', 'warning'];
+
+// WhatsApp's limits for a text message body and for a media caption.
+const MAX_TEXT_LENGTH = 4096;
+const MAX_CAPTION_LENGTH = 1024;
+// Placeholders can make a message longer than it is written, so a message this close to the limit
+// is flagged when it has any.
+const LENGTH_MARGIN = 0.9;
+
+// WhatsApp does not allow asking people for these over a business chat.
+const SENSITIVE_REQUEST_PATTERN = /\b(?:send|share|reply with|text|give|tell|confirm|enter|provide|verify)\b[^.!?\n]{0,40}?\b(password|passcode|pin(?: code)?|otp|one[- ]time (?:pass)?code|verification code|cvv|cvc|(?:full )?(?:credit |debit )?card number|social security number|ssn|bank login)\b/i;
+
+// Goods and services WhatsApp's Commerce Policy does not allow businesses to sell.
+const RESTRICTED_GOODS = [
+  { label: 'drugs', words: ['cannabis', 'marijuana', 'weed', 'cbd', 'thc', 'cocaine', 'opioids?', 'kratom', 'steroids'] },
+  { label: 'weapons', words: ['guns?', 'firearms?', 'ammo', 'ammunition', 'rifles?', 'pistols?', 'explosives'] },
+  { label: 'alcohol', words: ['alcohol', 'beer', 'wine', 'vodka', 'whiske?y', 'liquor', 'tequila', 'rum'] },
+  { label: 'tobacco', words: ['tobacco', 'cigarettes?', 'cigars?', 'vapes?', 'vaping', 'e-cigarettes?', 'nicotine'] },
+  { label: 'gambling', words: ['casino', 'betting', 'jackpot', 'lottery', 'poker'] },
+  { label: 'adult content', words: ['xxx', 'porn', 'escorts?', 'adult content'] },
+  { label: 'high-risk financial products', words: ['payday loans?', 'binary options', 'guaranteed returns?', 'get rich quick'] },
+  { label: 'counterfeit goods', words: ['counterfeit', 'replicas?', 'fake ids?'] },
+  { label: 'unproven medical claims', words: ['miracle cure', 'weight loss pills?', 'diet pills?'] },
+];
+
+const RESTRICTED_GOODS_PATTERNS = RESTRICTED_GOODS.map(({ label, words }) => ({
+  label,
+  pattern: new RegExp(`\\b(?:${words.join('|')})\\b`, 'i'),
+}));
+
+// Phrases spam filters and recipients associate with spam.
+const SPAM_PHRASES = [
+  'act now', 'click here', '100% free', 'risk-free', 'risk free', 'no strings attached', 'you have won',
+  'you\'ve won', 'winner', 'congratulations you', 'cash bonus', 'double your', 'urgent response',
+  'limited time only', 'once in a lifetime', 'this is not spam',
+];
+
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>()]+/gi;
+const URL_SHORTENERS = [
+  'bit.ly', 'tinyurl.com', 'goo.gl', 't.co', 'ow.ly', 'is.gd', 'buff.ly', 'rebrand.ly', 'cutt.ly',
+  'shorturl.at', 'tiny.cc', 'rb.gy', 't.ly',
+];
+const MAX_LINKS = 2;
+const MAX_EMOJI = 10;
+// Share of capital letters above which a message reads as shouting, once it has enough letters
+// for the share to mean something.
+const MAX_CAPS_SHARE = 0.6;
+const MIN_LETTERS_FOR_CAPS = 20;
+
+// Recipients are opted out when they reply with one of the keywords in contacts/consent.js.
+const OPT_OUT_PATTERN = /\b(?:stop|unsubscribe|opt[- ]?out)\b/i;
+// Leftovers from drafts and AI suggestions, such as "[Your Company Name]".
+const UNFILLED_TEXT_PATTERN = /\[(?:your|insert|add|company|business|customer)\b[^\]]*\]|lorem ipsum/i;
+
+const issue = (severity, category, code, message) => ({ severity, category, code, message });
+
+const linkHost = (url) => url.replace(/^https?:\/\//i, '').split(/[/?#]/)[0].toLowerCase().replace(/^www\./, '');
+
+// Issues with one version of the message: the original or a translation.
+const checkVersion = ({ heading, content }, { mediaType }) => {
+  const issues = [];
+  const body = buildMessageBody(heading, content);
+  const hasPlaceholders = body.match(PLACEHOLDER_PATTERN) !== null;
+
+  // Length: a caption when the media can carry one, otherwise a text message of its own.
+  if (!body && !mediaType) {
+    issues.push(issue('blocking', 'length', 'empty', 'The message has no text.'));
+  }
+  const isCaption = Boolean(mediaType) && CAPTION_TYPES.includes(mediaType);
+  const limit = isCaption ? MAX_CAPTION_LENGTH : MAX_TEXT_LENGTH;
+  const limitLabel = isCaption ? `WhatsApp's ${MAX_CAPTION_LENGTH}-character limit for captions` : `WhatsApp's ${MAX_TEXT_LENGTH}-character limit for messages`;
+  if (body.length > limit) {
+    issues.push(issue('blocking', 'length', 'too_long', `The message is ${body.length} characters, over ${limitLabel}.`));
+  } else if (hasPlaceholders && body.length > limit * LENGTH_MARGIN) {
+    issues.push(issue('warning', 'length', 'near_limit', `The message is ${body.length} characters, close to ${limitLabel}; personalized values could push it over.`));
+  }
+
+  // Placeholders written so they would be sent as they are, such as "{{first name}}" or "{{city".
+  const leftover = body.replace(PLACEHOLDER_PATTERN, '');
+  if (leftover.includes('{{') || leftover.includes('}}')) {
+    issues.push(issue('blocking', 'placeholders', 'malformed_placeholder', 'A placeholder is not written like {{name}} or {{city|fallback}}, so it would be sent as it is.'));
+  }
+  const unfilled = body.match(UNFILLED_TEXT_PATTERN);
+  if (unfilled) {
+    issues.push(issue('warning', 'placeholders', 'unfilled_text', `"${unfilled[0]}" looks like text that was meant to be replaced.`));
+  }
+
+  // Spam patterns.
+  const letters = body.replace(PLACEHOLDER_PATTERN, '').replace(/[^\p{L}]/gu, '');
+  const capitals = letters.replace(/[^\p{Lu}]/gu, '');
+  if (letters.length >= MIN_LETTERS_FOR_CAPS && capitals.length / letters.length > MAX_CAPS_SHARE) {
+    issues.push(issue('warning', 'spam', 'all_caps', 'Most of the message is in capital letters, which reads as shouting and looks like spam.'));
+  }
+  const links = body.match(URL_PATTERN) || [];
+  if (links.length > MAX_LINKS) {
+    issues.push(issue('warning', 'spam', 'too_many_links', `The message has ${links.length} links; messages with more than ${MAX_LINKS} are often reported as spam.`));
+  }
+  const shortened = Array.from(new Set(links.map(linkHost).filter((host) => URL_SHORTENERS.includes(host))));
+  if (shortened.length > 0) {
+    issues.push(issue('warning', 'spam', 'shortened_link', `Shortened links (${shortened.join(', ')}) hide where they lead and are often blocked; link to your own domain instead.`));
+  }
+  if (/[!?]{3,}/.test(body)) {
+    issues.push(issue('warning', 'spam', 'excessive_punctuation', 'Runs of "!!!" or "???" look like spam.'));
+  }
+  const emoji = body.match(/\p{Extended_Pictographic}/gu) || [];
+  if (emoji.length > MAX_EMOJI) {
+    issues.push(issue('warning', 'spam', 'too_many_emoji', `The message has ${emoji.length} emoji; more than ${MAX_EMOJI} looks like spam.`));
+  }
+  const lowered = body.toLowerCase();
+  const phrases = SPAM_PHRASES.filter((phrase) => lowered.includes(phrase));
+  if (phrases.length > 0) {
+    issues.push(issue('warning', 'spam', 'spam_phrases', `Phrases such as ${phrases.map((phrase) => `"${phrase}"`).join(', ')} are typical of spam.`));
+  }
+
+  // WhatsApp policy.
+  const sensitive = body.match(SENSITIVE_REQUEST_PATTERN);
+  if (sensitive) {
+    issues.push(issue('blocking', 'policy', 'sensitive_request', `The message asks for a ${sensitive[1].toLowerCase()}. WhatsApp does not allow businesses to ask for passwords, payment card numbers, codes or ID numbers in a chat.`));
+  }
+  RESTRICTED_GOODS_PATTERNS.forEach(({ label, pattern }) => {
+    const match = body.match(pattern);
+    if (match) {
+      issues.push(issue('warning', 'policy', 'restricted_goods', `"${match[0]}" suggests ${label}, which WhatsApp's Commerce Policy does not allow businesses to sell. Make sure the message does not offer it.`));
+    }
+  });
+  return issues;
+};
+
+// Checks a message and returns its issues, blocking ones first.
+//   mediaType:    the attached media's type ('image', 'audio', ...), or null
+//   translations: other language versions, [{ language, heading, content }]
+//   placeholders: how many recipients have no value for each placeholder without a fallback,
+//                 [{ key, fallback, missing }], when the audience is known
+//   recipients:   how many contacts the message goes to, when the audience is known
+const analyzeMessage = ({ heading = '', content = '', mediaType = null, translations = [], placeholders = [], recipients = null }) => {
+  const issues = checkVersion({ heading, content }, { mediaType });
+
+  if (buildMessageBody(heading, content) && !OPT_OUT_PATTERN.test(`${heading}\n${content}`)) {
+    issues.push(issue('warning', 'policy', 'no_opt_out', 'The message does not say how to stop receiving messages. WhatsApp expects marketing messages to offer a way out, such as "Reply STOP to unsubscribe".'));
+  }
+
+  placeholders.filter(({ fallback, missing }) => fallback == null && missing > 0).forEach(({ key, missing }) => {
+    if (recipients !== null && missing >= recipients) {
+      issues.push(issue('blocking', 'placeholders', 'unfilled_placeholder', `None of the recipients has a value for {{${key}}}, so it would always be sent empty. Check the spelling or add a fallback such as {{${key}|there}}.`));
+    } else {
+      issues.push(issue('warning', 'placeholders', 'unfilled_placeholder', `${missing} ${missing === 1 ? 'recipient has' : 'recipients have'} no value for {{${key}}}, which is sent empty for them. Add a fallback such as {{${key}|there}}.`));
+    }
+  });
+
+  translations.forEach((translation) => {
+    checkVersion(translation, { mediaType }).forEach((found) => issues.push({ ...found, language: translation.language }));
+  });
+
+  return issues.sort((a, b) => SEVERITIES.indexOf(a.severity) - SEVERITIES.indexOf(b.severity));
+};
+
+// The counts the composer shows next to the list.
+const summarizeIssues = (issues) => ({
+  issues,
+  blocking: issues.filter(({ severity }) => severity === 'blocking').length,
+  warnings: issues.filter(({ severity }) => severity === 'warning').length,
+});
+
+module.exports = { MAX_TEXT_LENGTH, MAX_CAPTION_LENGTH, analyzeMessage, summarizeIssues };
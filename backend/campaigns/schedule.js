@@ -0,0 +1,99 @@
+// Turns the "send later" fields from the composer - a calendar date, a wall-clock time and an IANA
+// time zone such as "Europe/Berlin" - into the instant the campaign should start.
+//   { date: '2026-11-02', time: '09:30', timezone: 'America/New_York' }
+class ScheduleError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'ScheduleError';
+  }
+}
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const TIME_PATTERN = /^(\d{2}):(\d{2})$/;
+
+// WhatsApp deletes uploaded media after 30 days, so a campaign with an attachment has to go out
+// before then. Text and template campaigns are allowed further ahead.
+const MEDIA_RETENTION_DAYS = 30;
+const MAX_SCHEDULE_DAYS = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isValidTimeZone = (timeZone) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch (err) {
+    return false;
+  }
+};
+
+// The date and time an instant shows on a wall clock in `timeZone`, as 'YYYY-MM-DD' and 'HH:mm'.
+const zonedParts = (instant, timeZone) => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+    }).formatToParts(instant).map(({ type, value }) => [type, value])
+  );
+  return { date: `${parts.year}-${parts.month}-${parts.day}`, time: `${parts.hour}:${parts.minute}` };
+};
+
+// Milliseconds `timeZone` is ahead of UTC at `instant`.
+const zoneOffset = (instant, timeZone) => {
+  const { date, time } = zonedParts(instant, timeZone);
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  return wallClock - Math.floor(instant.getTime() / 60000) * 60000;
+};
+
+// The instant at which clocks in `timeZone` show the given date and time. Returns null for a time
+// skipped by a daylight-saving change.
+const zonedTimeToUtc = (date, time, timeZone) => {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  // The offset can differ on either side of a DST change, so correct the first guess once.
+  let instant = new Date(wallClock - zoneOffset(new Date(wallClock), timeZone));
+  instant = new Date(wallClock - zoneOffset(instant, timeZone));
+  const check = zonedParts(instant, timeZone);
+  return check.date === date && check.time === time ? instant : null;
+};
+
+// Validates a schedule from the client and returns { scheduledAt, timezone }.
+const parseSchedule = (schedule, { hasMedia = false, now = new Date() } = {}) => {
+  if (!schedule || typeof schedule !== 'object') {
+    throw new ScheduleError('Please choose when to send the campaign.');
+  }
+  const { date, time, timezone } = schedule;
+  if (typeof date !== 'string' || !DATE_PATTERN.test(date)) {
+    throw new ScheduleError('Please provide the send date as YYYY-MM-DD.');
+  }
+  if (typeof time !== 'string' || !TIME_PATTERN.test(time)) {
+    throw new ScheduleError('Please provide the send time as HH:mm.');
+  }
+  if (typeof timezone !== 'string' || !isValidTimeZone(timezone)) {
+    throw new ScheduleError('Please choose a valid time zone.');
+  }
+
+  const scheduledAt = zonedTimeToUtc(date, time, timezone);
+  if (!scheduledAt) {
+    throw new ScheduleError(`${date} ${time} does not exist in ${timezone} because the clocks change that day.`);
+  }
+  if (scheduledAt <= now) {
+    throw new ScheduleError('The send time must be in the future.');
+  }
+  const maxDays = hasMedia ? MEDIA_RETENTION_DAYS : MAX_SCHEDULE_DAYS;
+  if (scheduledAt.getTime() - now.getTime() > maxDays * DAY_MS) {
+    throw new ScheduleError(hasMedia
+      ? `Campaigns with media must be sent within ${MEDIA_RETENTION_DAYS} days, before WhatsApp discards the upload.`
+      : `Campaigns can be scheduled at most ${MAX_SCHEDULE_DAYS} days ahead.`);
+  }
+  return { scheduledAt, timezone };
+};
+
+module.exports = { ScheduleError, parseSchedule, zonedParts, zonedTimeToUtc };
@@ -0,0 +1,101 @@
+const { LanguageError, normalizeLanguage, baseLanguage } = require('../contacts/language');
+
+// A text campaign can carry a version of its heading and content for each of its recipients'
+// languages. `language` on the campaign is the language of its own heading and content; every
+// recipient whose contact prefers a language with a translation is sent that translation instead,
+// and the language each recipient was sent in is kept on their MessageRecipient row for analytics.
+class TranslationError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'TranslationError';
+  }
+}
+
+// Most language versions a campaign can carry.
+const MAX_TRANSLATIONS = 20;
+// WhatsApp's limit for a text message body.
+const MAX_CONTENT_LENGTH = 4096;
+
+const readLanguage = (value, label) => {
+  try {
+    return normalizeLanguage(value);
+  } catch (err) {
+    if (err instanceof LanguageError) throw new TranslationError(`${label}: ${err.message}`);
+    throw err;
+  }
+};
+
+// Validates a campaign's source language and its list of translations ([{ language, heading,
+// content }]) and returns { language, translations } ready to store. A media campaign may have
+// translations without text, as its caption is optional.
+const parseCampaignTranslations = ({ language, translations }, { hasMedia = false } = {}) => {
+  const list = translations ?? [];
+  if (!Array.isArray(list)) {
+    throw new TranslationError('Translations must be a list.');
+  }
+  const sourceLanguage = readLanguage(language, 'Message language');
+  if (list.length === 0) return { language: sourceLanguage, translations: [] };
+  if (!sourceLanguage) {
+    throw new TranslationError('Please choose the language the message is written in before adding translations.');
+  }
+  if (list.length > MAX_TRANSLATIONS) {
+    throw new TranslationError(`A campaign can have at most ${MAX_TRANSLATIONS} translations.`);
+  }
+
+  const seen = new Set();
+  const parsed = list.map((translation) => {
+    if (!translation || typeof translation !== 'object') {
+      throw new TranslationError('Each translation needs a language and content.');
+    }
+    const translationLanguage = readLanguage(translation.language, 'Translation language');
+    if (!translationLanguage) {
+      throw new TranslationError('Each translation needs a language.');
+    }
+    if (translationLanguage === sourceLanguage) {
+      throw new TranslationError(`The message itself is already in ${translationLanguage}, so it needs no ${translationLanguage} translation.`);
+    }
+    if (seen.has(translationLanguage)) {
+      throw new TranslationError(`There is more than one ${translationLanguage} version of the message.`);
+    }
+    seen.add(translationLanguage);
+    const heading = typeof translation.heading === 'string' ? translation.heading.trim() : '';
+    const content = typeof translation.content === 'string' ? translation.content : '';
+    if (!content.trim() && !hasMedia) {
+      throw new TranslationError(`The ${translationLanguage} translation has no content.`);
+    }
+    if (content.length > MAX_CONTENT_LENGTH) {
+      throw new TranslationError(`The ${translationLanguage} translation must be at most ${MAX_CONTENT_LENGTH} characters.`);
+    }
+    return { language: translationLanguage, heading, content };
+  });
+  return { language: sourceLanguage, translations: parsed };
+};
+
+// The language a contact preferring `contactLanguage` is sent: a translation in exactly that
+// language, else one in the same base language ("pt" for a "pt-BR" contact or the other way
+// round), else the campaign's own language (null when it has none).
+const recipientLanguage = (campaign, contactLanguage) => {
+  const translations = campaign.translations || [];
+  if (contactLanguage && translations.length > 0) {
+    const match = translations.find(({ language }) => language === contactLanguage)
+      || translations.find(({ language }) => baseLanguage(language) === baseLanguage(contactLanguage));
+    if (match) return match.language;
+  }
+  return campaign.language || null;
+};
+
+// The heading and content to send to a recipient who was assigned `language`.
+const campaignVersion = (campaign, language) => {
+  const translation = language && (campaign.translations || []).find((t) => t.language === language);
+  return translation
+    ? { heading: translation.heading, content: translation.content }
+    : { heading: campaign.heading, content: campaign.content };
+};
+
+module.exports = {
+  TranslationError,
+  MAX_TRANSLATIONS,
+  parseCampaignTranslations,
+  recipientLanguage,
+  campaignVersion,
+};
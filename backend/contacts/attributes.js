@@ -0,0 +1,115 @@
+const { BUILT_IN_VARIABLES } = require('../senders/personalize');
+
+// Custom contact attributes such as city, language or customer tier. Each workspace defines its
+// attributes and their types in WorkspaceSettings.contactAttributes; contacts store the values in
+// `Contact.attributes`, already converted to the attribute's type so filters can compare them:
+//
+//   text, select  string ("Berlin", "gold")
+//   number        number (42)
+//   date          "YYYY-MM-DD" string, which sorts and compares like the date
+//   boolean       true / false
+//
+// Values for an attribute whose definition was removed stay on the contact and are treated as text.
+class AttributeError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'AttributeError';
+  }
+}
+
+const ATTRIBUTE_TYPES = ['text', 'number', 'date', 'boolean', 'select'];
+const ATTRIBUTE_KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Filter operators each type supports. `exists` and `missing` work on every type.
+const ATTRIBUTE_OPERATORS = {
+  text: ['eq', 'ne', 'contains'],
+  select: ['eq', 'ne', 'in'],
+  number: ['eq', 'ne', 'gt', 'gte', 'lt', 'lte'],
+  date: ['eq', 'ne', 'gt', 'gte', 'lt', 'lte'],
+  boolean: ['eq'],
+};
+const PRESENCE_OPERATORS = ['exists', 'missing'];
+
+const isValidAttributeKey = (key) => typeof key === 'string' && ATTRIBUTE_KEY_PATTERN.test(key)
+  && !BUILT_IN_VARIABLES.includes(key);
+
+const isEmpty = (value) => value === undefined || value === null || String(value).trim() === '';
+
+// Converts a value typed in the dashboard or an import file to the attribute's stored type.
+// Empty values come back as null, meaning "no value".
+const coerceAttributeValue = (definition, value) => {
+  if (isEmpty(value)) return null;
+  const label = definition.label || definition.key;
+  const text = String(value).trim();
+  switch (definition.type) {
+    case 'number': {
+      const number = typeof value === 'number' ? value : Number(text.replace(/,/g, ''));
+      if (!Number.isFinite(number)) throw new AttributeError(`${label} must be a number, not "${text}".`);
+      return number;
+    }
+    case 'date': {
+      const date = text.slice(0, 10);
+      if (!DATE_PATTERN.test(date) || Number.isNaN(Date.parse(`${date}T00:00:00Z`))) {
+        throw new AttributeError(`${label} must be a date written as YYYY-MM-DD, not "${text}".`);
+      }
+      return date;
+    }
+    case 'boolean': {
+      if (typeof value === 'boolean') return value;
+      const lower = text.toLowerCase();
+      if (['true', 'yes', 'y', '1'].includes(lower)) return true;
+      if (['false', 'no', 'n', '0'].includes(lower)) return false;
+      throw new AttributeError(`${label} must be yes or no, not "${text}".`);
+    }
+    case 'select': {
+      const option = (definition.options || []).find((candidate) => candidate.toLowerCase() === text.toLowerCase());
+      if (!option) {
+        throw new AttributeError(`${label} must be one of ${definition.options.join(', ')}, not "${text}".`);
+      }
+      return option;
+    }
+    default:
+      return text;
+  }
+};
+
+// The definition of attribute `key`, or an AttributeError if the workspace has none.
+const findDefinition = (definitions, key) => {
+  const definition = definitions.find((candidate) => candidate.key === key);
+  if (!definition) {
+    throw new AttributeError(`"${key}" is not a contact attribute. Add it under Settings first.`);
+  }
+  return definition;
+};
+
+// Reads `{ key: value }` from a request into the values to store and the keys to clear
+// (null or empty values). Throws an AttributeError for unknown attributes and invalid values.
+const parseAttributeValues = (input, definitions) => {
+  const set = {};
+  const unset = [];
+  if (input === undefined || input === null) return { set, unset };
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new AttributeError('Attributes must be an object of attribute names and values.');
+  }
+  Object.entries(input).forEach(([key, value]) => {
+    const coerced = coerceAttributeValue(findDefinition(definitions, key), value);
+    if (coerced === null) {
+      unset.push(key);
+    } else {
+      set[key] = coerced;
+    }
+  });
+  return { set, unset };
+};
+
+module.exports = {
+  AttributeError,
+  ATTRIBUTE_TYPES,
+  ATTRIBUTE_OPERATORS,
+  PRESENCE_OPERATORS,
+  isValidAttributeKey,
+  coerceAttributeValue,
+  findDefinition,
+  parseAttributeValues,
+};
@@ -0,0 +1,59 @@
+const mongoose = require('mongoose');
+
+// Who a broadcast goes to. The client sends one of these shapes and the server works out the
+// matching contacts itself, so a campaign can never target contacts the client made up.
+//   { type: 'all' }
+//   { type: 'groups', groupIds: [...] }                                 - members of any listed group
+//   { type: 'tags', include: [...], exclude: [...], match: 'any'|'all' } - tag rules
+//   { type: 'contacts', contactIds: [...] }                             - a hand-picked selection
+class AudienceError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'AudienceError';
+  }
+}
+
+const normalizeTags = (tags) => (Array.isArray(tags) ? tags : [])
+  .filter((tag) => typeof tag === 'string' && tag.trim())
+  .map((tag) => tag.trim().toLowerCase());
+
+const toObjectIds = (ids, label) => {
+  if (!Array.isArray(ids) || ids.length === 0) {
+    throw new AudienceError(`Please choose at least one ${label}.`);
+  }
+  if (!ids.every((id) => mongoose.Types.ObjectId.isValid(id))) {
+    throw new AudienceError(`Invalid ${label} ID format.`);
+  }
+  return ids.map((id) => new mongoose.Types.ObjectId(id));
+};
+
+// Returns the MongoDB filter selecting the audience's contacts.
+const buildAudienceFilter = (audience) => {
+  if (!audience || typeof audience !== 'object') {
+    throw new AudienceError('Please choose who to send the message to.');
+  }
+
+  switch (audience.type) {
+    case 'all':
+      return {};
+    case 'groups':
+      return { groups: { $in: toObjectIds(audience.groupIds, 'group') } };
+    case 'contacts':
+      return { _id: { $in: toObjectIds(audience.contactIds, 'contact') } };
+    case 'tags': {
+      const include = normalizeTags(audience.include);
+      const exclude = normalizeTags(audience.exclude);
+      if (include.length === 0 && exclude.length === 0) {
+        throw new AudienceError('Please add at least one tag rule.');
+      }
+      const tagFilter = {};
+      if (include.length > 0) tagFilter[audience.match === 'all' ? '$all' : '$in'] = include;
+      if (exclude.length > 0) tagFilter.$nin = exclude;
+      return { tags: tagFilter };
+    }
+    default:
+      throw new AudienceError('Unknown audience type.');
+  }
+};
+
+module.exports = { AudienceError, buildAudienceFilter, normalizeTags };
@@ -0,0 +1,147 @@
+const mongoose = require('mongoose');
+const Contact = require('../models/Contact');
+const { buildContactFilter } = require('./filters');
+const { setConsent } = require('./consent');
+
+// Bulk actions on contacts. A request selects contacts in one of two ways:
+//   { contactIds: [...] }                     - the rows ticked in the contact list
+//   { filter: { ...query }, excludeIds: [...] } - "all contacts matching this filter", with the
+//                                               rows unticked afterwards left out
+// `filter` takes the same fields as the contact list's query string (see contacts/filters.js).
+// Every action reports what happened to each selected contact:
+//   { id, status: 'updated' | 'unchanged' | 'deleted' | 'not_found' | 'failed', message? }
+class BulkError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'BulkError';
+  }
+}
+
+// A filter matching more contacts than this is rejected rather than half-applied.
+const MAX_BULK_CONTACTS = 10000;
+
+const BULK_STATUSES = ['updated', 'unchanged', 'deleted', 'not_found', 'failed'];
+
+// Resolves a selection to the contact ids it covers, as strings. Throws a BulkError for a missing
+// or oversized selection and an AttributeError for a filter that does not fit the workspace's
+// attributes. `defaultCountry` is the workspace's, for searching local numbers.
+const resolveSelection = async (selection = {}, attributeDefinitions = [], defaultCountry = null) => {
+  if (Array.isArray(selection.contactIds)) {
+    if (selection.contactIds.length === 0) throw new BulkError('Please select at least one contact.');
+    if (selection.contactIds.length > MAX_BULK_CONTACTS) {
+      throw new BulkError(`Please select at most ${MAX_BULK_CONTACTS} contacts at a time.`);
+    }
+    return Array.from(new Set(selection.contactIds.map(String)));
+  }
+
+  if (!selection.filter || typeof selection.filter !== 'object' || Array.isArray(selection.filter)) {
+    throw new BulkError('Please select contacts or a filter.');
+  }
+  const filter = buildContactFilter(selection.filter, attributeDefinitions, defaultCountry);
+  const excludeIds = (Array.isArray(selection.excludeIds) ? selection.excludeIds : [])
+    .filter((id) => mongoose.Types.ObjectId.isValid(id));
+  const query = excludeIds.length > 0 ? { $and: [filter, { _id: { $nin: excludeIds } }] } : filter;
+  const ids = (await Contact.find(query, { _id: 1 }).limit(MAX_BULK_CONTACTS + 1).lean()).map(({ _id }) => _id);
+  if (ids.length > MAX_BULK_CONTACTS) {
+    throw new BulkError(`This filter matches more than ${MAX_BULK_CONTACTS} contacts. Narrow it down and try again.`);
+  }
+  if (ids.length === 0) throw new BulkError('No contacts match this filter.');
+  return ids.map(String);
+};
+
+// Splits requested ids into well-formed ones and results for the rest.
+const partitionIds = (ids) => {
+  const valid = ids.filter((id) => mongoose.Types.ObjectId.isValid(id));
+  const invalid = ids.filter((id) => !mongoose.Types.ObjectId.isValid(id))
+    .map((id) => ({ id, status: 'not_found', message: 'Invalid contact ID format.' }));
+  return { valid, invalid };
+};
+
+// Loads the selected contacts that still exist, keyed by id, plus `not_found` results for the rest.
+const loadSelected = async (ids, projection) => {
+  const { valid, invalid } = partitionIds(ids);
+  const contacts = await Contact.find({ _id: { $in: valid } }, projection).lean();
+  const byId = new Map(contacts.map((contact) => [contact._id.toString(), contact]));
+  const missing = valid.filter((id) => !byId.has(id)).map((id) => ({ id, status: 'not_found' }));
+  return { byId, missing: [...invalid, ...missing] };
+};
+
+const summarize = (results) => Object.fromEntries(BULK_STATUSES
+  .map((status) => [status, results.filter((result) => result.status === status).length]));
+
+const deleteContacts = async (ids) => {
+  const { byId, missing } = await loadSelected(ids, { _id: 1 });
+  const existing = Array.from(byId.keys());
+  if (existing.length > 0) await Contact.deleteMany({ _id: { $in: existing } });
+  return [...existing.map((id) => ({ id, status: 'deleted' })), ...missing];
+};
+
+// `add` and `remove` are normalized tag lists with no tag in both.
+const updateTags = async (ids, { add, remove }) => {
+  const { byId, missing } = await loadSelected(ids, { tags: 1 });
+  const changed = [];
+  const results = Array.from(byId, ([id, contact]) => {
+    const tags = contact.tags || [];
+    const isChanged = add.some((tag) => !tags.includes(tag)) || remove.some((tag) => tags.includes(tag));
+    if (isChanged) changed.push(id);
+    return { id, status: isChanged ? 'updated' : 'unchanged' };
+  });
+  // $addToSet and $pull cannot target the same field in one update, so removal is a second pass.
+  if (changed.length > 0 && add.length > 0) {
+    await Contact.updateMany({ _id: { $in: changed } }, { $addToSet: { tags: { $each: add } } });
+  }
+  if (changed.length > 0 && remove.length > 0) {
+    await Contact.updateMany({ _id: { $in: changed } }, { $pull: { tags: { $in: remove } } });
+  }
+  return [...results, ...missing];
+};
+
+const updateGroupMembership = async (ids, { groupId, action }) => {
+  const { byId, missing } = await loadSelected(ids, { groups: 1 });
+  const changed = [];
+  const results = Array.from(byId, ([id, contact]) => {
+    const isMember = (contact.groups || []).some((group) => group.toString() === groupId);
+    const isChanged = action === 'add' ? !isMember : isMember;
+    if (isChanged) changed.push(id);
+    return { id, status: isChanged ? 'updated' : 'unchanged' };
+  });
+  if (changed.length > 0) {
+    const update = action === 'add' ? { $addToSet: { groups: groupId } } : { $pull: { groups: groupId } };
+    await Contact.updateMany({ _id: { $in: changed } }, update);
+  }
+  return [...results, ...missing];
+};
+
+// Opts the selected contacts out. Opting back in is only done one contact at a time, so a bulk
+// action can never re-subscribe people who replied STOP. Each change goes through setConsent so it
+// lands in the consent audit trail, marked as a bulk change. Contacts already opted out are left alone.
+const optOutContacts = async (ids, { note, changedBy }) => {
+  const { byId, missing } = await loadSelected(ids, { consent: 1 });
+  const results = [];
+  for (const [id, contact] of byId) {
+    if (contact.consent?.status === 'opted_out') {
+      results.push({ id, status: 'unchanged' });
+      continue;
+    }
+    try {
+      await setConsent(id, { status: 'opted_out', source: 'bulk', note, changedBy });
+      results.push({ id, status: 'updated' });
+    } catch (err) {
+      console.error(`Error updating consent of contact ${id}:`, err);
+      results.push({ id, status: 'failed', message: 'Could not update consent.' });
+    }
+  }
+  return [...results, ...missing];
+};
+
+module.exports = {
+  BulkError,
+  MAX_BULK_CONTACTS,
+  BULK_STATUSES,
+  resolveSelection,
+  summarize,
+  deleteContacts,
+  updateTags,
+  updateGroupMembership,
+  optOutContacts,
+};
@@ -0,0 +1,70 @@
+const Contact = require('../models/Contact');
+const ConsentEvent = require('../models/ConsentEvent');
+const Suppression = require('../models/Suppression');
+
+// Inbound messages consisting of just one of these words opt the sender out.
+const OPT_OUT_KEYWORDS = new Set(['stop', 'stopall', 'unsubscribe', 'cancel', 'end', 'quit', 'optout', 'opt out']);
+
+const isOptOutKeyword = (text) => {
+  if (typeof text !== 'string') return false;
+  const normalized = text.trim().toLowerCase().replace(/[^a-z ]/g, '').replace(/\s+/g, ' ').trim();
+  return OPT_OUT_KEYWORDS.has(normalized);
+};
+
+// Sets a contact's consent state and appends the change to the audit trail. Returns the updated
+// contact, or null if it does not exist. Setting the state it already has is recorded only when
+// made by a user, so a repeated STOP does not flood the trail.
+const setConsent = async (contactId, { status, source, note = '', changedBy = null }) => {
+  const contact = await Contact.findById(contactId);
+  if (!contact) return null;
+
+  const previousStatus = contact.consent?.status || 'opted_in';
+  if (previousStatus === status && source !== 'manual') return contact;
+
+  contact.consent = { status, source, changedAt: new Date() };
+  await contact.save();
+  await ConsentEvent.create({
+    contact: contact._id,
+    phone: contact.phone,
+    status,
+    previousStatus,
+    source,
+    note,
+    changedBy,
+  });
+  return contact;
+};
+
+// Narrows a contact filter to the contacts that may receive broadcasts: not opted out and not on
+// the suppression list.
+const sendableFilter = async (filter) => {
+  const suppressedPhones = await Suppression.distinct('phone');
+  return {
+    $and: [
+      filter,
+      { 'consent.status': { $ne: 'opted_out' } },
+      ...(suppressedPhones.length > 0 ? [{ phone: { $nin: suppressedPhones } }] : []),
+    ],
+  };
+};
+
+// Counts an audience, split into contacts that will be messaged and those left out.
+const countSendable = async (filter) => {
+  const [total, sendable] = await Promise.all([
+    Contact.countDocuments(filter),
+    sendableFilter(filter).then((narrowed) => Contact.countDocuments(narrowed)),
+  ]);
+  return { total, sendable, skipped: total - sendable };
+};
+
+// Checked again just before each message goes out, since a recipient can opt out while a
+// campaign is still sending.
+const isSuppressed = async (contactId, phone) => {
+  const [optedOut, listed] = await Promise.all([
+    contactId ? Contact.exists({ _id: contactId, 'consent.status': 'opted_out' }) : null,
+    Suppression.exists({ phone }),
+  ]);
+  return Boolean(optedOut || listed);
+};
+
+module.exports = { isOptOutKeyword, setConsent, sendableFilter, countSendable, isSuppressed };
@@ -0,0 +1,79 @@
+const { Transform } = require('stream');
+const { stringify } = require('csv-stringify');
+
+// The CSV uses the same `name,phone` header the importer suggests by default, so an export
+// can be imported elsewhere without remapping columns.
+const CSV_COLUMNS = ['name', 'phone'];
+
+// Spreadsheet apps evaluate cells starting with these characters as formulas. Phones always
+// start with "+", so only free-text fields are guarded.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const guardFormula = (value) => (FORMULA_PREFIX.test(value) ? `'${value}` : value);
+// Undoes guardFormula, so importing an export gives back the original values.
+const unguardFormula = (value) => (value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1)) ? value.slice(1) : value);
+
+const createCsvStream = () => {
+  const toRecord = new Transform({
+    objectMode: true,
+    transform(contact, encoding, callback) {
+      callback(null, { name: guardFormula(contact.name || ''), phone: contact.phone });
+    },
+  });
+  const csv = stringify({ header: true, columns: CSV_COLUMNS, bom: true });
+  toRecord.pipe(csv);
+  return { input: toRecord, output: csv };
+};
+
+// vCard 3.0 (RFC 2426): escape special characters and fold lines longer than 75 octets.
+const escapeVCard = (value) => value
+  .replace(/\\/g, '\\\\')
+  .replace(/\n/g, '\\n')
+  .replace(/,/g, '\\,')
+  .replace(/;/g, '\\;');
+
+const foldLine = (line) => {
+  const chunks = [];
+  let current = '';
+  for (const char of line) {
+    if (Buffer.byteLength(current + char) > 75) {
+      chunks.push(current);
+      current = ` ${char}`;
+    } else {
+      current += char;
+    }
+  }
+  chunks.push(current);
+  return chunks.join('\r\n');
+};
+
+const toVCard = (contact) => {
+  const name = escapeVCard(contact.name || contact.phone);
+  return [
+    'BEGIN:VCARD',
+    'VERSION:3.0',
+    `FN:${name}`,
+    `N:${name};;;;`,
+    `TEL;TYPE=CELL:${contact.phone}`,
+    'END:VCARD',
+  ].map(foldLine).join('\r\n') + '\r\n';
+};
+
+const createVCardStream = () => {
+  const stream = new Transform({
+    writableObjectMode: true,
+    transform(contact, encoding, callback) {
+      callback(null, toVCard(contact));
+    },
+  });
+  return { input: stream, output: stream };
+};
+
+const EXPORT_FORMATS = {
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv', create: createCsvStream },
+  vcf: { contentType: 'text/vcard; charset=utf-8', extension: 'vcf', create: createVCardStream },
+};
+
+// The export format called `name`, or null for anything that is not one of EXPORT_FORMATS.
+const findExportFormat = (name) => (typeof name === 'string' && Object.hasOwn(EXPORT_FORMATS, name) ? EXPORT_FORMATS[name] : null);
+
+module.exports = { EXPORT_FORMATS, findExportFormat, unguardFormula };
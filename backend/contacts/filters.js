@@ -0,0 +1,95 @@
+const mongoose = require('mongoose');
+const { normalizeTags } = require('./audience');
+const { phoneSearchPrefixes } = require('./phone');
+const { AttributeError, ATTRIBUTE_OPERATORS, coerceAttributeValue, findDefinition } = require('./attributes');
+
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Reads the `attributes` query parameter of the contact list: a JSON array of conditions such as
+// [{ "key": "city", "op": "eq", "value": "Berlin" }, { "key": "orders", "op": "gte", "value": 3 }].
+// Returns the MongoDB clauses for them; every condition has to match.
+const buildAttributeFilter = (param, definitions) => {
+  if (param === undefined || param === '') return [];
+  let conditions;
+  try {
+    conditions = typeof param === 'string' ? JSON.parse(param) : param;
+  } catch (err) {
+    throw new AttributeError('Attribute filters must be a JSON array.');
+  }
+  if (!Array.isArray(conditions)) throw new AttributeError('Attribute filters must be a JSON array.');
+
+  return conditions.map((condition) => {
+    const { key, op, value } = condition || {};
+    const definition = findDefinition(definitions, key);
+    const path = `attributes.${key}`;
+    if (op === 'exists') return { [path]: { $exists: true, $nin: [null, ''] } };
+    if (op === 'missing') return { $or: [{ [path]: { $exists: false } }, { [path]: null }, { [path]: '' }] };
+    if (!ATTRIBUTE_OPERATORS[definition.type].includes(op)) {
+      throw new AttributeError(`"${op}" is not a filter for ${definition.type} attributes.`);
+    }
+    if (op === 'in') {
+      const values = (Array.isArray(value) ? value : [value])
+        .map((item) => coerceAttributeValue(definition, item))
+        .filter((item) => item !== null);
+      return { [path]: { $in: values } };
+    }
+    const coerced = coerceAttributeValue(definition, value);
+    if (coerced === null) {
+      throw new AttributeError(`Please provide a value to filter ${definition.label || key} by.`);
+    }
+    if (op === 'contains') return { [path]: new RegExp(escapeRegex(coerced), 'i') };
+    return { [path]: { [`$${op}`]: coerced } };
+  });
+};
+
+// Builds the MongoDB filter for contact queries from request query parameters.
+// Shared by the contact list and the export so both always select the same contacts.
+// `attributeDefinitions` are the workspace's custom attributes (WorkspaceSettings.contactAttributes);
+// an AttributeError is thrown for an attribute filter that does not fit them. `defaultCountry` is
+// the workspace's, for searching local numbers.
+const buildContactFilter = (query = {}, attributeDefinitions = [], defaultCountry = null) => {
+  const filter = {};
+
+  // Names match anywhere, ignoring case, which no index can narrow down: name searches read the
+  // whole name index. Numbers are stored as E.164 and match from their start, so each possible
+  // prefix (see phoneSearchPrefixes) is a range on the unique phone index.
+  if (typeof query.search === 'string' && query.search.trim()) {
+    filter.$or = [
+      { name: new RegExp(escapeRegex(query.search.trim()), 'i') },
+      ...phoneSearchPrefixes(query.search, defaultCountry).map((prefix) => ({ phone: new RegExp(`^${escapeRegex(prefix)}`) })),
+    ];
+  }
+
+  // `tags` and `excludeTags` are comma-separated; a contact matches if it has any of `tags`.
+  const tags = normalizeTags(String(query.tags || '').split(','));
+  const excludeTags = normalizeTags(String(query.excludeTags || '').split(','));
+  if (tags.length > 0 || excludeTags.length > 0) {
+    filter.tags = {};
+    if (tags.length > 0) filter.tags.$in = tags;
+    if (excludeTags.length > 0) filter.tags.$nin = excludeTags;
+  }
+
+  if (query.group && mongoose.Types.ObjectId.isValid(query.group)) {
+    filter.groups = new mongoose.Types.ObjectId(query.group);
+  }
+
+  if (typeof query.country === 'string' && query.country.trim()) {
+    filter.phoneCountry = query.country.trim().toUpperCase();
+  }
+
+  // Contacts created before consent tracking have no status and count as opted in.
+  if (query.consent === 'opted_out') {
+    filter['consent.status'] = 'opted_out';
+  } else if (query.consent === 'opted_in') {
+    filter['consent.status'] = { $ne: 'opted_out' };
+  }
+
+  const attributeClauses = buildAttributeFilter(query.attributes, attributeDefinitions);
+  if (attributeClauses.length > 0) {
+    filter.$and = attributeClauses;
+  }
+
+  return filter;
+};
+
+module.exports = { buildContactFilter, escapeRegex };
@@ -0,0 +1,234 @@
+const fs = require('fs');
+const path = require('path');
+const { parse } = require('csv-parse');
+const ExcelJS = require('exceljs');
+const Contact = require('../models/Contact');
+const { PhoneError, normalizePhone } = require('./phone');
+const { unguardFormula } = require('./exporter');
+
+// Rows are validated and written in batches so memory use stays flat regardless of file size.
+const BATCH_SIZE = 500;
+const PREVIEW_ROWS = 20;
+// Only this many created rows, and this many duplicate or invalid rows, are reported back; the
+// summary counts all of them.
+const MAX_REPORTED_ROWS = 500;
+
+// Raised for problems with the uploaded file itself, reported to the user as a 400.
+class ImportError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'ImportError';
+  }
+}
+
+const SUPPORTED_EXTENSIONS = ['.csv', '.xlsx'];
+
+const formatFromFilename = (filename) => {
+  const ext = path.extname(filename || '').toLowerCase();
+  return SUPPORTED_EXTENSIONS.includes(ext) ? ext.slice(1) : null;
+};
+
+// ExcelJS cells can hold numbers, dates, rich text, hyperlinks or formula results.
+const cellToString = (value) => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') {
+    if (Array.isArray(value.richText)) return value.richText.map((part) => part.text).join('');
+    if (value.text !== undefined) return cellToString(value.text);
+    if (value.result !== undefined) return cellToString(value.result);
+    if (value instanceof Date) return value.toISOString();
+  }
+  return String(value).trim();
+};
+
+const countLineBreaks = (values) => values.reduce((count, value) => count + (value.match(/\r\n|\r|\n/g) || []).length, 0);
+
+// Yields every non-empty row of the file as { values, line }, where `values` is an array of strings
+// and `line` the row's 1-based line in the file. The first yielded row is the header row.
+async function* readCsvRows(filePath) {
+  const parser = fs.createReadStream(filePath).pipe(parse({
+    bom: true,
+    skip_empty_lines: true,
+    relax_column_count: true,
+    trim: true,
+    info: true,
+  }));
+  for await (const { record, info } of parser) {
+    // info.lines is the line the record ends on, which differs from its first line only when a
+    // quoted value spans several lines; the record's own line count is subtracted to get the start.
+    yield { values: record, line: info.lines - countLineBreaks(record) };
+  }
+}
+
+async function* readXlsxRows(filePath) {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookReader(filePath, { sharedStrings: 'cache', hyperlinks: 'ignore', styles: 'ignore' });
+  for await (const worksheet of workbook) {
+    for await (const row of worksheet) {
+      // row.values is 1-indexed, with an empty slot at 0.
+      const values = Array.from(row.values.slice(1), cellToString);
+      if (values.some(Boolean)) yield { values, line: row.number };
+    }
+    break; // Only the first worksheet is imported
+  }
+}
+
+// Parser failures mean the file is malformed, so they are surfaced as ImportErrors.
+async function* readRows(filePath, format) {
+  try {
+    yield* (format === 'xlsx' ? readXlsxRows(filePath) : readCsvRows(filePath));
+  } catch (err) {
+    throw new ImportError(err.message);
+  }
+}
+
+// Guesses which column holds which field from the header names.
+const suggestMapping = (columns) => {
+  const find = (pattern) => {
+    const index = columns.findIndex((column) => pattern.test(column));
+    return index === -1 ? null : columns[index];
+  };
+  return {
+    name: find(/name/i),
+    phone: find(/phone|mobile|number|whatsapp|msisdn/i),
+  };
+};
+
+// Reads the header row and the first few data rows so the user can map columns.
+const previewFile = async (filePath, format) => {
+  let columns = null;
+  const rows = [];
+  let totalRows = 0;
+  for await (const { values } of readRows(filePath, format)) {
+    if (!columns) {
+      columns = values.map((value, index) => value || `Column ${index + 1}`);
+      continue;
+    }
+    totalRows += 1;
+    if (rows.length < PREVIEW_ROWS) {
+      rows.push(Object.fromEntries(columns.map((column, index) => [column, values[index] ?? ''])));
+    }
+  }
+  if (!columns) {
+    throw new ImportError('The file is empty.');
+  }
+  return { columns, rows, totalRows, suggestedMapping: suggestMapping(columns) };
+};
+
+const validationMessage = (err) => Object.values(err.errors).map((e) => e.message).join(', ');
+
+// Validates a batch of rows, marks duplicates, and (unless dryRun) inserts the rest.
+// Each entry of `batch` is { row, name, phone } and gets `status` and `reason` assigned; valid
+// phone numbers are replaced by their normalized E.164 form.
+const processBatch = async (batch, seenPhones, dryRun, defaultCountry) => {
+  const candidates = [];
+  for (const entry of batch) {
+    try {
+      const normalized = normalizePhone(entry.phone, defaultCountry);
+      Object.assign(entry, { phone: normalized.phone, phoneCountry: normalized.country, phoneType: normalized.type });
+    } catch (err) {
+      if (!(err instanceof PhoneError)) throw err;
+      entry.status = 'invalid';
+      entry.reason = err.message;
+      continue;
+    }
+    const error = new Contact({ name: entry.name, phone: entry.phone }).validateSync();
+    if (error) {
+      entry.status = 'invalid';
+      entry.reason = validationMessage(error);
+    } else if (seenPhones.has(entry.phone)) {
+      entry.status = 'duplicate';
+      entry.reason = 'Phone number appears earlier in the file.';
+    } else {
+      seenPhones.add(entry.phone);
+      candidates.push(entry);
+    }
+  }
+
+  const existing = await Contact.find({ phone: { $in: candidates.map((c) => c.phone) } }, { phone: 1 });
+  const existingPhones = new Set(existing.map((c) => c.phone));
+  const toInsert = [];
+  for (const entry of candidates) {
+    if (existingPhones.has(entry.phone)) {
+      entry.status = 'duplicate';
+      entry.reason = 'Phone number already exists.';
+    } else {
+      entry.status = 'created';
+      toInsert.push(entry);
+    }
+  }
+
+  if (dryRun || toInsert.length === 0) return;
+
+  try {
+    await Contact.insertMany(toInsert.map(({ name, phone, phoneCountry, phoneType }) => ({
+      name,
+      phone,
+      phoneCountry,
+      phoneType,
+      consent: { source: 'import' },
+    })), { ordered: false });
+  } catch (err) {
+    // With ordered: false every valid document is still written; only the failed ones need relabelling.
+    // A duplicate here means another request inserted the same number since the lookup above.
+    if (!err.writeErrors) throw err;
+    for (const writeError of err.writeErrors) {
+      const entry = toInsert[writeError.index];
+      entry.status = writeError.code === 11000 ? 'duplicate' : 'invalid';
+      entry.reason = writeError.code === 11000 ? 'Phone number already exists.' : writeError.errmsg;
+    }
+  }
+};
+
+// Imports contacts from a CSV/XLSX file. `mapping` is { name: columnName, phone: columnName }.
+// Phone numbers without a country code are read as numbers of `defaultCountry`.
+// Returns { summary: { total, created, duplicate, invalid }, rows: [{ row, name, phone, status, reason }],
+// omittedRows }. `rows` holds the first MAX_REPORTED_ROWS created rows and the first MAX_REPORTED_ROWS
+// duplicate or invalid rows in file order, `row` being the 1-based line in the file as a spreadsheet
+// or editor shows it; `omittedRows` counts the rows left out of the list.
+const importContacts = async ({ filePath, format, mapping, dryRun, defaultCountry = null }) => {
+  let nameIndex = -1;
+  let phoneIndex = -1;
+  let isHeader = true;
+  let batch = [];
+  const summary = { total: 0, created: 0, duplicate: 0, invalid: 0 };
+  const createdRows = [];
+  const problemRows = [];
+  const seenPhones = new Set();
+
+  const processAndCount = async () => {
+    await processBatch(batch, seenPhones, dryRun, defaultCountry);
+    for (const entry of batch) {
+      summary.total += 1;
+      summary[entry.status] += 1;
+      const reported = entry.status === 'created' ? createdRows : problemRows;
+      if (reported.length < MAX_REPORTED_ROWS) reported.push(entry);
+    }
+    batch = [];
+  };
+
+  for await (const { values, line } of readRows(filePath, format)) {
+    if (isHeader) {
+      isHeader = false;
+      nameIndex = values.indexOf(mapping.name);
+      phoneIndex = values.indexOf(mapping.phone);
+      if (nameIndex === -1 || phoneIndex === -1) {
+        throw new ImportError('The mapped name and phone columns were not found in the file header.');
+      }
+      continue;
+    }
+
+    // Exports guard formula-like cells with a leading quote (see contacts/exporter.js).
+    const entry = {
+      row: line,
+      name: unguardFormula(values[nameIndex] ?? ''),
+      phone: unguardFormula(values[phoneIndex] ?? ''),
+    };
+    batch.push(entry);
+    if (batch.length >= BATCH_SIZE) await processAndCount();
+  }
+  if (batch.length > 0) await processAndCount();
+
+  const rows = [...createdRows, ...problemRows].sort((a, b) => a.row - b.row);
+  return { summary, rows, omittedRows: summary.total - rows.length };
+};
+
+module.exports = { ImportError, formatFromFilename, previewFile, importContacts };
@@ -0,0 +1,38 @@
+// Contacts can have a preferred language for messages, stored as a canonical BCP 47 code such as
+// "en", "es" or "pt-BR". Campaigns can carry a version of their text per language, and each
+// recipient gets the version for their language (see campaigns/translations.js).
+class LanguageError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'LanguageError';
+  }
+}
+
+const languageNames = new Intl.DisplayNames(['en'], { type: 'language', fallback: 'none' });
+
+// Resolves a language code to its English name, e.g. "pt-BR" to "Brazilian Portuguese", or null
+// for anything that is not a known language.
+const languageName = (code) => {
+  try {
+    return languageNames.of(code) || null;
+  } catch (err) {
+    return null;
+  }
+};
+
+const isValidLanguage = (code) => typeof code === 'string' && Boolean(languageName(code));
+
+// Returns the canonical form of a language code ("PT-br" becomes "pt-BR"), null for an empty
+// value, or throws a LanguageError.
+const normalizeLanguage = (value) => {
+  if (value === undefined || value === null || value === '') return null;
+  if (!isValidLanguage(value)) {
+    throw new LanguageError(`"${value}" is not a language code such as "en", "es" or "pt-BR".`);
+  }
+  return Intl.getCanonicalLocales(value)[0];
+};
+
+// The language without its region or script: "pt" for "pt-BR".
+const baseLanguage = (code) => code.split('-')[0];
+
+module.exports = { LanguageError, languageName, isValidLanguage, normalizeLanguage, baseLanguage };
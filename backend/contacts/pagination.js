@@ -0,0 +1,76 @@
+const mongoose = require('mongoose');
+
+// Cursor-based paging for the contact list. Each page is sorted by one field plus `_id` as a
+// tie-breaker, and the cursor holds the last row's values, so the next page starts right after it
+// with an index range scan instead of skipping over every earlier row. The sort indexes live on
+// the Contact model.
+class CursorError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'CursorError';
+  }
+}
+
+// Sortable fields, by the `sort` query value.
+const CONTACT_SORTS = {
+  name: 'name',
+  phone: 'phone',
+  createdAt: 'createdAt',
+};
+// Unique fields need no tie-breaker, so their own index serves the sort.
+const UNIQUE_SORT_FIELDS = ['phone'];
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+const encodeCursor = (contact, field) => Buffer
+  .from(JSON.stringify({ v: contact[field], id: contact._id.toString() }))
+  .toString('base64url');
+
+const decodeCursor = (cursor, field) => {
+  let decoded;
+  try {
+    decoded = JSON.parse(Buffer.from(String(cursor), 'base64url').toString('utf8'));
+  } catch (err) {
+    throw new CursorError('Invalid page cursor.');
+  }
+  if (!decoded || !mongoose.Types.ObjectId.isValid(decoded.id) || decoded.v === undefined) {
+    throw new CursorError('Invalid page cursor.');
+  }
+  const value = field === 'createdAt' ? new Date(decoded.v) : decoded.v;
+  if (value instanceof Date && Number.isNaN(value.getTime())) {
+    throw new CursorError('Invalid page cursor.');
+  }
+  return { value, id: new mongoose.Types.ObjectId(decoded.id) };
+};
+
+// Reads `sort` (name, phone or createdAt), `order` (asc or desc), `limit` and `cursor` from the
+// query. Returns the MongoDB sort, the page size and the filter that selects rows after the cursor
+// (null on the first page). Throws a CursorError for values it cannot use.
+const parseContactPage = (query = {}) => {
+  const sortName = query.sort || 'name';
+  if (typeof sortName !== 'string' || !Object.hasOwn(CONTACT_SORTS, sortName)) {
+    throw new CursorError(`Contacts can be sorted by ${Object.keys(CONTACT_SORTS).join(', ')}.`);
+  }
+  const field = CONTACT_SORTS[sortName];
+  const order = query.order || (field === 'createdAt' ? 'desc' : 'asc');
+  if (order !== 'asc' && order !== 'desc') {
+    throw new CursorError('Sort order must be "asc" or "desc".');
+  }
+  const limit = Math.min(Math.max(parseInt(query.limit, 10) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const direction = order === 'asc' ? 1 : -1;
+
+  let after = null;
+  if (query.cursor) {
+    const { value, id } = decodeCursor(query.cursor, field);
+    const past = direction === 1 ? '$gt' : '$lt';
+    after = UNIQUE_SORT_FIELDS.includes(field)
+      ? { [field]: { [past]: value } }
+      : { $or: [{ [field]: { [past]: value } }, { [field]: value, _id: { [past]: id } }] };
+  }
+
+  const sort = UNIQUE_SORT_FIELDS.includes(field) ? { [field]: direction } : { [field]: direction, _id: direction };
+  return { field, sort, limit, after };
+};
+
+module.exports = { CursorError, CONTACT_SORTS, parseContactPage, encodeCursor };
@@ -0,0 +1,87 @@
+const { parsePhoneNumberFromString, isSupportedCountry, getCountryCallingCode } = require('libphonenumber-js/max');
+
+// Phone numbers are accepted the way people type them - "0300 1234567", "(212) 555-1234",
+// "+1 212-555-1234", "0044 20 7946 0958" - and always stored in E.164 ("+12125551234"), so the
+// same number typed two ways is the same contact. Numbers without a country code are read as
+// local numbers of the workspace's default country (see models/WorkspaceSettings.js).
+//
+// frontend/src/utils/phone.ts applies the same rules with the same library so the contact form can
+// show the normalized number before it is saved.
+class PhoneError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'PhoneError';
+  }
+}
+
+// libphonenumber's number types, lowercased.
+const PHONE_TYPES = [
+  'mobile',
+  'fixed_line',
+  'fixed_line_or_mobile',
+  'voip',
+  'toll_free',
+  'premium_rate',
+  'shared_cost',
+  'personal_number',
+  'pager',
+  'uan',
+  'voicemail',
+  'unknown',
+];
+
+const isValidCountry = (country) => typeof country === 'string' && isSupportedCountry(country);
+
+// Returns { phone, country, type } for a number as typed, or throws a PhoneError explaining why
+// it cannot be used. `defaultCountry` is an ISO 3166 code such as 'US', or null.
+const normalizePhone = (input, defaultCountry = null) => {
+  const raw = String(input ?? '').trim();
+  if (!raw) {
+    throw new PhoneError('Please provide a phone number.');
+  }
+  const country = isValidCountry(defaultCountry) ? defaultCountry : undefined;
+  const parsed = parsePhoneNumberFromString(raw, country);
+  if (!parsed) {
+    throw new PhoneError(country || raw.startsWith('+')
+      ? `"${raw}" is not a phone number.`
+      : `"${raw}" has no country code. Start it with + and the country code, or set a default country.`);
+  }
+  if (!parsed.isValid()) {
+    throw new PhoneError(`"${raw}" is not a valid ${parsed.country ? `${parsed.country} ` : ''}phone number.`);
+  }
+  return {
+    phone: parsed.number,
+    country: parsed.country || null,
+    type: parsed.getType()?.toLowerCase() || 'unknown',
+  };
+};
+
+// The digits of a search string that looks like (part of) a phone number, or null. A leading
+// trunk "0" is dropped so "0300 123" still finds "+92300123...".
+const phoneSearchDigits = (search) => {
+  const value = String(search || '').trim();
+  if (!/^[+\d\s().-]+$/.test(value)) return null;
+  const digits = value.replace(/\D/g, '').replace(/^0+/, '');
+  return digits.length >= 3 ? digits : null;
+};
+
+// The E.164 prefixes a search string that looks like the start of a phone number can stand for,
+// or an empty list. "+92 300" is international; "0300 123" is a local number of `defaultCountry`
+// ("+92300123..." for PK), and "0044 20" international again; "92300" without a "+" could be
+// either, so both are returned.
+const phoneSearchPrefixes = (search, defaultCountry) => {
+  const value = String(search || '').trim();
+  if (!/^[+\d\s().-]+$/.test(value)) return [];
+  const digits = value.replace(/\D/g, '');
+  if (digits.length < 3) return [];
+  if (value.startsWith('+')) return [`+${digits}`];
+  // "00" is the international access code in most countries.
+  if (digits.startsWith('00')) return digits.length > 2 ? [`+${digits.slice(2)}`] : [];
+  const prefixes = [`+${digits.replace(/^0+/, '')}`];
+  if (isValidCountry(defaultCountry)) {
+    prefixes.push(`+${getCountryCallingCode(defaultCountry)}${digits.replace(/^0/, '')}`);
+  }
+  return Array.from(new Set(prefixes)).filter((prefix) => prefix.length > 1);
+};
+
+module.exports = { PhoneError, PHONE_TYPES, isValidCountry, normalizePhone, phoneSearchDigits, phoneSearchPrefixes };
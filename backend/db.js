@@ -0,0 +1,45 @@
+const mongoose = require('mongoose');
+
+// --- Database Connection ---
+// We cache the connection and promise to avoid reconnecting on every serverless function invocation.
+// This is the recommended pattern for Mongoose on serverless platforms like Vercel.
+let cached = {
+  conn: null,
+  promise: null,
+};
+
+const connectToDatabase = async () => {
+  if (cached.conn) {
+    console.log('Using cached database connection');
+    return cached.conn;
+  }
+
+  if (!cached.promise) {
+    const MONGO_URI = process.env.MONGO_URI;
+    if (!MONGO_URI) {
+      throw new Error('MONGO_URI not found in environment variables. Database features will not be available.');
+    }
+    
+    console.log('Creating new database connection...');
+    const opts = {
+      bufferCommands: false, // Disable Mongoose's buffering so commands fail immediately if connection is lost
+    };
+    
+    cached.promise = mongoose.connect(MONGO_URI, opts).then((mongooseInstance) => {
+      console.log('MongoDB Connected successfully.');
+      return mongooseInstance;
+    });
+  }
+  
+  try {
+    cached.conn = await cached.promise;
+  } catch (e) {
+    cached.promise = null; // Reset promise on error to allow retry
+    console.error('MongoDB connection error:', e);
+    throw e; // Rethrow to be caught in the route handler
+  }
+
+  return cached.conn;
+};
+
+module.exports = { connectToDatabase };
@@ -0,0 +1,287 @@
+// Local stand-in for the parts of the WhatsApp Cloud (Graph) API this app uses.
+// Run it with `npm run fake-graph`, then point the backend at it:
+//   MESSAGE_PROVIDER=cloud-api GRAPH_API_BASE_URL=http://localhost:4010
+//   WHATSAPP_ACCESS_TOKEN=fake-token WHATSAPP_PHONE_NUMBER_ID=1234567890
+//
+// Recipients can be made to fail on purpose to exercise error handling:
+//   FAKE_GRAPH_FAIL_NUMBERS        - comma-separated numbers rejected as undeliverable (131026)
+//   FAKE_GRAPH_RATE_LIMIT_NUMBERS  - comma-separated numbers rejected with a rate limit (130429)
+//
+// With FAKE_GRAPH_WEBHOOK_URL (e.g. http://localhost:3001/api/webhook) and FAKE_GRAPH_APP_SECRET
+// (matching WHATSAPP_APP_SECRET) set, every accepted message is followed by signed "sent",
+// "delivered" and "read" status callbacks, the way Meta reports them. A customer reply can be
+// simulated with `POST /dev/inbound` and a JSON body of { "from": "+14155552671", "text": "Hi", "name": "Jane" }.
+//
+// Message templates (WHATSAPP_BUSINESS_ACCOUNT_ID can be anything) start out PENDING and are
+// reviewed after FAKE_GRAPH_TEMPLATE_REVIEW_MS (default 2000): names starting with "reject_" are
+// rejected, everything else is approved. Template messages are only accepted for approved templates.
+const crypto = require('crypto');
+const express = require('express');
+const multer = require('multer');
+
+const graphError = (res, status, code, message, details) => res.status(status).json({
+  error: {
+    message,
+    type: 'OAuthException',
+    code,
+    error_data: details ? { messaging_product: 'whatsapp', details } : undefined,
+    fbtrace_id: crypto.randomBytes(8).toString('hex'),
+  },
+});
+
+const STATUS_CALLBACK_DELAY_MS = 500;
+
+// Number of `{{n}}` parameters in a template component's text.
+const countParameters = (text) => new Set(Array.from(String(text || '').matchAll(/\{\{(\d+)\}\}/g), ([, n]) => n)).size;
+
+// Returns an error message if a template send does not fit the stored template, like Meta's 132000.
+const templateParameterMismatch = (template, components = []) => {
+  for (const type of ['HEADER', 'BODY']) {
+    const stored = template.components.find((c) => c.type === type);
+    if (!stored || (type === 'HEADER' && stored.format && stored.format !== 'TEXT')) continue;
+    const expected = countParameters(stored.text);
+    const sent = components.find((c) => c.type === type.toLowerCase())?.parameters?.length || 0;
+    if (expected !== sent) return `${type.toLowerCase()}: expected ${expected} parameters, received ${sent}`;
+  }
+  return null;
+};
+
+// Posts a webhook payload signed the same way Meta signs X-Hub-Signature-256.
+const postSignedWebhook = async (webhookUrl, appSecret, payload) => {
+  const body = JSON.stringify(payload);
+  const signature = crypto.createHmac('sha256', appSecret).update(body).digest('hex');
+  try {
+    const response = await fetch(webhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Hub-Signature-256': `sha256=${signature}` },
+      body,
+    });
+    console.log(`[fake graph] webhook -> ${response.status}`);
+  } catch (err) {
+    console.error(`[fake graph] webhook delivery failed: ${err.message}`);
+  }
+};
+
+const webhookPayload = (phoneNumberId, value) => ({
+  object: 'whatsapp_business_account',
+  entry: [{
+    id: 'fake-waba-id',
+    changes: [{
+      field: 'messages',
+      value: {
+        messaging_product: 'whatsapp',
+        metadata: { display_phone_number: phoneNumberId, phone_number_id: phoneNumberId },
+        ...value,
+      },
+    }],
+  }],
+});
+
+const unixNow = () => Math.floor(Date.now() / 1000).toString();
+
+const statusPayload = (phoneNumberId, messageId, recipientId, status) => webhookPayload(phoneNumberId, {
+  statuses: [{ id: messageId, status, timestamp: unixNow(), recipient_id: recipientId }],
+});
+
+const createFakeGraphApi = ({
+  accessToken = null,
+  failNumbers = [],
+  rateLimitNumbers = [],
+  webhookUrl = null,
+  appSecret = null,
+  templateReviewMs = 2000,
+} = {}) => {
+  const app = express();
+  const upload = multer({ storage: multer.memoryStorage() });
+
+  // Everything the fake has received, so a test or a developer can inspect it.
+  const state = { media: [], messages: [], templates: [] };
+  app.locals.state = state;
+
+  app.use(express.json());
+
+  // Not part of the Graph API: lets a developer play the customer and send an inbound message.
+  app.post('/dev/inbound', async (req, res) => {
+    if (!webhookUrl || !appSecret) {
+      return res.status(400).json({ message: 'Set FAKE_GRAPH_WEBHOOK_URL and FAKE_GRAPH_APP_SECRET first.' });
+    }
+    const from = String(req.body.from || '').replace(/^\+/, '');
+    if (!from) return res.status(400).json({ message: '"from" is required.' });
+
+    const id = `wamid.${crypto.randomBytes(24).toString('base64url')}`;
+    await postSignedWebhook(webhookUrl, appSecret, webhookPayload('fake-phone-number-id', {
+      contacts: [{ profile: { name: req.body.name || 'Fake Customer' }, wa_id: from }],
+      messages: [{ from, id, timestamp: unixNow(), type: 'text', text: { body: req.body.text || '' } }],
+    }));
+    res.json({ id });
+  });
+
+  app.use((req, res, next) => {
+    const header = req.headers.authorization || '';
+    const token = header.startsWith('Bearer ') ? header.slice(7) : null;
+    if (!token || (accessToken && token !== accessToken)) {
+      return graphError(res, 401, 190, 'Invalid OAuth access token - Cannot parse access token');
+    }
+    next();
+  });
+
+  app.post('/:version/:phoneNumberId/media', upload.single('file'), (req, res) => {
+    if (req.body.messaging_product !== 'whatsapp' || !req.file) {
+      return graphError(res, 400, 100, 'Invalid parameter', 'messaging_product and file are required');
+    }
+    const id = `${crypto.randomInt(1e6, 9e6)}${crypto.randomInt(1e8, 9e8)}`;
+    state.media.push({ id, filename: req.file.originalname, mimetype: req.file.mimetype, size: req.file.size, buffer: req.file.buffer });
+    console.log(`[fake graph] media ${id}: ${req.file.originalname} (${req.file.mimetype}, ${req.file.size} bytes)`);
+    res.json({ id });
+  });
+
+  app.post('/:version/:phoneNumberId/messages', (req, res) => {
+    const { messaging_product, to, type } = req.body;
+    if (messaging_product !== 'whatsapp' || !to || !type || !req.body[type]) {
+      return graphError(res, 400, 100, 'Invalid parameter', 'messaging_product, to, type and a matching type object are required');
+    }
+    if (!/^\d{6,15}$/.test(to)) {
+      return graphError(res, 400, 131009, 'Parameter value is not valid', `Recipient "${to}" is not a valid phone number`);
+    }
+    if (rateLimitNumbers.includes(to)) {
+      return graphError(res, 429, 130429, 'Rate limit hit', 'Cloud API message throughput has been reached');
+    }
+    if (failNumbers.includes(to)) {
+      return graphError(res, 400, 131026, 'Message Undeliverable', 'Message failed to send because the recipient is not a WhatsApp user');
+    }
+
+    if (type === 'template') {
+      const { name, language, components } = req.body.template;
+      const template = state.templates.find((t) => t.name === name && t.language === language?.code);
+      if (!template || template.status !== 'APPROVED') {
+        return graphError(res, 404, 132001, 'Template name does not exist in the translation', `template name (${name}) does not exist in ${language?.code}`);
+      }
+      const mismatch = templateParameterMismatch(template, components);
+      if (mismatch) {
+        return graphError(res, 400, 132000, 'Number of parameters does not match the expected number of params', mismatch);
+      }
+    }
+
+    const id = `wamid.${crypto.randomBytes(24).toString('base64url')}`;
+    state.messages.push({ id, to, type, payload: req.body, receivedAt: new Date() });
+    console.log(`[fake graph] message ${id} -> ${to} (${type})`);
+
+    if (webhookUrl && appSecret) {
+      ['sent', 'delivered', 'read'].forEach((status, index) => {
+        setTimeout(
+          () => postSignedWebhook(webhookUrl, appSecret, statusPayload(req.params.phoneNumberId, id, to, status)),
+          STATUS_CALLBACK_DELAY_MS * (index + 1)
+        );
+      });
+    }
+    res.json({
+      messaging_product: 'whatsapp',
+      contacts: [{ input: to, wa_id: to }],
+      messages: [{ id }],
+    });
+  });
+
+  const reviewTemplate = (template) => {
+    template.status = 'PENDING';
+    setTimeout(() => {
+      template.status = template.name.startsWith('reject_') ? 'REJECTED' : 'APPROVED';
+      template.rejected_reason = template.status === 'REJECTED' ? 'INVALID_FORMAT' : 'NONE';
+      console.log(`[fake graph] template ${template.name} (${template.language}) ${template.status}`);
+    }, templateReviewMs);
+  };
+
+  app.get('/:version/:wabaId/message_templates', (req, res) => {
+    const limit = Math.min(Number(req.query.limit) || 25, 100);
+    const start = Number(req.query.after) || 0;
+    const data = state.templates.slice(start, start + limit);
+    const end = start + data.length;
+    res.json({
+      data,
+      paging: {
+        cursors: { before: String(start), after: String(end) },
+        ...(end < state.templates.length ? { next: `${req.protocol}://${req.get('host')}${req.path}?limit=${limit}&after=${end}` } : {}),
+      },
+    });
+  });
+
+  app.post('/:version/:wabaId/message_templates', (req, res) => {
+    const { name, language, category, components } = req.body;
+    if (!name || !language || !category || !Array.isArray(components)) {
+      return graphError(res, 400, 100, 'Invalid parameter', 'name, language, category and components are required');
+    }
+    if (!components.some((c) => c.type === 'BODY' && c.text)) {
+      return graphError(res, 400, 100, 'Invalid parameter', 'A template needs a body component with text');
+    }
+    if (state.templates.some((t) => t.name === name && t.language === language)) {
+      return graphError(res, 400, 100, 'Invalid parameter', `Message template "${name}" already exists in ${language}`);
+    }
+    const template = { id: `${crypto.randomInt(1e6, 9e6)}${crypto.randomInt(1e8, 9e8)}`, name, language, category, components };
+    state.templates.push(template);
+    reviewTemplate(template);
+    console.log(`[fake graph] template ${name} (${language}) submitted`);
+    res.json({ id: template.id, status: template.status, category });
+  });
+
+  app.delete('/:version/:wabaId/message_templates', (req, res) => {
+    const before = state.templates.length;
+    state.templates = state.templates.filter((t) => t.name !== req.query.name || (req.query.hsm_id && t.id !== req.query.hsm_id));
+    if (state.templates.length === before) {
+      return graphError(res, 400, 100, 'Invalid parameter', `Message template "${req.query.name}" not found`);
+    }
+    res.json({ success: true });
+  });
+
+  // Editing a template: POST /{template-id}
+  app.post('/:version/:templateId', (req, res) => {
+    const template = state.templates.find((t) => t.id === req.params.templateId);
+    if (!template) {
+      return graphError(res, 400, 100, 'Unsupported post request. Object does not exist');
+    }
+    if (req.body.components) template.components = req.body.components;
+    if (req.body.category) template.category = req.body.category;
+    reviewTemplate(template);
+    res.json({ success: true });
+  });
+
+  // Media download: /{media-id} returns a URL, which then serves the bytes.
+  app.get('/media-download/:mediaId', (req, res) => {
+    const media = state.media.find((m) => m.id === req.params.mediaId);
+    if (!media) return res.sendStatus(404);
+    res.type(media.mimetype).send(media.buffer);
+  });
+
+  app.get('/:version/:mediaId', (req, res) => {
+    const media = state.media.find((m) => m.id === req.params.mediaId);
+    if (!media) {
+      return graphError(res, 400, 100, 'Unsupported get request. Object does not exist');
+    }
+    res.json({
+      messaging_product: 'whatsapp',
+      url: `${req.protocol}://${req.get('host')}/media-download/${media.id}`,
+      mime_type: media.mimetype,
+      file_size: media.size,
+      id: media.id,
+    });
+  });
+
+  app.use((req, res) => graphError(res, 404, 803, `Unknown path ${req.method} ${req.path}`));
+
+  return app;
+};
+
+const splitList = (value) => (value ? value.split(',').map((n) => n.trim().replace(/^\+/, '')).filter(Boolean) : []);
+
+if (require.main === module) {
+  const port = process.env.FAKE_GRAPH_PORT || 4010;
+  const app = createFakeGraphApi({
+    accessToken: process.env.FAKE_GRAPH_ACCESS_TOKEN || null,
+    failNumbers: splitList(process.env.FAKE_GRAPH_FAIL_NUMBERS),
+    rateLimitNumbers: splitList(process.env.FAKE_GRAPH_RATE_LIMIT_NUMBERS),
+    webhookUrl: process.env.FAKE_GRAPH_WEBHOOK_URL || null,
+    appSecret: process.env.FAKE_GRAPH_APP_SECRET || null,
+    templateReviewMs: Number(process.env.FAKE_GRAPH_TEMPLATE_REVIEW_MS) || 2000,
+  });
+  app.listen(port, () => console.log(`Fake Graph API listening on http://localhost:${port}`));
+}
+
+module.exports = { createFakeGraphApi };
@@ -0,0 +1,99 @@
+// Local stand-in for the parts of the S3 API the media library uses (PUT, GET and DELETE of objects).
+// Run it with `npm run fake-s3`, then point the backend at it:
+//   MEDIA_STORAGE=s3 S3_ENDPOINT=http://localhost:4020 S3_BUCKET=media
+//   S3_ACCESS_KEY_ID=fake-key S3_SECRET_ACCESS_KEY=fake-secret
+//
+// Objects are kept in memory, so they are gone when the process stops. Requests are checked for a
+// valid Signature Version 4 made with FAKE_S3_ACCESS_KEY_ID and FAKE_S3_SECRET_ACCESS_KEY (by default
+// the values above), the same way S3 would reject them.
+const crypto = require('crypto');
+const express = require('express');
+const { signRequest } = require('../media/s3Signature');
+
+const s3Error = (res, status, code, message) => res
+  .status(status)
+  .type('application/xml')
+  .send(`<?xml version="1.0" encoding="UTF-8"?>\n<Error><Code>${code}</Code><Message>${message}</Message><RequestId>${crypto.randomBytes(8).toString('hex')}</RequestId></Error>`);
+
+// Parses "AWS4-HMAC-SHA256 Credential=key/20260101/us-east-1/s3/aws4_request, SignedHeaders=..., Signature=..."
+const parseAuthorization = (header = '') => {
+  const match = /^AWS4-HMAC-SHA256 Credential=([^/]+)\/(\d{8})\/([^/]+)\/s3\/aws4_request, SignedHeaders=[^,]+, Signature=([0-9a-f]{64})$/.exec(header);
+  return match ? { accessKeyId: match[1], region: match[3], signature: match[4] } : null;
+};
+
+// Parses the x-amz-date format, 20260101T120000Z.
+const parseAmzDate = (value = '') => {
+  const match = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/.exec(value);
+  return match ? new Date(Date.UTC(match[1], match[2] - 1, match[3], match[4], match[5], match[6])) : null;
+};
+
+const createFakeS3 = ({ accessKeyId = 'fake-key', secretAccessKey = 'fake-secret' } = {}) => {
+  const app = express();
+
+  // Everything stored, by "bucket/key", so a test or a developer can inspect it.
+  const state = { objects: new Map() };
+  app.locals.state = state;
+
+  app.use(express.raw({ type: () => true, limit: '110mb' }));
+
+  // Recomputes the signature from the request and compares it with the one sent.
+  app.use((req, res, next) => {
+    const auth = parseAuthorization(req.get('Authorization'));
+    const date = parseAmzDate(req.get('x-amz-date'));
+    if (!auth || !date) {
+      return s3Error(res, 403, 'AccessDenied', 'Missing or malformed Signature Version 4 authorization.');
+    }
+    if (auth.accessKeyId !== accessKeyId) {
+      return s3Error(res, 403, 'InvalidAccessKeyId', 'The AWS Access Key Id you provided does not exist in our records.');
+    }
+    const body = Buffer.isBuffer(req.body) && req.body.length > 0 ? req.body : undefined;
+    const expected = signRequest({
+      method: req.method,
+      url: `${req.protocol}://${req.get('host')}${req.originalUrl}`,
+      body,
+      region: auth.region,
+      accessKeyId,
+      secretAccessKey,
+      date,
+    });
+    if (expected.Authorization !== req.get('Authorization')) {
+      return s3Error(res, 403, 'SignatureDoesNotMatch', 'The request signature we calculated does not match the signature you provided.');
+    }
+    next();
+  });
+
+  const objectKey = (req) => `${req.params.bucket}/${req.params[0]}`;
+
+  app.put('/:bucket/*', (req, res) => {
+    const body = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+    state.objects.set(objectKey(req), { body, contentType: req.get('Content-Type') || 'application/octet-stream' });
+    console.log(`[fake s3] stored ${objectKey(req)} (${body.length} bytes)`);
+    res.set('ETag', `"${crypto.createHash('md5').update(body).digest('hex')}"`).sendStatus(200);
+  });
+
+  app.get('/:bucket/*', (req, res) => {
+    const object = state.objects.get(objectKey(req));
+    if (!object) return s3Error(res, 404, 'NoSuchKey', 'The specified key does not exist.');
+    res.type(object.contentType).send(object.body);
+  });
+
+  app.delete('/:bucket/*', (req, res) => {
+    state.objects.delete(objectKey(req));
+    res.sendStatus(204);
+  });
+
+  app.use((req, res) => s3Error(res, 400, 'InvalidRequest', `Unsupported request ${req.method} ${req.path}`));
+
+  return app;
+};
+
+if (require.main === module) {
+  const port = process.env.FAKE_S3_PORT || 4020;
+  const app = createFakeS3({
+    accessKeyId: process.env.FAKE_S3_ACCESS_KEY_ID || 'fake-key',
+    secretAccessKey: process.env.FAKE_S3_SECRET_ACCESS_KEY || 'fake-secret',
+  });
+  app.listen(port, () => console.log(`Fake S3 listening on http://localhost:${port}`));
+}
+
+module.exports = { createFakeS3 };
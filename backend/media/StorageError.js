@@ -0,0 +1,10 @@
+// Error raised by a storage backend. `status` is 404 when the requested file does not exist.
+class StorageError extends Error {
+  constructor(message, { status = null } = {}) {
+    super(message);
+    this.name = 'StorageError';
+    this.status = status;
+  }
+}
+
+module.exports = StorageError;
@@ -0,0 +1,41 @@
+const fs = require('fs/promises');
+const path = require('path');
+const StorageError = require('./StorageError');
+
+// Keeps media files in a directory on the server's own disk. Fine for a single long-running
+// server; serverless deployments lose the directory between invocations and should use S3.
+const createDiskStorage = ({ directory }) => {
+  // Keys are generated by the media library, but never let one point outside the directory.
+  const filePath = (key) => {
+    const resolved = path.resolve(directory, key);
+    if (!resolved.startsWith(path.resolve(directory) + path.sep)) {
+      throw new StorageError(`Invalid storage key "${key}".`);
+    }
+    return resolved;
+  };
+
+  return {
+    name: 'disk',
+
+    async put(key, buffer) {
+      const target = filePath(key);
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.writeFile(target, buffer);
+    },
+
+    async get(key) {
+      try {
+        return await fs.readFile(filePath(key));
+      } catch (err) {
+        if (err.code === 'ENOENT') throw new StorageError(`No stored file at "${key}".`, { status: 404 });
+        throw err;
+      }
+    },
+
+    async remove(key) {
+      await fs.rm(filePath(key), { force: true });
+    },
+  };
+};
+
+module.exports = createDiskStorage;
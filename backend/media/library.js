@@ -0,0 +1,119 @@
+const crypto = require('crypto');
+const sharp = require('sharp');
+const Media = require('../models/Media');
+const { MediaError, checkMediaLimits } = require('./limits');
+const { getStorage } = require('./storage');
+const StorageError = require('./StorageError');
+
+// The media library: uploaded files are checked against WhatsApp's limits, stored once per
+// checksum in the storage backend and recorded as Media documents that campaigns and replies
+// refer to.
+
+// Longest side of a thumbnail, in pixels.
+const THUMBNAIL_SIZE = 320;
+
+const IMAGE_TYPES = ['image', 'sticker'];
+
+// Reads an image's pixel size, rejecting files that do not decode as the image they claim to be.
+const readDimensions = async (buffer) => {
+  try {
+    const { width, height } = await sharp(buffer).metadata();
+    return { width, height };
+  } catch (err) {
+    throw new MediaError('This file is not a readable image.');
+  }
+};
+
+// A JPEG preview on a white background, since JPEG has no transparency.
+const createThumbnail = async (buffer) => {
+  const { data, info } = await sharp(buffer)
+    .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .flatten({ background: '#ffffff' })
+    .jpeg({ quality: 75 })
+    .toBuffer({ resolveWithObject: true });
+  return { data, width: info.width, height: info.height };
+};
+
+// Adds a multer upload ({ buffer, originalname, mimetype, size }) to the library and resolves to
+// { media, created }. A file that is already in the library is not stored again; its existing entry
+// is returned with `created` false. Throws a MediaError for a file WhatsApp would reject.
+const saveUpload = async ({ buffer, originalname, mimetype, size }, { uploadedBy } = {}) => {
+  const type = checkMediaLimits({ mimetype, size, buffer });
+  const checksum = crypto.createHash('sha256').update(buffer).digest('hex');
+  const existing = await Media.findOne({ checksum });
+  if (existing) return { media: existing, created: false };
+
+  let dimensions = {};
+  if (IMAGE_TYPES.includes(type)) {
+    dimensions = await readDimensions(buffer);
+    checkMediaLimits({ mimetype, size, buffer }, dimensions);
+  }
+
+  const storage = getStorage();
+  const storageKey = `media/${checksum}`;
+  await storage.put(storageKey, buffer, mimetype);
+
+  // A missing thumbnail only costs the preview, so a failure here does not fail the upload.
+  let thumbnail = null;
+  if (IMAGE_TYPES.includes(type)) {
+    try {
+      const { data, width, height } = await createThumbnail(buffer);
+      const thumbnailKey = `thumbnails/${checksum}.jpg`;
+      await storage.put(thumbnailKey, data, 'image/jpeg');
+      thumbnail = { storageKey: thumbnailKey, mimetype: 'image/jpeg', width, height };
+    } catch (err) {
+      console.error(`Error creating a thumbnail for ${originalname}:`, err);
+    }
+  }
+
+  try {
+    const media = await Media.create({
+      filename: originalname,
+      mimetype,
+      type,
+      size,
+      checksum,
+      storage: storage.name,
+      storageKey,
+      ...dimensions,
+      thumbnail,
+      uploadedBy,
+    });
+    return { media, created: true };
+  } catch (err) {
+    // The same file uploaded twice at once: both stored the same bytes, the first entry wins.
+    if (err.code === 11000) return { media: await Media.findOne({ checksum }), created: false };
+    throw err;
+  }
+};
+
+const readStored = (media, storageKey) => {
+  const storage = getStorage();
+  if (media.storage !== storage.name) {
+    throw new StorageError(`"${media.filename}" is kept in the ${media.storage} storage, but the server now uses ${storage.name}.`, { status: 404 });
+  }
+  return storage.get(storageKey);
+};
+
+// Resolves to the library file as a multer-style file, ready for `sender.uploadMedia`.
+const loadMediaFile = async (media) => ({
+  buffer: await readStored(media, media.storageKey),
+  originalname: media.filename,
+  mimetype: media.mimetype,
+  size: media.size,
+});
+
+const loadThumbnail = (media) => readStored(media, media.thumbnail.storageKey);
+
+// Deletes the stored files and then the library entry. Campaigns that already used the file keep
+// their provider media id, so they are unaffected.
+const removeMedia = async (media) => {
+  const storage = getStorage();
+  if (media.storage === storage.name) {
+    await storage.remove(media.storageKey);
+    if (media.thumbnail) await storage.remove(media.thumbnail.storageKey);
+  }
+  await Media.deleteOne({ _id: media._id });
+};
+
+module.exports = { saveUpload, loadMediaFile, loadThumbnail, removeMedia };
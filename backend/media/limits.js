@@ -0,0 +1,69 @@
+const { mediaTypeFromMime } = require('../senders/message');
+
+// WhatsApp's limits on the media a message can carry, by media type.
+// See https://developers.facebook.com/docs/whatsapp/cloud-api/reference/media#supported-media-types
+class MediaError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'MediaError';
+  }
+}
+
+const MB = 1024 * 1024;
+
+const MEDIA_LIMITS = {
+  image: { mimetypes: ['image/jpeg', 'image/png'], maxBytes: 5 * MB },
+  video: { mimetypes: ['video/mp4', 'video/3gpp'], maxBytes: 16 * MB },
+  audio: { mimetypes: ['audio/aac', 'audio/amr', 'audio/mpeg', 'audio/mp4', 'audio/ogg'], maxBytes: 16 * MB },
+  document: {
+    mimetypes: [
+      'text/plain',
+      'application/pdf',
+      'application/msword',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/vnd.ms-excel',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'application/vnd.ms-powerpoint',
+      'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    ],
+    maxBytes: 100 * MB,
+  },
+  // Stickers are 512x512 WebP images; animated ones may be larger than static ones.
+  sticker: { mimetypes: ['image/webp'], maxBytes: 100 * 1024, maxAnimatedBytes: 500 * 1024, dimensions: 512 },
+};
+
+// The largest file any media type accepts, used as the upload size limit.
+const MAX_MEDIA_BYTES = Math.max(...Object.values(MEDIA_LIMITS).map(({ maxBytes }) => maxBytes));
+
+const MEDIA_TYPES = Object.keys(MEDIA_LIMITS);
+
+const TYPE_NOUNS = { image: 'an image', video: 'a video', audio: 'audio', document: 'a document', sticker: 'a sticker' };
+
+const formatBytes = (bytes) => {
+  const [value, unit] = bytes >= MB ? [bytes / MB, 'MB'] : [bytes / 1024, 'KB'];
+  return `${Number(value.toFixed(1))} ${unit}`;
+};
+
+// Animated WebP files carry an ANIM chunk.
+const isAnimatedWebp = (buffer) => buffer.includes('ANIM', 12, 'ascii');
+
+// Checks a file's format and size against WhatsApp's limits and returns its media type.
+// `dimensions` ({ width, height }) is only needed for stickers. Throws a MediaError when the file
+// would be rejected.
+const checkMediaLimits = ({ mimetype, size, buffer }, dimensions = null) => {
+  const type = mediaTypeFromMime(mimetype);
+  const limits = MEDIA_LIMITS[type];
+  if (!limits.mimetypes.includes(mimetype)) {
+    throw new MediaError(`WhatsApp does not accept ${mimetype || 'this file type'} as ${TYPE_NOUNS[type]}. Supported formats: ${limits.mimetypes.join(', ')}.`);
+  }
+  const maxBytes = type === 'sticker' && buffer && isAnimatedWebp(buffer) ? limits.maxAnimatedBytes : limits.maxBytes;
+  if (size > maxBytes) {
+    throw new MediaError(`This ${type} is ${formatBytes(size)}; WhatsApp accepts at most ${formatBytes(maxBytes)}.`);
+  }
+  if (type === 'sticker' && dimensions && (dimensions.width !== limits.dimensions || dimensions.height !== limits.dimensions)) {
+    throw new MediaError(`Stickers must be ${limits.dimensions}x${limits.dimensions} pixels; this one is ${dimensions.width}x${dimensions.height}.`);
+  }
+  return type;
+};
+
+module.exports = { MediaError, MEDIA_LIMITS, MEDIA_TYPES, MAX_MEDIA_BYTES, checkMediaLimits };
@@ -0,0 +1,40 @@
+// Signing for S3 requests, shared by the S3 storage backend and its local stand-in (dev/fakeS3.js).
+const crypto = require('crypto');
+
+const sha256Hex = (data) => crypto.createHash('sha256').update(data).digest('hex');
+const hmac = (key, data) => crypto.createHmac('sha256', key).update(data).digest();
+
+// S3 wants every path segment encoded, including the characters encodeURIComponent leaves alone.
+const encodeSegment = (segment) => encodeURIComponent(segment)
+  .replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+
+// Computes the AWS Signature Version 4 headers for a request without a query string.
+// `date` is only passed in to check a signature received by the stand-in in dev/fakeS3.js.
+const signRequest = ({ method, url, body, region, accessKeyId, secretAccessKey, date = new Date() }) => {
+  const { host, pathname } = new URL(url);
+  const amzDate = date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const dateStamp = amzDate.slice(0, 8);
+  const payloadHash = sha256Hex(body || '');
+  const scope = `${dateStamp}/${region}/s3/aws4_request`;
+
+  const signedHeaders = 'host;x-amz-content-sha256;x-amz-date';
+  const canonicalRequest = [
+    method,
+    pathname,
+    '',
+    `host:${host}\nx-amz-content-sha256:${payloadHash}\nx-amz-date:${amzDate}\n`,
+    signedHeaders,
+    payloadHash,
+  ].join('\n');
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+  const signingKey = ['s3', 'aws4_request'].reduce(hmac, hmac(hmac(`AWS4${secretAccessKey}`, dateStamp), region));
+  const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  return {
+    'x-amz-content-sha256': payloadHash,
+    'x-amz-date': amzDate,
+    Authorization: `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+};
+
+module.exports = { signRequest, encodeSegment };
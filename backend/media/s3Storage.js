@@ -0,0 +1,51 @@
+const StorageError = require('./StorageError');
+const { signRequest, encodeSegment } = require('./s3Signature');
+
+// Keeps media files in an S3 bucket, or any S3-compatible service (MinIO, Cloudflare R2, ...)
+// through `endpoint`, which is addressed path-style: `${endpoint}/${bucket}/${key}`.
+// Set `endpoint` to the stand-in from `npm run fake-s3` to try it locally.
+const createS3Storage = ({ bucket, region = 'us-east-1', endpoint, accessKeyId, secretAccessKey }) => {
+  if (!bucket || !accessKeyId || !secretAccessKey) {
+    throw new Error('S3 media storage requires a bucket, an access key ID and a secret access key.');
+  }
+  const baseUrl = endpoint ? `${endpoint.replace(/\/$/, '')}/${bucket}` : `https://${bucket}.s3.${region}.amazonaws.com`;
+  const objectUrl = (key) => `${baseUrl}/${key.split('/').map(encodeSegment).join('/')}`;
+
+  const request = async (method, key, { body, contentType } = {}) => {
+    const url = objectUrl(key);
+    const headers = signRequest({ method, url, body, region, accessKeyId, secretAccessKey });
+    if (contentType) headers['Content-Type'] = contentType;
+    let response;
+    try {
+      response = await fetch(url, { method, headers, body });
+    } catch (err) {
+      throw new StorageError(`Could not reach S3: ${err.message}`);
+    }
+    if (!response.ok && !(method === 'DELETE' && response.status === 404)) {
+      // S3 errors are XML: <Error><Code>NoSuchKey</Code><Message>...</Message></Error>
+      const text = await response.text().catch(() => '');
+      const message = /<Message>([^<]*)<\/Message>/.exec(text)?.[1] || `S3 request failed with status ${response.status}`;
+      throw new StorageError(message, { status: response.status });
+    }
+    return response;
+  };
+
+  return {
+    name: 's3',
+
+    async put(key, buffer, contentType) {
+      await request('PUT', key, { body: buffer, contentType });
+    },
+
+    async get(key) {
+      const response = await request('GET', key);
+      return Buffer.from(await response.arrayBuffer());
+    },
+
+    async remove(key) {
+      await request('DELETE', key);
+    },
+  };
+};
+
+module.exports = createS3Storage;
@@ -0,0 +1,39 @@
+const path = require('path');
+const createDiskStorage = require('./diskStorage');
+const createS3Storage = require('./s3Storage');
+
+// Every storage backend implements the same interface:
+//   name                           - backend identifier stored on each Media document
+//   put(key, buffer, contentType)  - stores a file under `key`, replacing any previous one
+//   get(key)                       - resolves to the file's Buffer, or rejects with a StorageError
+//                                    whose status is 404 when there is no such file
+//   remove(key)                    - deletes the file; removing a missing file is not an error
+const STORAGES = {
+  disk: () => createDiskStorage({
+    directory: process.env.MEDIA_DISK_DIR || path.join(__dirname, '..', 'uploads'),
+  }),
+  s3: () => createS3Storage({
+    bucket: process.env.S3_BUCKET,
+    region: process.env.S3_REGION,
+    endpoint: process.env.S3_ENDPOINT,
+    accessKeyId: process.env.S3_ACCESS_KEY_ID,
+    secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+  }),
+};
+
+let storage;
+
+// Returns the backend selected by MEDIA_STORAGE, defaulting to the local disk.
+const getStorage = () => {
+  if (!storage) {
+    const storageName = process.env.MEDIA_STORAGE || 'disk';
+    const factory = STORAGES[storageName];
+    if (!factory) {
+      throw new Error(`Unknown MEDIA_STORAGE "${storageName}". Expected one of: ${Object.keys(STORAGES).join(', ')}.`);
+    }
+    storage = factory();
+  }
+  return storage;
+};
+
+module.exports = { getStorage };
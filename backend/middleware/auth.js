@@ -0,0 +1,61 @@
+const jwt = require('jsonwebtoken');
+const { connectToDatabase } = require('../db');
+const User = require('../models/User');
+const { hasPermission, permissionDenied } = require('../users/roles');
+
+const TOKEN_TTL = process.env.JWT_EXPIRES_IN || '12h';
+
+if (!process.env.JWT_SECRET) {
+  console.warn("JWT_SECRET environment variable not set. Authentication will reject every request.");
+}
+
+const signToken = (user) => jwt.sign(
+  { sub: user._id.toString(), ver: user.tokenVersion },
+  process.env.JWT_SECRET,
+  { expiresIn: TOKEN_TTL }
+);
+
+// Verifies the bearer token and loads the user onto `req.user`.
+// The user is re-read on every request so that a logout (which bumps `tokenVersion`)
+// immediately invalidates tokens that have not expired yet.
+const requireAuth = async (req, res, next) => {
+  if (!process.env.JWT_SECRET) {
+    return res.status(503).json({ message: 'Authentication is not configured on the server.' });
+  }
+
+  const header = req.headers.authorization || '';
+  const [scheme, token] = header.split(' ');
+  if (scheme !== 'Bearer' || !token) {
+    return res.status(401).json({ message: 'Authentication required.' });
+  }
+
+  let payload;
+  try {
+    payload = jwt.verify(token, process.env.JWT_SECRET);
+  } catch (err) {
+    return res.status(401).json({ message: 'Invalid or expired session. Please log in again.' });
+  }
+
+  try {
+    await connectToDatabase();
+    const user = await User.findById(payload.sub);
+    if (!user || user.tokenVersion !== payload.ver) {
+      return res.status(401).json({ message: 'Invalid or expired session. Please log in again.' });
+    }
+    req.user = user;
+    next();
+  } catch (err) {
+    next(err);
+  }
+};
+
+// Lets the request through only when the user's role has `permission` (see users/roles.js).
+// Runs after requireAuth, which loads the user on every request, so a role change applies at once.
+const requirePermission = (permission) => (req, res, next) => {
+  if (!hasPermission(req.user.role, permission)) {
+    return res.status(403).json({ message: permissionDenied(req.user.role, permission) });
+  }
+  next();
+};
+
+module.exports = { signToken, requireAuth, requirePermission };
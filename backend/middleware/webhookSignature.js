@@ -0,0 +1,29 @@
+const crypto = require('crypto');
+
+if (!process.env.WHATSAPP_APP_SECRET) {
+  console.warn("WHATSAPP_APP_SECRET environment variable not set. Incoming webhook events will be rejected.");
+}
+
+// Checks Meta's `X-Hub-Signature-256: sha256=<hex>` header, an HMAC of the raw request body
+// keyed with the app secret. Requires `req.rawBody`, captured by the express.json() verify hook.
+const verifyWebhookSignature = (req, res, next) => {
+  const secret = process.env.WHATSAPP_APP_SECRET;
+  if (!secret) {
+    return res.status(503).json({ message: 'Webhook app secret is not configured on the server.' });
+  }
+
+  const header = req.get('X-Hub-Signature-256') || '';
+  const [algorithm, signature] = header.split('=');
+  if (algorithm !== 'sha256' || !signature || !req.rawBody) {
+    return res.status(401).json({ message: 'Missing webhook signature.' });
+  }
+
+  const expected = crypto.createHmac('sha256', secret).update(req.rawBody).digest();
+  const received = Buffer.from(signature, 'hex');
+  if (received.length !== expected.length || !crypto.timingSafeEqual(received, expected)) {
+    return res.status(401).json({ message: 'Invalid webhook signature.' });
+  }
+  next();
+};
+
+module.exports = { verifyWebhookSignature };
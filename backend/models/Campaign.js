@@ -0,0 +1,88 @@
+const mongoose = require('mongoose');
+
+const CAMPAIGN_STATUSES = ['scheduled', 'queued', 'sending', 'paused', 'cancelled', 'completed', 'failed'];
+
+const CampaignSchema = new mongoose.Schema({
+  heading: {
+    type: String,
+    trim: true,
+    default: '',
+  },
+  content: {
+    type: String,
+    default: '',
+  },
+  // Language of the heading and content, and versions of them in other languages for recipients
+  // who prefer those (see campaigns/translations.js).
+  language: {
+    type: String,
+    default: null,
+  },
+  translations: {
+    type: [{
+      _id: false,
+      language: { type: String, required: true },
+      heading: { type: String, default: '' },
+      content: { type: String, default: '' },
+    }],
+    default: [],
+  },
+  // Metadata of the attached file. The file is kept in the media library and uploaded to the
+  // messaging provider once, when the campaign is created.
+  media: {
+    filename: String,
+    mimetype: String,
+    size: Number,
+    type: { type: String, enum: ['image', 'video', 'audio', 'document', 'sticker'] },
+    providerMediaId: String,
+    // The media library entry the file came from.
+    libraryMedia: { type: mongoose.Schema.Types.ObjectId, ref: 'Media' },
+  },
+  // Set when the campaign sends an approved WhatsApp template instead of free text: a snapshot
+  // of the template plus how each parameter is filled (see templates/parameters.js).
+  template: {
+    template: { type: mongoose.Schema.Types.ObjectId, ref: 'MessageTemplate' },
+    name: String,
+    language: String,
+    components: mongoose.Schema.Types.Mixed,
+    parameters: mongoose.Schema.Types.Mixed,
+  },
+  // The audience definition the recipients were resolved from (see contacts/audience.js).
+  audience: {
+    type: mongoose.Schema.Types.Mixed,
+  },
+  provider: {
+    type: String,
+    required: true,
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+  },
+  status: {
+    type: String,
+    enum: CAMPAIGN_STATUSES,
+    default: 'queued',
+    index: true,
+  },
+  // For a scheduled campaign, an estimate made when it was scheduled; replaced by the real count
+  // once the audience is resolved at send time.
+  recipientCount: {
+    type: Number,
+    default: 0,
+  },
+  // "Send later" campaigns: when to start (UTC) and the time zone the sender picked it in, so the
+  // time can be shown and edited as they entered it (see campaigns/schedule.js).
+  scheduledAt: Date,
+  timezone: String,
+  startedAt: Date,
+  completedAt: Date,
+}, { timestamps: true });
+
+CampaignSchema.index({ createdAt: -1 });
+
+CampaignSchema.statics.STATUSES = CAMPAIGN_STATUSES;
+
+// To prevent Mongoose from throwing an OverwriteModelError in a serverless environment
+// where the model might be compiled multiple times, we check if the model already exists.
+module.exports = mongoose.models.Campaign || mongoose.model('Campaign', CampaignSchema);
@@ -0,0 +1,48 @@
+const mongoose = require('mongoose');
+const Contact = require('./Contact');
+
+// Audit trail of every consent change. Entries are only ever appended.
+const ConsentEventSchema = new mongoose.Schema({
+  contact: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Contact',
+    required: true,
+    index: true,
+  },
+  phone: {
+    type: String,
+    required: true,
+  },
+  status: {
+    type: String,
+    enum: Contact.CONSENT_STATUSES,
+    required: true,
+  },
+  previousStatus: {
+    type: String,
+    enum: Contact.CONSENT_STATUSES,
+  },
+  source: {
+    type: String,
+    enum: Contact.CONSENT_SOURCES,
+    required: true,
+  },
+  note: {
+    type: String,
+    trim: true,
+    default: '',
+  },
+  // Set for manual changes; automatic ones (keywords, imports) have no user.
+  changedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+// To prevent Mongoose from throwing an OverwriteModelError in a serverless environment
+// where the model might be compiled multiple times, we check if the model already exists.
+module.exports = mongoose.models.ConsentEvent || mongoose.model('ConsentEvent', ConsentEventSchema);
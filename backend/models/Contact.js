@@ -1,4 +1,11 @@
 const mongoose = require('mongoose');
+const { PHONE_TYPES } = require('../contacts/phone');
+const { isValidLanguage } = require('../contacts/language');
+
+const CONSENT_STATUSES = ['opted_in', 'opted_out'];
+// Where a consent change came from: a user in the dashboard, a bulk opt-out from the contact list,
+// an inbound STOP-style keyword, a file import, or a customer messaging us first.
+const CONSENT_SOURCES = ['manual', 'bulk', 'keyword', 'import', 'inbound'];
 
 const ContactSchema = new mongoose.Schema({
   name: {
@@ -6,6 +13,8 @@ const ContactSchema = new mongoose.Schema({
     required: [true, 'Please provide a name'],
     trim: true,
   },
+  // Always E.164; numbers are normalized with contacts/phone.js before they are saved, so the
+  // unique index treats "+1 212-555-1234" and "(212) 555-1234" as the same contact.
   phone: {
     type: String,
     required: [true, 'Please provide a phone number'],
@@ -15,12 +24,77 @@ const ContactSchema = new mongoose.Schema({
       'Please provide a valid phone number in E.164 format',
     ],
   },
+  // Detected from the number when it is saved.
+  phoneCountry: {
+    type: String,
+    index: true,
+  },
+  phoneType: {
+    type: String,
+    enum: PHONE_TYPES,
+  },
+  // Preferred language for messages, a canonical BCP 47 code such as "es" or "pt-BR" (see
+  // contacts/language.js). Campaigns with a translation in this language send it instead.
+  language: {
+    type: String,
+    default: null,
+    index: true,
+    validate: {
+      validator: (value) => value === null || isValidLanguage(value),
+      message: (props) => `"${props.value}" is not a language code such as "en", "es" or "pt-BR"`,
+    },
+  },
+  // Free-form labels, stored lowercase so "VIP" and "vip" are the same tag.
+  tags: {
+    type: [{ type: String, trim: true, lowercase: true }],
+    default: [],
+    index: true,
+  },
+  groups: {
+    type: [{ type: mongoose.Schema.Types.ObjectId, ref: 'Group' }],
+    default: [],
+    index: true,
+  },
+  // Custom values such as city or plan, usable as `{{key}}` placeholders in messages. The
+  // attributes and their types are defined per workspace; values are stored as that type
+  // (see contacts/attributes.js).
+  attributes: {
+    type: Map,
+    of: mongoose.Schema.Types.Mixed,
+    default: {},
+  },
+  // Current consent state. Every change is also recorded as a ConsentEvent.
+  consent: {
+    status: {
+      type: String,
+      enum: CONSENT_STATUSES,
+      default: 'opted_in',
+      index: true,
+    },
+    changedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    source: {
+      type: String,
+      enum: CONSENT_SOURCES,
+      default: 'manual',
+    },
+  },
   createdAt: {
     type: Date,
     default: Date.now,
   },
 });
 
+// The contact list pages through contacts sorted by one of these, with `_id` breaking ties (see
+// contacts/pagination.js). Phone numbers are unique, so the phone index already gives a stable order.
+ContactSchema.index({ name: 1, _id: 1 });
+ContactSchema.index({ createdAt: 1, _id: 1 });
+
+ContactSchema.statics.CONSENT_STATUSES = CONSENT_STATUSES;
+ContactSchema.statics.CONSENT_SOURCES = CONSENT_SOURCES;
+
 // To prevent Mongoose from throwing an OverwriteModelError in a serverless environment
 // where the model might be compiled multiple times, we check if the model already exists.
 module.exports = mongoose.models.Contact || mongoose.model('Contact', ContactSchema);
\ No newline at end of file
@@ -0,0 +1,34 @@
+const mongoose = require('mongoose');
+
+// One thread per contact phone number, holding what the inbox list needs without loading messages.
+const ConversationSchema = new mongoose.Schema({
+  contact: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Contact',
+    required: true,
+  },
+  phone: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  lastMessageAt: {
+    type: Date,
+    default: Date.now,
+  },
+  lastMessagePreview: {
+    type: String,
+    default: '',
+  },
+  lastInboundAt: Date,
+  unreadCount: {
+    type: Number,
+    default: 0,
+  },
+}, { timestamps: true });
+
+ConversationSchema.index({ lastMessageAt: -1 });
+
+// To prevent Mongoose from throwing an OverwriteModelError in a serverless environment
+// where the model might be compiled multiple times, we check if the model already exists.
+module.exports = mongoose.models.Conversation || mongoose.model('Conversation', ConversationSchema);
@@ -0,0 +1,53 @@
+const mongoose = require('mongoose');
+
+// A single inbound or outbound message in an inbox conversation.
+const ConversationMessageSchema = new mongoose.Schema({
+  conversation: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Conversation',
+    required: true,
+  },
+  direction: {
+    type: String,
+    enum: ['inbound', 'outbound'],
+    required: true,
+  },
+  // WhatsApp message type: text, image, video, audio, document, sticker, location, ...
+  type: {
+    type: String,
+    required: true,
+  },
+  text: String,
+  // Inbound media stays with the provider; it is fetched through the media route when viewed.
+  media: {
+    providerMediaId: String,
+    mimetype: String,
+    filename: String,
+  },
+  providerMessageId: String,
+  // Outbound delivery status, updated from webhook callbacks. Inbound messages are always "received".
+  status: {
+    type: String,
+    enum: ['received', 'sent', 'delivered', 'read', 'failed'],
+  },
+  error: {
+    code: mongoose.Schema.Types.Mixed,
+    message: String,
+  },
+  sentBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+  },
+  timestamp: {
+    type: Date,
+    default: Date.now,
+  },
+}, { timestamps: true });
+
+ConversationMessageSchema.index({ conversation: 1, timestamp: -1 });
+// Meta redelivers webhook events, so the provider id doubles as the idempotency key for inbound messages.
+ConversationMessageSchema.index({ providerMessageId: 1 }, { unique: true, sparse: true });
+
+// To prevent Mongoose from throwing an OverwriteModelError in a serverless environment
+// where the model might be compiled multiple times, we check if the model already exists.
+module.exports = mongoose.models.ConversationMessage || mongoose.model('ConversationMessage', ConversationMessageSchema);
@@ -0,0 +1,24 @@
+const mongoose = require('mongoose');
+
+// A named list of contacts. Membership is stored on the contact (`Contact.groups`).
+const GroupSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: [true, 'Please provide a group name'],
+    unique: true,
+    trim: true,
+  },
+  description: {
+    type: String,
+    trim: true,
+    default: '',
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+// To prevent Mongoose from throwing an OverwriteModelError in a serverless environment
+// where the model might be compiled multiple times, we check if the model already exists.
+module.exports = mongoose.models.Group || mongoose.model('Group', GroupSchema);
@@ -0,0 +1,54 @@
+const mongoose = require('mongoose');
+
+const JOB_STATUSES = ['pending', 'processing', 'paused', 'done', 'failed', 'cancelled'];
+
+// A unit of background work. The worker in queue/worker.js claims pending jobs whose `runAt`
+// has passed, runs the handler registered for `type`, and reschedules it on temporary failures.
+const JobSchema = new mongoose.Schema({
+  type: {
+    type: String,
+    required: true,
+  },
+  payload: {
+    type: mongoose.Schema.Types.Mixed,
+    default: {},
+  },
+  // Jobs that belong to a campaign can be paused, resumed and cancelled together.
+  campaign: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Campaign',
+  },
+  status: {
+    type: String,
+    enum: JOB_STATUSES,
+    default: 'pending',
+  },
+  runAt: {
+    type: Date,
+    default: Date.now,
+  },
+  attempts: {
+    type: Number,
+    default: 0,
+  },
+  maxAttempts: {
+    type: Number,
+    default: 5,
+  },
+  lockedAt: Date,
+  lastError: {
+    code: mongoose.Schema.Types.Mixed,
+    message: String,
+  },
+  finishedAt: Date,
+}, { timestamps: true });
+
+// The worker's claim query: oldest due pending job first.
+JobSchema.index({ status: 1, runAt: 1 });
+JobSchema.index({ campaign: 1, status: 1 });
+
+JobSchema.statics.STATUSES = JOB_STATUSES;
+
+// To prevent Mongoose from throwing an OverwriteModelError in a serverless environment
+// where the model might be compiled multiple times, we check if the model already exists.
+module.exports = mongoose.models.Job || mongoose.model('Job', JobSchema);
@@ -0,0 +1,71 @@
+const mongoose = require('mongoose');
+const { MEDIA_TYPES } = require('../media/limits');
+
+// A file in the media library. The bytes live in the configured storage backend (see
+// media/storage.js); this document records what the file is and where to find it.
+const MediaSchema = new mongoose.Schema({
+  filename: {
+    type: String,
+    required: [true, 'Please provide a file name'],
+    trim: true,
+  },
+  mimetype: {
+    type: String,
+    required: true,
+  },
+  // WhatsApp media type: image, video, audio, document or sticker.
+  type: {
+    type: String,
+    enum: MEDIA_TYPES,
+    required: true,
+  },
+  size: {
+    type: Number,
+    required: true,
+  },
+  // SHA-256 of the file's bytes, hex-encoded. Uploading the same file again reuses this entry.
+  checksum: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  // Storage backend name and the key of the file within it.
+  storage: {
+    type: String,
+    required: true,
+  },
+  storageKey: {
+    type: String,
+    required: true,
+  },
+  // Pixel size of images and stickers.
+  width: Number,
+  height: Number,
+  // A small JPEG preview, made for images and stickers only.
+  thumbnail: {
+    type: new mongoose.Schema({
+      storageKey: { type: String, required: true },
+      mimetype: { type: String, required: true },
+      width: Number,
+      height: Number,
+    }, { _id: false }),
+    default: null,
+  },
+  uploadedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+MediaSchema.index({ createdAt: -1 });
+MediaSchema.index({ type: 1, createdAt: -1 });
+
+MediaSchema.statics.MEDIA_TYPES = MEDIA_TYPES;
+
+// To prevent Mongoose from throwing an OverwriteModelError in a serverless environment
+// where the model might be compiled multiple times, we check if the model already exists.
+module.exports = mongoose.models.Media || mongoose.model('Media', MediaSchema);
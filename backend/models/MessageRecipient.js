@@ -0,0 +1,73 @@
+const mongoose = require('mongoose');
+
+const RECIPIENT_STATUSES = ['queued', 'sent', 'delivered', 'read', 'failed', 'cancelled'];
+
+// One row per contact per campaign. Name and phone are copied from the contact at send time
+// so the record stays accurate even if the contact is later edited or deleted.
+const MessageRecipientSchema = new mongoose.Schema({
+  campaign: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Campaign',
+    required: true,
+  },
+  contact: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Contact',
+  },
+  name: String,
+  phone: {
+    type: String,
+    required: true,
+  },
+  // The language version of the campaign this recipient is sent (see campaigns/translations.js);
+  // null when the campaign has no language set.
+  language: {
+    type: String,
+    default: null,
+  },
+  status: {
+    type: String,
+    enum: RECIPIENT_STATUSES,
+    default: 'queued',
+  },
+  providerMessageId: String,
+  error: {
+    code: mongoose.Schema.Types.Mixed,
+    message: String,
+  },
+  sentAt: Date,
+  deliveredAt: Date,
+  readAt: Date,
+  failedAt: Date,
+}, { timestamps: true });
+
+MessageRecipientSchema.index({ campaign: 1, status: 1 });
+// The campaign report's recipient table pages through a campaign in send order.
+MessageRecipientSchema.index({ campaign: 1, createdAt: 1 });
+// Campaign expansion checks which contacts of a batch are already recipients.
+MessageRecipientSchema.index({ campaign: 1, contact: 1 });
+// Delivery receipts from the provider are matched on the message id.
+MessageRecipientSchema.index({ providerMessageId: 1 }, { sparse: true });
+
+// Returns { [campaignId]: { queued, sent, delivered, read, failed } } for the given campaigns.
+MessageRecipientSchema.statics.countByStatus = async function (campaignIds) {
+  const rows = await this.aggregate([
+    { $match: { campaign: { $in: campaignIds } } },
+    { $group: { _id: { campaign: '$campaign', status: '$status' }, count: { $sum: 1 } } },
+  ]);
+
+  const result = {};
+  for (const id of campaignIds) {
+    result[id.toString()] = Object.fromEntries(RECIPIENT_STATUSES.map((status) => [status, 0]));
+  }
+  for (const row of rows) {
+    result[row._id.campaign.toString()][row._id.status] = row.count;
+  }
+  return result;
+};
+
+MessageRecipientSchema.statics.STATUSES = RECIPIENT_STATUSES;
+
+// To prevent Mongoose from throwing an OverwriteModelError in a serverless environment
+// where the model might be compiled multiple times, we check if the model already exists.
+module.exports = mongoose.models.MessageRecipient || mongoose.model('MessageRecipient', MessageRecipientSchema);
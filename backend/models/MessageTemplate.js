@@ -0,0 +1,83 @@
+const mongoose = require('mongoose');
+
+// Mirrors Meta's message template structure so a template can be created here, submitted for
+// approval, and kept in sync with WhatsApp Manager (see templates/sync.js).
+// https://developers.facebook.com/docs/whatsapp/business-management-api/message-templates
+
+const TEMPLATE_CATEGORIES = ['MARKETING', 'UTILITY', 'AUTHENTICATION'];
+
+const ButtonSchema = new mongoose.Schema({
+  type: {
+    type: String,
+    enum: ['QUICK_REPLY', 'URL', 'PHONE_NUMBER', 'COPY_CODE'],
+    required: true,
+  },
+  text: String,
+  url: String,
+  phone_number: String,
+  example: [String],
+}, { _id: false });
+
+// `text` may contain positional parameters: {{1}}, {{2}}, ...
+const ComponentSchema = new mongoose.Schema({
+  type: {
+    type: String,
+    enum: ['HEADER', 'BODY', 'FOOTER', 'BUTTONS'],
+    required: true,
+  },
+  format: {
+    type: String,
+    enum: ['TEXT', 'IMAGE', 'VIDEO', 'DOCUMENT', 'LOCATION'],
+  },
+  text: String,
+  buttons: {
+    type: [ButtonSchema],
+    default: undefined,
+  },
+  // Sample parameter values Meta requires for review, e.g. { body_text: [['Jane', '20%']] }.
+  example: mongoose.Schema.Types.Mixed,
+}, { _id: false });
+
+const MessageTemplateSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: [true, 'Please provide a template name'],
+    trim: true,
+    match: [/^[a-z0-9_]{1,512}$/, 'Template names may only contain lowercase letters, numbers and underscores'],
+  },
+  language: {
+    type: String,
+    required: [true, 'Please provide a template language'],
+    trim: true,
+  },
+  category: {
+    type: String,
+    enum: TEMPLATE_CATEGORIES,
+    required: [true, 'Please provide a template category'],
+  },
+  components: {
+    type: [ComponentSchema],
+    validate: [
+      (components) => components.filter((c) => c.type === 'BODY').length === 1,
+      'A template needs exactly one body component',
+    ],
+  },
+  // Meta's review status: PENDING, APPROVED, REJECTED, PAUSED, DISABLED, ... Kept as free text
+  // because Meta adds new states from time to time.
+  status: {
+    type: String,
+    default: 'PENDING',
+    index: true,
+  },
+  rejectedReason: String,
+  providerTemplateId: String,
+  lastSyncedAt: Date,
+}, { timestamps: true });
+
+MessageTemplateSchema.index({ name: 1, language: 1 }, { unique: true });
+
+MessageTemplateSchema.statics.CATEGORIES = TEMPLATE_CATEGORIES;
+
+// To prevent Mongoose from throwing an OverwriteModelError in a serverless environment
+// where the model might be compiled multiple times, we check if the model already exists.
+module.exports = mongoose.models.MessageTemplate || mongoose.model('MessageTemplate', MessageTemplateSchema);
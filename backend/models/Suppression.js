@@ -0,0 +1,31 @@
+const mongoose = require('mongoose');
+
+// A phone number that must never receive broadcasts, whether or not it belongs to a contact.
+const SuppressionSchema = new mongoose.Schema({
+  phone: {
+    type: String,
+    required: [true, 'Please provide a phone number'],
+    unique: true,
+    match: [
+      /^\+[1-9]\d{1,14}$/,
+      'Please provide a valid phone number in E.164 format',
+    ],
+  },
+  reason: {
+    type: String,
+    trim: true,
+    default: '',
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+// To prevent Mongoose from throwing an OverwriteModelError in a serverless environment
+// where the model might be compiled multiple times, we check if the model already exists.
+module.exports = mongoose.models.Suppression || mongoose.model('Suppression', SuppressionSchema);
@@ -0,0 +1,84 @@
+const mongoose = require('mongoose');
+const crypto = require('crypto');
+const bcrypt = require('bcryptjs');
+const { ROLES } = require('../users/roles');
+
+const SALT_ROUNDS = 12;
+// How long an invitation link stays valid.
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const UserSchema = new mongoose.Schema({
+  username: {
+    type: String,
+    required: [true, 'Please provide a username'],
+    unique: true,
+    trim: true,
+    lowercase: true,
+  },
+  // Invited members have none until they accept the invitation and choose one.
+  passwordHash: {
+    type: String,
+    required: function () { return !this.inviteTokenHash; },
+    select: false, // Never load the hash unless a route explicitly asks for it
+  },
+  // What the member may do (see users/roles.js). Accounts from before roles existed were the one
+  // shared admin account, so they count as owners.
+  role: {
+    type: String,
+    enum: ROLES,
+    default: 'owner',
+  },
+  // A pending invitation: the hash of the token in the invitation link, and when it expires.
+  inviteTokenHash: {
+    type: String,
+    select: false,
+    index: { unique: true, sparse: true },
+  },
+  inviteExpiresAt: {
+    type: Date,
+  },
+  invitedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+  },
+  // Bumped on logout so every token issued before that point stops being accepted.
+  tokenVersion: {
+    type: Number,
+    default: 0,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+UserSchema.methods.setPassword = async function (password) {
+  this.passwordHash = await bcrypt.hash(password, SALT_ROUNDS);
+};
+
+UserSchema.methods.verifyPassword = function (password) {
+  if (!this.passwordHash) return Promise.resolve(false);
+  return bcrypt.compare(password, this.passwordHash);
+};
+
+const hashInviteToken = (token) => crypto.createHash('sha256').update(token).digest('hex');
+
+// Starts a new invitation, replacing any earlier one, and returns the token for the invitation
+// link. Only its hash is stored, like a password.
+UserSchema.methods.createInvite = function () {
+  const token = crypto.randomBytes(32).toString('hex');
+  this.inviteTokenHash = hashInviteToken(token);
+  this.inviteExpiresAt = new Date(Date.now() + INVITE_TTL_MS);
+  return token;
+};
+
+// Finds the member a still valid invitation token belongs to.
+UserSchema.statics.findByInviteToken = function (token) {
+  return this.findOne({ inviteTokenHash: hashInviteToken(String(token)), inviteExpiresAt: { $gt: new Date() } });
+};
+
+UserSchema.statics.ROLES = ROLES;
+
+// To prevent Mongoose from throwing an OverwriteModelError in a serverless environment
+// where the model might be compiled multiple times, we check if the model already exists.
+module.exports = mongoose.models.User || mongoose.model('User', UserSchema);
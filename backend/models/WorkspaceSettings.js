@@ -0,0 +1,93 @@
+const mongoose = require('mongoose');
+const { isValidCountry } = require('../contacts/phone');
+const { ATTRIBUTE_TYPES, isValidAttributeKey } = require('../contacts/attributes');
+const { PROVIDER_NAMES } = require('../ai/providers');
+
+const WORKSPACE_KEY = 'workspace';
+
+// Settings shared by everyone using this deployment. There is a single document, created with
+// defaults the first time it is read (see WorkspaceSettings.load()).
+// A custom contact attribute (see contacts/attributes.js). The key is also the message placeholder,
+// e.g. `{{city}}`, so it follows the placeholder naming rules.
+const ContactAttributeSchema = new mongoose.Schema({
+  key: {
+    type: String,
+    required: [true, 'Please provide an attribute key'],
+    trim: true,
+    validate: {
+      validator: isValidAttributeKey,
+      message: (props) => `"${props.value}" cannot be used as an attribute key. Use letters, digits and underscores, do not start with a digit, and avoid name, first_name, last_name and phone`,
+    },
+  },
+  label: {
+    type: String,
+    required: [true, 'Please provide an attribute label'],
+    trim: true,
+  },
+  type: {
+    type: String,
+    enum: ATTRIBUTE_TYPES,
+    default: 'text',
+  },
+  // The allowed values of a `select` attribute.
+  options: {
+    type: [{ type: String, trim: true }],
+    default: [],
+  },
+}, { _id: false });
+
+ContactAttributeSchema.path('options').validate(function (options) {
+  return this.type !== 'select' || options.filter(Boolean).length > 0;
+}, 'Please provide the options of a select attribute');
+
+const WorkspaceSettingsSchema = new mongoose.Schema({
+  key: {
+    type: String,
+    default: WORKSPACE_KEY,
+    unique: true,
+  },
+  // ISO 3166 country code used for phone numbers typed without a country code (see contacts/phone.js).
+  defaultCountry: {
+    type: String,
+    uppercase: true,
+    trim: true,
+    default: null,
+    validate: {
+      validator: (value) => value === null || isValidCountry(value),
+      message: 'Please choose a supported country',
+    },
+  },
+  contactAttributes: {
+    type: [ContactAttributeSchema],
+    default: [],
+    validate: {
+      validator: (attributes) => new Set(attributes.map(({ key }) => key)).size === attributes.length,
+      message: 'Each contact attribute needs its own key',
+    },
+  },
+  // The AI provider and model used for writing help (see ai/providers). Null uses the server's default.
+  ai: {
+    provider: {
+      type: String,
+      enum: { values: [...PROVIDER_NAMES, null], message: 'Please choose a supported AI provider' },
+      default: null,
+    },
+    model: {
+      type: String,
+      trim: true,
+      default: null,
+    },
+  },
+}, { timestamps: true });
+
+WorkspaceSettingsSchema.statics.load = function () {
+  return this.findOneAndUpdate(
+    { key: WORKSPACE_KEY },
+    { $setOnInsert: { key: WORKSPACE_KEY } },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  );
+};
+
+// To prevent Mongoose from throwing an OverwriteModelError in a serverless environment
+// where the model might be compiled multiple times, we check if the model already exists.
+module.exports = mongoose.models.WorkspaceSettings || mongoose.model('WorkspaceSettings', WorkspaceSettingsSchema);
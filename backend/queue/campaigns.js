@@ -0,0 +1,69 @@
+const Campaign = require('../models/Campaign');
+const MessageRecipient = require('../models/MessageRecipient');
+const Job = require('../models/Job');
+
+const SEND_JOB = 'send-message';
+const OPEN_JOB_STATUSES = ['pending', 'processing', 'paused'];
+
+// Marks the campaign completed (or failed, if nothing went out) once none of its jobs are left to run.
+const finishCampaignIfDone = async (campaignId) => {
+  if (await Job.exists({ campaign: campaignId, status: { $in: OPEN_JOB_STATUSES } })) return;
+
+  const sent = await MessageRecipient.countDocuments({
+    campaign: campaignId,
+    status: { $in: ['sent', 'delivered', 'read'] },
+  });
+  await Campaign.updateOne(
+    { _id: campaignId, status: { $in: ['queued', 'sending'] } },
+    { status: sent === 0 ? 'failed' : 'completed', completedAt: new Date() }
+  );
+};
+
+// Pause, resume and cancel return the updated campaign, or null if it is not in a state that allows it.
+const pauseCampaign = async (campaignId) => {
+  const campaign = await Campaign.findOneAndUpdate(
+    { _id: campaignId, status: { $in: ['queued', 'sending'] } },
+    { status: 'paused' },
+    { new: true }
+  );
+  if (!campaign) return null;
+  // Jobs already being processed finish normally; everything still waiting is held back.
+  await Job.updateMany({ campaign: campaignId, status: 'pending' }, { status: 'paused' });
+  return campaign;
+};
+
+const resumeCampaign = async (campaignId) => {
+  const campaign = await Campaign.findOneAndUpdate(
+    { _id: campaignId, status: 'paused' },
+    { status: 'sending' },
+    { new: true }
+  );
+  if (!campaign) return null;
+  await Job.updateMany({ campaign: campaignId, status: 'paused' }, { status: 'pending', runAt: new Date() });
+  await finishCampaignIfDone(campaignId);
+  return campaign;
+};
+
+const cancelCampaign = async (campaignId) => {
+  const campaign = await Campaign.findOneAndUpdate(
+    { _id: campaignId, status: { $in: ['scheduled', 'queued', 'sending', 'paused'] } },
+    { status: 'cancelled', completedAt: new Date() },
+    { new: true }
+  );
+  if (!campaign) return null;
+  const now = new Date();
+  await Job.updateMany(
+    { campaign: campaignId, status: { $in: OPEN_JOB_STATUSES } },
+    { status: 'cancelled', finishedAt: now }
+  );
+  await MessageRecipient.updateMany({ campaign: campaignId, status: 'queued' }, { status: 'cancelled' });
+  return campaign;
+};
+
+module.exports = {
+  SEND_JOB,
+  finishCampaignIfDone,
+  pauseCampaign,
+  resumeCampaign,
+  cancelCampaign,
+};
@@ -0,0 +1,91 @@
+const Campaign = require('../models/Campaign');
+const Contact = require('../models/Contact');
+const MessageRecipient = require('../models/MessageRecipient');
+const Job = require('../models/Job');
+const { buildAudienceFilter } = require('../contacts/audience');
+const { sendableFilter } = require('../contacts/consent');
+const { recipientLanguage } = require('../campaigns/translations');
+const { SEND_JOB, finishCampaignIfDone, cancelCampaign } = require('./campaigns');
+
+const EXPAND_CAMPAIGN_JOB = 'campaign.expand';
+
+// Contacts turned into recipients per job, so every job finishes well within a serverless time budget.
+const EXPAND_BATCH_SIZE = 1000;
+
+const maxAttempts = () => parseInt(process.env.SEND_MAX_ATTEMPTS, 10) || 5;
+
+const queueExpansion = (campaignId, after) => Job.create({
+  type: EXPAND_CAMPAIGN_JOB,
+  campaign: campaignId,
+  payload: { after },
+  maxAttempts: 1,
+});
+
+// Queues the job that works out the campaign's recipients in the background, so starting a
+// campaign takes the same time whatever the size of its audience.
+const startCampaignExpansion = (campaign) => queueExpansion(campaign._id, null);
+
+// Creates a recipient row and a send job for the next EXPAND_BATCH_SIZE contacts of the campaign's
+// audience, in `_id` order after `after`, then queues the job for the batch after that. Opted-out
+// and suppressed contacts are left out, and each recipient gets the language version of the
+// campaign they will be sent. Payload: { after } (a contact id, null for the first batch).
+const expandCampaignHandler = {
+  throttled: false,
+
+  async run(job) {
+    const campaign = await Campaign.findById(job.campaign);
+    if (!campaign || !['queued', 'sending', 'paused'].includes(campaign.status)) return;
+
+    const recipientFilter = await sendableFilter(buildAudienceFilter(campaign.audience));
+    const { after } = job.payload;
+    const contacts = await Contact.find(after ? { $and: [recipientFilter, { _id: { $gt: after } }] } : recipientFilter)
+      .select('name phone language')
+      .sort({ _id: 1 })
+      .limit(EXPAND_BATCH_SIZE)
+      .lean();
+
+    // A job handed out again after its worker died skips the contacts it already queued.
+    const queued = new Set((await MessageRecipient.find(
+      { campaign: campaign._id, contact: { $in: contacts.map(({ _id }) => _id) } },
+      { contact: 1 }
+    ).lean()).map(({ contact }) => contact.toString()));
+    const batch = contacts.filter(({ _id }) => !queued.has(_id.toString()));
+
+    if (batch.length > 0) {
+      const recipients = await MessageRecipient.insertMany(batch.map((contact) => ({
+        campaign: campaign._id,
+        contact: contact._id,
+        name: contact.name,
+        phone: contact.phone,
+        language: recipientLanguage(campaign, contact.language),
+      })));
+      await Job.insertMany(recipients.map((recipient) => ({
+        type: SEND_JOB,
+        campaign: campaign._id,
+        payload: { recipientId: recipient._id },
+        maxAttempts: maxAttempts(),
+      })));
+    }
+
+    if (contacts.length === EXPAND_BATCH_SIZE) {
+      await queueExpansion(campaign._id, contacts[contacts.length - 1]._id);
+    } else {
+      // The last batch: replace the estimate made when the campaign was created with the real count.
+      const recipientCount = await MessageRecipient.countDocuments({ campaign: campaign._id });
+      await Campaign.updateOne({ _id: campaign._id }, { recipientCount });
+    }
+  },
+
+  async onFailure(job) {
+    // Drop whatever part of the audience was already queued instead of sending to a partial list.
+    await cancelCampaign(job.campaign);
+    await Campaign.updateOne({ _id: job.campaign, status: 'cancelled' }, { status: 'failed' });
+  },
+
+  async afterSettled(job) {
+    // Closes out a campaign whose audience turned out to be empty.
+    await finishCampaignIfDone(job.campaign);
+  },
+};
+
+module.exports = { EXPAND_CAMPAIGN_JOB, startCampaignExpansion, expandCampaignHandler };
@@ -0,0 +1,21 @@
+const { registerHandler, processQueue, startWorker } = require('./worker');
+const campaigns = require('./campaigns');
+const sendMessageHandler = require('./sendMessage');
+const templates = require('./templates');
+const scheduled = require('./scheduled');
+const expandCampaign = require('./expandCampaign');
+
+registerHandler(campaigns.SEND_JOB, sendMessageHandler);
+registerHandler(templates.SYNC_TEMPLATES_JOB, templates.syncTemplatesHandler);
+registerHandler(scheduled.START_CAMPAIGN_JOB, scheduled.startCampaignHandler);
+registerHandler(expandCampaign.EXPAND_CAMPAIGN_JOB, expandCampaign.expandCampaignHandler);
+
+module.exports = {
+  processQueue,
+  startWorker,
+  ...campaigns,
+  scheduleTemplateSync: templates.scheduleTemplateSync,
+  scheduleCampaignStart: scheduled.scheduleCampaignStart,
+  rescheduleCampaignStart: scheduled.rescheduleCampaignStart,
+  startCampaignExpansion: expandCampaign.startCampaignExpansion,
+};
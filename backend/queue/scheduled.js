@@ -0,0 +1,59 @@
+const Campaign = require('../models/Campaign');
+const Job = require('../models/Job');
+const { finishCampaignIfDone, cancelCampaign } = require('./campaigns');
+const { startCampaignExpansion } = require('./expandCampaign');
+
+const START_CAMPAIGN_JOB = 'campaign.start';
+
+// Queues the job that starts a scheduled campaign at its `scheduledAt`. Because it is an ordinary
+// job, the local worker and the serverless cron route both pick it up when it falls due.
+const scheduleCampaignStart = (campaign) => Job.create({
+  type: START_CAMPAIGN_JOB,
+  campaign: campaign._id,
+  runAt: campaign.scheduledAt,
+  maxAttempts: 1,
+});
+
+// Moves the start job of a campaign that is still waiting to its new time.
+const rescheduleCampaignStart = async (campaign) => {
+  const { matchedCount } = await Job.updateMany(
+    { type: START_CAMPAIGN_JOB, campaign: campaign._id, status: 'pending' },
+    { runAt: campaign.scheduledAt }
+  );
+  if (matchedCount === 0) await scheduleCampaignStart(campaign);
+};
+
+// Starts a scheduled campaign by queueing the jobs that work out its audience and messages (see
+// queue/expandCampaign.js). Payload: none. Recipients are worked out now rather than when the
+// campaign was scheduled, so contacts added, edited or opted out in the meantime are taken into account.
+const startCampaignHandler = {
+  throttled: false,
+
+  async run(job) {
+    const campaign = await Campaign.findOneAndUpdate(
+      { _id: job.campaign, status: 'scheduled', scheduledAt: { $lte: new Date() } },
+      { status: 'queued' },
+      { new: true }
+    );
+    if (!campaign) {
+      // Cancelled, or moved to a later time while this job was already claimed.
+      const waiting = await Campaign.findOne({ _id: job.campaign, status: 'scheduled' });
+      if (waiting) await scheduleCampaignStart(waiting);
+      return;
+    }
+    await startCampaignExpansion(campaign);
+  },
+
+  async onFailure(job) {
+    // Drop whatever part of the audience was already queued instead of sending to a partial list.
+    await cancelCampaign(job.campaign);
+    await Campaign.updateOne({ _id: job.campaign, status: 'cancelled' }, { status: 'failed' });
+  },
+
+  async afterSettled(job) {
+    // Closes out a campaign whose audience turned out to be empty.
+    await finishCampaignIfDone(job.campaign);
+  },
+};
+
+module.exports = { START_CAMPAIGN_JOB, scheduleCampaignStart, rescheduleCampaignStart, startCampaignHandler };
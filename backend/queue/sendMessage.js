@@ -0,0 +1,84 @@
+const Campaign = require('../models/Campaign');
+const MessageRecipient = require('../models/MessageRecipient');
+const Job = require('../models/Job');
+const Contact = require('../models/Contact');
+const { getSender } = require('../senders');
+const { buildMessageBody } = require('../senders/message');
+const { contactVariables, renderTemplate } = require('../senders/personalize');
+const { buildTemplateComponents } = require('../templates/parameters');
+const { campaignVersion } = require('../campaigns/translations');
+const { isSuppressed } = require('../contacts/consent');
+const { finishCampaignIfDone } = require('./campaigns');
+
+// Sends one campaign message to one recipient. Payload: { recipientId }.
+const sendMessageHandler = {
+  throttled: true,
+
+  async run(job) {
+    const recipient = await MessageRecipient.findById(job.payload.recipientId);
+    if (!recipient || recipient.status !== 'queued') return;
+
+    const campaign = await Campaign.findById(recipient.campaign);
+    if (!campaign) return;
+    if (campaign.status === 'paused') {
+      // Paused after this job was claimed: hold it back with the rest of the campaign.
+      await Job.updateOne({ _id: job._id, status: 'processing' }, { status: 'paused', $inc: { attempts: -1 } });
+      return;
+    }
+    if (!['queued', 'sending'].includes(campaign.status)) return;
+    if (campaign.status === 'queued') {
+      await Campaign.updateOne({ _id: campaign._id, status: 'queued' }, { status: 'sending', startedAt: new Date() });
+    }
+
+    if (await isSuppressed(recipient.contact, recipient.phone)) {
+      await MessageRecipient.updateOne(
+        { _id: recipient._id, status: 'queued' },
+        { status: 'cancelled', error: { code: 'suppressed', message: 'Recipient opted out before the message was sent.' } }
+      );
+      return;
+    }
+
+    const media = campaign.media?.providerMediaId
+      ? { id: campaign.media.providerMediaId, type: campaign.media.type, filename: campaign.media.filename }
+      : null;
+
+    // Placeholders are filled from the contact as it is now; if it has since been deleted, the
+    // name and phone copied onto the recipient still cover the built-in variables.
+    const contact = recipient.contact ? await Contact.findById(recipient.contact).lean() : null;
+    const variables = contactVariables(contact || recipient);
+    const { heading, content } = campaignVersion(campaign, recipient.language);
+    const message = campaign.template?.name
+      ? {
+        template: {
+          name: campaign.template.name,
+          language: campaign.template.language,
+          components: buildTemplateComponents(campaign.template, campaign.template.parameters, variables, media),
+        },
+      }
+      : {
+        text: buildMessageBody(
+          renderTemplate(heading, variables).text,
+          renderTemplate(content, variables).text
+        ),
+        media,
+      };
+    const { messageId } = await getSender().sendMessage(recipient.phone, message);
+    await MessageRecipient.updateOne(
+      { _id: recipient._id },
+      { status: 'sent', providerMessageId: messageId, sentAt: new Date(), $unset: { error: 1 } }
+    );
+  },
+
+  async onFailure(job, err) {
+    await MessageRecipient.updateOne(
+      { _id: job.payload.recipientId, status: 'queued' },
+      { status: 'failed', error: { code: err.code ?? null, message: err.message }, failedAt: new Date() }
+    );
+  },
+
+  async afterSettled(job) {
+    await finishCampaignIfDone(job.campaign);
+  },
+};
+
+module.exports = sendMessageHandler;
@@ -0,0 +1,33 @@
+const Job = require('../models/Job');
+const { syncTemplates } = require('../templates/sync');
+
+const SYNC_TEMPLATES_JOB = 'templates.sync';
+
+const syncIntervalMs = () => (Number(process.env.TEMPLATE_SYNC_INTERVAL_MINUTES) || 60) * 60 * 1000;
+
+// Queues the next template sync unless one is already waiting. Each sync schedules the next one,
+// so calling this once keeps template statuses refreshed every TEMPLATE_SYNC_INTERVAL_MINUTES.
+const scheduleTemplateSync = async (runAt = new Date()) => {
+  const waiting = await Job.exists({ type: SYNC_TEMPLATES_JOB, status: { $in: ['pending', 'processing'] } });
+  if (!waiting) {
+    await Job.create({ type: SYNC_TEMPLATES_JOB, runAt });
+  }
+};
+
+// Pulls template approval statuses from the provider. Payload: none.
+const syncTemplatesHandler = {
+  throttled: false,
+
+  async run() {
+    const summary = await syncTemplates();
+    if (summary) {
+      console.log(`Template sync: ${summary.created} added, ${summary.updated} updated, ${summary.removed} removed.`);
+    }
+  },
+
+  async afterSettled() {
+    await scheduleTemplateSync(new Date(Date.now() + syncIntervalMs()));
+  },
+};
+
+module.exports = { SYNC_TEMPLATES_JOB, scheduleTemplateSync, syncTemplatesHandler };
@@ -0,0 +1,120 @@
+const Job = require('../models/Job');
+
+// Job handlers by type. Each handler is { run(job), onFailure(job, err), afterSettled(job), throttled }.
+//   run           - does the work; throw an error with `retryable: true` to have the job retried
+//   onFailure     - called once when the job has failed for good
+//   afterSettled  - called after the job is done or failed, e.g. to close out its campaign
+//   throttled     - counts against the SEND_RATE_PER_SECOND limit
+const handlers = {};
+
+const registerHandler = (type, handler) => {
+  handlers[type] = handler;
+};
+
+const RETRY_BASE_MS = parseInt(process.env.SEND_RETRY_BASE_MS, 10) || 2000;
+const RETRY_MAX_MS = 15 * 60 * 1000;
+// A job stuck in `processing` this long belongs to a worker that died; it is handed out again.
+const STALE_LOCK_MS = 5 * 60 * 1000;
+
+const sendRatePerSecond = () => parseFloat(process.env.SEND_RATE_PER_SECOND) || 10;
+
+// Exponential backoff with jitter: ~2s, 4s, 8s, ... capped at 15 minutes.
+const retryDelay = (attempts) => {
+  const base = Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS);
+  return Math.round(base * (0.8 + Math.random() * 0.4));
+};
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const claimNextJob = () => {
+  const now = new Date();
+  return Job.findOneAndUpdate(
+    {
+      $or: [
+        { status: 'pending', runAt: { $lte: now } },
+        { status: 'processing', lockedAt: { $lte: new Date(now.getTime() - STALE_LOCK_MS) } },
+      ],
+    },
+    { $set: { status: 'processing', lockedAt: now }, $inc: { attempts: 1 } },
+    { sort: { runAt: 1 }, new: true }
+  );
+};
+
+const runJob = async (job) => {
+  const handler = handlers[job.type];
+  if (!handler) {
+    await Job.updateOne({ _id: job._id }, {
+      status: 'failed',
+      lastError: { message: `No handler registered for job type "${job.type}"` },
+      finishedAt: new Date(),
+    });
+    return;
+  }
+
+  try {
+    await handler.run(job);
+    // The status filter keeps a job that was cancelled mid-flight from being marked done.
+    await Job.updateOne({ _id: job._id, status: 'processing' }, { status: 'done', finishedAt: new Date() });
+  } catch (err) {
+    const lastError = { code: err.code ?? null, message: err.message };
+    if (err.retryable && job.attempts < job.maxAttempts) {
+      const runAt = new Date(Date.now() + retryDelay(job.attempts));
+      console.warn(`Job ${job._id} (${job.type}) failed on attempt ${job.attempts}, retrying at ${runAt.toISOString()}: ${err.message}`);
+      await Job.updateOne({ _id: job._id, status: 'processing' }, { status: 'pending', runAt, lastError });
+      return;
+    }
+    console.error(`Job ${job._id} (${job.type}) failed permanently: ${err.message}`);
+    await Job.updateOne({ _id: job._id }, { status: 'failed', lastError, finishedAt: new Date() });
+    if (handler.onFailure) await handler.onFailure(job, err);
+  }
+
+  if (handler.afterSettled) await handler.afterSettled(job);
+};
+
+let nextThrottledRunAt = 0;
+
+// Processes due jobs one at a time until the queue is empty or `deadline` (a timestamp) passes.
+// Throttled jobs are spaced out so this process never exceeds SEND_RATE_PER_SECOND.
+const processQueue = async ({ deadline = Infinity } = {}) => {
+  let processed = 0;
+  while (Date.now() < deadline) {
+    const job = await claimNextJob();
+    if (!job) break;
+
+    if (handlers[job.type]?.throttled) {
+      const wait = nextThrottledRunAt - Date.now();
+      if (wait > 0) await sleep(wait);
+      nextThrottledRunAt = Date.now() + 1000 / sendRatePerSecond();
+    }
+
+    await runJob(job);
+    processed += 1;
+  }
+  return processed;
+};
+
+// Starts a polling loop for long-running (non-serverless) deployments.
+const startWorker = ({ connect, pollIntervalMs = 1000 } = {}) => {
+  let stopped = false;
+  let connected = false;
+
+  const loop = async () => {
+    while (!stopped) {
+      try {
+        if (!connected) {
+          await connect();
+          connected = true;
+        }
+        await processQueue();
+      } catch (err) {
+        console.error('Queue worker error:', err.message);
+      }
+      await sleep(pollIntervalMs);
+    }
+  };
+  loop();
+
+  return () => { stopped = true; };
+};
+
+module.exports = { registerHandler, processQueue, startWorker };
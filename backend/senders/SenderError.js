@@ -0,0 +1,15 @@
+// Error raised by a sender when a message could not be handed to the provider.
+// `retryable` tells callers whether trying the same message again later may succeed
+// (rate limits, timeouts, 5xx) or is pointless (bad number, invalid payload).
+class SenderError extends Error {
+  constructor(message, { code = null, status = null, retryable = false, details = null } = {}) {
+    super(message);
+    this.name = 'SenderError';
+    this.code = code;
+    this.status = status;
+    this.retryable = retryable;
+    this.details = details;
+  }
+}
+
+module.exports = SenderError;
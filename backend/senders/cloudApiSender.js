@@ -0,0 +1,175 @@
+const SenderError = require('./SenderError');
+const { CAPTION_TYPES, toWhatsAppId } = require('./message');
+
+// Graph API error codes that are worth retrying later.
+// See https://developers.facebook.com/docs/whatsapp/cloud-api/support/error-codes
+const RETRYABLE_ERROR_CODES = new Set([
+  1,      // API Unknown
+  2,      // API Service
+  4,      // API Too Many Calls
+  80007,  // Rate limit hit
+  130429, // Rate limit hit
+  131000, // Something went wrong
+  131016, // Service unavailable
+  131056, // Pair rate limit hit
+  133004, // Server temporarily unavailable
+]);
+
+const toSenderError = (status, body) => {
+  const graphError = body && body.error ? body.error : {};
+  const code = graphError.code ?? null;
+  const retryable = status === 429 || status >= 500 || RETRYABLE_ERROR_CODES.has(code);
+  const message = graphError.error_data?.details || graphError.message || `Graph API request failed with status ${status}`;
+  return new SenderError(message, { code, status, retryable, details: graphError });
+};
+
+// Fields requested when listing templates.
+const TEMPLATE_FIELDS = 'id,name,language,category,status,components,rejected_reason';
+
+// Sender for the WhatsApp Cloud API (Graph `/{phone-number-id}/messages`).
+// `baseUrl` can point at the local stand-in in dev/fakeGraphApi.js instead of graph.facebook.com.
+// Templates belong to the WhatsApp Business Account, so managing them also needs `businessAccountId`.
+const createCloudApiSender = ({ accessToken, phoneNumberId, businessAccountId, apiVersion = 'v21.0', baseUrl = 'https://graph.facebook.com' }) => {
+  if (!accessToken || !phoneNumberId) {
+    throw new Error('The Cloud API sender requires an access token and a phone number ID.');
+  }
+
+  const graphUrl = (path) => `${baseUrl.replace(/\/$/, '')}/${apiVersion}/${path}`;
+
+  const fetchGraph = async (url, init = {}) => {
+    let response;
+    try {
+      response = await fetch(url, {
+        ...init,
+        headers: { Authorization: `Bearer ${accessToken}`, ...init.headers },
+      });
+    } catch (err) {
+      // Network failures (DNS, connection reset, timeouts) are always worth another try.
+      throw new SenderError(`Could not reach the Graph API: ${err.message}`, { retryable: true });
+    }
+    if (!response.ok) {
+      throw toSenderError(response.status, await response.json().catch(() => null));
+    }
+    return response;
+  };
+
+  const request = async (path, init) => {
+    const response = await fetchGraph(graphUrl(`${phoneNumberId}/${path}`), init);
+    return response.json().catch(() => null);
+  };
+
+  const templateRequest = async (path, init) => {
+    if (!businessAccountId) {
+      throw new SenderError('WHATSAPP_BUSINESS_ACCOUNT_ID must be set to manage message templates.', { status: 503 });
+    }
+    const response = await fetchGraph(graphUrl(path.replace('{waba}', businessAccountId)), init);
+    return response.json().catch(() => null);
+  };
+
+  const jsonInit = (method, body) => ({
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  return {
+    name: 'cloud-api',
+
+    templates: {
+      // Follows the Graph paging cursors until every template has been read.
+      async list() {
+        const templates = [];
+        let after = null;
+        do {
+          const query = new URLSearchParams({ fields: TEMPLATE_FIELDS, limit: '100' });
+          if (after) query.set('after', after);
+          const page = await templateRequest(`{waba}/message_templates?${query}`);
+          templates.push(...(page?.data || []));
+          after = page?.paging?.next ? page.paging.cursors?.after : null;
+        } while (after);
+        return templates;
+      },
+
+      async create({ name, language, category, components }) {
+        const body = await templateRequest('{waba}/message_templates', jsonInit('POST', { name, language, category, components }));
+        return { id: body.id, status: body.status, category: body.category };
+      },
+
+      // Meta only allows the components (and, for some templates, the category) to change.
+      async update(templateId, { category, components }) {
+        await templateRequest(encodeURIComponent(templateId), jsonInit('POST', { category, components }));
+      },
+
+      async remove({ name, templateId }) {
+        const query = new URLSearchParams({ name });
+        if (templateId) query.set('hsm_id', templateId);
+        await templateRequest(`{waba}/message_templates?${query}`, { method: 'DELETE' });
+      },
+    },
+
+    async uploadMedia(file) {
+      const form = new FormData();
+      form.append('messaging_product', 'whatsapp');
+      form.append('type', file.mimetype);
+      form.append('file', new Blob([file.buffer], { type: file.mimetype }), file.originalname);
+
+      const body = await request('media', { method: 'POST', body: form });
+      return { id: body.id };
+    },
+
+    // Inbound media is fetched in two steps: the media id resolves to a short-lived URL,
+    // which is then downloaded with the same access token.
+    async downloadMedia(mediaId) {
+      const info = await (await fetchGraph(graphUrl(encodeURIComponent(mediaId)))).json();
+      const file = await fetchGraph(info.url);
+      return {
+        buffer: Buffer.from(await file.arrayBuffer()),
+        mimetype: info.mime_type || file.headers.get('content-type') || 'application/octet-stream',
+      };
+    },
+
+    async sendMessage(to, { text, media, template }) {
+      const recipient = {
+        messaging_product: 'whatsapp',
+        recipient_type: 'individual',
+        to: toWhatsAppId(to),
+      };
+
+      const post = async (payload) => {
+        const body = await request('messages', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ ...recipient, ...payload }),
+        });
+        return body.messages?.[0]?.id ?? null;
+      };
+      const textPayload = () => ({ type: 'text', text: { body: text, preview_url: /https?:\/\//.test(text) } });
+
+      if (template) {
+        return {
+          messageId: await post({
+            type: 'template',
+            template: { name: template.name, language: { code: template.language }, components: template.components },
+          }),
+        };
+      }
+      if (!media) {
+        return { messageId: await post(textPayload()) };
+      }
+
+      const mediaObject = { id: media.id };
+      const canCaption = CAPTION_TYPES.includes(media.type);
+      if (text && canCaption) mediaObject.caption = text;
+      if (media.type === 'document' && media.filename) mediaObject.filename = media.filename;
+
+      const messageId = await post({ type: media.type, [media.type]: mediaObject });
+      // Audio and stickers cannot carry a caption, so the text follows as its own message.
+      if (text && !canCaption) {
+        await post(textPayload());
+      }
+      return { messageId };
+    },
+  };
+};
+
+module.exports = createCloudApiSender;
@@ -0,0 +1,56 @@
+const crypto = require('crypto');
+const SenderError = require('./SenderError');
+
+// Offline sender that only logs what would have been sent.
+// Used for local development and whenever no WhatsApp credentials are configured.
+const createConsoleSender = ({ delayMs = 0 } = {}) => {
+  const wait = () => new Promise((resolve) => setTimeout(resolve, delayMs));
+
+  return {
+    name: 'console',
+
+    async uploadMedia(file) {
+      console.log(`[console sender] Media: ${file.originalname} (${file.mimetype}, ${file.size} bytes)`);
+      return { id: `console-media-${crypto.randomUUID()}` };
+    },
+
+    async downloadMedia(mediaId) {
+      throw new SenderError(`Media ${mediaId} is not available from the console sender.`, { status: 404 });
+    },
+
+    // There is no approval process offline: templates are accepted as approved straight away, and
+    // `list` returns null because there is no remote copy to sync from.
+    templates: {
+      async list() {
+        return null;
+      },
+      async create({ name, language }) {
+        console.log(`[console sender] Template submitted: ${name} (${language})`);
+        return { id: `console-template-${crypto.randomUUID()}`, status: 'APPROVED' };
+      },
+      async update(templateId) {
+        console.log(`[console sender] Template updated: ${templateId}`);
+      },
+      async remove({ name }) {
+        console.log(`[console sender] Template deleted: ${name}`);
+      },
+    },
+
+    async sendMessage(to, { text, media, template }) {
+      if (delayMs) await wait();
+      console.log('\n--- SIMULATING MESSAGE SEND ---');
+      console.log(`Timestamp: ${new Date().toISOString()}`);
+      console.log(`To: ${to}`);
+      if (template) {
+        console.log(`Template: ${template.name} (${template.language})`);
+        console.log(`Components: ${JSON.stringify(template.components)}`);
+      }
+      console.log(`Text: ${text || '(none)'}`);
+      console.log(`Media: ${media ? `${media.type} ${media.id}` : 'None'}`);
+      console.log('-------------------------------\n');
+      return { messageId: `console.${crypto.randomUUID()}` };
+    },
+  };
+};
+
+module.exports = createConsoleSender;
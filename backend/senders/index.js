@@ -0,0 +1,40 @@
+const createConsoleSender = require('./consoleSender');
+const createCloudApiSender = require('./cloudApiSender');
+
+// Every sender implements the same interface:
+//   name                       - provider identifier stored alongside sent messages
+//   uploadMedia(file)          - takes a multer file, resolves to { id }
+//   downloadMedia(mediaId)     - fetches inbound media, resolves to { buffer, mimetype }
+//   sendMessage(to, message)   - `to` is an E.164 number, `message` is { text, media: { id, type, filename } | null,
+//                                template: { name, language, components } | undefined },
+//                                resolves to { messageId } or rejects with a SenderError
+//   templates                  - message template management: list() resolves to Graph template objects
+//                                (or null when the provider keeps none), create(template), update(id, template),
+//                                remove({ name, templateId })
+const SENDERS = {
+  console: () => createConsoleSender(),
+  'cloud-api': () => createCloudApiSender({
+    accessToken: process.env.WHATSAPP_ACCESS_TOKEN,
+    phoneNumberId: process.env.WHATSAPP_PHONE_NUMBER_ID,
+    businessAccountId: process.env.WHATSAPP_BUSINESS_ACCOUNT_ID,
+    apiVersion: process.env.GRAPH_API_VERSION,
+    baseUrl: process.env.GRAPH_API_BASE_URL,
+  }),
+};
+
+let sender;
+
+// Returns the sender selected by MESSAGE_PROVIDER, defaulting to the offline console sender.
+const getSender = () => {
+  if (!sender) {
+    const providerName = process.env.MESSAGE_PROVIDER || 'console';
+    const factory = SENDERS[providerName];
+    if (!factory) {
+      throw new Error(`Unknown MESSAGE_PROVIDER "${providerName}". Expected one of: ${Object.keys(SENDERS).join(', ')}.`);
+    }
+    sender = factory();
+  }
+  return sender;
+};
+
+module.exports = { getSender };
@@ -0,0 +1,25 @@
+// Helpers shared by every sender for turning a broadcast into WhatsApp message parts.
+
+// WhatsApp only allows captions on these media types.
+const CAPTION_TYPES = ['image', 'video', 'document'];
+
+const mediaTypeFromMime = (mimetype = '') => {
+  if (mimetype === 'image/webp') return 'sticker';
+  if (mimetype.startsWith('image/')) return 'image';
+  if (mimetype.startsWith('video/')) return 'video';
+  if (mimetype.startsWith('audio/')) return 'audio';
+  return 'document';
+};
+
+// The heading is shown in bold above the content, using WhatsApp's *bold* markup.
+const buildMessageBody = (heading, content) => {
+  const parts = [];
+  if (heading && heading.trim()) parts.push(`*${heading.trim()}*`);
+  if (content && content.trim()) parts.push(content.trim());
+  return parts.join('\n\n');
+};
+
+// WhatsApp expects the recipient as digits only, without the leading "+".
+const toWhatsAppId = (phone) => phone.replace(/^\+/, '');
+
+module.exports = { CAPTION_TYPES, mediaTypeFromMime, buildMessageBody, toWhatsAppId };
@@ -0,0 +1,74 @@
+// Per-recipient placeholders in broadcast text: `{{name}}`, `{{first_name}}`, custom contact
+// attributes such as `{{city}}`, and fallbacks for when a value is missing: `{{city|there}}`.
+// frontend/src/utils/personalize.ts mirrors this file for the composer preview; keep them in sync.
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*(?:\|([^}]*))?\}\}/g;
+
+// Variables every contact has, derived from the contact's own fields.
+const BUILT_IN_VARIABLES = ['name', 'first_name', 'last_name', 'phone'];
+
+const splitName = (name = '') => {
+  const [first = '', ...rest] = name.trim().split(/\s+/);
+  return { first, last: rest.join(' ') };
+};
+
+// The values available to a contact's message. Attributes never override the built-ins. Typed
+// attribute values are written as text: 42, "2025-06-01", true.
+const contactVariables = (contact) => {
+  const { first, last } = splitName(contact.name);
+  const attributes = contact.attributes instanceof Map
+    ? Object.fromEntries(contact.attributes)
+    : contact.attributes || {};
+  return {
+    ...Object.fromEntries(Object.entries(attributes)
+      .filter(([, value]) => value !== undefined && value !== null)
+      .map(([key, value]) => [key, String(value)])),
+    name: contact.name || '',
+    first_name: first,
+    last_name: last,
+    phone: contact.phone || '',
+  };
+};
+
+// Lists the placeholders used in `text`, once per key. A key used both with and without a
+// fallback is reported without one, since that occurrence can come out empty.
+const extractPlaceholders = (text) => {
+  const found = new Map();
+  for (const [, key, fallback] of String(text || '').matchAll(PLACEHOLDER_PATTERN)) {
+    const trimmed = fallback === undefined ? undefined : fallback.trim();
+    if (!found.has(key) || trimmed === undefined) found.set(key, trimmed);
+  }
+  return Array.from(found, ([key, fallback]) => ({ key, fallback }));
+};
+
+// Replaces every placeholder in `text`. Placeholders with no value and no fallback are left
+// empty and reported in `missing`.
+const renderTemplate = (text, variables) => {
+  const missing = new Set();
+  const rendered = String(text || '').replace(PLACEHOLDER_PATTERN, (match, key, fallback) => {
+    const value = variables[key];
+    if (value !== undefined && value !== null && String(value).trim() !== '') return String(value);
+    if (fallback !== undefined) return fallback.trim();
+    missing.add(key);
+    return '';
+  });
+  return { text: rendered, missing: Array.from(missing) };
+};
+
+// MongoDB filter for contacts that have no value for `key`, used to warn before sending.
+// Returns null for keys every contact has.
+const missingValueFilter = (key) => {
+  if (key === 'name' || key === 'first_name' || key === 'phone') return null;
+  if (key === 'last_name') return { name: { $not: /\S\s+\S/ } };
+  const path = `attributes.${key}`;
+  return { $or: [{ [path]: { $exists: false } }, { [path]: null }, { [path]: '' }] };
+};
+
+module.exports = {
+  PLACEHOLDER_PATTERN,
+  BUILT_IN_VARIABLES,
+  contactVariables,
+  extractPlaceholders,
+  renderTemplate,
+  missingValueFilter,
+};
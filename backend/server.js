@@ -1,138 +1,544 @@
 
+const os = require('os');
+const fs = require('fs');
 const express = require('express');
 const mongoose = require('mongoose');
 const cors = require('cors');
 const multer = require('multer');
-const { GoogleGenAI } = require('@google/genai');
 require('dotenv').config();
 
+const { connectToDatabase } = require('./db');
+const { signToken, requireAuth, requirePermission } = require('./middleware/auth');
+const { verifyWebhookSignature } = require('./middleware/webhookSignature');
 const Contact = require('./models/Contact');
+const Group = require('./models/Group');
+const Suppression = require('./models/Suppression');
+const ConsentEvent = require('./models/ConsentEvent');
+const MessageTemplate = require('./models/MessageTemplate');
+const WorkspaceSettings = require('./models/WorkspaceSettings');
+const User = require('./models/User');
+const Campaign = require('./models/Campaign');
+const MessageRecipient = require('./models/MessageRecipient');
+const Conversation = require('./models/Conversation');
+const ConversationMessage = require('./models/ConversationMessage');
+const Media = require('./models/Media');
+const { getSender } = require('./senders');
+const { buildMessageBody } = require('./senders/message');
+const { BUILT_IN_VARIABLES, extractPlaceholders, missingValueFilter } = require('./senders/personalize');
+const { processWebhookPayload } = require('./webhooks');
+const { ImportError, formatFromFilename, previewFile, importContacts } = require('./contacts/importer');
+const { findExportFormat } = require('./contacts/exporter');
+const { buildContactFilter, escapeRegex } = require('./contacts/filters');
+const { PhoneError, normalizePhone, phoneSearchDigits } = require('./contacts/phone');
+const { LanguageError, normalizeLanguage } = require('./contacts/language');
+const { AttributeError, parseAttributeValues } = require('./contacts/attributes');
+const { CursorError, parseContactPage, encodeCursor } = require('./contacts/pagination');
+const {
+  BulkError,
+  resolveSelection,
+  summarize,
+  deleteContacts,
+  updateTags,
+  updateGroupMembership,
+  optOutContacts,
+} = require('./contacts/bulk');
+const { AudienceError, buildAudienceFilter, normalizeTags } = require('./contacts/audience');
+const { setConsent, sendableFilter, countSendable } = require('./contacts/consent');
+const { previewText } = require('./webhooks/messages');
+const { TemplateError, MEDIA_FORMATS, templateParameterSlots, validateParameterMapping } = require('./templates/parameters');
+const { syncTemplates } = require('./templates/sync');
+const { ScheduleError, parseSchedule, zonedParts } = require('./campaigns/schedule');
+const { deliveryRates, totalStats, deliveryTimeline, failureReasons, languageBreakdown } = require('./campaigns/analytics');
+const { TranslationError, parseCampaignTranslations } = require('./campaigns/translations');
+const { analyzeMessage, summarizeIssues } = require('./campaigns/compliance');
+const { MediaError, MEDIA_TYPES, MAX_MEDIA_BYTES, checkMediaLimits } = require('./media/limits');
+const {
+  GenerationError,
+  parseGenerationRequest,
+  buildGenerationPrompt,
+  parseVariants,
+} = require('./ai/generation');
+const { parseTranslationRequest, buildTranslationPrompt, parseTranslation, missingPlaceholders } = require('./ai/translation');
+const { buildReviewPrompt, parseReview } = require('./ai/review');
+const { ProviderError, getProvider, listProviders } = require('./ai/providers');
+const { RoleError, permissionsFor, parseRole, checkRoleChange } = require('./users/roles');
+const { saveUpload, loadMediaFile, loadThumbnail, removeMedia } = require('./media/library');
+const {
+  startCampaignExpansion,
+  pauseCampaign,
+  resumeCampaign,
+  cancelCampaign,
+  scheduleCampaignStart,
+  rescheduleCampaignStart,
+  processQueue,
+  startWorker,
+  scheduleTemplateSync,
+} = require('./queue');
 
 const app = express();
 
 // --- Middleware ---
 app.use(cors()); // Allow requests from the frontend
-app.use(express.json()); // Parse JSON bodies
+// Parse JSON bodies, keeping the raw bytes for webhook signature verification
+app.use(express.json({
+  verify: (req, res, buf) => {
+    req.rawBody = buf;
+  },
+}));
 
 // --- File Upload Setup (Multer) ---
-// We'll store files in memory for this simulation.
+// Media files are held in memory while they are checked and saved to the media library.
 const storage = multer.memoryStorage();
-const upload = multer({ storage: storage });
-
-// --- Gemini AI Setup ---
-let ai;
-if (process.env.API_KEY) {
-  ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-} else {
-  console.warn("API_KEY environment variable not set. AI features will be disabled.");
-}
+const upload = multer({ storage: storage, limits: { fileSize: MAX_MEDIA_BYTES } });
+// Contact imports can be large, so they go to a temp file and are streamed from disk.
+const importUpload = multer({ dest: os.tmpdir(), limits: { fileSize: 100 * 1024 * 1024 } });
+
+// --- Authentication ---
+// Every /api/* route requires a valid bearer token, except the ones listed here.
+// Meta calls the webhook directly, so it cannot carry one of our tokens; cron routes check CRON_SECRET instead.
+// Invited members accept their invitation before they have a password to log in with.
+const PUBLIC_API_PATHS = ['/auth/login', '/auth/accept-invite', '/webhook', '/cron/process-queue'];
+
+app.use('/api', (req, res, next) => {
+  if (PUBLIC_API_PATHS.includes(req.path)) {
+    return next();
+  }
+  requireAuth(req, res, next);
+});
+
+const transformUser = (user) => ({
+  id: user._id.toString(),
+  username: user.username,
+  role: user.role,
+  permissions: permissionsFor(user.role),
+  createdAt: user.createdAt,
+});
+
+// The minimum length of a password chosen when accepting an invitation.
+const MIN_PASSWORD_LENGTH = 8;
 
-// --- Database Connection ---
-// We cache the connection and promise to avoid reconnecting on every serverless function invocation.
-// This is the recommended pattern for Mongoose on serverless platforms like Vercel.
-let cached = {
-  conn: null,
-  promise: null,
+// On a fresh database there is nobody to log in as. If ADMIN_USERNAME and ADMIN_PASSWORD are set,
+// the first login attempt creates that account so the instance can be bootstrapped.
+const ensureBootstrapUser = async () => {
+  const { ADMIN_USERNAME, ADMIN_PASSWORD } = process.env;
+  if (!ADMIN_USERNAME || !ADMIN_PASSWORD) return;
+  if (await User.estimatedDocumentCount() > 0) return;
+
+  const user = new User({ username: ADMIN_USERNAME, role: 'owner' });
+  await user.setPassword(ADMIN_PASSWORD);
+  await user.save();
+  console.log(`Created initial user "${user.username}" from ADMIN_USERNAME.`);
 };
 
-const connectToDatabase = async () => {
-  if (cached.conn) {
-    console.log('Using cached database connection');
-    return cached.conn;
-  }
-
-  if (!cached.promise) {
-    const MONGO_URI = process.env.MONGO_URI;
-    if (!MONGO_URI) {
-      throw new Error('MONGO_URI not found in environment variables. Database features will not be available.');
-    }
-    
-    console.log('Creating new database connection...');
-    const opts = {
-      bufferCommands: false, // Disable Mongoose's buffering so commands fail immediately if connection is lost
-    };
-    
-    cached.promise = mongoose.connect(MONGO_URI, opts).then((mongooseInstance) => {
-      console.log('MongoDB Connected successfully.');
-      return mongooseInstance;
-    });
+// POST to log in and receive a signed token
+app.post('/api/auth/login', async (req, res) => {
+  if (!process.env.JWT_SECRET) {
+    return res.status(503).json({ message: 'Authentication is not configured on the server.' });
+  }
+
+  const { username, password } = req.body;
+  if (typeof username !== 'string' || typeof password !== 'string' || !username.trim() || !password) {
+    return res.status(400).json({ message: 'Username and password are required.' });
+  }
+
+  try {
+    await connectToDatabase();
+    await ensureBootstrapUser();
+    const user = await User.findOne({ username: username.trim().toLowerCase() }).select('+passwordHash');
+    if (!user || !(await user.verifyPassword(password))) {
+      return res.status(401).json({ message: 'Invalid username or password.' });
+    }
+    res.json({ token: signToken(user), user: transformUser(user) });
+  } catch (err) {
+    console.error('Error logging in:', err);
+    res.status(500).json({ message: 'Server Error: Could not log in.' });
+  }
+});
+
+// POST to log out, invalidating every token issued to the current user
+app.post('/api/auth/logout', async (req, res) => {
+  try {
+    await User.updateOne({ _id: req.user._id }, { $inc: { tokenVersion: 1 } });
+    res.json({ success: true });
+  } catch (err) {
+    console.error('Error logging out:', err);
+    res.status(500).json({ message: 'Server Error: Could not log out.' });
+  }
+});
+
+// GET the currently authenticated user, with their role's permissions
+app.get('/api/auth/me', (req, res) => {
+  res.json(transformUser(req.user));
+});
+
+// POST an invitation token and a new password to join the team; logs the new member in
+app.post('/api/auth/accept-invite', async (req, res) => {
+  if (!process.env.JWT_SECRET) {
+    return res.status(503).json({ message: 'Authentication is not configured on the server.' });
+  }
+
+  const { token, password } = req.body;
+  if (typeof token !== 'string' || !token) {
+    return res.status(400).json({ message: 'Invitation token is required.' });
+  }
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    return res.status(400).json({ message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters.` });
   }
-  
+
   try {
-    cached.conn = await cached.promise;
-  } catch (e) {
-    cached.promise = null; // Reset promise on error to allow retry
-    console.error('MongoDB connection error:', e);
-    throw e; // Rethrow to be caught in the route handler
+    await connectToDatabase();
+    const user = await User.findByInviteToken(token);
+    if (!user) {
+      return res.status(400).json({ message: 'This invitation is invalid or has expired. Please ask for a new one.' });
+    }
+    await user.setPassword(password);
+    user.inviteTokenHash = undefined;
+    user.inviteExpiresAt = undefined;
+    await user.save();
+    res.json({ token: signToken(user), user: transformUser(user) });
+  } catch (err) {
+    console.error('Error accepting invitation:', err);
+    res.status(500).json({ message: 'Server Error: Could not accept the invitation.' });
   }
+});
+
+// --- Team Members ---
+const transformMember = (user) => ({
+  ...transformUser(user),
+  status: user.inviteExpiresAt ? 'invited' : 'active',
+  inviteExpiresAt: user.inviteExpiresAt,
+});
 
-  return cached.conn;
+// Loads the team member named in the route, or sends the 400/404 response and returns null.
+const findMember = async (id, res) => {
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    res.status(400).json({ message: 'Invalid user ID format.' });
+    return null;
+  }
+  const user = await User.findById(id);
+  if (!user) {
+    res.status(404).json({ message: 'User not found.' });
+    return null;
+  }
+  return user;
 };
 
+// GET every team member and pending invitation
+app.get('/api/users', requirePermission('users.manage'), async (req, res) => {
+  try {
+    await connectToDatabase();
+    const users = await User.find().sort({ createdAt: 1 });
+    res.json(users.map(transformMember));
+  } catch (err) {
+    console.error('Error fetching users:', err);
+    res.status(500).json({ message: 'Server Error: Could not fetch team members.' });
+  }
+});
+
+// POST { username, role } to invite a team member; responds with the member and the token for
+// their invitation link, which is only shown this once
+app.post('/api/users', requirePermission('users.manage'), async (req, res) => {
+  const { username, role } = req.body;
+  if (typeof username !== 'string' || !username.trim()) {
+    return res.status(400).json({ message: 'Username is required.' });
+  }
+  try {
+    await connectToDatabase();
+    const user = new User({ username, role: parseRole(role), invitedBy: req.user._id });
+    checkRoleChange(req.user, user, user.role);
+    const inviteToken = user.createInvite();
+    await user.save();
+    res.status(201).json({ user: transformMember(user), inviteToken });
+  } catch (err) {
+    if (err instanceof RoleError) {
+      return res.status(400).json({ message: err.message });
+    }
+    if (err.code === 11000) {
+      return res.status(409).json({ message: 'A team member with this username already exists.' });
+    }
+    console.error('Error inviting user:', err);
+    res.status(500).json({ message: 'Server Error: Could not invite the team member.' });
+  }
+});
+
+// POST to replace a pending invitation with a new link, e.g. when the first one expired
+app.post('/api/users/:id/invite', requirePermission('users.manage'), async (req, res) => {
+  try {
+    await connectToDatabase();
+    const user = await findMember(req.params.id, res);
+    if (!user) return;
+    if (!user.inviteExpiresAt) {
+      return res.status(409).json({ message: 'This team member has already accepted their invitation.' });
+    }
+    checkRoleChange(req.user, user, user.role);
+    const inviteToken = user.createInvite();
+    await user.save();
+    res.json({ user: transformMember(user), inviteToken });
+  } catch (err) {
+    if (err instanceof RoleError) {
+      return res.status(400).json({ message: err.message });
+    }
+    console.error('Error renewing invitation:', err);
+    res.status(500).json({ message: 'Server Error: Could not renew the invitation.' });
+  }
+});
+
+// PATCH { role } to change a team member's role; it applies to their next request
+app.patch('/api/users/:id', requirePermission('users.manage'), async (req, res) => {
+  try {
+    await connectToDatabase();
+    const user = await findMember(req.params.id, res);
+    if (!user) return;
+    const role = parseRole(req.body.role);
+    checkRoleChange(req.user, user, role);
+    user.role = role;
+    await user.save();
+    res.json(transformMember(user));
+  } catch (err) {
+    if (err instanceof RoleError) {
+      return res.status(400).json({ message: err.message });
+    }
+    console.error('Error changing role:', err);
+    res.status(500).json({ message: 'Server Error: Could not change the role.' });
+  }
+});
+
+// DELETE a team member or pending invitation; their sessions end at once
+app.delete('/api/users/:id', requirePermission('users.manage'), async (req, res) => {
+  try {
+    await connectToDatabase();
+    const user = await findMember(req.params.id, res);
+    if (!user) return;
+    checkRoleChange(req.user, user, null);
+    await user.deleteOne();
+    res.json({ success: true });
+  } catch (err) {
+    if (err instanceof RoleError) {
+      return res.status(400).json({ message: err.message });
+    }
+    console.error('Error removing user:', err);
+    res.status(500).json({ message: 'Server Error: Could not remove the team member.' });
+  }
+});
+
 
 // --- API Routes ---
-const transformContact = (contact) => {
-  const { _id, __v, ...rest } = contact.toObject ? contact.toObject() : contact;
+const transformDocument = (doc) => {
+  const { _id, __v, ...rest } = doc.toObject ? doc.toObject({ flattenMaps: true }) : doc;
   return { id: _id.toString(), ...rest };
 };
+const transformContact = transformDocument;
+
+// Resolves to the AI provider the workspace has chosen (see ai/providers).
+const loadAiProvider = async () => {
+  await connectToDatabase();
+  const { ai } = await WorkspaceSettings.load();
+  return getProvider(ai);
+};
 
-// POST to generate AI content
-app.post('/api/generate-content', async (req, res) => {
-  if (!ai) {
-    return res.status(503).json({ message: "AI service is not configured on the server." });
+// GET the AI providers this server offers, and whether each is configured
+app.get('/api/ai/providers', requirePermission('campaigns.view'), (req, res) => {
+  try {
+    res.json(listProviders());
+  } catch (err) {
+    console.error('Error listing AI providers:', err);
+    res.status(500).json({ message: 'Server Error: Could not list AI providers.' });
   }
+});
 
-  const { heading } = req.body;
-  if (!heading || typeof heading !== 'string' || heading.trim().length === 0) {
-    return res.status(400).json({ message: "Heading is required to generate content." });
+// POST to generate message variants with AI, either from a heading or by reworking a draft
+// (see ai/generation.js for the options); responds with { variants }
+app.post('/api/generate-content', requirePermission('campaigns.send'), async (req, res) => {
+  let options;
+  try {
+    options = parseGenerationRequest(req.body);
+  } catch (err) {
+    const message = err instanceof GenerationError ? err.message : 'Invalid generation request.';
+    return res.status(400).json({ message });
   }
 
   try {
-    const prompt = `You are a marketing expert. Write a short, engaging, and friendly message for a WhatsApp broadcast. The main topic or heading is: "${heading}". The message should be concise, clear, and have a compelling call to action if appropriate. Do not include placeholders like "[Your Company Name]".`;
-    
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: {
-        temperature: 0.7,
-        topP: 1,
-        topK: 32,
-        maxOutputTokens: 200,
-        thinkingConfig: { thinkingBudget: 0 } 
-      }
-    });
+    const provider = await loadAiProvider();
+    const text = await provider.generate(buildGenerationPrompt(options));
+    const variants = parseVariants(text, options.variants);
+    if (variants.length === 0) {
+      console.error(`Unusable response from the ${provider.name} AI provider:`, text);
+      return res.status(502).json({ message: 'The AI service returned no usable text. Please try again.' });
+    }
+    res.json({ variants });
+  } catch (err) {
+    if (err instanceof ProviderError) {
+      console.error('Error generating content:', err.message);
+      return res.status(err.status).json({ message: err.message });
+    }
+    console.error('Error generating content:', err);
+    res.status(500).json({ message: 'Failed to generate AI content. Please check the server logs.' });
+  }
+});
 
-    res.json({ content: response.text });
-  } catch (error) {
-    console.error("Error generating content with Gemini API:", error);
-    res.status(500).json({ message: "Failed to generate AI content. Please check the server logs." });
+// POST to generate a single message with AI and stream it as Server-Sent Events while it is
+// written: `token` events carry { text } to append, then one `done` or `error` ({ message }) event
+// ends the stream. Closing the connection stops the generation.
+app.post('/api/generate-content/stream', requirePermission('campaigns.send'), async (req, res) => {
+  let options;
+  let provider;
+  try {
+    options = parseGenerationRequest({ ...req.body, variants: 1 });
+  } catch (err) {
+    const message = err instanceof GenerationError ? err.message : 'Invalid generation request.';
+    return res.status(400).json({ message });
+  }
+  try {
+    provider = await loadAiProvider();
+  } catch (err) {
+    if (err instanceof ProviderError) {
+      return res.status(err.status).json({ message: err.message });
+    }
+    console.error('Error loading the AI provider:', err);
+    return res.status(500).json({ message: 'Server Error: Could not load the AI settings.' });
+  }
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    // Keeps reverse proxies such as nginx from holding back the events.
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+
+  const sendEvent = (event, data) => res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+  // The client stopping the request closes the connection before the response has ended.
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  try {
+    const prompt = buildGenerationPrompt(options, { stream: true });
+    for await (const text of provider.stream({ ...prompt, signal: controller.signal })) {
+      if (controller.signal.aborted) break;
+      sendEvent('token', { text });
+    }
+    if (!controller.signal.aborted) sendEvent('done', {});
+  } catch (err) {
+    if (!controller.signal.aborted) {
+      console.error('Error streaming content:', err);
+      const message = err instanceof ProviderError ? err.message : 'Failed to generate AI content. Please check the server logs.';
+      sendEvent('error', { message });
+    }
+  } finally {
+    res.end();
+  }
+});
+
+// POST a message ({ heading, content, language }) to translate it with AI into each of `languages`;
+// responds with { translations: [{ language, heading, content, missingPlaceholders }] }, where a
+// language that could not be translated has an `error` message instead of text
+app.post('/api/translate', requirePermission('campaigns.send'), async (req, res) => {
+  let request;
+  try {
+    request = parseTranslationRequest(req.body);
+  } catch (err) {
+    const message = err instanceof TranslationError ? err.message : 'Invalid translation request.';
+    return res.status(400).json({ message });
+  }
+
+  try {
+    const provider = await loadAiProvider();
+    const translations = await Promise.all(request.languages.map(async (language) => {
+      try {
+        const text = await provider.generate(buildTranslationPrompt(request, language));
+        const translation = parseTranslation(text);
+        if (!translation) {
+          console.error(`Unusable ${language} translation from the ${provider.name} AI provider:`, text);
+          return { language, error: 'The AI service returned no usable translation.' };
+        }
+        return { language, ...translation, missingPlaceholders: missingPlaceholders(request, translation) };
+      } catch (err) {
+        if (!(err instanceof ProviderError)) throw err;
+        return { language, error: err.message };
+      }
+    }));
+    res.json({ translations });
+  } catch (err) {
+    if (err instanceof ProviderError) {
+      return res.status(err.status).json({ message: err.message });
+    }
+    console.error('Error translating message:', err);
+    res.status(500).json({ message: 'Server Error: Could not translate the message.' });
   }
 });
 
+// Builds the contact filter for a list or export request, checking attribute filters against the
+// workspace's attribute definitions.
+const contactFilterFromQuery = async (query) => {
+  const { contactAttributes, defaultCountry } = await WorkspaceSettings.load();
+  return buildContactFilter(query, contactAttributes, defaultCountry);
+};
 
-// GET all contacts
-app.get('/api/contacts', async (req, res) => {
+// GET one page of the contacts matching the optional filters (see contacts/filters.js), sorted by
+// `sort`/`order` (see contacts/pagination.js). Pass `nextCursor` back as `cursor` for the next page;
+// `total` is only counted for the first page.
+app.get('/api/contacts', requirePermission('contacts.view'), async (req, res) => {
   try {
     await connectToDatabase();
-    const contacts = await Contact.find().sort({ name: 1 });
-    res.json(contacts.map(transformContact));
+    const { field, sort, limit, after } = parseContactPage(req.query);
+    const filter = await contactFilterFromQuery(req.query);
+    // One extra row tells whether there is a next page.
+    const [rows, total] = await Promise.all([
+      Contact.find(after ? { $and: [filter, after] } : filter).sort(sort).limit(limit + 1),
+      after ? null : Contact.countDocuments(filter),
+    ]);
+    const contacts = rows.slice(0, limit);
+    res.json({
+      contacts: contacts.map(transformContact),
+      nextCursor: rows.length > limit ? encodeCursor(contacts[contacts.length - 1], field) : null,
+      total,
+    });
   } catch (err) {
+    if (err instanceof AttributeError || err instanceof CursorError) {
+      return res.status(400).json({ message: err.message });
+    }
     console.error('Error fetching contacts:', err);
     res.status(500).json({ message: 'Server Error: Could not fetch contacts.' });
   }
 });
 
-// POST a new contact
-app.post('/api/contacts', async (req, res) => {
+// Reads a phone number typed in the dashboard using the workspace's default country.
+const normalizeWorkspacePhone = async (input) => {
+  const { defaultCountry } = await WorkspaceSettings.load();
+  return normalizePhone(input, defaultCountry);
+};
+
+// POST a new contact; the phone number may be in any common format (see contacts/phone.js)
+app.post('/api/contacts', requirePermission('contacts.edit'), async (req, res) => {
   try {
     await connectToDatabase();
+    let phone;
+    try {
+      phone = await normalizeWorkspacePhone(req.body.phone);
+    } catch (err) {
+      if (err instanceof PhoneError) return res.status(400).json({ message: err.message });
+      throw err;
+    }
+    const { contactAttributes } = await WorkspaceSettings.load();
     const newContact = new Contact({
       name: req.body.name,
-      phone: req.body.phone,
+      phone: phone.phone,
+      phoneCountry: phone.country,
+      phoneType: phone.type,
+      language: normalizeLanguage(req.body.language),
+      tags: normalizeTags(req.body.tags),
+      attributes: parseAttributeValues(req.body.attributes, contactAttributes).set,
     });
     const savedContact = await newContact.save();
     res.status(201).json(transformContact(savedContact));
   } catch (err) {
+    if (err instanceof AttributeError || err instanceof LanguageError) {
+      return res.status(400).json({ message: err.message });
+    }
     if (err.code === 11000) { // Handle duplicate phone number
       return res.status(409).json({ message: 'Phone number already exists.' });
     }
@@ -145,8 +551,164 @@ app.post('/api/contacts', async (req, res) => {
   }
 });
 
+// Sends the contacts matching `filter` as a download in `format` (see contacts/exporter.js).
+const streamContactExport = (res, format, filter) => {
+  // Once the download has started the headers are sent, so the best we can do is cut it short.
+  const fail = (err) => {
+    console.error('Error streaming contact export:', err);
+    if (res.headersSent) {
+      res.destroy(err);
+    } else {
+      res.status(500).json({ message: 'Server Error: Could not export contacts.' });
+    }
+  };
+  try {
+    const { input, output } = format.create();
+    // Contacts are streamed from a cursor so large lists are never held in memory.
+    const cursor = Contact.find(filter).sort({ name: 1 }).lean().cursor();
+    const date = new Date().toISOString().slice(0, 10);
+    res.set('Content-Type', format.contentType);
+    res.set('Content-Disposition', `attachment; filename="contacts-${date}.${format.extension}"`);
+    cursor.on('error', fail);
+    input.on('error', fail);
+    output.on('error', fail);
+    output.pipe(res);
+    cursor.pipe(input);
+  } catch (err) {
+    fail(err);
+  }
+};
+
+// GET contacts as a CSV or vCard download, using the same filters as the contact list
+app.get('/api/contacts/export', requirePermission('contacts.export'), async (req, res) => {
+  const format = findExportFormat(req.query.format || 'csv');
+  if (!format) {
+    return res.status(400).json({ message: 'Unsupported export format. Use "csv" or "vcf".' });
+  }
+
+  let filter;
+  try {
+    await connectToDatabase();
+    filter = await contactFilterFromQuery(req.query);
+  } catch (err) {
+    if (err instanceof AttributeError) {
+      return res.status(400).json({ message: err.message });
+    }
+    console.error('Error exporting contacts:', err);
+    return res.status(500).json({ message: 'Server Error: Could not export contacts.' });
+  }
+
+  streamContactExport(res, format, filter);
+});
+
+// --- Contact Import ---
+// Runs an import step against the uploaded file and always removes the temp file afterwards.
+const withImportFile = (handler) => async (req, res) => {
+  const file = req.file;
+  try {
+    if (!file) {
+      return res.status(400).json({ message: 'Please upload a CSV or XLSX file.' });
+    }
+    const format = formatFromFilename(file.originalname);
+    if (!format) {
+      return res.status(400).json({ message: 'Unsupported file type. Please upload a .csv or .xlsx file.' });
+    }
+    await handler(req, res, file.path, format);
+  } catch (err) {
+    if (err instanceof ImportError) {
+      return res.status(400).json({ message: `Could not read the file: ${err.message}` });
+    }
+    console.error('Error importing contacts:', err);
+    res.status(500).json({ message: 'Server Error: Could not import contacts.' });
+  } finally {
+    if (file) fs.promises.unlink(file.path).catch(() => {});
+  }
+};
+
+// POST a file to get its columns, a few sample rows and a suggested column mapping
+app.post('/api/contacts/import/preview', requirePermission('contacts.edit'), importUpload.single('file'), withImportFile(async (req, res, filePath, format) => {
+  res.json(await previewFile(filePath, format));
+}));
+
+// POST a file with a column mapping to import contacts. With dryRun=true nothing is written,
+// but the report shows exactly what a real import would do.
+app.post('/api/contacts/import', requirePermission('contacts.edit'), importUpload.single('file'), withImportFile(async (req, res, filePath, format) => {
+  let mapping;
+  try {
+    mapping = JSON.parse(req.body.mapping || '{}');
+  } catch (error) {
+    return res.status(400).json({ message: 'Invalid column mapping format.' });
+  }
+  if (!mapping.name || !mapping.phone) {
+    return res.status(400).json({ message: 'Please map both the name and phone columns.' });
+  }
+
+  await connectToDatabase();
+  const dryRun = req.body.dryRun === 'true';
+  const { defaultCountry } = await WorkspaceSettings.load();
+  const report = await importContacts({ filePath, format, mapping, dryRun, defaultCountry });
+  res.status(dryRun ? 200 : 201).json({ dryRun, ...report });
+}));
+
+// PATCH a contact's name, phone, preferred language, tags and/or custom attributes. Only the fields
+// sent are changed; `attributes` is merged into the existing values, and an empty or null value
+// clears one, as it does for `language`.
+app.patch('/api/contacts/:id', requirePermission('contacts.edit'), async (req, res) => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+    return res.status(400).json({ message: 'Invalid contact ID format.' });
+  }
+  const { name, phone, language, tags, attributes } = req.body;
+  try {
+    await connectToDatabase();
+    const $set = {};
+    const $unset = {};
+    if (name !== undefined) $set.name = name;
+    if (tags !== undefined) $set.tags = normalizeTags(tags);
+    if (language !== undefined) $set.language = normalizeLanguage(language);
+    if (phone !== undefined) {
+      try {
+        const normalized = await normalizeWorkspacePhone(phone);
+        Object.assign($set, { phone: normalized.phone, phoneCountry: normalized.country, phoneType: normalized.type });
+      } catch (err) {
+        if (err instanceof PhoneError) return res.status(400).json({ message: err.message });
+        throw err;
+      }
+    }
+    const { contactAttributes } = await WorkspaceSettings.load();
+    const { set, unset } = parseAttributeValues(attributes, contactAttributes);
+    Object.entries(set).forEach(([key, value]) => {
+      $set[`attributes.${key}`] = value;
+    });
+    unset.forEach((key) => {
+      $unset[`attributes.${key}`] = '';
+    });
+    if (Object.keys($set).length === 0 && Object.keys($unset).length === 0) {
+      return res.status(400).json({ message: 'Please provide the fields to update.' });
+    }
+
+    const contact = await Contact.findByIdAndUpdate(req.params.id, { $set, $unset }, { new: true, runValidators: true });
+    if (!contact) {
+      return res.status(404).json({ message: 'Contact not found.' });
+    }
+    res.json(transformContact(contact));
+  } catch (err) {
+    if (err instanceof AttributeError || err instanceof LanguageError) {
+      return res.status(400).json({ message: err.message });
+    }
+    if (err.code === 11000) {
+      return res.status(409).json({ message: 'Phone number already exists.' });
+    }
+    if (err.name === 'ValidationError') {
+      const messages = Object.values(err.errors).map(val => val.message);
+      return res.status(400).json({ message: messages.join(', ') });
+    }
+    console.error('Error updating contact:', err);
+    res.status(500).json({ message: 'Server Error: Could not update contact.' });
+  }
+});
+
 // DELETE a contact by ID
-app.delete('/api/contacts/:id', async (req, res) => {
+app.delete('/api/contacts/:id', requirePermission('contacts.delete'), async (req, res) => {
   try {
     await connectToDatabase();
     if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
@@ -163,95 +725,1615 @@ app.delete('/api/contacts/:id', async (req, res) => {
   }
 });
 
-// --- Webhook Verification Endpoint ---
-// This endpoint is used by Meta to verify the webhook URL.
-app.get('/api/webhook', (req, res) => {
-  // Your verification token. Should be a random string and stored as an environment variable.
-  const VERIFY_TOKEN = process.env.WEBHOOK_VERIFY_TOKEN || "merajWebhookToken";
-
-  // Parse the query params from the request
-  const mode = req.query['hub.mode'];
-  const token = req.query['hub.verify_token'];
-  const challenge = req.query['hub.challenge'];
-
-  console.log('Webhook verification request received:', req.query);
+// --- Bulk Contact Actions ---
+// Bulk routes take either `contactIds` or a `filter` (plus `excludeIds`) and report the outcome
+// for every selected contact (see contacts/bulk.js).
+const resolveBulkSelection = async (body) => {
+  const { contactAttributes, defaultCountry } = await WorkspaceSettings.load();
+  return resolveSelection(body, contactAttributes, defaultCountry);
+};
 
-  // Checks if a token and mode are in the query string of the request
-  if (mode && token) {
-    // Checks the mode and token sent are correct
-    if (mode === 'subscribe' && token === VERIFY_TOKEN) {
-      // Responds with the challenge token from the request
-      console.log('WEBHOOK_VERIFIED');
-      res.status(200).send(challenge);
-    } else {
-      // Responds with '403 Forbidden' if verify tokens do not match
-      console.log('WEBHOOK_VERIFICATION_FAILED');
-      res.sendStatus(403);
+// Resolves the selection, runs `action` on the ids and replies with the per-contact results.
+// `description` completes "Could not ..." in the error message.
+const runBulkAction = async (req, res, description, action) => {
+  try {
+    await connectToDatabase();
+    const results = await action(await resolveBulkSelection(req.body));
+    const summary = summarize(results);
+    res.json({ success: true, modified: summary.updated + summary.deleted, summary, results });
+  } catch (err) {
+    if (err instanceof BulkError || err instanceof AttributeError) {
+      return res.status(400).json({ message: err.message });
     }
-  } else {
-     // Responds with '400 Bad Request' if mode or token is missing
-    res.status(400).json({ message: 'Missing required query parameters for webhook verification.' });
+    console.error(`Error running bulk action (${description}):`, err);
+    res.status(500).json({ message: `Server Error: Could not ${description}.` });
   }
-});
-
+};
 
-// POST to send a bulk message (mock endpoint)
-app.post('/api/send-bulk', upload.single('media'), (req, res) => {
-  const { heading, content, contacts: contactsJSON } = req.body;
-  const mediaFile = req.file;
-  const hasTextContent = content && content.trim().length > 0;
+// POST to delete the selected contacts
+app.post('/api/contacts/bulk/delete', requirePermission('contacts.delete'), (req, res) => runBulkAction(req, res, 'delete contacts', deleteContacts));
 
-  if (!hasTextContent && !mediaFile) {
-    return res.status(400).json({ message: 'A message must contain either text content or a media file.' });
+// POST to add and/or remove tags on the selected contacts
+app.post('/api/contacts/bulk/tags', requirePermission('contacts.edit'), (req, res) => {
+  const add = normalizeTags(req.body.add);
+  const remove = normalizeTags(req.body.remove).filter((tag) => !add.includes(tag));
+  if (add.length === 0 && remove.length === 0) {
+    return res.status(400).json({ message: 'Please provide tags to add or remove.' });
   }
+  return runBulkAction(req, res, 'update tags', (ids) => updateTags(ids, { add, remove }));
+});
 
-  let contacts;
+// POST to add the selected contacts to a group, or remove them from it
+app.post('/api/contacts/bulk/groups', requirePermission('contacts.edit'), async (req, res) => {
+  const { groupId, action } = req.body;
+  if (!['add', 'remove'].includes(action) || !mongoose.Types.ObjectId.isValid(groupId)) {
+    return res.status(400).json({ message: 'Please provide a valid group and an action of "add" or "remove".' });
+  }
   try {
-    contacts = JSON.parse(contactsJSON);
-    if (!Array.isArray(contacts) || contacts.length === 0) {
-      return res.status(400).json({ message: 'No contacts provided or invalid format.' });
+    await connectToDatabase();
+    if (!(await Group.exists({ _id: groupId }))) {
+      return res.status(404).json({ message: 'Group not found.' });
     }
-  } catch (error) {
-    return res.status(400).json({ message: 'Invalid contacts format.' });
-  }
-  
-  console.log('\n--- SIMULATING BULK MESSAGE SEND ---');
-  console.log(`Timestamp: ${new Date().toISOString()}`);
-  console.log(`Heading: ${heading}`);
-  console.log(`Content: ${content}`);
-  console.log(`Media File: ${mediaFile ? `${mediaFile.originalname} (${mediaFile.mimetype})` : 'None'}`);
-  console.log(`Sending to ${contacts.length} contacts:`);
-  contacts.forEach(contact => {
-    console.log(`  - ${contact.name} (${contact.phone})`);
-  });
-  console.log('-------------------------------------\n');
-
-  // Simulate network delay
-  setTimeout(() => {
-    res.status(200).json({ message: `Message successfully sent to ${contacts.length} contacts.` });
-  }, 1500);
+  } catch (err) {
+    console.error('Error updating group membership:', err);
+    return res.status(500).json({ message: 'Server Error: Could not update group membership.' });
+  }
+  return runBulkAction(req, res, 'update group membership', (ids) => updateGroupMembership(ids, { groupId, action }));
 });
 
-// --- Generic Error Handler ---
-// This middleware must be defined last, after all other app.use() and routes.
-// It catches any unhandled errors from the routes above and ensures a consistent JSON error response.
-app.use((err, req, res, next) => {
-  console.error("UNHANDLED ERROR:", err.stack || err);
+// POST to opt the selected contacts out of broadcasts; each change is audited. Contacts are opted
+// back in one at a time (POST /api/contacts/:id/consent).
+app.post('/api/contacts/bulk/opt-out', requirePermission('contacts.edit'), (req, res) => {
+  const { note } = req.body;
+  return runBulkAction(req, res, 'opt out contacts', (ids) => optOutContacts(ids, {
+    note: typeof note === 'string' ? note : '',
+    changedBy: req.user._id,
+  }));
+});
 
-  // Handle Multer-specific errors
-  if (err instanceof multer.MulterError) {
-    return res.status(400).json({ message: `File upload error: ${err.message}` });
+// POST to download the selected contacts as CSV or vCard
+app.post('/api/contacts/bulk/export', requirePermission('contacts.export'), async (req, res) => {
+  const format = findExportFormat(req.body.format || 'csv');
+  if (!format) {
+    return res.status(400).json({ message: 'Unsupported export format. Use "csv" or "vcf".' });
+  }
+  let ids;
+  try {
+    await connectToDatabase();
+    ids = await resolveBulkSelection(req.body);
+  } catch (err) {
+    if (err instanceof BulkError || err instanceof AttributeError) {
+      return res.status(400).json({ message: err.message });
+    }
+    console.error('Error exporting contacts:', err);
+    return res.status(500).json({ message: 'Server Error: Could not export contacts.' });
   }
+  streamContactExport(res, format, { _id: { $in: ids.filter((id) => mongoose.Types.ObjectId.isValid(id)) } });
+});
 
-  // Generic fallback for other errors
-  res.status(500).json({ message: "An internal server error occurred. Please try again later." });
+// POST a selection to get the contact ids it covers right now, e.g. to message exactly those contacts
+app.post('/api/contacts/bulk/resolve', requirePermission('contacts.view'), async (req, res) => {
+  try {
+    await connectToDatabase();
+    const ids = await resolveBulkSelection(req.body);
+    const existing = await Contact.find({ _id: { $in: ids.filter((id) => mongoose.Types.ObjectId.isValid(id)) } }, { _id: 1 }).lean();
+    res.json({ contactIds: existing.map(({ _id }) => _id.toString()) });
+  } catch (err) {
+    if (err instanceof BulkError || err instanceof AttributeError) {
+      return res.status(400).json({ message: err.message });
+    }
+    console.error('Error resolving contact selection:', err);
+    res.status(500).json({ message: 'Server Error: Could not resolve the selected contacts.' });
+  }
 });
 
+// --- Tags & Groups ---
+// GET every tag in use with the number of contacts carrying it
+app.get('/api/tags', requirePermission('contacts.view'), async (req, res) => {
+  try {
+    await connectToDatabase();
+    const tags = await Contact.aggregate([
+      { $unwind: '$tags' },
+      { $group: { _id: '$tags', count: { $sum: 1 } } },
+      { $sort: { _id: 1 } },
+    ]);
+    res.json(tags.map(({ _id, count }) => ({ name: _id, count })));
+  } catch (err) {
+    console.error('Error fetching tags:', err);
+    res.status(500).json({ message: 'Server Error: Could not fetch tags.' });
+  }
+});
 
-// --- Start Server (for local development) ---
+// GET all groups with their member counts
+app.get('/api/groups', requirePermission('contacts.view'), async (req, res) => {
+  try {
+    await connectToDatabase();
+    const [groups, counts] = await Promise.all([
+      Group.find().sort({ name: 1 }),
+      Contact.aggregate([
+        { $unwind: '$groups' },
+        { $group: { _id: '$groups', count: { $sum: 1 } } },
+      ]),
+    ]);
+    const countById = new Map(counts.map(({ _id, count }) => [_id.toString(), count]));
+    res.json(groups.map((group) => ({ ...transformDocument(group), memberCount: countById.get(group._id.toString()) || 0 })));
+  } catch (err) {
+    console.error('Error fetching groups:', err);
+    res.status(500).json({ message: 'Server Error: Could not fetch groups.' });
+  }
+});
+
+// POST a new group
+app.post('/api/groups', requirePermission('contacts.edit'), async (req, res) => {
+  try {
+    await connectToDatabase();
+    const group = await Group.create({ name: req.body.name, description: req.body.description });
+    res.status(201).json({ ...transformDocument(group), memberCount: 0 });
+  } catch (err) {
+    if (err.code === 11000) {
+      return res.status(409).json({ message: 'A group with this name already exists.' });
+    }
+    if (err.name === 'ValidationError') {
+      const messages = Object.values(err.errors).map(val => val.message);
+      return res.status(400).json({ message: messages.join(', ') });
+    }
+    console.error('Error creating group:', err);
+    res.status(500).json({ message: 'Server Error: Could not create group.' });
+  }
+});
+
+// DELETE a group; its members stay as contacts but lose the membership
+app.delete('/api/groups/:id', requirePermission('contacts.edit'), async (req, res) => {
+  try {
+    await connectToDatabase();
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid group ID format.' });
+    }
+    const group = await Group.findByIdAndDelete(req.params.id);
+    if (!group) {
+      return res.status(404).json({ message: 'Group not found.' });
+    }
+    await Contact.updateMany({ groups: group._id }, { $pull: { groups: group._id } });
+    res.json({ success: true });
+  } catch (err) {
+    console.error('Error deleting group:', err);
+    res.status(500).json({ message: 'Server Error: Could not delete group.' });
+  }
+});
+
+// --- Consent & Suppression ---
+// POST a manual consent override for one contact: { status: 'opted_in'|'opted_out', note }
+app.post('/api/contacts/:id/consent', requirePermission('contacts.edit'), async (req, res) => {
+  const { status, note } = req.body;
+  if (!Contact.CONSENT_STATUSES.includes(status)) {
+    return res.status(400).json({ message: `Consent status must be one of: ${Contact.CONSENT_STATUSES.join(', ')}.` });
+  }
+  try {
+    await connectToDatabase();
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid contact ID format.' });
+    }
+    const contact = await setConsent(req.params.id, {
+      status,
+      source: 'manual',
+      note: typeof note === 'string' ? note : '',
+      changedBy: req.user._id,
+    });
+    if (!contact) {
+      return res.status(404).json({ message: 'Contact not found.' });
+    }
+    res.json(transformContact(contact));
+  } catch (err) {
+    console.error('Error updating consent:', err);
+    res.status(500).json({ message: 'Server Error: Could not update consent.' });
+  }
+});
+
+// GET the consent audit trail of one contact, newest first
+app.get('/api/contacts/:id/consent-events', requirePermission('contacts.view'), async (req, res) => {
+  try {
+    await connectToDatabase();
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid contact ID format.' });
+    }
+    const events = await ConsentEvent.find({ contact: req.params.id })
+      .sort({ createdAt: -1 })
+      .populate('changedBy', 'username');
+    res.json(events.map((event) => ({
+      ...transformDocument(event),
+      changedBy: event.changedBy ? event.changedBy.username : null,
+    })));
+  } catch (err) {
+    console.error('Error fetching consent events:', err);
+    res.status(500).json({ message: 'Server Error: Could not fetch consent history.' });
+  }
+});
+
+// GET the global suppression list
+app.get('/api/suppressions', requirePermission('contacts.view'), async (req, res) => {
+  try {
+    await connectToDatabase();
+    const suppressions = await Suppression.find({}).sort({ createdAt: -1 });
+    res.json(suppressions.map(transformDocument));
+  } catch (err) {
+    console.error('Error fetching suppressions:', err);
+    res.status(500).json({ message: 'Server Error: Could not fetch suppression list.' });
+  }
+});
+
+// POST a phone number to the suppression list
+app.post('/api/suppressions', requirePermission('suppressions.manage'), async (req, res) => {
+  try {
+    await connectToDatabase();
+    let phone;
+    try {
+      ({ phone } = await normalizeWorkspacePhone(req.body.phone));
+    } catch (err) {
+      if (err instanceof PhoneError) return res.status(400).json({ message: err.message });
+      throw err;
+    }
+    const suppression = await Suppression.create({
+      phone,
+      reason: req.body.reason,
+      createdBy: req.user._id,
+    });
+    res.status(201).json(transformDocument(suppression));
+  } catch (err) {
+    if (err.code === 11000) {
+      return res.status(409).json({ message: 'This phone number is already suppressed.' });
+    }
+    if (err.name === 'ValidationError') {
+      const messages = Object.values(err.errors).map(val => val.message);
+      return res.status(400).json({ message: messages.join(', ') });
+    }
+    console.error('Error adding suppression:', err);
+    res.status(500).json({ message: 'Server Error: Could not add phone number to the suppression list.' });
+  }
+});
+
+// DELETE a phone number from the suppression list
+app.delete('/api/suppressions/:id', requirePermission('suppressions.manage'), async (req, res) => {
+  try {
+    await connectToDatabase();
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid suppression ID format.' });
+    }
+    const suppression = await Suppression.findByIdAndDelete(req.params.id);
+    if (!suppression) {
+      return res.status(404).json({ message: 'Suppression not found.' });
+    }
+    res.json({ success: true });
+  } catch (err) {
+    console.error('Error deleting suppression:', err);
+    res.status(500).json({ message: 'Server Error: Could not remove phone number from the suppression list.' });
+  }
+});
+
+// --- Workspace Settings ---
+const transformSettings = (settings) => ({
+  defaultCountry: settings.defaultCountry,
+  ai: { provider: settings.ai.provider, model: settings.ai.model },
+  contactAttributes: settings.contactAttributes.map(({ key, label, type, options }) => ({
+    key, label, type, options: type === 'select' ? options : [],
+  })),
+});
+
+// GET the workspace settings
+app.get('/api/settings', requirePermission('contacts.view'), async (req, res) => {
+  try {
+    await connectToDatabase();
+    res.json(transformSettings(await WorkspaceSettings.load()));
+  } catch (err) {
+    console.error('Error fetching settings:', err);
+    res.status(500).json({ message: 'Server Error: Could not fetch settings.' });
+  }
+});
+
+// PUT to change the workspace settings; `defaultCountry` is an ISO 3166 code such as "US", or null,
+// `contactAttributes` replaces the list of custom contact attribute definitions, and `ai` is
+// { provider, model } (null for the server default of either)
+app.put('/api/settings', requirePermission('settings.manage'), async (req, res) => {
+  try {
+    await connectToDatabase();
+    const settings = await WorkspaceSettings.load();
+    if (req.body.defaultCountry !== undefined) {
+      settings.defaultCountry = req.body.defaultCountry || null;
+    }
+    if (Array.isArray(req.body.contactAttributes)) {
+      settings.contactAttributes = req.body.contactAttributes;
+    }
+    if (req.body.ai !== undefined) {
+      settings.ai = {
+        provider: req.body.ai?.provider || null,
+        model: typeof req.body.ai?.model === 'string' && req.body.ai.model.trim() ? req.body.ai.model : null,
+      };
+    }
+    await settings.save();
+    res.json(transformSettings(settings));
+  } catch (err) {
+    if (err.name === 'ValidationError') {
+      const messages = Object.values(err.errors).map(val => val.message);
+      return res.status(400).json({ message: messages.join(', ') });
+    }
+    console.error('Error updating settings:', err);
+    res.status(500).json({ message: 'Server Error: Could not update settings.' });
+  }
+});
+
+// --- Media Library ---
+const transformMedia = (media) => ({
+  id: media._id.toString(),
+  filename: media.filename,
+  mimetype: media.mimetype,
+  type: media.type,
+  size: media.size,
+  checksum: media.checksum,
+  width: media.width ?? null,
+  height: media.height ?? null,
+  hasThumbnail: Boolean(media.thumbnail),
+  createdAt: media.createdAt,
+});
+
+const MEDIA_PAGE_SIZE = 60;
+
+// Loads a library entry by id, replying 400 or 404 itself when there is none.
+const findMedia = async (id, res) => {
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    res.status(400).json({ message: 'Invalid media ID format.' });
+    return null;
+  }
+  const media = await Media.findById(id);
+  if (!media) res.status(404).json({ message: 'Media not found.' });
+  return media;
+};
+
+// Sends a stored file, or a 404 when the storage backend no longer has it.
+const sendStoredFile = async (res, load, mimetype, filename) => {
+  let buffer;
+  try {
+    buffer = await load();
+  } catch (err) {
+    if (err.status === 404) return res.status(404).json({ message: 'The stored file is missing.' });
+    throw err;
+  }
+  res.set('Content-Type', mimetype);
+  // Header values must be plain ASCII, so anything else in the name is replaced.
+  if (filename) res.set('Content-Disposition', `inline; filename="${filename.replace(/[^\x20-\x7e]|["\\]/g, '_')}"`);
+  res.send(buffer);
+};
+
+// GET the media library, newest first; `type` narrows it to image, video, audio, document or sticker
+app.get('/api/media', requirePermission('campaigns.view'), async (req, res) => {
+  const { type } = req.query;
+  if (type && !Media.MEDIA_TYPES.includes(type)) {
+    return res.status(400).json({ message: `Media type must be one of: ${Media.MEDIA_TYPES.join(', ')}.` });
+  }
+  try {
+    await connectToDatabase();
+    const media = await Media.find(type ? { type } : {}).sort({ createdAt: -1 }).limit(MEDIA_PAGE_SIZE);
+    res.json(media.map(transformMedia));
+  } catch (err) {
+    console.error('Error fetching media:', err);
+    res.status(500).json({ message: 'Server Error: Could not fetch media.' });
+  }
+});
+
+// POST a file to add it to the media library. A file that is already there is returned as is (200).
+app.post('/api/media', requirePermission('media.manage'), upload.single('file'), async (req, res) => {
+  if (!req.file) {
+    return res.status(400).json({ message: 'Please choose a file to upload.' });
+  }
+  try {
+    await connectToDatabase();
+    const { media, created } = await saveUpload(req.file, { uploadedBy: req.user._id });
+    res.status(created ? 201 : 200).json(transformMedia(media));
+  } catch (err) {
+    if (err instanceof MediaError) {
+      return res.status(400).json({ message: err.message });
+    }
+    console.error('Error uploading media:', err);
+    res.status(500).json({ message: 'Server Error: Could not save the media file.' });
+  }
+});
+
+// GET the file of a library entry
+app.get('/api/media/:id/file', requirePermission('campaigns.view'), async (req, res) => {
+  try {
+    await connectToDatabase();
+    const media = await findMedia(req.params.id, res);
+    if (!media) return;
+    await sendStoredFile(res, () => loadMediaFile(media).then(({ buffer }) => buffer), media.mimetype, media.filename);
+  } catch (err) {
+    console.error('Error fetching media file:', err);
+    res.status(500).json({ message: 'Server Error: Could not fetch the media file.' });
+  }
+});
+
+// GET the thumbnail of an image or sticker in the library
+app.get('/api/media/:id/thumbnail', requirePermission('campaigns.view'), async (req, res) => {
+  try {
+    await connectToDatabase();
+    const media = await findMedia(req.params.id, res);
+    if (!media) return;
+    if (!media.thumbnail) {
+      return res.status(404).json({ message: 'This file has no thumbnail.' });
+    }
+    await sendStoredFile(res, () => loadThumbnail(media), media.thumbnail.mimetype);
+  } catch (err) {
+    console.error('Error fetching media thumbnail:', err);
+    res.status(500).json({ message: 'Server Error: Could not fetch the thumbnail.' });
+  }
+});
+
+// DELETE a file from the media library
+app.delete('/api/media/:id', requirePermission('media.manage'), async (req, res) => {
+  try {
+    await connectToDatabase();
+    const media = await findMedia(req.params.id, res);
+    if (!media) return;
+    await removeMedia(media);
+    res.json({ success: true });
+  } catch (err) {
+    console.error('Error deleting media:', err);
+    res.status(500).json({ message: 'Server Error: Could not delete media.' });
+  }
+});
+
+// --- Message Templates ---
+const transformTemplate = (template) => ({
+  ...transformDocument(template),
+  parameters: templateParameterSlots(template),
+});
+
+// Meta rejects bad templates with a 4xx, which is the client's to fix; anything else is on our side.
+const templateProviderError = (res, err, action) => {
+  console.error(`Error ${action} template with the provider:`, err);
+  const status = err.status && err.status < 500 && err.status !== 401 ? 400 : 502;
+  res.status(status).json({ message: `WhatsApp rejected the template: ${err.message}` });
+};
+
+const validationErrorMessage = (err) => Object.values(err.errors).map(val => val.message).join(', ');
+
+// GET all message templates
+app.get('/api/templates', requirePermission('campaigns.view'), async (req, res) => {
+  try {
+    await connectToDatabase();
+    const templates = await MessageTemplate.find({}).sort({ name: 1, language: 1 });
+    res.json(templates.map(transformTemplate));
+  } catch (err) {
+    console.error('Error fetching templates:', err);
+    res.status(500).json({ message: 'Server Error: Could not fetch templates.' });
+  }
+});
+
+// POST a new template: it is submitted to WhatsApp for approval and stored with the returned status
+app.post('/api/templates', requirePermission('templates.manage'), async (req, res) => {
+  const { name, language, category, components } = req.body;
+  const template = new MessageTemplate({ name, language, category, components });
+  const validationError = template.validateSync();
+  if (validationError) {
+    return res.status(400).json({ message: validationErrorMessage(validationError) });
+  }
+
+  try {
+    await connectToDatabase();
+    if (await MessageTemplate.exists({ name: template.name, language: template.language })) {
+      return res.status(409).json({ message: 'A template with this name and language already exists.' });
+    }
+  } catch (err) {
+    console.error('Error checking template:', err);
+    return res.status(500).json({ message: 'Server Error: Could not create template.' });
+  }
+
+  let submitted;
+  try {
+    submitted = await getSender().templates.create(template.toObject());
+  } catch (err) {
+    return templateProviderError(res, err, 'creating');
+  }
+
+  try {
+    template.providerTemplateId = submitted.id;
+    template.status = submitted.status || 'PENDING';
+    await template.save();
+    res.status(201).json(transformTemplate(template));
+  } catch (err) {
+    console.error('Error saving template:', err);
+    res.status(500).json({ message: 'Server Error: Could not save template.' });
+  }
+});
+
+// PUT new components (and category) for a template; WhatsApp reviews it again
+app.put('/api/templates/:id', requirePermission('templates.manage'), async (req, res) => {
+  let template;
+  try {
+    await connectToDatabase();
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid template ID format.' });
+    }
+    template = await MessageTemplate.findById(req.params.id);
+    if (!template) {
+      return res.status(404).json({ message: 'Template not found.' });
+    }
+  } catch (err) {
+    console.error('Error fetching template:', err);
+    return res.status(500).json({ message: 'Server Error: Could not update template.' });
+  }
+
+  if (req.body.category !== undefined) template.category = req.body.category;
+  if (req.body.components !== undefined) template.components = req.body.components;
+  const validationError = template.validateSync();
+  if (validationError) {
+    return res.status(400).json({ message: validationErrorMessage(validationError) });
+  }
+
+  try {
+    await getSender().templates.update(template.providerTemplateId, template.toObject());
+  } catch (err) {
+    return templateProviderError(res, err, 'updating');
+  }
+
+  try {
+    template.status = 'PENDING';
+    template.rejectedReason = undefined;
+    await template.save();
+    res.json(transformTemplate(template));
+  } catch (err) {
+    console.error('Error saving template:', err);
+    res.status(500).json({ message: 'Server Error: Could not save template.' });
+  }
+});
+
+// DELETE a template, both in WhatsApp and locally
+app.delete('/api/templates/:id', requirePermission('templates.manage'), async (req, res) => {
+  try {
+    await connectToDatabase();
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid template ID format.' });
+    }
+    const template = await MessageTemplate.findById(req.params.id);
+    if (!template) {
+      return res.status(404).json({ message: 'Template not found.' });
+    }
+    try {
+      await getSender().templates.remove({ name: template.name, templateId: template.providerTemplateId });
+    } catch (err) {
+      return templateProviderError(res, err, 'deleting');
+    }
+    await template.deleteOne();
+    res.json({ success: true });
+  } catch (err) {
+    console.error('Error deleting template:', err);
+    res.status(500).json({ message: 'Server Error: Could not delete template.' });
+  }
+});
+
+// POST to pull the latest templates and approval statuses from WhatsApp right away
+app.post('/api/templates/sync', requirePermission('templates.manage'), async (req, res) => {
+  try {
+    await connectToDatabase();
+    const summary = await syncTemplates();
+    if (!summary) {
+      return res.json({ message: 'The current messaging provider keeps no templates to sync.', created: 0, updated: 0, removed: 0 });
+    }
+    res.json({
+      message: `Templates synced: ${summary.created} added, ${summary.updated} updated, ${summary.removed} removed.`,
+      ...summary,
+    });
+  } catch (err) {
+    if (err.name === 'SenderError') {
+      console.error('Error syncing templates:', err);
+      return res.status(502).json({ message: `Could not fetch templates from WhatsApp: ${err.message}` });
+    }
+    console.error('Error syncing templates:', err);
+    res.status(500).json({ message: 'Server Error: Could not sync templates.' });
+  }
+});
+
+// --- Webhook Verification Endpoint ---
+// This endpoint is used by Meta to verify the webhook URL.
+app.get('/api/webhook', (req, res) => {
+  // Your verification token. Should be a random string and stored as an environment variable.
+  const VERIFY_TOKEN = process.env.WEBHOOK_VERIFY_TOKEN || "merajWebhookToken";
+
+  // Parse the query params from the request
+  const mode = req.query['hub.mode'];
+  const token = req.query['hub.verify_token'];
+  const challenge = req.query['hub.challenge'];
+
+  console.log('Webhook verification request received:', req.query);
+
+  // Checks if a token and mode are in the query string of the request
+  if (mode && token) {
+    // Checks the mode and token sent are correct
+    if (mode === 'subscribe' && token === VERIFY_TOKEN) {
+      // Responds with the challenge token from the request
+      console.log('WEBHOOK_VERIFIED');
+      res.status(200).send(challenge);
+    } else {
+      // Responds with '403 Forbidden' if verify tokens do not match
+      console.log('WEBHOOK_VERIFICATION_FAILED');
+      res.sendStatus(403);
+    }
+  } else {
+     // Responds with '400 Bad Request' if mode or token is missing
+    res.status(400).json({ message: 'Missing required query parameters for webhook verification.' });
+  }
+});
+
+
+// --- Webhook Event Endpoint ---
+// Meta posts message status updates and inbound messages here. Events are processed before responding because serverless
+// functions may be frozen once the response is sent; any error returns a 500 so Meta redelivers,
+// which is safe because processing is idempotent.
+app.post('/api/webhook', verifyWebhookSignature, async (req, res) => {
+  try {
+    await connectToDatabase();
+    const summary = await processWebhookPayload(req.body);
+    console.log(`Webhook processed: ${summary.updated} of ${summary.statuses} status updates applied, ${summary.messages} new inbound messages.`);
+    res.sendStatus(200);
+  } catch (err) {
+    console.error('Error processing webhook event:', err);
+    res.sendStatus(500);
+  }
+});
+
+// --- Pre-send Checks ---
+// Runs the checks in campaigns/compliance.js on a message. With an audience filter, its
+// placeholders are also checked against the contacts it would go to.
+const checkMessage = async ({ heading, content, mediaType = null, translations = [], audienceFilter = null }) => {
+  let placeholders = [];
+  let recipients = null;
+  if (audienceFilter) {
+    const filter = await sendableFilter(audienceFilter);
+    const text = [heading, content, ...translations.flatMap((t) => [t.heading, t.content])].join('\n');
+    [placeholders, recipients] = await Promise.all([countMissingValues(filter, text), Contact.countDocuments(filter)]);
+  }
+  return analyzeMessage({ heading, content, mediaType, translations, placeholders, recipients });
+};
+
+// Why a checked message cannot be sent yet: a blocking issue, or warnings the sender has not
+// confirmed. Null when it can be sent.
+const complianceRejection = (issues, confirmWarnings) => {
+  const blocking = issues.find(({ severity }) => severity === 'blocking');
+  if (blocking) {
+    return blocking.language ? `The ${blocking.language} translation: ${blocking.message}` : blocking.message;
+  }
+  const confirmed = confirmWarnings === true || confirmWarnings === 'true';
+  if (issues.length > 0 && !confirmed) {
+    return `Please review and confirm the ${issues.length === 1 ? 'warning' : `${issues.length} warnings`} about this message before sending it.`;
+  }
+  return null;
+};
+
+// POST a draft ({ heading, content, mediaType, translations, audience }) to check it before
+// sending; responds with { issues, blocking, warnings } (see campaigns/compliance.js). With
+// `review: true` an AI provider also reviews its tone and risk, adding `review` ({ risk, summary,
+// findings }, or { error }) and a warning per finding.
+app.post('/api/messages/check', requirePermission('campaigns.send'), async (req, res) => {
+  const { heading = '', content = '', mediaType = null, translations = [], audience, review } = req.body;
+  if (typeof heading !== 'string' || typeof content !== 'string') {
+    return res.status(400).json({ message: 'Heading and content must be text.' });
+  }
+  if (mediaType !== null && !MEDIA_TYPES.includes(mediaType)) {
+    return res.status(400).json({ message: 'Invalid media type.' });
+  }
+  if (!Array.isArray(translations)) {
+    return res.status(400).json({ message: 'Translations must be a list.' });
+  }
+  // Drafts are checked while they are written, so unfinished translations are checked as they are.
+  const versions = translations
+    .filter((t) => t && typeof t.language === 'string')
+    .map((t) => ({ language: t.language, heading: String(t.heading || ''), content: String(t.content || '') }));
+  // An audience that is still being picked is left out rather than rejected.
+  let audienceFilter = null;
+  if (audience) {
+    try {
+      audienceFilter = buildAudienceFilter(audience);
+    } catch (err) {
+      audienceFilter = null;
+    }
+  }
+
+  try {
+    await connectToDatabase();
+    const issues = await checkMessage({ heading, content, mediaType, translations: versions, audienceFilter });
+    if (!review) {
+      return res.json(summarizeIssues(issues));
+    }
+
+    let reviewResult;
+    try {
+      const provider = await loadAiProvider();
+      const text = await provider.generate(buildReviewPrompt({ heading, content }));
+      reviewResult = parseReview(text);
+      if (!reviewResult) {
+        console.error(`Unusable review from the ${provider.name} AI provider:`, text);
+        reviewResult = { error: 'The AI service returned no usable review.' };
+      }
+    } catch (err) {
+      if (!(err instanceof ProviderError)) throw err;
+      reviewResult = { error: err.message };
+    }
+    (reviewResult.findings || []).forEach((finding) => {
+      issues.push({ severity: 'warning', category: 'review', code: 'ai_review', message: finding });
+    });
+    res.json({ ...summarizeIssues(issues), review: reviewResult });
+  } catch (err) {
+    console.error('Error checking message:', err);
+    res.status(500).json({ message: 'Server Error: Could not check the message.' });
+  }
+});
+
+// Checks a template send request ({ templateId, parameters }) against the stored template and
+// returns the snapshot kept on the campaign, so later template edits do not change what is sent.
+// `mediaType` is the type of the campaign's media, if any.
+const resolveCampaignTemplate = async ({ templateId, parameters } = {}, mediaType) => {
+  if (!mongoose.Types.ObjectId.isValid(templateId)) {
+    throw new TemplateError('Invalid template ID format.');
+  }
+  const template = await MessageTemplate.findById(templateId);
+  if (!template) {
+    throw new TemplateError('Template not found.');
+  }
+  if (template.status !== 'APPROVED') {
+    throw new TemplateError(`Template "${template.name}" cannot be sent until WhatsApp approves it (status: ${template.status}).`);
+  }
+  const mediaSlot = templateParameterSlots(template).find((slot) => slot.key === 'header.media');
+  if (mediaSlot && mediaType !== mediaSlot.format.toLowerCase()) {
+    throw new TemplateError(`Template "${template.name}" needs a ${mediaSlot.format.toLowerCase()} file for its header.`);
+  }
+  if (!mediaSlot && mediaType) {
+    throw new TemplateError(`Template "${template.name}" has no media header, so it cannot carry an attachment.`);
+  }
+  return {
+    template: template._id,
+    name: template.name,
+    language: template.language,
+    components: template.toObject().components,
+    parameters: validateParameterMapping(template, parameters),
+  };
+};
+
+// Describes a scheduled send time the way the sender entered it, e.g. "2026-11-02 09:30 (Europe/Berlin)".
+const describeSchedule = (scheduledAt, timezone) => {
+  const { date, time } = zonedParts(scheduledAt, timezone);
+  return `${date} ${time} (${timezone})`;
+};
+
+// POST to queue a bulk message; the worker sends it in the background.
+// Recipients are resolved on the server from the `audience` definition (see contacts/audience.js).
+app.post('/api/send-bulk', requirePermission('campaigns.send'), upload.single('media'), async (req, res) => {
+  const {
+    heading,
+    content,
+    audience: audienceJSON,
+    template: templateJSON,
+    schedule: scheduleJSON,
+    mediaId,
+    language,
+    translations: translationsJSON,
+    confirmWarnings,
+  } = req.body;
+  // Media is either uploaded with the request or picked from the media library.
+  const mediaFile = req.file;
+  const hasMedia = Boolean(mediaFile || mediaId);
+  const hasTextContent = content && content.trim().length > 0;
+  if (mediaFile && mediaId) {
+    return res.status(400).json({ message: 'Please either upload a file or choose one from the media library, not both.' });
+  }
+  if (mediaId && !mongoose.Types.ObjectId.isValid(mediaId)) {
+    return res.status(400).json({ message: 'Invalid media ID format.' });
+  }
+
+  let templateRequest;
+  try {
+    templateRequest = JSON.parse(templateJSON || 'null');
+  } catch (err) {
+    return res.status(400).json({ message: 'Invalid template format.' });
+  }
+
+  if (!templateRequest && !hasTextContent && !hasMedia) {
+    return res.status(400).json({ message: 'A message must contain either text content or a media file.' });
+  }
+
+  // Versions of the text in the recipients' languages (see campaigns/translations.js).
+  let languageVersions;
+  try {
+    languageVersions = parseCampaignTranslations({ language, translations: JSON.parse(translationsJSON || '[]') }, { hasMedia });
+  } catch (err) {
+    const message = err instanceof TranslationError ? err.message : 'Invalid translations format.';
+    return res.status(400).json({ message });
+  }
+  if (templateRequest && languageVersions.translations.length > 0) {
+    return res.status(400).json({ message: 'Template messages are sent in their template\'s language and cannot carry translations.' });
+  }
+
+  // Without a schedule the campaign is queued straight away.
+  let schedule = null;
+  try {
+    const scheduleRequest = JSON.parse(scheduleJSON || 'null');
+    if (scheduleRequest) schedule = parseSchedule(scheduleRequest, { hasMedia });
+  } catch (err) {
+    const message = err instanceof ScheduleError ? err.message : 'Invalid schedule format.';
+    return res.status(400).json({ message });
+  }
+
+  let audience;
+  let audienceFilter;
+  try {
+    audience = JSON.parse(audienceJSON || 'null');
+    audienceFilter = buildAudienceFilter(audience);
+  } catch (err) {
+    const message = err instanceof AudienceError ? err.message : 'Invalid audience format.';
+    return res.status(400).json({ message });
+  }
+
+  // Opted-out and suppressed contacts are left out of the campaign entirely.
+  let counts;
+  try {
+    await connectToDatabase();
+    counts = await countSendable(audienceFilter);
+  } catch (err) {
+    console.error('Error resolving audience:', err);
+    return res.status(500).json({ message: 'Server Error: Could not resolve recipients.' });
+  }
+  if (counts.total === 0) {
+    return res.status(400).json({ message: 'No contacts match the selected recipients.' });
+  }
+  if (counts.sendable === 0) {
+    return res.status(400).json({ message: `All ${counts.total} matching contacts have opted out or are suppressed.` });
+  }
+
+  // An uploaded file is only checked here; it joins the media library once the message has passed
+  // the checks below, so a rejected send leaves nothing behind.
+  let libraryMedia = null;
+  let mediaType = null;
+  if (mediaFile) {
+    try {
+      mediaType = checkMediaLimits(mediaFile);
+    } catch (err) {
+      if (err instanceof MediaError) {
+        return res.status(400).json({ message: err.message });
+      }
+      console.error('Error checking media:', err);
+      return res.status(500).json({ message: 'Server Error: Could not check the media file.' });
+    }
+  } else if (hasMedia) {
+    try {
+      libraryMedia = await Media.findById(mediaId);
+    } catch (err) {
+      console.error('Error loading media:', err);
+      return res.status(500).json({ message: 'Server Error: Could not load the media file.' });
+    }
+    if (!libraryMedia) {
+      return res.status(404).json({ message: 'Media not found.' });
+    }
+    mediaType = libraryMedia.type;
+  }
+
+  // Free text is checked before sending (see campaigns/compliance.js); templates were approved by WhatsApp.
+  if (!templateRequest) {
+    let issues;
+    try {
+      issues = await checkMessage({
+        heading: heading || '',
+        content: content || '',
+        mediaType,
+        translations: languageVersions.translations,
+        audienceFilter,
+      });
+    } catch (err) {
+      console.error('Error checking message:', err);
+      return res.status(500).json({ message: 'Server Error: Could not check the message.' });
+    }
+    const rejection = complianceRejection(issues, confirmWarnings);
+    if (rejection) {
+      return res.status(400).json({ message: rejection, issues });
+    }
+  }
+
+  let template = null;
+  if (templateRequest) {
+    try {
+      template = await resolveCampaignTemplate(templateRequest, mediaType);
+    } catch (err) {
+      if (err instanceof TemplateError) {
+        return res.status(400).json({ message: err.message });
+      }
+      console.error('Error resolving template:', err);
+      return res.status(500).json({ message: 'Server Error: Could not load the template.' });
+    }
+  }
+
+  let sender;
+  try {
+    sender = getSender();
+  } catch (err) {
+    console.error('Error creating message sender:', err);
+    return res.status(503).json({ message: 'Messaging provider is not configured on the server.' });
+  }
+
+  // Saved to the library, the upload can be picked again for later campaigns.
+  if (mediaFile) {
+    try {
+      ({ media: libraryMedia } = await saveUpload(mediaFile, { uploadedBy: req.user._id }));
+    } catch (err) {
+      if (err instanceof MediaError) {
+        return res.status(400).json({ message: err.message });
+      }
+      console.error('Error saving media:', err);
+      return res.status(500).json({ message: 'Server Error: Could not save the media file.' });
+    }
+  }
+
+  // Media is uploaded once up front; every queued message then refers to the provider's media id.
+  let media = null;
+  if (libraryMedia) {
+    try {
+      const uploaded = await sender.uploadMedia(await loadMediaFile(libraryMedia));
+      media = { id: uploaded.id, type: libraryMedia.type, filename: libraryMedia.filename };
+    } catch (err) {
+      console.error('Error uploading media:', err);
+      return res.status(502).json({ message: `Could not upload media to the messaging provider: ${err.message}` });
+    }
+  }
+
+  try {
+    // Template campaigns keep the template's name and body text for display in campaign lists.
+    const campaign = await Campaign.create({
+      heading: template ? template.name : heading,
+      content: template ? template.components.find((c) => c.type === 'BODY').text : content,
+      language: template ? template.language : languageVersions.language,
+      translations: languageVersions.translations,
+      template: template || undefined,
+      media: media ? {
+        filename: libraryMedia.filename,
+        mimetype: libraryMedia.mimetype,
+        size: libraryMedia.size,
+        type: media.type,
+        providerMediaId: media.id,
+        libraryMedia: libraryMedia._id,
+      } : undefined,
+      audience,
+      provider: sender.name,
+      createdBy: req.user._id,
+      recipientCount: counts.sendable,
+      ...(schedule ? { status: 'scheduled', ...schedule } : {}),
+    });
+
+    if (schedule) {
+      await scheduleCampaignStart(campaign);
+      return res.status(202).json({
+        message: `Campaign scheduled for ${describeSchedule(schedule.scheduledAt, schedule.timezone)}, currently ${counts.sendable} contacts.`,
+        campaignId: campaign._id.toString(),
+        skipped: counts.skipped,
+      });
+    }
+
+    // The worker works out the recipients in batches (see queue/expandCampaign.js), so large
+    // audiences do not hold up this request.
+    await startCampaignExpansion(campaign);
+
+    const skippedNote = counts.skipped > 0 ? ` ${counts.skipped} opted-out or suppressed contacts were skipped.` : '';
+    res.status(202).json({
+      message: `Message queued for ${counts.sendable} contacts.${skippedNote}`,
+      campaignId: campaign._id.toString(),
+      skipped: counts.skipped,
+    });
+  } catch (err) {
+    console.error('Error queueing campaign:', err);
+    res.status(500).json({ message: 'Server Error: Could not queue campaign.' });
+  }
+});
+
+// POST an audience definition to see how many contacts it would reach and how many are opted out or suppressed
+app.post('/api/audience/preview', requirePermission('campaigns.send'), async (req, res) => {
+  let filter;
+  try {
+    filter = buildAudienceFilter(req.body.audience);
+  } catch (err) {
+    return res.status(400).json({ message: err.message });
+  }
+  try {
+    await connectToDatabase();
+    const { sendable, skipped } = await countSendable(filter);
+    res.json({ count: sendable, skipped });
+  } catch (err) {
+    console.error('Error previewing audience:', err);
+    res.status(500).json({ message: 'Server Error: Could not count recipients.' });
+  }
+});
+
+// POST an audience definition to see how many of the contacts it would reach prefer each language;
+// responds with [{ language, count }], largest first, where `language` is null for contacts without one
+app.post('/api/audience/languages', requirePermission('campaigns.send'), async (req, res) => {
+  let filter;
+  try {
+    filter = buildAudienceFilter(req.body.audience);
+  } catch (err) {
+    return res.status(400).json({ message: err.message });
+  }
+  try {
+    await connectToDatabase();
+    const rows = await Contact.aggregate([
+      { $match: await sendableFilter(filter) },
+      { $group: { _id: { $ifNull: ['$language', null] }, count: { $sum: 1 } } },
+      { $sort: { count: -1, _id: 1 } },
+    ]);
+    res.json(rows.map(({ _id, count }) => ({ language: _id, count })));
+  } catch (err) {
+    console.error('Error counting audience languages:', err);
+    res.status(500).json({ message: 'Server Error: Could not count recipient languages.' });
+  }
+});
+
+// How many of the contacts matching `recipients` have no value for each placeholder in `text`
+// without a fallback: [{ key, fallback, missing }].
+const countMissingValues = (recipients, text) => Promise.all(extractPlaceholders(text).map(async ({ key, fallback }) => {
+  const missingFilter = missingValueFilter(key);
+  const missing = fallback === undefined && missingFilter
+    ? await Contact.countDocuments({ $and: [recipients, missingFilter] })
+    : 0;
+  return { key, fallback: fallback ?? null, missing };
+}));
+
+// Number of audience contacts returned for the composer's "preview as" switcher.
+const PERSONALIZATION_SAMPLE_SIZE = 20;
+
+// POST an audience and draft message to see which placeholders some recipients have no value for
+app.post('/api/audience/personalization', requirePermission('campaigns.send'), async (req, res) => {
+  const { audience, heading, content } = req.body;
+  let filter;
+  try {
+    filter = buildAudienceFilter(audience);
+  } catch (err) {
+    return res.status(400).json({ message: err.message });
+  }
+  try {
+    await connectToDatabase();
+    const recipients = await sendableFilter(filter);
+    const checked = await countMissingValues(recipients, `${heading || ''}\n${content || ''}`);
+    const sample = await Contact.find(recipients).sort({ name: 1 }).limit(PERSONALIZATION_SAMPLE_SIZE);
+    res.json({ placeholders: checked, sample: sample.map(transformContact) });
+  } catch (err) {
+    console.error('Error checking personalization:', err);
+    res.status(500).json({ message: 'Server Error: Could not check message placeholders.' });
+  }
+});
+
+// GET the placeholder variables available in messages: built-ins, the workspace's attributes and
+// any other attribute still set on contacts (e.g. one whose definition was removed)
+app.get('/api/variables', requirePermission('campaigns.view'), async (req, res) => {
+  try {
+    await connectToDatabase();
+    const [{ contactAttributes }, inUse] = await Promise.all([
+      WorkspaceSettings.load(),
+      Contact.aggregate([
+        { $project: { keys: { $objectToArray: { $ifNull: ['$attributes', {}] } } } },
+        { $unwind: '$keys' },
+        { $group: { _id: '$keys.k', count: { $sum: 1 } } },
+      ]),
+    ]);
+    const counts = new Map(inUse.map(({ _id, count }) => [_id, count]));
+    const attributes = [
+      ...contactAttributes.map(({ key, label, type }) => ({ name: key, label, type, count: counts.get(key) || 0 })),
+      ...inUse.filter(({ _id }) => !contactAttributes.some(({ key }) => key === _id))
+        .map(({ _id, count }) => ({ name: _id, label: _id, type: 'text', count })),
+    ];
+    res.json({
+      builtIn: BUILT_IN_VARIABLES,
+      attributes: attributes.sort((a, b) => a.name.localeCompare(b.name)),
+    });
+  } catch (err) {
+    console.error('Error fetching variables:', err);
+    res.status(500).json({ message: 'Server Error: Could not fetch message variables.' });
+  }
+});
+
+// --- Campaign Routes ---
+const transformCampaign = (campaign, stats) => ({
+  ...transformDocument(campaign),
+  stats,
+  rates: deliveryRates(stats),
+});
+
+// Loads the campaign named in the route, or sends the 400/404 response and returns null.
+const findCampaign = async (id, res) => {
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    res.status(400).json({ message: 'Invalid campaign ID format.' });
+    return null;
+  }
+  const campaign = await Campaign.findById(id);
+  if (!campaign) {
+    res.status(404).json({ message: 'Campaign not found.' });
+    return null;
+  }
+  return campaign;
+};
+
+// GET recent campaigns with per-status recipient counts; `status=scheduled` lists upcoming campaigns, soonest first
+app.get('/api/campaigns', requirePermission('campaigns.view'), async (req, res) => {
+  const limit = Math.min(parseInt(req.query.limit, 10) || 50, 200);
+  const { status } = req.query;
+  if (status && !Campaign.STATUSES.includes(status)) {
+    return res.status(400).json({ message: 'Invalid campaign status.' });
+  }
+  try {
+    await connectToDatabase();
+    const campaigns = await Campaign.find(status ? { status } : {})
+      .sort(status === 'scheduled' ? { scheduledAt: 1 } : { createdAt: -1 })
+      .limit(limit);
+    const stats = await MessageRecipient.countByStatus(campaigns.map((c) => c._id));
+    res.json(campaigns.map((c) => transformCampaign(c, stats[c._id.toString()])));
+  } catch (err) {
+    console.error('Error fetching campaigns:', err);
+    res.status(500).json({ message: 'Server Error: Could not fetch campaigns.' });
+  }
+});
+
+// GET a single campaign with its first `recipientLimit` recipients (default 100, 0 for none)
+app.get('/api/campaigns/:id', requirePermission('campaigns.view'), async (req, res) => {
+  const parsedLimit = parseInt(req.query.recipientLimit, 10);
+  const recipientLimit = Math.min(Number.isNaN(parsedLimit) ? 100 : Math.max(parsedLimit, 0), 1000);
+  try {
+    await connectToDatabase();
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid campaign ID format.' });
+    }
+    const campaign = await Campaign.findById(req.params.id);
+    if (!campaign) {
+      return res.status(404).json({ message: 'Campaign not found.' });
+    }
+    const [stats, recipients] = await Promise.all([
+      MessageRecipient.countByStatus([campaign._id]),
+      recipientLimit > 0
+        ? MessageRecipient.find({ campaign: campaign._id }).sort({ createdAt: 1 }).limit(recipientLimit)
+        : [],
+    ]);
+    res.json({
+      ...transformCampaign(campaign, stats[campaign._id.toString()]),
+      recipients: recipients.map(transformDocument),
+    });
+  } catch (err) {
+    console.error('Error fetching campaign:', err);
+    res.status(500).json({ message: 'Server Error: Could not fetch campaign.' });
+  }
+});
+
+// GET messages sent, delivered, read and failed over time for a campaign's delivery chart
+app.get('/api/campaigns/:id/timeline', requirePermission('campaigns.view'), async (req, res) => {
+  try {
+    await connectToDatabase();
+    const campaign = await findCampaign(req.params.id, res);
+    if (!campaign) return;
+    res.json(await deliveryTimeline(campaign._id));
+  } catch (err) {
+    console.error('Error fetching campaign timeline:', err);
+    res.status(500).json({ message: 'Server Error: Could not fetch the delivery timeline.' });
+  }
+});
+
+// GET a campaign's most common failure reasons, grouped by WhatsApp error code
+app.get('/api/campaigns/:id/failures', requirePermission('campaigns.view'), async (req, res) => {
+  try {
+    await connectToDatabase();
+    const campaign = await findCampaign(req.params.id, res);
+    if (!campaign) return;
+    res.json(await failureReasons({ campaign: campaign._id }));
+  } catch (err) {
+    console.error('Error fetching campaign failures:', err);
+    res.status(500).json({ message: 'Server Error: Could not fetch failure reasons.' });
+  }
+});
+
+// GET a campaign's recipient counts and delivery rates for each language version it was sent in
+app.get('/api/campaigns/:id/languages', requirePermission('campaigns.view'), async (req, res) => {
+  try {
+    await connectToDatabase();
+    const campaign = await findCampaign(req.params.id, res);
+    if (!campaign) return;
+    res.json(await languageBreakdown(campaign._id));
+  } catch (err) {
+    console.error('Error fetching campaign languages:', err);
+    res.status(500).json({ message: 'Server Error: Could not fetch the language breakdown.' });
+  }
+});
+
+// GET one page of a campaign's recipients, optionally filtered by `status`, `search` (name or phone) or `errorCode`
+app.get('/api/campaigns/:id/recipients', requirePermission('campaigns.view'), async (req, res) => {
+  const { status, search, errorCode } = req.query;
+  if (status && !MessageRecipient.STATUSES.includes(status)) {
+    return res.status(400).json({ message: 'Invalid recipient status.' });
+  }
+  const page = Math.max(parseInt(req.query.page, 10) || 1, 1);
+  const limit = Math.min(Math.max(parseInt(req.query.limit, 10) || 50, 1), 200);
+  try {
+    await connectToDatabase();
+    const campaign = await findCampaign(req.params.id, res);
+    if (!campaign) return;
+
+    const filter = { campaign: campaign._id };
+    if (status) filter.status = status;
+    if (errorCode) {
+      // Codes are numbers from WhatsApp but strings such as 'suppressed' from this app.
+      const codes = [errorCode];
+      if (!Number.isNaN(Number(errorCode))) codes.push(Number(errorCode));
+      filter['error.code'] = { $in: codes };
+    }
+    if (search && search.trim()) {
+      const pattern = new RegExp(escapeRegex(search.trim()), 'i');
+      const digits = phoneSearchDigits(search);
+      filter.$or = [{ name: pattern }, { phone: digits ? new RegExp(digits) : pattern }];
+    }
+    const [total, recipients] = await Promise.all([
+      MessageRecipient.countDocuments(filter),
+      MessageRecipient.find(filter).sort({ createdAt: 1, _id: 1 }).skip((page - 1) * limit).limit(limit),
+    ]);
+    res.json({ recipients: recipients.map(transformDocument), total, page, limit });
+  } catch (err) {
+    console.error('Error fetching campaign recipients:', err);
+    res.status(500).json({ message: 'Server Error: Could not fetch recipients.' });
+  }
+});
+
+// PUT to edit a campaign that has not started yet: its text and language versions, audience and
+// send time
+app.put('/api/campaigns/:id', requirePermission('campaigns.send'), async (req, res) => {
+  const { heading, content, language, translations, audience, schedule: scheduleRequest, confirmWarnings } = req.body;
+  try {
+    await connectToDatabase();
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid campaign ID format.' });
+    }
+    const campaign = await Campaign.findById(req.params.id);
+    if (!campaign) {
+      return res.status(404).json({ message: 'Campaign not found.' });
+    }
+    if (campaign.status !== 'scheduled') {
+      return res.status(409).json({ message: 'Only campaigns that have not started yet can be edited.' });
+    }
+
+    const update = {};
+    if (!campaign.template?.name) {
+      if (heading !== undefined) update.heading = String(heading);
+      if (content !== undefined) update.content = String(content);
+      const nextContent = update.content ?? campaign.content;
+      if (!nextContent.trim() && !campaign.media?.providerMediaId) {
+        return res.status(400).json({ message: 'A message must contain either text content or a media file.' });
+      }
+      if (language !== undefined || translations !== undefined) {
+        try {
+          Object.assign(update, parseCampaignTranslations({
+            language: language !== undefined ? language : campaign.language,
+            translations: translations !== undefined ? translations : campaign.translations.map((t) => t.toObject()),
+          }, { hasMedia: Boolean(campaign.media?.providerMediaId) }));
+        } catch (err) {
+          if (err instanceof TranslationError) return res.status(400).json({ message: err.message });
+          throw err;
+        }
+      }
+    } else if (heading !== undefined || content !== undefined || translations !== undefined) {
+      return res.status(400).json({ message: 'The text of a template campaign comes from its template and cannot be edited.' });
+    }
+
+    if (audience !== undefined) {
+      let counts;
+      try {
+        counts = await countSendable(buildAudienceFilter(audience));
+      } catch (err) {
+        if (err instanceof AudienceError) return res.status(400).json({ message: err.message });
+        throw err;
+      }
+      if (counts.sendable === 0) {
+        return res.status(400).json({ message: 'No contacts that can receive messages match the selected recipients.' });
+      }
+      update.audience = audience;
+      update.recipientCount = counts.sendable;
+    }
+
+    // Edited text, or new recipients for its placeholders, is checked as when it was composed.
+    const textChanged = ['heading', 'content', 'translations'].some((field) => update[field] !== undefined);
+    if (!campaign.template?.name && (textChanged || update.audience)) {
+      const issues = await checkMessage({
+        heading: update.heading ?? campaign.heading ?? '',
+        content: update.content ?? campaign.content ?? '',
+        mediaType: campaign.media?.type ?? null,
+        translations: update.translations ?? campaign.translations.map((t) => t.toObject()),
+        audienceFilter: buildAudienceFilter(update.audience ?? campaign.audience),
+      });
+      const rejection = complianceRejection(issues, confirmWarnings);
+      if (rejection) return res.status(400).json({ message: rejection, issues });
+    }
+
+    if (scheduleRequest !== undefined) {
+      try {
+        Object.assign(update, parseSchedule(scheduleRequest, { hasMedia: Boolean(campaign.media?.providerMediaId) }));
+      } catch (err) {
+        if (err instanceof ScheduleError) return res.status(400).json({ message: err.message });
+        throw err;
+      }
+    }
+
+    // The status filter keeps an edit from racing with the campaign starting.
+    const updated = await Campaign.findOneAndUpdate({ _id: campaign._id, status: 'scheduled' }, update, { new: true });
+    if (!updated) {
+      return res.status(409).json({ message: 'The campaign started while it was being edited.' });
+    }
+    if (update.scheduledAt) await rescheduleCampaignStart(updated);
+    const stats = await MessageRecipient.countByStatus([updated._id]);
+    res.json(transformCampaign(updated, stats[updated._id.toString()]));
+  } catch (err) {
+    console.error('Error editing campaign:', err);
+    res.status(500).json({ message: 'Server Error: Could not update campaign.' });
+  }
+});
+
+// GET delivery totals, rates and top failure reasons across campaigns created in the last `days` days (default 30)
+app.get('/api/analytics/overview', requirePermission('campaigns.view'), async (req, res) => {
+  const days = Math.min(Math.max(parseInt(req.query.days, 10) || 30, 1), 365);
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  try {
+    await connectToDatabase();
+    const campaignIds = (await Campaign.find({ createdAt: { $gte: since }, status: { $ne: 'scheduled' } }).select('_id').lean())
+      .map((campaign) => campaign._id);
+    const [stats, failures] = await Promise.all([
+      MessageRecipient.countByStatus(campaignIds),
+      failureReasons({ campaign: { $in: campaignIds } }),
+    ]);
+    const totals = totalStats(stats);
+    res.json({ days, campaignCount: campaignIds.length, totals, rates: deliveryRates(totals), failureReasons: failures });
+  } catch (err) {
+    console.error('Error fetching analytics overview:', err);
+    res.status(500).json({ message: 'Server Error: Could not fetch analytics.' });
+  }
+});
+
+// POST to pause, resume or cancel a campaign that is still sending (scheduled campaigns can only be cancelled)
+const CAMPAIGN_ACTIONS = {
+  pause: { run: pauseCampaign, verb: 'paused' },
+  resume: { run: resumeCampaign, verb: 'resumed' },
+  cancel: { run: cancelCampaign, verb: 'cancelled' },
+};
+
+app.post('/api/campaigns/:id/:action(pause|resume|cancel)', requirePermission('campaigns.send'), async (req, res) => {
+  const action = CAMPAIGN_ACTIONS[req.params.action];
+  try {
+    await connectToDatabase();
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid campaign ID format.' });
+    }
+    const campaign = await action.run(req.params.id);
+    if (!campaign) {
+      const exists = await Campaign.exists({ _id: req.params.id });
+      return exists
+        ? res.status(409).json({ message: `Campaign cannot be ${action.verb} in its current state.` })
+        : res.status(404).json({ message: 'Campaign not found.' });
+    }
+    const stats = await MessageRecipient.countByStatus([campaign._id]);
+    res.json(transformCampaign(campaign, stats[campaign._id.toString()]));
+  } catch (err) {
+    console.error(`Error updating campaign (${req.params.action}):`, err);
+    res.status(500).json({ message: 'Server Error: Could not update campaign.' });
+  }
+});
+
+// --- Inbox Routes ---
+const transformConversation = (conversation) => {
+  const { contact, ...rest } = transformDocument(conversation);
+  return {
+    ...rest,
+    contactId: contact?._id ? contact._id.toString() : contact?.toString(),
+    contactName: contact?.name || conversation.phone,
+  };
+};
+
+const findConversation = async (id, res) => {
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    res.status(400).json({ message: 'Invalid conversation ID format.' });
+    return null;
+  }
+  const conversation = await Conversation.findById(id);
+  if (!conversation) {
+    res.status(404).json({ message: 'Conversation not found.' });
+    return null;
+  }
+  return conversation;
+};
+
+// GET inbox conversations, most recent first
+app.get('/api/conversations', requirePermission('inbox.view'), async (req, res) => {
+  try {
+    await connectToDatabase();
+    const conversations = await Conversation.find()
+      .sort({ lastMessageAt: -1 })
+      .limit(200)
+      .populate('contact', 'name');
+    res.json(conversations.map(transformConversation));
+  } catch (err) {
+    console.error('Error fetching conversations:', err);
+    res.status(500).json({ message: 'Server Error: Could not fetch conversations.' });
+  }
+});
+
+// GET the message history of a conversation, oldest first. Pass `before` (ISO date) to page back.
+app.get('/api/conversations/:id/messages', requirePermission('inbox.view'), async (req, res) => {
+  const before = req.query.before ? new Date(req.query.before) : null;
+  if (before && Number.isNaN(before.getTime())) {
+    return res.status(400).json({ message: 'Invalid "before" date. Use an ISO date such as 2026-01-31T12:00:00Z.' });
+  }
+  try {
+    await connectToDatabase();
+    const conversation = await findConversation(req.params.id, res);
+    if (!conversation) return;
+
+    const filter = { conversation: conversation._id };
+    if (before) {
+      filter.timestamp = { $lt: before };
+    }
+    const messages = await ConversationMessage.find(filter).sort({ timestamp: -1 }).limit(100);
+    res.json(messages.reverse().map(transformDocument));
+  } catch (err) {
+    console.error('Error fetching conversation messages:', err);
+    res.status(500).json({ message: 'Server Error: Could not fetch messages.' });
+  }
+});
+
+// POST to mark a conversation as read
+app.post('/api/conversations/:id/read', requirePermission('inbox.view'), async (req, res) => {
+  try {
+    await connectToDatabase();
+    const conversation = await findConversation(req.params.id, res);
+    if (!conversation) return;
+    await Conversation.updateOne({ _id: conversation._id }, { unreadCount: 0 });
+    res.json({ success: true });
+  } catch (err) {
+    console.error('Error marking conversation read:', err);
+    res.status(500).json({ message: 'Server Error: Could not update conversation.' });
+  }
+});
+
+// POST a free-form reply to a conversation (text and/or a media file)
+app.post('/api/conversations/:id/messages', requirePermission('inbox.reply'), upload.single('media'), async (req, res) => {
+  const text = buildMessageBody('', req.body.text);
+  const mediaFile = req.file;
+  if (!text && !mediaFile) {
+    return res.status(400).json({ message: 'A reply must contain either text or a media file.' });
+  }
+
+  try {
+    await connectToDatabase();
+    const conversation = await findConversation(req.params.id, res);
+    if (!conversation) return;
+
+    const sender = getSender();
+    let media = null;
+    let libraryMedia = null;
+    if (mediaFile) {
+      ({ media: libraryMedia } = await saveUpload(mediaFile, { uploadedBy: req.user._id }));
+      const uploaded = await sender.uploadMedia(mediaFile);
+      media = { id: uploaded.id, type: libraryMedia.type, filename: mediaFile.originalname };
+    }
+
+    let providerMessageId = null;
+    let status = 'sent';
+    let error;
+    try {
+      ({ messageId: providerMessageId } = await sender.sendMessage(conversation.phone, { text, media }));
+    } catch (err) {
+      console.error(`Error sending reply to ${conversation.phone}:`, err.message);
+      status = 'failed';
+      error = { code: err.code ?? null, message: err.message };
+    }
+
+    const message = await ConversationMessage.create({
+      conversation: conversation._id,
+      direction: 'outbound',
+      type: media ? media.type : 'text',
+      text,
+      media: media ? { providerMediaId: media.id, mimetype: libraryMedia.mimetype, filename: mediaFile.originalname } : undefined,
+      providerMessageId: providerMessageId || undefined,
+      status,
+      error,
+      sentBy: req.user._id,
+    });
+    await Conversation.updateOne(
+      { _id: conversation._id },
+      { lastMessageAt: message.timestamp, lastMessagePreview: previewText(message) }
+    );
+
+    if (status === 'failed') {
+      return res.status(502).json({ message: `Reply could not be sent: ${error.message}`, reply: transformDocument(message) });
+    }
+    res.status(201).json(transformDocument(message));
+  } catch (err) {
+    if (err instanceof MediaError) {
+      return res.status(400).json({ message: err.message });
+    }
+    console.error('Error sending reply:', err);
+    res.status(500).json({ message: 'Server Error: Could not send reply.' });
+  }
+});
+
+// GET the media attached to a conversation message, proxied from the messaging provider
+app.get('/api/conversations/:id/messages/:messageId/media', requirePermission('inbox.view'), async (req, res) => {
+  try {
+    await connectToDatabase();
+    if (!mongoose.Types.ObjectId.isValid(req.params.id) || !mongoose.Types.ObjectId.isValid(req.params.messageId)) {
+      return res.status(400).json({ message: 'Invalid conversation or message ID format.' });
+    }
+    const message = await ConversationMessage.findOne({ _id: req.params.messageId, conversation: req.params.id });
+    if (!message || !message.media?.providerMediaId) {
+      return res.status(404).json({ message: 'Media not found.' });
+    }
+    const { buffer, mimetype } = await getSender().downloadMedia(message.media.providerMediaId);
+    res.set('Cache-Control', 'private, max-age=3600');
+    res.type(mimetype).send(buffer);
+  } catch (err) {
+    console.error('Error fetching message media:', err);
+    res.status(err.status === 404 ? 404 : 502).json({ message: 'Could not fetch media from the messaging provider.' });
+  }
+});
+
+// --- Cron Routes ---
+// Serverless deployments have no long-running worker, so Vercel Cron calls this route on a schedule
+// (see vercel.json). Vercel sends `Authorization: Bearer $CRON_SECRET`.
+// Each call stops taking new jobs after this long, so it ends well before the platform stops the
+// function (10 seconds by default on Vercel) and no job is cut off while it holds its lock. Raise
+// CRON_TIME_BUDGET_SECONDS only together with the function's maximum duration.
+const cronTimeBudgetMs = () => (Number(process.env.CRON_TIME_BUDGET_SECONDS) || 5) * 1000;
+
+const requireCronSecret = (req, res, next) => {
+  if (!process.env.CRON_SECRET) {
+    return res.status(503).json({ message: 'CRON_SECRET is not configured on the server.' });
+  }
+  if (req.headers.authorization !== `Bearer ${process.env.CRON_SECRET}`) {
+    return res.status(401).json({ message: 'Invalid cron secret.' });
+  }
+  next();
+};
+
+// GET to process queued jobs until the queue is empty or the time budget runs out. Scheduled campaigns
+// are started by a queued job too, so with a one-minute cron they go out within a minute of their time.
+app.get('/api/cron/process-queue', requireCronSecret, async (req, res) => {
+  try {
+    await connectToDatabase();
+    await scheduleTemplateSync();
+    const processed = await processQueue({ deadline: Date.now() + cronTimeBudgetMs() });
+    res.json({ processed });
+  } catch (err) {
+    console.error('Error processing queue:', err);
+    res.status(500).json({ message: 'Server Error: Could not process queue.' });
+  }
+});
+
+// --- Generic Error Handler ---
+// This middleware must be defined last, after all other app.use() and routes.
+// It catches any unhandled errors from the routes above and ensures a consistent JSON error response.
+app.use((err, req, res, next) => {
+  console.error("UNHANDLED ERROR:", err.stack || err);
+
+  // Handle Multer-specific errors
+  if (err instanceof multer.MulterError) {
+    return res.status(400).json({ message: `File upload error: ${err.message}` });
+  }
+
+  // Generic fallback for other errors
+  res.status(500).json({ message: "An internal server error occurred. Please try again later." });
+});
+
+
+// --- Start Server (for local development) ---
 if (process.env.NODE_ENV !== 'production') {
   const PORT = process.env.PORT || 3001;
   app.listen(PORT, () => console.log(`Server running for local development on http://localhost:${PORT}`));
+  // Locally the queue is drained by an in-process worker instead of the cron route.
+  if (process.env.MONGO_URI) {
+    startWorker({ connect: connectToDatabase });
+    connectToDatabase()
+      .then(() => scheduleTemplateSync())
+      .catch((err) => console.error('Could not schedule the template sync:', err));
+  }
 }
 
 // --- Export app for Vercel ---
@@ -0,0 +1,125 @@
+// Turns a stored template plus a campaign's parameter mapping into the `components` array the
+// Graph API expects when sending a template message.
+//
+// Every positional parameter in a template is a "slot" with a key:
+//   header.1, header.2 ...  - text header parameters
+//   header.media            - the image/video/document of a media header (taken from the campaign media)
+//   body.1, body.2 ...      - body parameters
+//   button.<i>.1            - the dynamic suffix of the URL button at position i
+// A mapping assigns each slot a source:
+//   { source: 'variable', variable: 'first_name', fallback: 'there' }  - a contact field (see senders/personalize.js)
+//   { source: 'text', value: 'SUMMER20' }                               - the same fixed value for everyone
+class TemplateError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+const PARAMETER_PATTERN = /\{\{(\d+)\}\}/g;
+
+const MEDIA_FORMATS = ['IMAGE', 'VIDEO', 'DOCUMENT'];
+
+const parameterNumbers = (text) => Array.from(new Set(
+  Array.from(String(text || '').matchAll(PARAMETER_PATTERN), ([, n]) => Number(n))
+)).sort((a, b) => a - b);
+
+// Lists the parameter slots of a template in send order.
+const templateParameterSlots = (template) => {
+  const slots = [];
+  for (const component of template.components || []) {
+    if (component.type === 'HEADER') {
+      if (MEDIA_FORMATS.includes(component.format)) {
+        slots.push({ key: 'header.media', component: 'header', format: component.format });
+      } else {
+        const examples = component.example?.header_text || [];
+        parameterNumbers(component.text).forEach((n) => {
+          slots.push({ key: `header.${n}`, component: 'header', index: n, example: examples[n - 1] ?? null });
+        });
+      }
+    } else if (component.type === 'BODY') {
+      const examples = component.example?.body_text?.[0] || [];
+      parameterNumbers(component.text).forEach((n) => {
+        slots.push({ key: `body.${n}`, component: 'body', index: n, example: examples[n - 1] ?? null });
+      });
+    } else if (component.type === 'BUTTONS') {
+      (component.buttons || []).forEach((button, buttonIndex) => {
+        if (button.type === 'URL' && parameterNumbers(button.url).length > 0) {
+          slots.push({
+            key: `button.${buttonIndex}.1`,
+            component: 'button',
+            buttonIndex,
+            index: 1,
+            example: button.example?.[0] ?? null,
+          });
+        }
+      });
+    }
+  }
+  return slots;
+};
+
+// Checks a mapping covers every text slot of the template. Returns the cleaned-up mapping.
+const validateParameterMapping = (template, mapping) => {
+  const source = mapping && typeof mapping === 'object' ? mapping : {};
+  const cleaned = {};
+  for (const slot of templateParameterSlots(template)) {
+    if (slot.key === 'header.media') continue;
+    const entry = source[slot.key];
+    if (entry?.source === 'variable' && typeof entry.variable === 'string' && entry.variable) {
+      cleaned[slot.key] = { source: 'variable', variable: entry.variable, fallback: String(entry.fallback || '').trim() };
+    } else if (entry?.source === 'text' && String(entry.value || '').trim()) {
+      cleaned[slot.key] = { source: 'text', value: String(entry.value).trim() };
+    } else {
+      throw new TemplateError(`Please choose a value for template parameter ${slot.key}.`);
+    }
+  }
+  return cleaned;
+};
+
+const resolveValue = (slot, entry, variables) => {
+  if (!entry) throw new TemplateError(`Template parameter ${slot.key} has no value assigned.`);
+  const value = entry.source === 'text'
+    ? entry.value
+    : String(variables[entry.variable] ?? '').trim() || entry.fallback;
+  if (!value) {
+    throw new TemplateError(`No value for template parameter ${slot.key} ({{${entry.variable}}}).`);
+  }
+  return value;
+};
+
+// Builds the Graph API `template.components` for one recipient. `headerMedia` is
+// { id, type } when the template has a media header.
+const buildTemplateComponents = (template, mapping, variables, headerMedia = null) => {
+  const header = [];
+  const body = [];
+  const buttons = [];
+
+  for (const slot of templateParameterSlots(template)) {
+    if (slot.key === 'header.media') {
+      if (!headerMedia) throw new TemplateError(`This template needs a ${slot.format.toLowerCase()} header.`);
+      header.push({ type: headerMedia.type, [headerMedia.type]: { id: headerMedia.id } });
+      continue;
+    }
+    const text = resolveValue(slot, mapping[slot.key], variables);
+    if (slot.component === 'header') header.push({ type: 'text', text });
+    if (slot.component === 'body') body.push({ type: 'text', text });
+    if (slot.component === 'button') {
+      buttons.push({ type: 'button', sub_type: 'url', index: String(slot.buttonIndex), parameters: [{ type: 'text', text }] });
+    }
+  }
+
+  return [
+    ...(header.length > 0 ? [{ type: 'header', parameters: header }] : []),
+    ...(body.length > 0 ? [{ type: 'body', parameters: body }] : []),
+    ...buttons,
+  ];
+};
+
+module.exports = {
+  TemplateError,
+  MEDIA_FORMATS,
+  templateParameterSlots,
+  validateParameterMapping,
+  buildTemplateComponents,
+};
@@ -0,0 +1,45 @@
+const MessageTemplate = require('../models/MessageTemplate');
+const { getSender } = require('../senders');
+
+// Graph reports "NONE" when a template was not rejected.
+const rejectedReasonOf = (remote) => (
+  remote.rejected_reason && remote.rejected_reason !== 'NONE' ? remote.rejected_reason : null
+);
+
+// Pulls every template from the provider and makes the local copies match: new ones are added,
+// existing ones take the provider's status and content, and ones deleted in WhatsApp Manager are
+// removed. Resolves to { created, updated, removed }, or null when the provider keeps no templates.
+const syncTemplates = async () => {
+  const remoteTemplates = await getSender().templates.list();
+  if (!remoteTemplates) return null;
+
+  const summary = { created: 0, updated: 0, removed: 0 };
+  const seenIds = [];
+  for (const remote of remoteTemplates) {
+    seenIds.push(remote.id);
+    const result = await MessageTemplate.updateOne(
+      { name: remote.name, language: remote.language },
+      {
+        $set: {
+          category: remote.category,
+          components: remote.components || [],
+          status: remote.status,
+          rejectedReason: rejectedReasonOf(remote),
+          providerTemplateId: remote.id,
+          lastSyncedAt: new Date(),
+        },
+      },
+      { upsert: true, runValidators: true }
+    );
+    if (result.upsertedCount > 0) summary.created += 1;
+    else if (result.modifiedCount > 0) summary.updated += 1;
+  }
+
+  const removed = await MessageTemplate.deleteMany({
+    providerTemplateId: { $exists: true, $nin: seenIds },
+  });
+  summary.removed = removed.deletedCount;
+  return summary;
+};
+
+module.exports = { syncTemplates };
@@ -0,0 +1,78 @@
+// Team member roles and what each may do. Routes name the permission they need (see
+// requirePermission in middleware/auth.js); the frontend gets the current user's permissions to
+// hide what their role cannot use. frontend/src/utils/roles.ts mirrors the role names and labels.
+class RoleError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'RoleError';
+  }
+}
+
+// Most to least access.
+const ROLES = ['owner', 'admin', 'campaign_manager', 'agent', 'viewer'];
+
+const ROLE_LABELS = {
+  owner: 'Owner',
+  admin: 'Admin',
+  campaign_manager: 'Campaign Manager',
+  agent: 'Agent',
+  viewer: 'Viewer',
+};
+
+const EVERYONE = ROLES;
+const MANAGERS = ['owner', 'admin', 'campaign_manager'];
+const ADMINS = ['owner', 'admin'];
+
+// Each permission with the roles that have it and what it allows, for error messages.
+const PERMISSIONS = {
+  'contacts.view': { roles: EVERYONE, description: 'view contacts' },
+  'contacts.edit': { roles: MANAGERS, description: 'add or change contacts, groups and consent' },
+  'contacts.delete': { roles: ADMINS, description: 'delete contacts' },
+  'contacts.export': { roles: MANAGERS, description: 'export contacts' },
+  'campaigns.view': { roles: EVERYONE, description: 'view campaigns, templates and media' },
+  'campaigns.send': { roles: MANAGERS, description: 'write, send and manage campaigns' },
+  'templates.manage': { roles: MANAGERS, description: 'manage message templates' },
+  'media.manage': { roles: MANAGERS, description: 'upload or delete media' },
+  'inbox.view': { roles: EVERYONE, description: 'read the inbox' },
+  'inbox.reply': { roles: ['owner', 'admin', 'campaign_manager', 'agent'], description: 'reply in the inbox' },
+  'suppressions.manage': { roles: ADMINS, description: 'change the suppression list' },
+  'settings.manage': { roles: ADMINS, description: 'change workspace settings' },
+  'users.manage': { roles: ADMINS, description: 'invite team members or change their roles' },
+};
+
+const hasPermission = (role, permission) => Boolean(PERMISSIONS[permission]?.roles.includes(role));
+
+const permissionsFor = (role) => Object.keys(PERMISSIONS).filter((permission) => hasPermission(role, permission));
+
+const permissionDenied = (role, permission) => `The ${ROLE_LABELS[role] || role} role cannot ${PERMISSIONS[permission]?.description || 'do this'}.`;
+
+const parseRole = (role) => {
+  if (!ROLES.includes(role)) {
+    throw new RoleError(`Role must be one of: ${ROLES.join(', ')}.`);
+  }
+  return role;
+};
+
+// Checks that `actor` may give `target` the role `role` (or remove them, when `role` is null).
+// Admins manage everyone but owners, and only owners make owners. Nobody changes their own role,
+// so a workspace cannot lock itself out by accident.
+const checkRoleChange = (actor, target, role) => {
+  if (actor._id.equals(target._id)) {
+    throw new RoleError(role ? 'You cannot change your own role.' : 'You cannot remove yourself.');
+  }
+  if (actor.role !== 'owner' && (target.role === 'owner' || role === 'owner')) {
+    throw new RoleError('Only an owner can manage owners.');
+  }
+};
+
+module.exports = {
+  RoleError,
+  ROLES,
+  ROLE_LABELS,
+  PERMISSIONS,
+  hasPermission,
+  permissionsFor,
+  permissionDenied,
+  parseRole,
+  checkRoleChange,
+};
@@ -0,0 +1,27 @@
+const { applyStatusUpdate } = require('./statuses');
+const { applyInboundMessage } = require('./messages');
+
+// Walks a WhatsApp Business Account webhook payload and applies every change it carries.
+// See https://developers.facebook.com/docs/whatsapp/cloud-api/webhooks/components
+const processWebhookPayload = async (payload) => {
+  const summary = { statuses: 0, updated: 0, messages: 0 };
+  if (!payload || payload.object !== 'whatsapp_business_account') return summary;
+
+  for (const entry of payload.entry || []) {
+    for (const change of entry.changes || []) {
+      if (change.field !== 'messages' || !change.value) continue;
+
+      for (const status of change.value.statuses || []) {
+        summary.statuses += 1;
+        if (await applyStatusUpdate(status)) summary.updated += 1;
+      }
+
+      for (const message of change.value.messages || []) {
+        if (await applyInboundMessage(message, change.value.contacts)) summary.messages += 1;
+      }
+    }
+  }
+  return summary;
+};
+
+module.exports = { processWebhookPayload };
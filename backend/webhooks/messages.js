@@ -0,0 +1,125 @@
+const Contact = require('../models/Contact');
+const Conversation = require('../models/Conversation');
+const ConversationMessage = require('../models/ConversationMessage');
+const { isOptOutKeyword, setConsent } = require('../contacts/consent');
+const { PhoneError, normalizePhone } = require('../contacts/phone');
+
+const MEDIA_TYPES = ['image', 'video', 'audio', 'document', 'sticker'];
+
+const MEDIA_LABELS = {
+  image: '📷 Photo',
+  video: '🎥 Video',
+  audio: '🎵 Audio',
+  document: '📄 Document',
+  sticker: 'Sticker',
+};
+
+// Short text shown in the inbox thread list.
+const previewText = ({ type, text, media }) => {
+  if (text) return text.slice(0, 120);
+  if (MEDIA_LABELS[type]) return media?.filename ? `${MEDIA_LABELS[type]}: ${media.filename}` : MEDIA_LABELS[type];
+  return `[${type}]`;
+};
+
+// Pulls the text and media reference out of an inbound WhatsApp message object.
+const parseInboundContent = (message) => {
+  const { type } = message;
+  if (type === 'text') {
+    return { text: message.text?.body || '' };
+  }
+  if (MEDIA_TYPES.includes(type) && message[type]) {
+    const media = message[type];
+    return {
+      text: media.caption || '',
+      media: { providerMediaId: media.id, mimetype: media.mime_type, filename: media.filename },
+    };
+  }
+  if (type === 'button') {
+    return { text: message.button?.text || '' };
+  }
+  if (type === 'interactive') {
+    const reply = message.interactive?.button_reply || message.interactive?.list_reply;
+    return { text: reply?.title || '' };
+  }
+  if (type === 'location' && message.location) {
+    const { latitude, longitude, name } = message.location;
+    return { text: [name, `${latitude}, ${longitude}`].filter(Boolean).join(' - ') };
+  }
+  return { text: '' };
+};
+
+// Country and type of a sender's number. WhatsApp only reports numbers in full international form,
+// but test numbers are not always valid ones, so those are stored without the details.
+const phoneDetails = (phone) => {
+  try {
+    const { country, type } = normalizePhone(phone);
+    return { phoneCountry: country, phoneType: type };
+  } catch (err) {
+    if (err instanceof PhoneError) return {};
+    throw err;
+  }
+};
+
+// Finds the conversation for a phone number, creating the contact and the conversation if needed.
+const findOrCreateConversation = async (phone, profileName) => {
+  const contact = await Contact.findOneAndUpdate(
+    { phone },
+    { $setOnInsert: { phone, ...phoneDetails(phone), name: profileName || phone, 'consent.source': 'inbound' } },
+    { upsert: true, new: true, runValidators: true, setDefaultsOnInsert: true }
+  );
+  return Conversation.findOneAndUpdate(
+    { phone },
+    { $setOnInsert: { phone, contact: contact._id } },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  );
+};
+
+// Stores one entry of `value.messages` from a WhatsApp webhook. `profiles` is `value.contacts`,
+// which carries the sender's WhatsApp display name. Returns the stored message, or null when
+// this event was already processed.
+const applyInboundMessage = async (message, profiles = []) => {
+  if (!message.id || !message.from) return null;
+
+  const phone = `+${message.from}`;
+  const profile = profiles.find((p) => p.wa_id === message.from);
+  const conversation = await findOrCreateConversation(phone, profile?.profile?.name);
+
+  const timestamp = message.timestamp ? new Date(Number(message.timestamp) * 1000) : new Date();
+  const content = parseInboundContent(message);
+
+  let stored;
+  try {
+    stored = await ConversationMessage.create({
+      conversation: conversation._id,
+      direction: 'inbound',
+      type: message.type,
+      ...content,
+      providerMessageId: message.id,
+      status: 'received',
+      timestamp,
+    });
+  } catch (err) {
+    if (err.code === 11000) return null; // Redelivered event
+    throw err;
+  }
+
+  await Conversation.updateOne(
+    { _id: conversation._id },
+    {
+      $set: { lastMessagePreview: previewText(stored) },
+      $max: { lastMessageAt: timestamp, lastInboundAt: timestamp },
+      $inc: { unreadCount: 1 },
+    }
+  );
+
+  if (message.type === 'text' && isOptOutKeyword(stored.text)) {
+    await setConsent(conversation.contact, {
+      status: 'opted_out',
+      source: 'keyword',
+      note: `Replied "${stored.text.trim()}"`,
+    });
+  }
+  return stored;
+};
+
+module.exports = { applyInboundMessage, previewText };
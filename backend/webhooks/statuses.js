@@ -0,0 +1,60 @@
+const MessageRecipient = require('../models/MessageRecipient');
+const ConversationMessage = require('../models/ConversationMessage');
+
+// Delivery statuses only ever move forward. Each update is filtered on the statuses it may replace,
+// so a repeated or out-of-order callback (Meta retries and does not guarantee ordering) is a no-op.
+const ALLOWED_PREVIOUS = {
+  sent: ['queued'],
+  delivered: ['queued', 'sent'],
+  read: ['queued', 'sent', 'delivered'],
+  failed: ['queued', 'sent'],
+};
+
+// Timestamps implied by reaching a status. `$min` fills in any stage whose own callback
+// never arrived (or has not arrived yet) without overwriting an earlier value.
+const IMPLIED_TIMESTAMPS = {
+  sent: ['sentAt'],
+  delivered: ['sentAt', 'deliveredAt'],
+  read: ['sentAt', 'deliveredAt', 'readAt'],
+  failed: ['failedAt'],
+};
+
+const toError = (errors = []) => {
+  const [first] = errors;
+  if (!first) return { code: null, message: 'Unknown error' };
+  return {
+    code: first.code ?? null,
+    message: first.error_data?.details || first.message || first.title || 'Unknown error',
+  };
+};
+
+// Applies one entry of `value.statuses` from a WhatsApp webhook to the campaign recipient or
+// inbox message it refers to. Returns true if a record changed.
+const applyStatusUpdate = async (status) => {
+  const previous = ALLOWED_PREVIOUS[status.status];
+  if (!previous || !status.id) return false;
+
+  const at = status.timestamp ? new Date(Number(status.timestamp) * 1000) : new Date();
+  const update = {
+    $set: { status: status.status },
+    $min: Object.fromEntries(IMPLIED_TIMESTAMPS[status.status].map((field) => [field, at])),
+  };
+  if (status.status === 'failed') {
+    update.$set.error = toError(status.errors);
+  }
+
+  const result = await MessageRecipient.updateOne(
+    { providerMessageId: status.id, status: { $in: previous } },
+    update
+  );
+  if (result.matchedCount > 0) return result.modifiedCount > 0;
+
+  // Not a campaign message, so it may be an inbox reply.
+  const replyResult = await ConversationMessage.updateOne(
+    { providerMessageId: status.id, direction: 'outbound', status: { $in: previous } },
+    { $set: update.$set }
+  );
+  return replyResult.modifiedCount > 0;
+};
+
+module.exports = { applyStatusUpdate };
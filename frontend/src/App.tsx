@@ -1,10 +1,25 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import useLocalStorage from './hooks/useLocalStorage';
 import LoginPage from './components/LoginPage';
 import DashboardPage from './components/DashboardPage';
+import AcceptInvitePage from './components/AcceptInvitePage';
+import * as api from './services/apiService';
 
 const App: React.FC = () => {
-  const [authToken, setAuthToken] = useLocalStorage<string | null>('admin-auth-token', null);
+  const [authToken, setAuthToken] = useLocalStorage<string | null>(api.AUTH_TOKEN_KEY, null);
+  // Invitation links open the app with `?invite=<token>`.
+  const [inviteToken, setInviteToken] = useState(() => new URLSearchParams(window.location.search).get('invite'));
+
+  // Drops the token from the address bar so a reload or bookmark does not show the page again.
+  const closeInvite = () => {
+    window.history.replaceState(null, '', window.location.pathname);
+    setInviteToken(null);
+  };
+
+  const handleInviteAccepted = (token: string) => {
+    closeInvite();
+    setAuthToken(token);
+  };
 
   const handleLoginSuccess = (token: string) => {
     setAuthToken(token);
@@ -14,9 +29,17 @@ const App: React.FC = () => {
     setAuthToken(null);
   };
 
+  // Any 401 from the API means the session is gone; drop the token so the login page is shown again.
+  useEffect(() => {
+    api.setUnauthorizedHandler(() => setAuthToken(null));
+    return () => api.setUnauthorizedHandler(null);
+  }, [setAuthToken]);
+
   return (
     <div className="min-h-screen bg-gray-900 font-sans">
-      {authToken ? (
+      {inviteToken ? (
+        <AcceptInvitePage inviteToken={inviteToken} onAccepted={handleInviteAccepted} onCancel={closeInvite} />
+      ) : authToken ? (
         <DashboardPage onLogout={handleLogout} />
       ) : (
         <LoginPage onLoginSuccess={handleLoginSuccess} />
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { PaperAirplaneIcon } from './icons';
+import * as api from '../services/apiService';
+
+interface AcceptInvitePageProps {
+  // The token from the invitation link.
+  inviteToken: string;
+  onAccepted: (token: string) => void;
+  onCancel: () => void;
+}
+
+// Same minimum as the server.
+const MIN_PASSWORD_LENGTH = 8;
+
+// Where an invited team member chooses a password; they are logged in afterwards.
+const AcceptInvitePage: React.FC<AcceptInvitePageProps> = ({ inviteToken, onAccepted, onCancel }) => {
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+      return;
+    }
+    if (password !== confirmation) {
+      setError('The passwords do not match.');
+      return;
+    }
+    setError('');
+    setIsLoading(true);
+
+    try {
+      const { token } = await api.acceptInvite(inviteToken, password);
+      onAccepted(token);
+    } catch (err: any) {
+      setError(err.message || 'Could not accept the invitation.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const inputClassName = 'appearance-none relative block w-full px-3 py-3 border border-gray-700 bg-gray-900 text-gray-100 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm';
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-gradient-to-br from-gray-900 to-gray-800">
+      <div className="w-full max-w-md p-8 space-y-8 bg-gray-800 rounded-2xl shadow-2xl">
+        <div className="text-center">
+          <div className="flex justify-center mb-4">
+            <PaperAirplaneIcon className="h-12 w-12 text-indigo-400 transform -rotate-45" />
+          </div>
+          <h2 className="text-3xl font-extrabold text-white">Join the Team</h2>
+          <p className="mt-2 text-sm text-gray-400">Choose a password to finish setting up your account.</p>
+        </div>
+        <form className="mt-8 space-y-4" onSubmit={handleSubmit}>
+          <input
+            type="password"
+            autoComplete="new-password"
+            required
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className={inputClassName}
+            placeholder="New password"
+          />
+          <input
+            type="password"
+            autoComplete="new-password"
+            required
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            className={inputClassName}
+            placeholder="Repeat the password"
+          />
+
+          {error && <p className="text-sm text-red-400 text-center">{error}</p>}
+
+          <button
+            type="submit"
+            disabled={isLoading}
+            className="group relative w-full flex justify-center py-3 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 focus:ring-offset-gray-900 disabled:bg-indigo-400 disabled:cursor-not-allowed"
+          >
+            {isLoading ? 'Joining...' : 'Join'}
+          </button>
+          <button type="button" onClick={onCancel} className="w-full text-sm text-gray-400 hover:text-white">
+            I already have an account
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default AcceptInvitePage;
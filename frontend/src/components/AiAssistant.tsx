@@ -0,0 +1,204 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { AiAction, AiEmoji, AiGenerationOptions, AiLength, AiTone } from '../types';
+import * as api from '../services/apiService';
+import useLocalStorage from '../hooks/useLocalStorage';
+import { SparklesIcon, StopIcon, LoadingSpinner } from './icons';
+import { LANGUAGES } from '../utils/languages';
+
+interface AiAssistantProps {
+  heading: string;
+  content: string;
+  // Called with the text so far each time more of the streamed message arrives, and with the
+  // variant the user picked, to replace the message content.
+  onUse: (text: string) => void;
+  // Tells the composer while a message is being streamed into it.
+  onStreamingChange?: (isStreaming: boolean) => void;
+}
+
+const DEFAULT_OPTIONS: AiGenerationOptions = {
+  tone: 'friendly',
+  language: 'en',
+  length: 'short',
+  emoji: 'few',
+  callToAction: true,
+  variants: 3,
+};
+
+const TONE_LABELS: Record<AiTone, string> = { friendly: 'Friendly', formal: 'Formal', urgent: 'Urgent' };
+const LENGTH_LABELS: Record<AiLength, string> = { short: 'Short', medium: 'Medium', long: 'Long' };
+const EMOJI_LABELS: Record<AiEmoji, string> = { none: 'No emoji', few: 'A few emoji', many: 'Lots of emoji' };
+
+const DRAFT_ACTIONS: { action: AiAction; label: string }[] = [
+  { action: 'rewrite', label: 'Rewrite' },
+  { action: 'shorten', label: 'Shorten' },
+  { action: 'improve', label: 'Improve' },
+];
+
+const selectClasses = 'px-2 py-1 bg-gray-900 border border-gray-700 rounded-md text-xs text-gray-200 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500';
+const actionButtonClasses = 'flex items-center text-xs px-2 py-1 rounded-md text-indigo-300 bg-indigo-900/50 hover:bg-indigo-900/80 disabled:opacity-50 disabled:cursor-not-allowed';
+
+// AI help for the message content: drafts variants from the heading, or rewrites, shortens or
+// improves the current draft, with the chosen tone, language, length and emoji usage. The options
+// are remembered in this browser. The first variant is written straight into the content as it is
+// generated, and can be stopped part way; the others are listed to pick from once they arrive.
+const AiAssistant: React.FC<AiAssistantProps> = ({ heading, content, onUse, onStreamingChange }) => {
+  const [storedOptions, setStoredOptions] = useLocalStorage<AiGenerationOptions>('ai-generation-options', DEFAULT_OPTIONS);
+  // Options saved by an older version may lack newer fields.
+  const options = { ...DEFAULT_OPTIONS, ...storedOptions };
+  const [runningAction, setRunningAction] = useState<AiAction | null>(null);
+  const [variants, setVariants] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  // The draft a streamed message replaced, so it can be put back.
+  const [previousDraft, setPreviousDraft] = useState<string | null>(null);
+  const streamRef = useRef<AbortController | null>(null);
+
+  // Closing the assistant stops a message that is still being written.
+  useEffect(() => () => streamRef.current?.abort(), []);
+
+  const setOption = <K extends keyof AiGenerationOptions>(key: K, value: AiGenerationOptions[K]) => {
+    setStoredOptions({ ...options, [key]: value });
+  };
+
+  const run = async (action: AiAction) => {
+    if (action === 'generate' && !heading.trim()) {
+      setError('Please enter a heading to generate content.');
+      return;
+    }
+    if (action !== 'generate' && !content.trim()) {
+      setError('Please write a draft first.');
+      return;
+    }
+    const controller = new AbortController();
+    streamRef.current = controller;
+    setRunningAction(action);
+    setError(null);
+    setVariants([]);
+    const alternatives = options.variants - 1;
+    await Promise.all([
+      stream(action, controller.signal),
+      alternatives > 0 && fetchAlternatives(action, alternatives, controller.signal),
+    ]);
+    streamRef.current = null;
+    setRunningAction(null);
+  };
+
+  const fetchAlternatives = async (action: AiAction, count: number, signal: AbortSignal) => {
+    try {
+      const response = await api.generateAiContent(action, { heading, content }, { ...options, variants: count }, { signal });
+      setVariants(response.variants);
+    } catch (err: any) {
+      // Stop cancels these too; that is not an error.
+      if (!signal.aborted) setError(err.message || 'An unknown error occurred.');
+    }
+  };
+
+  const stream = async (action: AiAction, signal: AbortSignal) => {
+    setPreviousDraft(content);
+    onStreamingChange?.(true);
+    let text = '';
+    onUse(text);
+    try {
+      await api.streamAiContent(action, { heading, content }, options, {
+        signal,
+        onToken: (token) => {
+          text += token;
+          onUse(text);
+        },
+      });
+    } catch (err: any) {
+      setError(err.message || 'An unknown error occurred.');
+    } finally {
+      // Whatever arrived stays in the content, also after Stop or an error.
+      if (!text) {
+        onUse(content);
+        setPreviousDraft(null);
+      }
+      onStreamingChange?.(false);
+    }
+  };
+
+  const handleUndo = () => {
+    if (previousDraft === null) return;
+    onUse(previousDraft);
+    setPreviousDraft(null);
+  };
+
+  const handleUse = (variant: string) => {
+    onUse(variant);
+    setVariants([]);
+    setPreviousDraft(null);
+  };
+
+  const isRunning = runningAction !== null;
+
+  return (
+    <div className="border border-gray-700 rounded-lg p-3 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <select value={options.tone} onChange={(e) => setOption('tone', e.target.value as AiTone)} className={selectClasses} aria-label="Tone">
+          {(Object.keys(TONE_LABELS) as AiTone[]).map((tone) => <option key={tone} value={tone}>{TONE_LABELS[tone]}</option>)}
+        </select>
+        <select value={options.language} onChange={(e) => setOption('language', e.target.value)} className={selectClasses} aria-label="Language">
+          {LANGUAGES.map(({ code, label }) => <option key={code} value={code}>{label}</option>)}
+        </select>
+        <select value={options.length} onChange={(e) => setOption('length', e.target.value as AiLength)} className={selectClasses} aria-label="Length">
+          {(Object.keys(LENGTH_LABELS) as AiLength[]).map((length) => <option key={length} value={length}>{LENGTH_LABELS[length]}</option>)}
+        </select>
+        <select value={options.emoji} onChange={(e) => setOption('emoji', e.target.value as AiEmoji)} className={selectClasses} aria-label="Emoji usage">
+          {(Object.keys(EMOJI_LABELS) as AiEmoji[]).map((emoji) => <option key={emoji} value={emoji}>{EMOJI_LABELS[emoji]}</option>)}
+        </select>
+        <select value={options.variants} onChange={(e) => setOption('variants', Number(e.target.value))} className={selectClasses} aria-label="Number of variants">
+          <option value={1}>1 message</option>
+          {[3, 4, 5].map((count) => <option key={count} value={count}>{count} variants</option>)}
+        </select>
+        <label className="flex items-center space-x-1 text-xs text-gray-300">
+          <input type="checkbox" checked={options.callToAction} onChange={(e) => setOption('callToAction', e.target.checked)} />
+          <span>Call to action</span>
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button type="button" onClick={() => run('generate')} disabled={isRunning} className={actionButtonClasses}>
+          {runningAction === 'generate' ? <LoadingSpinner className="h-4 w-4 mr-1" /> : <SparklesIcon className="h-4 w-4 mr-1" />}
+          Generate from heading
+        </button>
+        {DRAFT_ACTIONS.map(({ action, label }) => (
+          <button key={action} type="button" onClick={() => run(action)} disabled={isRunning || !content.trim()} className={actionButtonClasses}>
+            {runningAction === action && <LoadingSpinner className="h-4 w-4 mr-1" />}
+            {label} draft
+          </button>
+        ))}
+        {isRunning && (
+          <button type="button" onClick={() => streamRef.current?.abort()} className="flex items-center text-xs px-2 py-1 rounded-md text-red-300 bg-red-900/40 hover:bg-red-900/70">
+            <StopIcon className="h-4 w-4 mr-1" />
+            Stop
+          </button>
+        )}
+        {!isRunning && previousDraft !== null && (
+          <button type="button" onClick={handleUndo} className="text-xs text-gray-400 hover:text-white">
+            Undo AI text
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {variants.length > 0 && (
+        <div className="space-y-2">
+          {variants.map((variant, index) => (
+            <div key={index} className="bg-gray-900 border border-gray-700 rounded-md p-2">
+              <p className="text-sm text-gray-200 whitespace-pre-wrap">{variant}</p>
+              <div className="flex justify-end mt-2">
+                <button type="button" onClick={() => handleUse(variant)} className="text-xs px-2 py-1 rounded-md text-white bg-indigo-600 hover:bg-indigo-700">
+                  Use this
+                </button>
+              </div>
+            </div>
+          ))}
+          <button type="button" onClick={() => setVariants([])} className="text-xs text-gray-400 hover:text-white">Discard variants</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AiAssistant;
@@ -0,0 +1,41 @@
+import React from 'react';
+import { AttributeDefinition } from '../types';
+
+interface AttributeInputProps {
+  definition: AttributeDefinition;
+  value: string;
+  onChange: (value: string) => void;
+  id?: string;
+  className?: string;
+}
+
+// The form control for one attribute value, by type. Values are edited as text; an empty value
+// means "not set".
+const AttributeInput: React.FC<AttributeInputProps> = ({ definition, value, onChange, id, className = '' }) => {
+  const classes = `px-2 py-1 bg-gray-900 border border-gray-700 rounded-md text-sm text-gray-200 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 ${className}`;
+
+  if (definition.type === 'boolean' || definition.type === 'select') {
+    const options = definition.type === 'boolean'
+      ? [['true', 'Yes'], ['false', 'No']]
+      : definition.options.map((option) => [option, option]);
+    return (
+      <select id={id} value={value} onChange={(e) => onChange(e.target.value)} className={classes}>
+        <option value="">—</option>
+        {options.map(([optionValue, label]) => <option key={optionValue} value={optionValue}>{label}</option>)}
+      </select>
+    );
+  }
+
+  return (
+    <input
+      id={id}
+      type={definition.type === 'number' ? 'number' : definition.type === 'date' ? 'date' : 'text'}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      placeholder={definition.label}
+      className={classes}
+    />
+  );
+};
+
+export default AttributeInput;
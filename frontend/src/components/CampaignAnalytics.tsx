@@ -0,0 +1,151 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { AnalyticsOverview, Campaign } from '../types';
+import * as api from '../services/apiService';
+import { LoadingSpinner } from './icons';
+import CampaignReport from './CampaignReport';
+import FailureReasonList from './FailureReasonList';
+import { formatRate, sentCount } from '../utils/analytics';
+
+const PERIODS = [7, 30, 90];
+
+// Campaigns page: delivery totals and failure reasons for a period, the list of past campaigns
+// with their counts and rates, and a report per campaign.
+const CampaignAnalytics: React.FC = () => {
+  const [days, setDays] = useState(30);
+  const [overview, setOverview] = useState<AnalyticsOverview | null>(null);
+  const [campaigns, setCampaigns] = useState<Campaign[] | null>(null);
+  const [selected, setSelected] = useState<Campaign | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchCampaigns = useCallback(async () => {
+    try {
+      const fetched = await api.getCampaigns();
+      setCampaigns(fetched.filter((campaign) => campaign.status !== 'scheduled'));
+    } catch (err: any) {
+      setError(err.message || 'Failed to load campaigns.');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCampaigns();
+  }, [fetchCampaigns]);
+
+  useEffect(() => {
+    setOverview(null);
+    api.getAnalyticsOverview(days)
+      .then(setOverview)
+      .catch((err) => setError(err.message || 'Failed to load analytics.'));
+  }, [days]);
+
+  if (selected) {
+    return (
+      <div className="bg-gray-800 p-6 rounded-lg shadow-lg">
+        <CampaignReport key={selected.id} campaign={selected} onBack={() => { setSelected(null); fetchCampaigns(); }} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="bg-gray-800 p-6 rounded-lg shadow-lg">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold">Delivery Overview</h2>
+          <div className="flex space-x-1">
+            {PERIODS.map((period) => (
+              <button
+                key={period}
+                type="button"
+                onClick={() => setDays(period)}
+                className={`text-xs px-3 py-1 rounded-full border ${days === period ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-gray-900 border-gray-700 text-gray-300 hover:bg-gray-700'}`}
+              >
+                {period} days
+              </button>
+            ))}
+          </div>
+        </div>
+        {error && <p className="mb-3 text-sm text-red-400">{error}</p>}
+        {!overview ? (
+          <div className="flex justify-center py-8"><LoadingSpinner className="h-6 w-6 text-indigo-400" /></div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="grid grid-cols-2 gap-4 content-start">
+              {[
+                { label: 'Campaigns', value: overview.campaignCount, detail: `in the last ${overview.days} days` },
+                { label: 'Messages sent', value: sentCount(overview.totals), detail: `${overview.totals.queued} still queued` },
+                { label: 'Delivered', value: overview.totals.delivered + overview.totals.read, detail: formatRate(overview.rates.delivered) },
+                { label: 'Read', value: overview.totals.read, detail: formatRate(overview.rates.read) },
+                { label: 'Failed', value: overview.totals.failed, detail: formatRate(overview.rates.failed) },
+              ].map(({ label, value, detail }) => (
+                <div key={label} className="p-4 rounded-lg bg-gray-900 border border-gray-700">
+                  <p className="text-xs text-gray-400">{label}</p>
+                  <p className="text-2xl font-semibold text-gray-100">{value}</p>
+                  <p className="text-xs text-gray-500">{detail}</p>
+                </div>
+              ))}
+            </div>
+            <div>
+              <h3 className="text-sm font-medium text-gray-300 mb-3">Most common failure reasons</h3>
+              <FailureReasonList reasons={overview.failureReasons} showCampaignCount />
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-gray-800 p-6 rounded-lg shadow-lg">
+        <h2 className="text-xl font-semibold mb-4">Campaigns</h2>
+        {!campaigns ? (
+          <div className="flex justify-center py-8"><LoadingSpinner className="h-6 w-6 text-indigo-400" /></div>
+        ) : campaigns.length === 0 ? (
+          <p className="text-sm text-gray-400">No campaigns have been sent yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-400 border-b border-gray-700">
+                  <th className="py-2 pr-4">Campaign</th>
+                  <th className="py-2 pr-4">Status</th>
+                  <th className="py-2 pr-4 text-right">Recipients</th>
+                  <th className="py-2 pr-4 text-right">Sent</th>
+                  <th className="py-2 pr-4 text-right">Delivered</th>
+                  <th className="py-2 pr-4 text-right">Read</th>
+                  <th className="py-2 text-right">Failed</th>
+                </tr>
+              </thead>
+              <tbody>
+                {campaigns.map((campaign) => (
+                  <tr
+                    key={campaign.id}
+                    onClick={() => setSelected(campaign)}
+                    className="border-b border-gray-800 text-gray-300 cursor-pointer hover:bg-gray-700/50"
+                  >
+                    <td className="py-2 pr-4">
+                      <p className="text-gray-100">{campaign.heading || 'Untitled campaign'}</p>
+                      <p className="text-xs text-gray-500">{new Date(campaign.startedAt || campaign.createdAt).toLocaleString()}</p>
+                    </td>
+                    <td className="py-2 pr-4 text-xs">{campaign.status}</td>
+                    <td className="py-2 pr-4 text-right">{campaign.recipientCount}</td>
+                    <td className="py-2 pr-4 text-right">{sentCount(campaign.stats)}</td>
+                    <td className="py-2 pr-4 text-right">
+                      {campaign.stats.delivered + campaign.stats.read}
+                      <span className="block text-xs text-gray-500">{formatRate(campaign.rates.delivered)}</span>
+                    </td>
+                    <td className="py-2 pr-4 text-right">
+                      {campaign.stats.read}
+                      <span className="block text-xs text-gray-500">{formatRate(campaign.rates.read)}</span>
+                    </td>
+                    <td className="py-2 text-right">
+                      {campaign.stats.failed}
+                      <span className="block text-xs text-gray-500">{formatRate(campaign.rates.failed)}</span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CampaignAnalytics;
@@ -0,0 +1,115 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Campaign, CampaignStatus } from '../types';
+import * as api from '../services/apiService';
+import { LoadingSpinner } from './icons';
+
+interface CampaignProgressProps {
+  campaignId: string;
+  onDismiss: () => void;
+}
+
+const ACTIVE_STATUSES: CampaignStatus[] = ['queued', 'sending', 'paused'];
+const POLL_INTERVAL_MS = 3000;
+
+const STATUS_LABELS: Record<CampaignStatus, string> = {
+  scheduled: 'Scheduled',
+  queued: 'Queued',
+  sending: 'Sending',
+  paused: 'Paused',
+  cancelled: 'Cancelled',
+  completed: 'Completed',
+  failed: 'Failed',
+};
+
+const CampaignProgress: React.FC<CampaignProgressProps> = ({ campaignId, onDismiss }) => {
+  const [campaign, setCampaign] = useState<Campaign | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  const fetchCampaign = useCallback(async () => {
+    try {
+      setCampaign(await api.getCampaign(campaignId, 0));
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load campaign progress.');
+    }
+  }, [campaignId]);
+
+  useEffect(() => {
+    fetchCampaign();
+  }, [fetchCampaign]);
+
+  const isActive = !campaign || ACTIVE_STATUSES.includes(campaign.status);
+
+  useEffect(() => {
+    if (!isActive) return;
+    const timer = setInterval(fetchCampaign, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isActive, fetchCampaign]);
+
+  const handleAction = async (action: 'pause' | 'resume' | 'cancel') => {
+    setIsUpdating(true);
+    try {
+      setCampaign(await api.updateCampaignState(campaignId, action));
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || `Failed to ${action} campaign.`);
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  if (!campaign) {
+    return (
+      <div className="p-3 rounded-md bg-gray-900 border border-gray-700 flex items-center text-sm text-gray-400">
+        {error ? <span className="text-red-400">{error}</span> : <><LoadingSpinner className="h-4 w-4 mr-2" />Loading campaign...</>}
+      </div>
+    );
+  }
+
+  const { stats, recipientCount } = campaign;
+  const sent = stats.sent + stats.delivered + stats.read;
+  const processed = sent + stats.failed + stats.cancelled;
+  const percent = recipientCount > 0 ? Math.round((processed / recipientCount) * 100) : 0;
+
+  return (
+    <div className="p-3 rounded-md bg-gray-900 border border-gray-700 space-y-2 text-sm">
+      <div className="flex justify-between items-center">
+        <span className="font-medium text-gray-200">
+          Campaign {STATUS_LABELS[campaign.status].toLowerCase()}
+        </span>
+        <span className="text-gray-400">{processed} / {recipientCount}</span>
+      </div>
+      <div className="w-full h-2 bg-gray-700 rounded-full overflow-hidden">
+        <div className="h-full bg-green-500 transition-all" style={{ width: `${percent}%` }} />
+      </div>
+      <p className="text-xs text-gray-400">
+        {sent} sent, {stats.failed} failed{stats.cancelled > 0 && `, ${stats.cancelled} cancelled`}
+      </p>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      <div className="flex justify-end space-x-2">
+        {(campaign.status === 'queued' || campaign.status === 'sending') && (
+          <button type="button" onClick={() => handleAction('pause')} disabled={isUpdating} className="text-xs px-2 py-1 rounded-md text-yellow-300 bg-yellow-900/40 hover:bg-yellow-900/70 disabled:opacity-50">
+            Pause
+          </button>
+        )}
+        {campaign.status === 'paused' && (
+          <button type="button" onClick={() => handleAction('resume')} disabled={isUpdating} className="text-xs px-2 py-1 rounded-md text-green-300 bg-green-900/40 hover:bg-green-900/70 disabled:opacity-50">
+            Resume
+          </button>
+        )}
+        {isActive ? (
+          <button type="button" onClick={() => handleAction('cancel')} disabled={isUpdating} className="text-xs px-2 py-1 rounded-md text-red-300 bg-red-900/40 hover:bg-red-900/70 disabled:opacity-50">
+            Cancel
+          </button>
+        ) : (
+          <button type="button" onClick={onDismiss} className="text-xs px-2 py-1 rounded-md text-gray-300 bg-gray-700 hover:bg-gray-600">
+            Dismiss
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CampaignProgress;
@@ -0,0 +1,249 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Campaign, CampaignLanguageStats, DeliveryTimeline, FailureReason, RecipientPage, RecipientStatus } from '../types';
+import * as api from '../services/apiService';
+import { LoadingSpinner } from './icons';
+import DeliveryChart from './DeliveryChart';
+import FailureReasonList from './FailureReasonList';
+import { formatRate, sentCount } from '../utils/analytics';
+import { formatPhone } from '../utils/phone';
+import { languageLabel } from '../utils/languages';
+
+interface CampaignReportProps {
+  campaign: Campaign;
+  onBack: () => void;
+}
+
+const PAGE_SIZE = 50;
+const SEARCH_DEBOUNCE_MS = 300;
+
+const RECIPIENT_STATUSES: RecipientStatus[] = ['queued', 'sent', 'delivered', 'read', 'failed', 'cancelled'];
+
+const STATUS_CLASSES: Record<RecipientStatus, string> = {
+  queued: 'bg-gray-700 text-gray-300',
+  sent: 'bg-indigo-900/60 text-indigo-300',
+  delivered: 'bg-green-900/60 text-green-300',
+  read: 'bg-sky-900/60 text-sky-300',
+  failed: 'bg-red-900/60 text-red-300',
+  cancelled: 'bg-yellow-900/40 text-yellow-300',
+};
+
+const formatDateTime = (value?: string) => (value ? new Date(value).toLocaleString() : '—');
+
+// Drill-down for one campaign: headline numbers, delivery chart, failure reasons, results per
+// language for translated campaigns and a paged, filterable table of its recipients.
+const CampaignReport: React.FC<CampaignReportProps> = ({ campaign, onBack }) => {
+  const [timeline, setTimeline] = useState<DeliveryTimeline | null>(null);
+  const [failures, setFailures] = useState<FailureReason[] | null>(null);
+  const [languages, setLanguages] = useState<CampaignLanguageStats[]>([]);
+  const [recipients, setRecipients] = useState<RecipientPage | null>(null);
+  const [status, setStatus] = useState<RecipientStatus | ''>('');
+  const [errorCode, setErrorCode] = useState('');
+  const [search, setSearch] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [page, setPage] = useState(1);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([api.getCampaignTimeline(campaign.id), api.getCampaignFailures(campaign.id), api.getCampaignLanguages(campaign.id)])
+      .then(([fetchedTimeline, fetchedFailures, fetchedLanguages]) => {
+        setTimeline(fetchedTimeline);
+        setFailures(fetchedFailures);
+        setLanguages(fetchedLanguages);
+      })
+      .catch((err) => setError(err.message || 'Failed to load the campaign report.'));
+  }, [campaign.id]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedSearch(search);
+      setPage(1);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const fetchRecipients = useCallback(async () => {
+    try {
+      setRecipients(await api.getCampaignRecipients(campaign.id, {
+        status: status || undefined,
+        errorCode: errorCode || undefined,
+        search: debouncedSearch || undefined,
+        page,
+        limit: PAGE_SIZE,
+      }));
+    } catch (err: any) {
+      setError(err.message || 'Failed to load recipients.');
+    }
+  }, [campaign.id, status, errorCode, debouncedSearch, page]);
+
+  useEffect(() => {
+    fetchRecipients();
+  }, [fetchRecipients]);
+
+  // Any filter change starts over at the first page.
+  const filterBy = (nextStatus: RecipientStatus | '', nextErrorCode = '') => {
+    setStatus(nextStatus);
+    setErrorCode(nextErrorCode);
+    setPage(1);
+  };
+
+  const { stats, rates } = campaign;
+  const pageCount = recipients ? Math.max(Math.ceil(recipients.total / recipients.limit), 1) : 1;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-start">
+        <div>
+          <button type="button" onClick={onBack} className="text-xs text-indigo-300 hover:text-indigo-200 mb-1">
+            ← All campaigns
+          </button>
+          <h2 className="text-xl font-semibold">{campaign.heading || 'Untitled campaign'}</h2>
+          <p className="text-xs text-gray-400">
+            Created {formatDateTime(campaign.createdAt)} · {campaign.recipientCount} recipients · {campaign.status}
+          </p>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          { label: 'Sent', value: sentCount(stats), detail: `${stats.queued} still queued` },
+          { label: 'Delivered', value: stats.delivered + stats.read, detail: formatRate(rates.delivered) },
+          { label: 'Read', value: stats.read, detail: formatRate(rates.read) },
+          { label: 'Failed', value: stats.failed, detail: formatRate(rates.failed) },
+        ].map(({ label, value, detail }) => (
+          <div key={label} className="p-4 rounded-lg bg-gray-900 border border-gray-700">
+            <p className="text-xs text-gray-400">{label}</p>
+            <p className="text-2xl font-semibold text-gray-100">{value}</p>
+            <p className="text-xs text-gray-500">{detail}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+        <div className="lg:col-span-3 p-4 rounded-lg bg-gray-900 border border-gray-700">
+          <h3 className="text-sm font-medium text-gray-300 mb-3">Delivery over time</h3>
+          {timeline ? <DeliveryChart timeline={timeline} /> : <LoadingSpinner className="h-5 w-5 text-indigo-400" />}
+        </div>
+        <div className="lg:col-span-2 p-4 rounded-lg bg-gray-900 border border-gray-700">
+          <h3 className="text-sm font-medium text-gray-300 mb-3">Failure reasons</h3>
+          {failures
+            ? <FailureReasonList reasons={failures} onSelect={(reason) => filterBy('failed', String(reason.code))} />
+            : <LoadingSpinner className="h-5 w-5 text-indigo-400" />}
+        </div>
+      </div>
+
+      {(languages.length > 1 || (campaign.translations?.length ?? 0) > 0) && (
+        <div className="p-4 rounded-lg bg-gray-900 border border-gray-700">
+          <h3 className="text-sm font-medium text-gray-300 mb-3">By language</h3>
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-400 border-b border-gray-700">
+                  <th className="py-2 pr-4">Language</th>
+                  <th className="py-2 pr-4">Recipients</th>
+                  <th className="py-2 pr-4">Delivered</th>
+                  <th className="py-2 pr-4">Read</th>
+                  <th className="py-2">Failed</th>
+                </tr>
+              </thead>
+              <tbody>
+                {languages.map((row) => (
+                  <tr key={row.language ?? ''} className="border-b border-gray-800 text-gray-300">
+                    <td className="py-2 pr-4">
+                      {row.language ? languageLabel(row.language) : 'Not set'}
+                      {row.language && row.language === campaign.language && <span className="ml-1 text-xs text-gray-500">(original)</span>}
+                    </td>
+                    <td className="py-2 pr-4">{row.recipients}</td>
+                    <td className="py-2 pr-4">{formatRate(row.rates.delivered)}</td>
+                    <td className="py-2 pr-4">{formatRate(row.rates.read)}</td>
+                    <td className="py-2">{formatRate(row.rates.failed)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <div className="p-4 rounded-lg bg-gray-900 border border-gray-700">
+        <div className="flex flex-wrap items-center gap-2 mb-3">
+          <h3 className="text-sm font-medium text-gray-300 mr-auto">Recipients</h3>
+          <input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search name or phone"
+            className="px-2 py-1 bg-gray-800 border border-gray-700 rounded-md text-xs placeholder-gray-500 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+          />
+          <select
+            value={status}
+            onChange={(e) => filterBy(e.target.value as RecipientStatus | '')}
+            className="px-2 py-1 bg-gray-800 border border-gray-700 rounded-md text-xs text-gray-200"
+          >
+            <option value="">All statuses</option>
+            {RECIPIENT_STATUSES.map((s) => <option key={s} value={s}>{s} ({stats[s]})</option>)}
+          </select>
+          {errorCode && (
+            <button type="button" onClick={() => filterBy(status)} className="text-xs px-2 py-1 rounded-full bg-red-900/40 text-red-300">
+              Error {errorCode} ✕
+            </button>
+          )}
+        </div>
+
+        {!recipients ? (
+          <LoadingSpinner className="h-5 w-5 text-indigo-400" />
+        ) : (
+          <>
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-400 border-b border-gray-700">
+                    <th className="py-2 pr-4">Name</th>
+                    <th className="py-2 pr-4">Phone</th>
+                    <th className="py-2 pr-4">Status</th>
+                    <th className="py-2 pr-4">Sent</th>
+                    <th className="py-2 pr-4">Delivered</th>
+                    <th className="py-2 pr-4">Read</th>
+                    <th className="py-2">Error</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {recipients.recipients.map((recipient) => (
+                    <tr key={recipient.id} className="border-b border-gray-800 text-gray-300">
+                      <td className="py-2 pr-4">{recipient.name || '—'}</td>
+                      <td className="py-2 pr-4 font-mono text-xs">{formatPhone(recipient.phone)}</td>
+                      <td className="py-2 pr-4">
+                        <span className={`text-xs px-2 py-0.5 rounded-full ${STATUS_CLASSES[recipient.status]}`}>{recipient.status}</span>
+                      </td>
+                      <td className="py-2 pr-4 text-xs">{formatDateTime(recipient.sentAt)}</td>
+                      <td className="py-2 pr-4 text-xs">{formatDateTime(recipient.deliveredAt)}</td>
+                      <td className="py-2 pr-4 text-xs">{formatDateTime(recipient.readAt)}</td>
+                      <td className="py-2 text-xs text-red-300">
+                        {recipient.error ? `${recipient.error.code ?? ''} ${recipient.error.message}`.trim() : ''}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {recipients.recipients.length === 0 && <p className="py-4 text-sm text-gray-400">No recipients match.</p>}
+            </div>
+            <div className="flex justify-between items-center mt-3 text-xs text-gray-400">
+              <span>{recipients.total} recipients</span>
+              <div className="flex items-center space-x-2">
+                <button type="button" onClick={() => setPage(page - 1)} disabled={page <= 1} className="px-2 py-1 rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-50">
+                  Previous
+                </button>
+                <span>Page {page} of {pageCount}</span>
+                <button type="button" onClick={() => setPage(page + 1)} disabled={page >= pageCount} className="px-2 py-1 rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-50">
+                  Next
+                </button>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CampaignReport;
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { AttributeCondition, AttributeDefinition, AttributeOperator } from '../types';
+import AttributeInput from './AttributeInput';
+import { OPERATOR_LABELS, formatAttributeValue, operatorNeedsValue, operatorsFor } from '../utils/attributes';
+
+interface ContactAttributeFiltersProps {
+  definitions: AttributeDefinition[];
+  conditions: AttributeCondition[];
+  onChange: (conditions: AttributeCondition[]) => void;
+}
+
+const controlClasses = 'px-2 py-1 bg-gray-900 border border-gray-700 rounded-md text-xs text-gray-200 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500';
+
+const describeCondition = (definition: AttributeDefinition | undefined, condition: AttributeCondition) => {
+  const label = definition?.label || condition.key;
+  if (!operatorNeedsValue(condition.op)) return `${label} ${OPERATOR_LABELS[condition.op]}`;
+  const value = Array.isArray(condition.value)
+    ? condition.value.join(', ')
+    : formatAttributeValue(definition?.type === 'boolean' ? condition.value === 'true' : condition.value);
+  return `${label} ${OPERATOR_LABELS[condition.op]} ${value}`;
+};
+
+// Builds the attribute conditions of the contact list, e.g. "City is Berlin" and "Orders is at
+// least 3". Every condition has to match.
+const ContactAttributeFilters: React.FC<ContactAttributeFiltersProps> = ({ definitions, conditions, onChange }) => {
+  const [key, setKey] = useState('');
+  const [op, setOp] = useState<AttributeOperator>('eq');
+  const [value, setValue] = useState('');
+
+  if (definitions.length === 0) return null;
+
+  const definition = definitions.find((candidate) => candidate.key === key) || definitions[0];
+  const operators = operatorsFor(definition.type);
+  const operator = operators.includes(op) ? op : operators[0];
+  const needsValue = operatorNeedsValue(operator);
+
+  const selectAttribute = (nextKey: string) => {
+    setKey(nextKey);
+    setOp('eq');
+    setValue('');
+  };
+
+  const handleAdd = () => {
+    if (needsValue && !value.trim()) return;
+    const condition: AttributeCondition = { key: definition.key, op: operator };
+    if (needsValue) condition.value = operator === 'in' ? value.split(',').map((item) => item.trim()).filter(Boolean) : value.trim();
+    onChange([...conditions, condition]);
+    setValue('');
+  };
+
+  return (
+    <div className="mb-3 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs text-gray-400">Filter by</span>
+        <select value={definition.key} onChange={(e) => selectAttribute(e.target.value)} className={controlClasses}>
+          {definitions.map(({ key: optionKey, label }) => <option key={optionKey} value={optionKey}>{label}</option>)}
+        </select>
+        <select value={operator} onChange={(e) => setOp(e.target.value as AttributeOperator)} className={controlClasses}>
+          {operators.map((candidate) => <option key={candidate} value={candidate}>{OPERATOR_LABELS[candidate]}</option>)}
+        </select>
+        {needsValue && (operator === 'in' ? (
+          <input value={value} onChange={(e) => setValue(e.target.value)} placeholder={definition.options.join(', ')} className={controlClasses} />
+        ) : (
+          <AttributeInput definition={definition} value={value} onChange={setValue} className="text-xs" />
+        ))}
+        <button
+          type="button"
+          onClick={handleAdd}
+          disabled={needsValue && !value.trim()}
+          className="text-xs px-2 py-1 rounded-md text-indigo-300 bg-indigo-900/50 hover:bg-indigo-900/80 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Add filter
+        </button>
+      </div>
+      {conditions.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {conditions.map((condition, index) => (
+            <button
+              key={`${condition.key}-${index}`}
+              type="button"
+              onClick={() => onChange(conditions.filter((_, i) => i !== index))}
+              className="text-xs px-2 py-0.5 rounded-full bg-teal-900/50 text-teal-200 hover:bg-teal-900/80"
+            >
+              {describeCondition(definitions.find((candidate) => candidate.key === condition.key), condition)} ✕
+            </button>
+          ))}
+          <button type="button" onClick={() => onChange([])} className="text-xs px-2 py-0.5 text-gray-400 hover:text-gray-200">
+            Clear
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ContactAttributeFilters;
@@ -0,0 +1,202 @@
+import React, { useState, useEffect } from 'react';
+import { AttributeDefinition, AttributeType, WorkspaceSettings } from '../types';
+import * as api from '../services/apiService';
+import { TrashIcon } from './icons';
+import { ATTRIBUTE_TYPE_LABELS, attributeKeyFromLabel, isValidAttributeKey } from '../utils/attributes';
+
+interface ContactAttributeSettingsProps {
+  attributes: AttributeDefinition[];
+  onSaved: (settings: WorkspaceSettings) => void;
+}
+
+const ATTRIBUTE_TYPES = Object.keys(ATTRIBUTE_TYPE_LABELS) as AttributeType[];
+
+const inputClasses = 'px-2 py-1 bg-gray-900 border border-gray-700 rounded-md text-sm text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500';
+
+const parseOptions = (text: string) => Array.from(new Set(text.split(',').map((option) => option.trim()).filter(Boolean)));
+
+// Defines the workspace's custom contact attributes. Each one can be edited on contacts, used as a
+// contact list filter, and inserted into messages as `{{key}}`. Keys cannot change once created
+// because messages and filters refer to them.
+const ContactAttributeSettings: React.FC<ContactAttributeSettingsProps> = ({ attributes, onSaved }) => {
+  const [draft, setDraft] = useState<AttributeDefinition[]>(attributes);
+  const [label, setLabel] = useState('');
+  const [key, setKey] = useState('');
+  const [keyEdited, setKeyEdited] = useState(false);
+  const [type, setType] = useState<AttributeType>('text');
+  const [options, setOptions] = useState('');
+  const [addError, setAddError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [status, setStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  // The settings may still be loading when the panel first renders.
+  useEffect(() => {
+    setDraft(attributes);
+  }, [attributes]);
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(attributes);
+
+  const updateAttribute = (index: number, changes: Partial<AttributeDefinition>) => {
+    setDraft((prev) => prev.map((attribute, i) => (i === index ? { ...attribute, ...changes } : attribute)));
+  };
+
+  const handleLabelChange = (value: string) => {
+    setLabel(value);
+    if (!keyEdited) setKey(attributeKeyFromLabel(value));
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!label.trim()) {
+      setAddError('Please give the attribute a label.');
+      return;
+    }
+    if (!isValidAttributeKey(key)) {
+      setAddError('Keys use letters, digits and underscores, do not start with a digit, and cannot be name, first_name, last_name or phone.');
+      return;
+    }
+    if (draft.some((attribute) => attribute.key === key)) {
+      setAddError(`There is already an attribute with the key "${key}".`);
+      return;
+    }
+    if (type === 'select' && parseOptions(options).length === 0) {
+      setAddError('Please list the options, separated by commas.');
+      return;
+    }
+    setDraft((prev) => [...prev, { key, label: label.trim(), type, options: type === 'select' ? parseOptions(options) : [] }]);
+    setLabel('');
+    setKey('');
+    setKeyEdited(false);
+    setType('text');
+    setOptions('');
+    setAddError(null);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setStatus(null);
+    try {
+      onSaved(await api.updateSettings({ contactAttributes: draft }));
+      setStatus({ type: 'success', message: 'Contact attributes saved.' });
+    } catch (err: any) {
+      setStatus({ type: 'error', message: err.message || 'Failed to save contact attributes.' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 p-6 rounded-lg shadow-lg max-w-3xl">
+      <h2 className="text-xl font-semibold mb-1">Contact Attributes</h2>
+      <p className="text-xs text-gray-400 mb-4">
+        Extra fields such as city, language or customer tier. Use them to filter contacts and in messages as <code className="text-teal-300">{'{{key}}'}</code>.
+        Removing an attribute keeps the values already saved on contacts.
+      </p>
+
+      {draft.length > 0 ? (
+        <table className="min-w-full text-sm mb-4">
+          <thead>
+            <tr className="text-left text-xs text-gray-400 border-b border-gray-700">
+              <th className="py-2 pr-3">Label</th>
+              <th className="py-2 pr-3">Key</th>
+              <th className="py-2 pr-3">Type</th>
+              <th className="py-2 pr-3">Options</th>
+              <th className="py-2"><span className="sr-only">Remove</span></th>
+            </tr>
+          </thead>
+          <tbody>
+            {draft.map((attribute, index) => (
+              <tr key={attribute.key} className="border-b border-gray-800">
+                <td className="py-2 pr-3">
+                  <input value={attribute.label} onChange={(e) => updateAttribute(index, { label: e.target.value })} className={`${inputClasses} w-full`} />
+                </td>
+                <td className="py-2 pr-3 font-mono text-xs text-teal-300">{`{{${attribute.key}}}`}</td>
+                <td className="py-2 pr-3">
+                  <select
+                    value={attribute.type}
+                    onChange={(e) => updateAttribute(index, { type: e.target.value as AttributeType })}
+                    className={inputClasses}
+                  >
+                    {ATTRIBUTE_TYPES.map((option) => <option key={option} value={option}>{ATTRIBUTE_TYPE_LABELS[option]}</option>)}
+                  </select>
+                </td>
+                <td className="py-2 pr-3">
+                  {attribute.type === 'select' && (
+                    <input
+                      defaultValue={attribute.options.join(', ')}
+                      onBlur={(e) => updateAttribute(index, { options: parseOptions(e.target.value) })}
+                      placeholder="gold, silver, bronze"
+                      className={`${inputClasses} w-full`}
+                    />
+                  )}
+                </td>
+                <td className="py-2 text-right">
+                  <button
+                    type="button"
+                    onClick={() => setDraft((prev) => prev.filter((_, i) => i !== index))}
+                    className="text-red-400 hover:text-red-600"
+                    aria-label={`Remove ${attribute.label}`}
+                  >
+                    <TrashIcon className="h-4 w-4" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <p className="text-sm text-gray-400 mb-4">No contact attributes yet.</p>
+      )}
+
+      <form onSubmit={handleAdd} className="flex flex-wrap items-end gap-2 p-3 rounded-md bg-gray-900 border border-gray-700">
+        <div>
+          <label htmlFor="attributeLabel" className="block text-xs text-gray-400 mb-1">Label</label>
+          <input id="attributeLabel" value={label} onChange={(e) => handleLabelChange(e.target.value)} placeholder="Customer tier" className={inputClasses} />
+        </div>
+        <div>
+          <label htmlFor="attributeKey" className="block text-xs text-gray-400 mb-1">Key</label>
+          <input
+            id="attributeKey"
+            value={key}
+            onChange={(e) => {
+              setKey(e.target.value);
+              setKeyEdited(true);
+            }}
+            placeholder="customer_tier"
+            className={`${inputClasses} font-mono`}
+          />
+        </div>
+        <div>
+          <label htmlFor="attributeType" className="block text-xs text-gray-400 mb-1">Type</label>
+          <select id="attributeType" value={type} onChange={(e) => setType(e.target.value as AttributeType)} className={inputClasses}>
+            {ATTRIBUTE_TYPES.map((option) => <option key={option} value={option}>{ATTRIBUTE_TYPE_LABELS[option]}</option>)}
+          </select>
+        </div>
+        {type === 'select' && (
+          <div>
+            <label htmlFor="attributeOptions" className="block text-xs text-gray-400 mb-1">Options</label>
+            <input id="attributeOptions" value={options} onChange={(e) => setOptions(e.target.value)} placeholder="gold, silver, bronze" className={inputClasses} />
+          </div>
+        )}
+        <button type="submit" className="px-3 py-1.5 text-sm rounded-md text-indigo-300 bg-indigo-900/50 hover:bg-indigo-900/80">
+          Add
+        </button>
+        {addError && <p className="w-full text-xs text-red-400">{addError}</p>}
+      </form>
+
+      {status && (
+        <p className={`mt-3 text-sm ${status.type === 'success' ? 'text-green-300' : 'text-red-400'}`}>{status.message}</p>
+      )}
+      <button
+        type="button"
+        onClick={handleSave}
+        disabled={isSaving || !isDirty}
+        className="mt-4 py-2 px-4 rounded-md text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-500/50 disabled:cursor-not-allowed"
+      >
+        {isSaving ? 'Saving...' : 'Save attributes'}
+      </button>
+    </div>
+  );
+};
+
+export default ContactAttributeSettings;
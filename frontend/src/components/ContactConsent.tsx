@@ -0,0 +1,110 @@
+import React, { useState, useEffect } from 'react';
+import { Contact, ConsentEvent, ConsentSource, ConsentStatus } from '../types';
+import * as api from '../services/apiService';
+import { LoadingSpinner } from './icons';
+import usePermission from '../hooks/usePermission';
+
+interface ContactConsentProps {
+  contact: Contact;
+  onChanged: (contact: Contact) => void;
+}
+
+const SOURCE_LABELS: Record<ConsentSource, string> = {
+  manual: 'changed manually',
+  bulk: 'opted out with other selected contacts',
+  keyword: 'replied with an opt-out keyword',
+  import: 'imported',
+  inbound: 'messaged us first',
+};
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+
+const ContactConsent: React.FC<ContactConsentProps> = ({ contact, onChanged }) => {
+  const canEdit = usePermission('contacts.edit');
+  const [isOpen, setIsOpen] = useState(false);
+  const [events, setEvents] = useState<ConsentEvent[] | null>(null);
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const optedOut = contact.consent.status === 'opted_out';
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    api.getConsentEvents(contact.id)
+      .then((result) => !cancelled && setEvents(result))
+      .catch((err) => !cancelled && setError(err.message || 'Failed to load consent history.'));
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, contact.id, contact.consent.changedAt]);
+
+  const handleOverride = async (status: ConsentStatus) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const updated = await api.updateContactConsent(contact.id, status, note.trim());
+      setNote('');
+      onChanged(updated);
+    } catch (err: any) {
+      setError(err.message || 'Failed to update consent.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div>
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        title={`${SOURCE_LABELS[contact.consent.source]} on ${formatDate(contact.consent.changedAt)}`}
+        className={`text-[10px] px-1.5 py-0.5 rounded ${optedOut ? 'bg-red-900/60 text-red-200' : 'bg-green-900/60 text-green-200'}`}
+      >
+        {optedOut ? 'Opted out' : 'Opted in'}
+      </button>
+      {isOpen && (
+        <div className="mt-2 p-2 bg-gray-900 border border-gray-700 rounded-md space-y-2 whitespace-normal w-64">
+          {canEdit && (
+            <div className="flex space-x-2">
+              <input
+                type="text"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                className="flex-1 min-w-0 px-2 py-1 bg-gray-800 border border-gray-700 rounded-md text-xs placeholder-gray-500 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                placeholder="Reason (recorded)"
+              />
+              <button
+                onClick={() => handleOverride(optedOut ? 'opted_in' : 'opted_out')}
+                disabled={isSaving}
+                className="text-xs px-2 py-1 rounded-md text-gray-200 bg-gray-700 hover:bg-gray-600 disabled:opacity-50"
+              >
+                {isSaving ? <LoadingSpinner className="h-3 w-3" /> : optedOut ? 'Opt in' : 'Opt out'}
+              </button>
+            </div>
+          )}
+          {error && <p className="text-xs text-red-400">{error}</p>}
+          {events === null ? (
+            <LoadingSpinner className="h-4 w-4 text-indigo-400" />
+          ) : events.length === 0 ? (
+            <p className="text-xs text-gray-400">No consent changes recorded.</p>
+          ) : (
+            <ul className="space-y-1 max-h-32 overflow-y-auto">
+              {events.map((event) => (
+                <li key={event.id} className="text-xs text-gray-300">
+                  <span className={event.status === 'opted_out' ? 'text-red-300' : 'text-green-300'}>
+                    {event.status === 'opted_out' ? 'Opted out' : 'Opted in'}
+                  </span>
+                  {' '}· {event.changedBy || SOURCE_LABELS[event.source]} · {formatDate(event.createdAt)}
+                  {event.note && <span className="block text-gray-400 italic">{event.note}</span>}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ContactConsent;
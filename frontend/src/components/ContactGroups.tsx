@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { Group } from '../types';
+import * as api from '../services/apiService';
+import { TrashIcon, LoadingSpinner } from './icons';
+import usePermission from '../hooks/usePermission';
+
+interface ContactGroupsProps {
+  groups: Group[];
+  onGroupsChanged: () => void;
+}
+
+const ContactGroups: React.FC<ContactGroupsProps> = ({ groups, onGroupsChanged }) => {
+  const canEdit = usePermission('contacts.edit');
+  const [name, setName] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    setIsCreating(true);
+    setError(null);
+    try {
+      await api.createGroup(name.trim());
+      setName('');
+      onGroupsChanged();
+    } catch (err: any) {
+      setError(err.message || 'Failed to create group.');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleDelete = async (group: Group) => {
+    if (!window.confirm(`Delete the group "${group.name}"? Its ${group.memberCount} contacts will be kept.`)) return;
+    setError(null);
+    try {
+      await api.deleteGroup(group.id);
+      onGroupsChanged();
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete group.');
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 p-6 rounded-lg shadow-lg space-y-4">
+      <h2 className="text-xl font-semibold">Groups ({groups.length})</h2>
+      {groups.length > 0 ? (
+        <ul className="divide-y divide-gray-700">
+          {groups.map((group) => (
+            <li key={group.id} className="flex justify-between items-center py-2">
+              <span className="text-sm text-white">
+                {group.name} <span className="text-gray-400">({group.memberCount})</span>
+              </span>
+              {canEdit && (
+                <button onClick={() => handleDelete(group)} className="text-red-400 hover:text-red-600">
+                  <TrashIcon className="h-4 w-4" />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-400">No groups yet. Create one, then add selected contacts to it from the list.</p>
+      )}
+      {canEdit && (
+        <form onSubmit={handleCreate} className="flex space-x-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="flex-1 px-3 py-2 bg-gray-900 border border-gray-700 rounded-md shadow-sm placeholder-gray-500 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            placeholder="New group name"
+          />
+          <button
+            type="submit"
+            disabled={isCreating || !name.trim()}
+            className="flex items-center py-2 px-4 rounded-md text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-500/50 disabled:cursor-not-allowed"
+          >
+            {isCreating && <LoadingSpinner className="h-4 w-4 mr-2" />}
+            Create
+          </button>
+        </form>
+      )}
+      {error && <p className="text-sm text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default ContactGroups;
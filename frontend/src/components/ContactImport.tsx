@@ -0,0 +1,226 @@
+import React, { useState } from 'react';
+import { ImportMapping, ImportPreview, ImportReport, ImportRowStatus } from '../types';
+import * as api from '../services/apiService';
+import { UploadIcon, LoadingSpinner } from './icons';
+
+interface ContactImportProps {
+  onImported: () => void;
+}
+
+// Rows that need attention are listed by default; created rows are shown on request.
+const MAX_LISTED_ROWS = 100;
+
+const STATUS_STYLES: Record<ImportRowStatus, string> = {
+  created: 'text-green-400',
+  duplicate: 'text-yellow-400',
+  invalid: 'text-red-400',
+};
+
+const selectClassName = 'mt-1 block w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm';
+
+const ContactImport: React.FC<ContactImportProps> = ({ onImported }) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [mapping, setMapping] = useState<ImportMapping>({ name: '', phone: '' });
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [inputKey, setInputKey] = useState(0);
+  const [showCreated, setShowCreated] = useState(false);
+
+  const reset = () => {
+    setFile(null);
+    setPreview(null);
+    setReport(null);
+    setMapping({ name: '', phone: '' });
+    setError(null);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0] || null;
+    reset();
+    if (!selected) return;
+
+    setFile(selected);
+    setIsWorking(true);
+    try {
+      const result = await api.previewContactImport(selected);
+      setPreview(result);
+      setMapping({
+        name: result.suggestedMapping.name || '',
+        phone: result.suggestedMapping.phone || '',
+      });
+    } catch (err: any) {
+      setError(err.message || 'Could not read the file.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const runImport = async (dryRun: boolean) => {
+    if (!file) return;
+    if (!mapping.name || !mapping.phone) {
+      setError('Please choose the name and phone columns.');
+      return;
+    }
+    setError(null);
+    setIsWorking(true);
+    try {
+      const result = await api.importContacts(file, mapping, dryRun);
+      setReport(result);
+      if (!dryRun) onImported();
+    } catch (err: any) {
+      setError(err.message || 'Import failed.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  // The server lists only part of a large file's rows; the summary counts all of them.
+  const listedRows = report ? report.rows.filter((row) => showCreated || row.status !== 'created') : [];
+  const listedCount = report ? (showCreated ? report.summary.total : report.summary.duplicate + report.summary.invalid) : 0;
+  const unlistedCount = listedCount - Math.min(listedRows.length, MAX_LISTED_ROWS);
+
+  return (
+    <div className="bg-gray-800 p-6 rounded-lg shadow-lg space-y-4">
+      <h2 className="text-xl font-semibold flex items-center">
+        <UploadIcon className="h-6 w-6 mr-3 text-indigo-400" />
+        Import Contacts
+      </h2>
+
+      <input
+        key={inputKey}
+        type="file"
+        accept=".csv,.xlsx"
+        onChange={handleFileChange}
+        className="block w-full text-sm text-gray-400 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-indigo-600 file:text-white hover:file:bg-indigo-700"
+      />
+
+      {preview && (
+        <>
+          <p className="text-sm text-gray-400">{preview.totalRows} data rows found.</p>
+          <div className="grid grid-cols-2 gap-4">
+            {(['name', 'phone'] as const).map((field) => (
+              <div key={field}>
+                <label htmlFor={`import-${field}`} className="block text-sm font-medium text-gray-300 capitalize">{field} column</label>
+                <select
+                  id={`import-${field}`}
+                  value={mapping[field]}
+                  onChange={(e) => { setMapping({ ...mapping, [field]: e.target.value }); setReport(null); }}
+                  className={selectClassName}
+                >
+                  <option value="">Select a column...</option>
+                  {preview.columns.map((column) => <option key={column} value={column}>{column}</option>)}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          {!report && preview.rows.length > 0 && (
+            <div className="max-h-48 overflow-auto border border-gray-700 rounded-md">
+              <table className="min-w-full divide-y divide-gray-700 text-xs">
+                <thead className="bg-gray-700/50 sticky top-0">
+                  <tr>
+                    {preview.columns.map((column) => (
+                      <th key={column} className="px-3 py-2 text-left font-medium text-gray-300">{column}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-700">
+                  {preview.rows.map((row, index) => (
+                    <tr key={index}>
+                      {preview.columns.map((column) => (
+                        <td key={column} className="px-3 py-1 whitespace-nowrap text-gray-300">{row[column]}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+
+      {report && (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-300">
+            {report.dryRun ? 'Dry run: ' : 'Imported: '}
+            <span className="text-green-400">{report.summary.created} {report.dryRun ? 'to create' : 'created'}</span>,{' '}
+            <span className="text-yellow-400">{report.summary.duplicate} duplicate</span>,{' '}
+            <span className="text-red-400">{report.summary.invalid} invalid</span>
+            {' '}of {report.summary.total} rows.
+          </p>
+          {report.summary.created > 0 && (
+            <label className="flex items-center text-xs text-gray-400">
+              <input type="checkbox" checked={showCreated} onChange={(e) => setShowCreated(e.target.checked)} className="mr-2" />
+              Also list the rows {report.dryRun ? 'to create' : 'created'}
+            </label>
+          )}
+          {listedRows.length > 0 && (
+            <div className="max-h-48 overflow-auto border border-gray-700 rounded-md">
+              <table className="min-w-full divide-y divide-gray-700 text-xs">
+                <thead className="bg-gray-700/50 sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium text-gray-300">Row</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-300">Phone</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-300">Result</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-700">
+                  {listedRows.slice(0, MAX_LISTED_ROWS).map((row) => (
+                    <tr key={row.row}>
+                      <td className="px-3 py-1 text-gray-400">{row.row}</td>
+                      <td className="px-3 py-1 text-gray-300">{row.phone || '—'}</td>
+                      <td className={`px-3 py-1 ${STATUS_STYLES[row.status]}`}>{row.reason || row.status}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {unlistedCount > 0 && (
+                <p className="text-xs text-gray-400 p-2">{unlistedCount} more {unlistedCount === 1 ? 'row is' : 'rows are'} not listed.</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {preview && (
+        <div className="flex space-x-2">
+          {report && !report.dryRun ? (
+            <button type="button" onClick={() => { reset(); setInputKey((key) => key + 1); }} className="flex-1 py-2 px-4 rounded-md text-sm font-medium text-gray-300 bg-gray-700 hover:bg-gray-600">
+              Import another file
+            </button>
+          ) : (
+            <>
+              <button
+                type="button"
+                onClick={() => runImport(true)}
+                disabled={isWorking}
+                className="flex-1 flex justify-center items-center py-2 px-4 rounded-md text-sm font-medium text-gray-200 bg-gray-700 hover:bg-gray-600 disabled:opacity-50"
+              >
+                {isWorking && <LoadingSpinner className="h-4 w-4 mr-2" />}
+                Preview import
+              </button>
+              <button
+                type="button"
+                onClick={() => runImport(false)}
+                disabled={isWorking || !report}
+                title={report ? undefined : 'Run a preview first'}
+                className="flex-1 flex justify-center items-center py-2 px-4 rounded-md text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-500/50 disabled:cursor-not-allowed"
+              >
+                {report ? `Import ${report.summary.created} contacts` : 'Import'}
+              </button>
+            </>
+          )}
+        </div>
+      )}
+      {isWorking && !preview && (
+        <div className="flex justify-center"><LoadingSpinner className="h-6 w-6 text-indigo-400" /></div>
+      )}
+    </div>
+  );
+};
+
+export default ContactImport;
@@ -0,0 +1,330 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { useVirtualizer } from '@tanstack/react-virtual';
+import { AttributeCondition, AttributeDefinition, Contact, ContactSort, ConsentStatus, Group } from '../types';
+import * as api from '../services/apiService';
+import { DownloadIcon, LoadingSpinner } from './icons';
+import ContactSelectionBar from './ContactSelectionBar';
+import ContactRow from './ContactRow';
+import ContactAttributeFilters from './ContactAttributeFilters';
+import usePermission from '../hooks/usePermission';
+import useContactPages from '../hooks/useContactPages';
+import { saveBlob } from '../utils/download';
+
+interface ContactListProps {
+  groups: Group[];
+  defaultCountry: string | null;
+  attributeDefinitions: AttributeDefinition[];
+  // Bumped by the dashboard when contacts were added, imported or changed in bulk.
+  version: number;
+  onDeleteContact: (id: string) => Promise<void>;
+  onContactsChanged: () => void;
+  // Tags or groups changed on a single contact.
+  onSegmentsChanged: () => void;
+  // Opens the composer addressed to exactly these contacts.
+  onMessageContacts: (contactIds: string[]) => void;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+const ESTIMATED_ROW_HEIGHT = 64;
+// Starts loading the next page when the last rendered row is this close to the end.
+const LOAD_MORE_THRESHOLD = 10;
+
+const SORT_OPTIONS: { value: string; label: string; sort: ContactSort; order: 'asc' | 'desc' }[] = [
+  { value: 'name-asc', label: 'Name A–Z', sort: 'name', order: 'asc' },
+  { value: 'name-desc', label: 'Name Z–A', sort: 'name', order: 'desc' },
+  { value: 'createdAt-desc', label: 'Newest first', sort: 'createdAt', order: 'desc' },
+  { value: 'createdAt-asc', label: 'Oldest first', sort: 'createdAt', order: 'asc' },
+  { value: 'phone-asc', label: 'Phone number', sort: 'phone', order: 'asc' },
+];
+
+const controlClasses = 'px-2 py-1 bg-gray-900 border border-gray-700 rounded-md text-xs text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500';
+
+// The contact list: searched, sorted and filtered on the server, loaded a page at a time as the
+// table is scrolled, and virtualized so only the rows in view are rendered.
+const ContactList: React.FC<ContactListProps> = ({
+  groups,
+  defaultCountry,
+  attributeDefinitions,
+  version,
+  onDeleteContact,
+  onContactsChanged,
+  onSegmentsChanged,
+  onMessageContacts,
+}) => {
+  const canExport = usePermission('contacts.export');
+  const [search, setSearch] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [sortValue, setSortValue] = useState(SORT_OPTIONS[0].value);
+  const [consent, setConsent] = useState<ConsentStatus | ''>('');
+  const [group, setGroup] = useState('');
+  const [attributeFilters, setAttributeFilters] = useState<AttributeCondition[]>([]);
+  // With `allMatching` off, `toggledIds` are the ticked contacts. With it on, every contact matching
+  // the filters is selected and `toggledIds` are the ones unticked since.
+  const [allMatching, setAllMatching] = useState(false);
+  const [toggledIds, setToggledIds] = useState<Set<string>>(new Set());
+  const [exportingFormat, setExportingFormat] = useState<api.ExportFormat | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(search.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const filters = useMemo<api.ContactFilters>(() => ({
+    search: debouncedSearch || undefined,
+    consent: consent || undefined,
+    group: group || undefined,
+    attributes: attributeFilters,
+  }), [debouncedSearch, consent, group, attributeFilters]);
+  const { sort, order } = SORT_OPTIONS.find((option) => option.value === sortValue) || SORT_OPTIONS[0];
+  const sortOptions = useMemo(() => ({ sort, order }), [sort, order]);
+  const isFiltered = Boolean(debouncedSearch || consent || group || attributeFilters.length > 0);
+
+  const {
+    contacts, total, hasMore, isLoading, isLoadingMore, error, loadMore, reload, removeLocally, replaceLocally,
+  } = useContactPages(filters, sortOptions, version);
+
+  const virtualizer = useVirtualizer({
+    count: contacts.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => ESTIMATED_ROW_HEIGHT,
+    getItemKey: (index) => contacts[index].id,
+    overscan: 8,
+  });
+  const virtualRows = virtualizer.getVirtualItems();
+  const lastRowIndex = virtualRows.length > 0 ? virtualRows[virtualRows.length - 1].index : -1;
+
+  useEffect(() => {
+    if (hasMore && lastRowIndex >= contacts.length - LOAD_MORE_THRESHOLD) loadMore();
+  }, [lastRowIndex, contacts.length, hasMore, loadMore]);
+
+  // A new search or filter starts at the top of the list.
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: 0 });
+  }, [filters, sortOptions]);
+
+  // A selection only makes sense for the filters it was made under.
+  useEffect(() => {
+    setAllMatching(false);
+    setToggledIds(new Set());
+  }, [filters]);
+
+  const groupNames = new Map(groups.map((candidate) => [candidate.id, candidate.name]));
+  const isSelected = (id: string) => allMatching !== toggledIds.has(id);
+  const allLoadedSelected = contacts.length > 0 && contacts.every((contact) => isSelected(contact.id));
+  const selectedCount = allMatching ? Math.max((total ?? 0) - toggledIds.size, 0) : toggledIds.size;
+  const selection: api.ContactSelection = allMatching
+    ? { filter: filters, excludeIds: Array.from(toggledIds) }
+    : { contactIds: Array.from(toggledIds) };
+
+  const clearSelection = () => {
+    setAllMatching(false);
+    setToggledIds(new Set());
+  };
+
+  const selectAllMatching = () => {
+    setAllMatching(true);
+    setToggledIds(new Set());
+  };
+
+  const toggleSelected = (id: string) => {
+    setToggledIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    if (allLoadedSelected) {
+      clearSelection();
+    } else if (allMatching) {
+      setToggledIds(new Set());
+    } else {
+      setToggledIds(new Set(contacts.map((contact) => contact.id)));
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    removeLocally(id);
+    setToggledIds((prev) => {
+      if (!prev.has(id)) return prev;
+      const next = new Set(prev);
+      next.delete(id);
+      return next;
+    });
+    try {
+      await onDeleteContact(id);
+    } catch (err) {
+      console.error('Failed to delete contact, reloading.', err);
+      reload();
+    }
+  };
+
+  const handleUpdated = (contact: Contact) => {
+    replaceLocally(contact);
+    onSegmentsChanged();
+  };
+
+  const handleExport = async (format: api.ExportFormat) => {
+    setExportingFormat(format);
+    setExportError(null);
+    try {
+      const { blob, filename } = await api.exportContacts(format, filters);
+      saveBlob(blob, filename);
+    } catch (err: any) {
+      setExportError(err.message || 'Export failed.');
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  const paddingTop = virtualRows.length > 0 ? virtualRows[0].start : 0;
+  const paddingBottom = virtualRows.length > 0 ? virtualizer.getTotalSize() - virtualRows[virtualRows.length - 1].end : 0;
+
+  return (
+    <div className="bg-gray-800 p-6 rounded-lg shadow-lg">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold">
+          Contact List{total !== null && ` (${total}${isFiltered ? ' matching' : ''})`}
+        </h2>
+        {canExport && (
+          <div className="flex space-x-2">
+            {([['csv', 'CSV'], ['vcf', 'vCard']] as const).map(([format, label]) => (
+              <button
+                key={format}
+                onClick={() => handleExport(format)}
+                disabled={exportingFormat !== null || contacts.length === 0}
+                className="flex items-center text-xs px-2 py-1 rounded-md text-indigo-300 bg-indigo-900/50 hover:bg-indigo-900/80 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {exportingFormat === format ? <LoadingSpinner className="h-4 w-4 mr-1" /> : <DownloadIcon className="h-4 w-4 mr-1" />}
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      {exportError && <p className="text-sm text-red-400 mb-2">{exportError}</p>}
+
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search name or phone"
+          className={`${controlClasses} flex-1 min-w-[10rem]`}
+        />
+        <select value={sortValue} onChange={(e) => setSortValue(e.target.value)} className={controlClasses} aria-label="Sort contacts">
+          {SORT_OPTIONS.map((option) => <option key={option.value} value={option.value}>{option.label}</option>)}
+        </select>
+        <select value={consent} onChange={(e) => setConsent(e.target.value as ConsentStatus | '')} className={controlClasses} aria-label="Filter by consent">
+          <option value="">Any consent</option>
+          <option value="opted_in">Opted in</option>
+          <option value="opted_out">Opted out</option>
+        </select>
+        {groups.length > 0 && (
+          <select value={group} onChange={(e) => setGroup(e.target.value)} className={controlClasses} aria-label="Filter by group">
+            <option value="">All groups</option>
+            {groups.map((candidate) => <option key={candidate.id} value={candidate.id}>{candidate.name}</option>)}
+          </select>
+        )}
+      </div>
+      <ContactAttributeFilters definitions={attributeDefinitions} conditions={attributeFilters} onChange={setAttributeFilters} />
+
+      {selectedCount > 0 && (
+        <ContactSelectionBar
+          selection={selection}
+          count={selectedCount}
+          groups={groups}
+          onClearSelection={clearSelection}
+          onContactsChanged={onContactsChanged}
+          onMessageContacts={onMessageContacts}
+        />
+      )}
+      {allLoadedSelected && total !== null && total > contacts.length && (
+        <p className="text-xs text-gray-400 mb-2">
+          {allMatching ? (
+            <>All {selectedCount} {isFiltered ? 'matching ' : ''}contacts are selected.</>
+          ) : (
+            <>
+              All {contacts.length} loaded contacts are selected.{' '}
+              <button onClick={selectAllMatching} className="text-indigo-300 hover:text-indigo-100 underline">
+                Select all {total}{isFiltered ? ' matching' : ''} contacts
+              </button>
+            </>
+          )}
+        </p>
+      )}
+      <div ref={scrollRef} className="h-96 overflow-y-auto">
+        {isLoading && contacts.length === 0 ? (
+          <div className="flex justify-center items-center py-10">
+            <LoadingSpinner className="h-8 w-8 text-indigo-400" />
+          </div>
+        ) : error && contacts.length === 0 ? (
+          <div className="text-center bg-red-900/30 p-4 rounded-lg">
+            <p className="text-red-400 mb-4">{error}</p>
+            <button
+              onClick={reload}
+              className="px-4 py-2 text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 focus:ring-offset-gray-900 transition-colors"
+            >
+              Retry
+            </button>
+          </div>
+        ) : contacts.length > 0 ? (
+          <table className="min-w-full divide-y divide-gray-700">
+            <thead className="bg-gray-700 sticky top-0 z-[1]">
+              <tr>
+                <th scope="col" className="pl-4 py-3">
+                  <input type="checkbox" checked={allLoadedSelected} onChange={toggleAll} aria-label="Select all loaded contacts" />
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Name</th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Phone</th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Consent</th>
+                <th scope="col" className="relative px-6 py-3"><span className="sr-only">Actions</span></th>
+              </tr>
+            </thead>
+            <tbody className="bg-gray-800 divide-y divide-gray-700">
+              {paddingTop > 0 && <tr style={{ height: paddingTop }} aria-hidden="true" />}
+              {virtualRows.map((virtualRow) => {
+                const contact = contacts[virtualRow.index];
+                return (
+                  <ContactRow
+                    key={contact.id}
+                    contact={contact}
+                    index={virtualRow.index}
+                    measureRef={virtualizer.measureElement}
+                    groupNames={groupNames}
+                    attributeDefinitions={attributeDefinitions}
+                    defaultCountry={defaultCountry}
+                    isSelected={isSelected(contact.id)}
+                    onToggleSelected={() => toggleSelected(contact.id)}
+                    onDelete={() => handleDelete(contact.id)}
+                    onUpdated={handleUpdated}
+                  />
+                );
+              })}
+              {paddingBottom > 0 && <tr style={{ height: paddingBottom }} aria-hidden="true" />}
+            </tbody>
+          </table>
+        ) : (
+          <p className="text-center text-gray-400 py-4">
+            {isFiltered ? 'No contacts match this search.' : 'No contacts yet. Add one above to get started.'}
+          </p>
+        )}
+        {isLoadingMore && (
+          <div className="flex justify-center py-3">
+            <LoadingSpinner className="h-5 w-5 text-indigo-400" />
+          </div>
+        )}
+        {error && contacts.length > 0 && <p className="text-center text-sm text-red-400 py-2">{error}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default ContactList;
@@ -0,0 +1,217 @@
+import React, { useState } from 'react';
+import { AttributeDefinition, AttributeValue, Contact } from '../types';
+import * as api from '../services/apiService';
+import { TrashIcon, PencilIcon, LoadingSpinner } from './icons';
+import ContactConsent from './ContactConsent';
+import PhoneNumberHint from './PhoneNumberHint';
+import AttributeInput from './AttributeInput';
+import usePermission from '../hooks/usePermission';
+import LanguageSelect from './LanguageSelect';
+import { parseTags } from '../utils/tags';
+import { checkPhone, formatPhone } from '../utils/phone';
+import { attributeInputValue, attributeLabel, formatAttributeValue } from '../utils/attributes';
+import { languageLabel } from '../utils/languages';
+
+interface ContactRowProps {
+  contact: Contact;
+  groupNames: Map<string, string>;
+  attributeDefinitions: AttributeDefinition[];
+  defaultCountry: string | null;
+  isSelected: boolean;
+  onToggleSelected: () => void;
+  onDelete: () => void;
+  // Called with the saved contact after an edit or a consent change.
+  onUpdated: (contact: Contact) => void;
+  // Lets the virtualized list measure the row; `index` is its position in the list.
+  measureRef?: (node: HTMLTableRowElement | null) => void;
+  index?: number;
+}
+
+const inputClasses = 'w-full px-2 py-1 bg-gray-900 border border-gray-700 rounded-md text-sm text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500';
+
+// One row of the contact list. "Edit" turns it into a form for the contact's name, phone,
+// preferred language, tags and custom attributes; only the fields that changed are sent.
+const ContactRow: React.FC<ContactRowProps> = ({
+  contact,
+  groupNames,
+  attributeDefinitions,
+  defaultCountry,
+  isSelected,
+  onToggleSelected,
+  onDelete,
+  onUpdated,
+  measureRef,
+  index,
+}) => {
+  const canEdit = usePermission('contacts.edit');
+  const canDelete = usePermission('contacts.delete');
+  const [isEditing, setIsEditing] = useState(false);
+  const [name, setName] = useState('');
+  const [phone, setPhone] = useState('');
+  const [language, setLanguage] = useState('');
+  const [tags, setTags] = useState('');
+  const [attributes, setAttributes] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const startEditing = () => {
+    setName(contact.name);
+    setPhone(contact.phone);
+    setLanguage(contact.language || '');
+    setTags(contact.tags.join(', '));
+    setAttributes(Object.fromEntries(attributeDefinitions.map(({ key }) => [key, attributeInputValue(contact.attributes[key])])));
+    setError(null);
+    setIsEditing(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      setError('Name cannot be empty.');
+      return;
+    }
+    const update: api.ContactUpdate = {};
+    if (name.trim() !== contact.name) update.name = name.trim();
+    if (phone.trim() !== contact.phone) {
+      const phoneCheck = checkPhone(phone, defaultCountry);
+      if (!phoneCheck.valid) {
+        setError(phoneCheck.error);
+        return;
+      }
+      if (phoneCheck.phone !== contact.phone) update.phone = phoneCheck.phone;
+    }
+    if (language !== (contact.language || '')) update.language = language || null;
+    const nextTags = parseTags(tags);
+    if (nextTags.join(',') !== contact.tags.join(',')) update.tags = nextTags;
+    const changedAttributes: Record<string, AttributeValue | null> = {};
+    Object.entries(attributes).forEach(([key, value]) => {
+      if (value.trim() !== attributeInputValue(contact.attributes[key])) changedAttributes[key] = value.trim() || null;
+    });
+    if (Object.keys(changedAttributes).length > 0) update.attributes = changedAttributes;
+
+    if (Object.keys(update).length === 0) {
+      setIsEditing(false);
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    try {
+      const updated = await api.updateContact(contact.id, update);
+      setIsEditing(false);
+      onUpdated(updated);
+    } catch (err: any) {
+      setError(err.message || 'Failed to update the contact.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isEditing) {
+    return (
+      <tr ref={measureRef} data-index={index} className="bg-gray-900/40">
+        <td colSpan={5} className="px-4 py-4">
+          <form onSubmit={handleSave} className="space-y-3">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div>
+                <label htmlFor={`name-${contact.id}`} className="block text-xs text-gray-400 mb-1">Name</label>
+                <input id={`name-${contact.id}`} value={name} onChange={(e) => setName(e.target.value)} className={inputClasses} />
+              </div>
+              <div>
+                <label htmlFor={`phone-${contact.id}`} className="block text-xs text-gray-400 mb-1">Phone</label>
+                <input id={`phone-${contact.id}`} type="tel" value={phone} onChange={(e) => setPhone(e.target.value)} className={inputClasses} />
+                {phone.trim() !== contact.phone && <PhoneNumberHint input={phone} defaultCountry={defaultCountry} />}
+              </div>
+              <div>
+                <label htmlFor={`language-${contact.id}`} className="block text-xs text-gray-400 mb-1">Preferred language</label>
+                <LanguageSelect id={`language-${contact.id}`} value={language} onChange={setLanguage} noneLabel="Not set" className="w-full" />
+              </div>
+              <div>
+                <label htmlFor={`tags-${contact.id}`} className="block text-xs text-gray-400 mb-1">Tags</label>
+                <input id={`tags-${contact.id}`} value={tags} onChange={(e) => setTags(e.target.value)} placeholder="vip, newsletter" className={inputClasses} />
+              </div>
+              {attributeDefinitions.map((definition) => (
+                <div key={definition.key}>
+                  <label htmlFor={`attr-${contact.id}-${definition.key}`} className="block text-xs text-gray-400 mb-1">{definition.label}</label>
+                  <AttributeInput
+                    id={`attr-${contact.id}-${definition.key}`}
+                    definition={definition}
+                    value={attributes[definition.key] ?? ''}
+                    onChange={(value) => setAttributes((prev) => ({ ...prev, [definition.key]: value }))}
+                    className="w-full"
+                  />
+                </div>
+              ))}
+            </div>
+            {error && <p className="text-sm text-red-400">{error}</p>}
+            <div className="flex justify-end space-x-2">
+              <button type="button" onClick={() => setIsEditing(false)} className="px-3 py-1 text-sm rounded-md text-gray-300 bg-gray-700 hover:bg-gray-600">
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="flex items-center px-3 py-1 text-sm rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-500/50 disabled:cursor-not-allowed"
+              >
+                {isSaving && <LoadingSpinner className="h-4 w-4 mr-1" />}
+                Save
+              </button>
+            </div>
+          </form>
+        </td>
+      </tr>
+    );
+  }
+
+  const attributeEntries = Object.entries(contact.attributes || {}).filter(([, value]) => formatAttributeValue(value) !== '');
+
+  return (
+    <tr ref={measureRef} data-index={index}>
+      <td className="pl-4 py-4">
+        <input type="checkbox" checked={isSelected} onChange={onToggleSelected} aria-label={`Select ${contact.name}`} />
+      </td>
+      <td className="px-6 py-4 text-sm font-medium text-white">
+        <div className="whitespace-nowrap">{contact.name}</div>
+        {(contact.tags.length > 0 || contact.groups.length > 0 || contact.language) && (
+          <div className="flex flex-wrap gap-1 mt-1">
+            {contact.language && (
+              <span className="text-[10px] px-1.5 py-0.5 rounded bg-sky-900/60 text-sky-200" title="Preferred language">{languageLabel(contact.language)}</span>
+            )}
+            {contact.groups.map((groupId) => groupNames.has(groupId) && (
+              <span key={groupId} className="text-[10px] px-1.5 py-0.5 rounded bg-indigo-900/60 text-indigo-200">{groupNames.get(groupId)}</span>
+            ))}
+            {contact.tags.map((tag) => (
+              <span key={tag} className="text-[10px] px-1.5 py-0.5 rounded bg-gray-700 text-gray-300">#{tag}</span>
+            ))}
+          </div>
+        )}
+        {attributeEntries.length > 0 && (
+          <div className="flex flex-wrap gap-1 mt-1">
+            {attributeEntries.map(([key, value]) => (
+              <span key={key} className="text-[10px] px-1.5 py-0.5 rounded bg-teal-900/50 text-teal-200">
+                {attributeLabel(attributeDefinitions, key)}: {formatAttributeValue(value)}
+              </span>
+            ))}
+          </div>
+        )}
+      </td>
+      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">{formatPhone(contact.phone)}</td>
+      <td className="px-6 py-4 whitespace-nowrap text-sm">
+        <ContactConsent contact={contact} onChanged={onUpdated} />
+      </td>
+      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-3">
+        {canEdit && (
+          <button onClick={startEditing} className="text-indigo-300 hover:text-indigo-100" aria-label={`Edit ${contact.name}`}>
+            <PencilIcon className="h-5 w-5" />
+          </button>
+        )}
+        {canDelete && (
+          <button onClick={onDelete} className="text-red-400 hover:text-red-600" aria-label={`Delete ${contact.name}`}>
+            <TrashIcon className="h-5 w-5" />
+          </button>
+        )}
+      </td>
+    </tr>
+  );
+};
+
+export default ContactRow;
@@ -0,0 +1,211 @@
+import React, { useState } from 'react';
+import { BulkItemStatus, BulkResult, Group } from '../types';
+import * as api from '../services/apiService';
+import { parseTags } from '../utils/tags';
+import { saveBlob } from '../utils/download';
+import { DownloadIcon, LoadingSpinner } from './icons';
+import usePermission from '../hooks/usePermission';
+
+interface ContactSelectionBarProps {
+  selection: api.ContactSelection;
+  // How many contacts the selection covers.
+  count: number;
+  groups: Group[];
+  onClearSelection: () => void;
+  onContactsChanged: () => void;
+  // Called with the selected contacts' ids to open the composer with exactly those recipients.
+  onMessageContacts: (contactIds: string[]) => void;
+}
+
+const STATUS_LABELS: Record<BulkItemStatus, string> = {
+  updated: 'updated',
+  unchanged: 'unchanged',
+  deleted: 'deleted',
+  not_found: 'not found',
+  failed: 'failed',
+};
+
+// "12 updated, 3 unchanged, 1 not found"
+const describeResult = ({ summary }: BulkResult) => (Object.keys(STATUS_LABELS) as BulkItemStatus[])
+  .filter((status) => summary[status] > 0)
+  .map((status) => `${summary[status]} ${STATUS_LABELS[status]}`)
+  .join(', ') || 'No contacts changed';
+
+const actionButtonClassName = 'text-xs px-2 py-1 rounded-md text-gray-200 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed';
+
+// Bulk actions on the contacts selected in the contact list, either ticked one by one or every
+// contact matching the list's filters. Each action reports how many contacts it changed.
+const ContactSelectionBar: React.FC<ContactSelectionBarProps> = ({
+  selection,
+  count,
+  groups,
+  onClearSelection,
+  onContactsChanged,
+  onMessageContacts,
+}) => {
+  const canSend = usePermission('campaigns.send');
+  const canEdit = usePermission('contacts.edit');
+  const canExport = usePermission('contacts.export');
+  const canDelete = usePermission('contacts.delete');
+  const [tagInput, setTagInput] = useState('');
+  const [groupId, setGroupId] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [status, setStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  const run = async (action: () => Promise<BulkResult>, label: string) => {
+    setIsWorking(true);
+    setStatus(null);
+    try {
+      const result = await action();
+      setStatus({ type: 'success', message: `${label}: ${describeResult(result)}.` });
+      onContactsChanged();
+    } catch (err: any) {
+      setStatus({ type: 'error', message: err.message || 'Bulk update failed.' });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm(`Delete ${count} contact${count === 1 ? '' : 's'}? This cannot be undone.`)) return;
+    setIsWorking(true);
+    setStatus(null);
+    try {
+      await api.deleteContacts(selection);
+      onClearSelection();
+      onContactsChanged();
+    } catch (err: any) {
+      setStatus({ type: 'error', message: err.message || 'Failed to delete the contacts.' });
+      setIsWorking(false);
+    }
+  };
+
+  const handleExport = async (format: api.ExportFormat) => {
+    setIsWorking(true);
+    setStatus(null);
+    try {
+      const { blob, filename } = await api.exportSelectedContacts(format, selection);
+      saveBlob(blob, filename);
+    } catch (err: any) {
+      setStatus({ type: 'error', message: err.message || 'Export failed.' });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleMessage = async () => {
+    setIsWorking(true);
+    setStatus(null);
+    try {
+      const { contactIds } = await api.resolveContactSelection(selection);
+      onMessageContacts(contactIds);
+    } catch (err: any) {
+      setStatus({ type: 'error', message: err.message || 'Failed to load the selected contacts.' });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const tags = parseTags(tagInput);
+
+  return (
+    <div className="bg-gray-900 border border-gray-700 rounded-md p-3 mb-4 space-y-2">
+      <div className="flex justify-between items-center">
+        <span className="text-sm text-gray-200">{count} selected</span>
+        <button onClick={onClearSelection} className="text-xs text-gray-400 hover:text-white">Clear selection</button>
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        {canSend && (
+          <button
+            disabled={isWorking}
+            onClick={handleMessage}
+            className="text-xs px-2 py-1 rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Message these contacts
+          </button>
+        )}
+        {canEdit && (
+          <button
+            disabled={isWorking}
+            onClick={() => run(() => api.optOutContacts(selection, 'Bulk opt-out'), 'Opt out')}
+            className={actionButtonClassName}
+          >
+            Opt out
+          </button>
+        )}
+        {canExport && ([['csv', 'CSV'], ['vcf', 'vCard']] as const).map(([format, label]) => (
+          <button key={format} disabled={isWorking} onClick={() => handleExport(format)} className={`flex items-center ${actionButtonClassName}`}>
+            <DownloadIcon className="h-4 w-4 mr-1" />
+            {label}
+          </button>
+        ))}
+        {canDelete && (
+          <button
+            disabled={isWorking}
+            onClick={handleDelete}
+            className="text-xs px-2 py-1 rounded-md text-red-300 bg-red-900/40 hover:bg-red-900/70 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Delete
+          </button>
+        )}
+      </div>
+      {canEdit && (
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            value={tagInput}
+            onChange={(e) => setTagInput(e.target.value)}
+            className="flex-1 min-w-[8rem] px-2 py-1 bg-gray-800 border border-gray-700 rounded-md text-xs placeholder-gray-500 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+            placeholder="Tags, comma separated"
+          />
+          <button
+            disabled={isWorking || tags.length === 0}
+            onClick={() => run(() => api.updateContactTags(selection, tags, []), 'Add tags')}
+            className={actionButtonClassName}
+          >
+            Add tags
+          </button>
+          <button
+            disabled={isWorking || tags.length === 0}
+            onClick={() => run(() => api.updateContactTags(selection, [], tags), 'Remove tags')}
+            className={actionButtonClassName}
+          >
+            Remove tags
+          </button>
+        </div>
+      )}
+      {canEdit && groups.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={groupId}
+            onChange={(e) => setGroupId(e.target.value)}
+            className="flex-1 min-w-[8rem] px-2 py-1 bg-gray-800 border border-gray-700 rounded-md text-xs focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+          >
+            <option value="">Choose a group...</option>
+            {groups.map((group) => <option key={group.id} value={group.id}>{group.name}</option>)}
+          </select>
+          <button
+            disabled={isWorking || !groupId}
+            onClick={() => run(() => api.updateGroupMembership(selection, groupId, 'add'), 'Add to group')}
+            className={actionButtonClassName}
+          >
+            Add to group
+          </button>
+          <button
+            disabled={isWorking || !groupId}
+            onClick={() => run(() => api.updateGroupMembership(selection, groupId, 'remove'), 'Remove from group')}
+            className={actionButtonClassName}
+          >
+            Remove from group
+          </button>
+        </div>
+      )}
+      {isWorking && <LoadingSpinner className="h-4 w-4 text-indigo-400" />}
+      {status && (
+        <p className={`text-xs ${status.type === 'success' ? 'text-green-400' : 'text-red-400'}`}>{status.message}</p>
+      )}
+    </div>
+  );
+};
+
+export default ContactSelectionBar;
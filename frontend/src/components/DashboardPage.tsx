@@ -1,88 +1,194 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { Contact } from '../types';
-import { LogoutIcon, PaperAirplaneIcon } from './icons';
+import { Audience, Contact, Group, Permission, TagSummary, WorkspaceSettings } from '../types';
+import { LogoutIcon, PaperAirplaneIcon, MegaphoneIcon, ChatBubbleIcon, DocumentTextIcon, ClockIcon, ChartBarIcon, CogIcon } from './icons';
 import ContactManager from './ContactManager';
 import MessageComposer from './MessageComposer';
+import Inbox from './Inbox';
+import TemplateManager from './TemplateManager';
+import ScheduledCampaigns from './ScheduledCampaigns';
+import CampaignAnalytics from './CampaignAnalytics';
+import WorkspaceSettingsPanel from './WorkspaceSettingsPanel';
+import ContactAttributeSettings from './ContactAttributeSettings';
+import TeamManager from './TeamManager';
 import * as api from '../services/apiService';
+import { PermissionsContext } from '../hooks/usePermission';
+import { ROLE_LABELS } from '../utils/roles';
 
 interface DashboardPageProps {
   onLogout: () => void;
 }
 
-const DashboardPage: React.FC<DashboardPageProps> = ({ onLogout }) => {
-  const [contacts, setContacts] = useState<Contact[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+type DashboardView = 'broadcast' | 'scheduled' | 'campaigns' | 'inbox' | 'templates' | 'settings';
+
+// Each view is shown to roles with any of its permissions.
+const VIEWS: { id: DashboardView; label: string; Icon: React.FC<{ className?: string }>; permissions: Permission[] }[] = [
+  { id: 'broadcast', label: 'Broadcast', Icon: MegaphoneIcon, permissions: ['contacts.view'] },
+  { id: 'scheduled', label: 'Scheduled', Icon: ClockIcon, permissions: ['campaigns.view'] },
+  { id: 'campaigns', label: 'Campaigns', Icon: ChartBarIcon, permissions: ['campaigns.view'] },
+  { id: 'inbox', label: 'Inbox', Icon: ChatBubbleIcon, permissions: ['inbox.view'] },
+  { id: 'templates', label: 'Templates', Icon: DocumentTextIcon, permissions: ['campaigns.view'] },
+  { id: 'settings', label: 'Settings', Icon: CogIcon, permissions: ['settings.manage', 'users.manage'] },
+];
 
-  const fetchContacts = useCallback(async () => {
-    setIsLoading(true);
-    setError(null);
+const DashboardPage: React.FC<DashboardPageProps> = ({ onLogout }) => {
+  const [view, setView] = useState<DashboardView>('broadcast');
+  const [user, setUser] = useState<api.AuthUser | null>(null);
+  // Bumped whenever contacts change, so the contact list reloads and audience counts refresh.
+  const [contactsVersion, setContactsVersion] = useState(0);
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [tags, setTags] = useState<TagSummary[]>([]);
+  // Set by "Message these contacts" in the contact list; `id` changes on every request so the
+  // composer applies it even when the same contacts are picked twice.
+  const [composerAudience, setComposerAudience] = useState<{ id: number; audience: Audience } | null>(null);
+  const [settings, setSettings] = useState<WorkspaceSettings>({ defaultCountry: null, contactAttributes: [], ai: { provider: null, model: null } });
+  const fetchSegments = useCallback(async () => {
     try {
-      const fetchedContacts = await api.getContacts();
-      setContacts(fetchedContacts);
+      const [fetchedGroups, fetchedTags] = await Promise.all([api.getGroups(), api.getTags()]);
+      setGroups(fetchedGroups);
+      setTags(fetchedTags);
     } catch (err) {
-      setError('Failed to load contacts. Please try again.');
-      console.error(err);
-    } finally {
-      setIsLoading(false);
+      console.error("Failed to load groups and tags.", err);
     }
   }, []);
 
+  const refreshContacts = useCallback(() => {
+    setContactsVersion((version) => version + 1);
+    fetchSegments();
+  }, [fetchSegments]);
+
   useEffect(() => {
-    fetchContacts();
-  }, [fetchContacts]);
+    fetchSegments();
+  }, [fetchSegments]);
 
-  const addContact = async (contact: Omit<Contact, 'id'>) => {
-    const newContact = await api.addContact(contact);
-    setContacts(prevContacts => [...prevContacts, newContact]);
-  };
+  useEffect(() => {
+    api.getCurrentUser()
+      .then((fetched) => {
+        setUser(fetched);
+        // Agents work in the inbox, so they start there.
+        if (!fetched.permissions.includes('campaigns.send') && fetched.permissions.includes('inbox.reply')) setView('inbox');
+      })
+      .catch((err) => console.error("Failed to load the current user.", err));
+  }, []);
 
-  const deleteContact = async (id: string) => {
-    const originalContacts = [...contacts];
-    setContacts(prevContacts => prevContacts.filter(c => c.id !== id));
+  useEffect(() => {
+    api.getSettings()
+      .then(setSettings)
+      .catch((err) => console.error("Failed to load workspace settings.", err));
+  }, []);
+
+  const handleLogout = async () => {
     try {
-      await api.deleteContact(id);
+      await api.logout();
     } catch (err) {
-      console.error("Failed to delete contact, reverting.", err);
-      setContacts(originalContacts);
-      // In a real app, you might show a toast notification here
+      // The local session is cleared regardless; the server token simply expires on its own.
+      console.error("Failed to log out on the server.", err);
     }
+    onLogout();
   };
+
+  const addContact = async (contact: Pick<Contact, 'name' | 'phone' | 'tags' | 'language'>) => {
+    await api.addContact(contact);
+    refreshContacts();
+  };
+
+  const messageContacts = (contactIds: string[]) => {
+    setComposerAudience((prev) => ({ id: (prev?.id ?? 0) + 1, audience: { type: 'contacts', contactIds } }));
+  };
+
+  // The contact list removes the row itself and reloads if this fails.
+  const deleteContact = async (id: string) => {
+    await api.deleteContact(id);
+    fetchSegments();
+  };
+
+  const permissions = user?.permissions || [];
+  const can = (permission: Permission) => permissions.includes(permission);
+  const views = VIEWS.filter((option) => option.permissions.some(can));
   
   return (
-    <div className="min-h-screen bg-gray-900 text-white">
-      <header className="bg-gray-800/50 backdrop-blur-sm shadow-lg p-4 flex justify-between items-center sticky top-0 z-10 border-b border-gray-700">
-        <div className="flex items-center space-x-3">
-          <PaperAirplaneIcon className="h-8 w-8 text-indigo-400 transform -rotate-45" />
-          <h1 className="text-2xl font-bold tracking-tight">Bulk Messenger Dashboard</h1>
-        </div>
-        <button
-          onClick={onLogout}
-          className="flex items-center space-x-2 px-4 py-2 text-sm font-medium rounded-md text-gray-300 hover:bg-gray-700 hover:text-white focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 focus:ring-offset-gray-900 transition-colors"
-        >
-          <LogoutIcon className="h-5 w-5" />
-          <span>Logout</span>
-        </button>
-      </header>
-
-      <main className="p-4 sm:p-6 lg:p-8">
-        <div className="grid grid-cols-1 lg:grid-cols-5 gap-8">
-          <div className="lg:col-span-2">
-            <ContactManager
-              contacts={contacts}
-              onAddContact={addContact}
-              onDeleteContact={deleteContact}
-              isLoading={isLoading}
-              error={error}
-              onRetry={fetchContacts}
-            />
+    <PermissionsContext.Provider value={permissions}>
+      <div className="min-h-screen bg-gray-900 text-white">
+        <header className="bg-gray-800/50 backdrop-blur-sm shadow-lg p-4 flex justify-between items-center sticky top-0 z-10 border-b border-gray-700">
+          <div className="flex items-center space-x-3">
+            <PaperAirplaneIcon className="h-8 w-8 text-indigo-400 transform -rotate-45" />
+            <h1 className="text-2xl font-bold tracking-tight">Bulk Messenger Dashboard</h1>
           </div>
-          <div className="lg:col-span-3">
-            <MessageComposer contacts={contacts} />
+          <div className="flex items-center space-x-4">
+            {user && (
+              <span className="text-sm text-gray-400">
+                {user.username} · {ROLE_LABELS[user.role]}
+              </span>
+            )}
+            <button
+              onClick={handleLogout}
+              className="flex items-center space-x-2 px-4 py-2 text-sm font-medium rounded-md text-gray-300 hover:bg-gray-700 hover:text-white focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 focus:ring-offset-gray-900 transition-colors"
+            >
+              <LogoutIcon className="h-5 w-5" />
+              <span>Logout</span>
+            </button>
           </div>
-        </div>
-      </main>
-    </div>
+        </header>
+
+        <main className="p-4 sm:p-6 lg:p-8">
+          <nav className="flex space-x-2 mb-6">
+            {views.map(({ id, label, Icon }) => (
+              <button
+                key={id}
+                onClick={() => setView(id)}
+                className={`flex items-center space-x-2 px-4 py-2 text-sm font-medium rounded-md transition-colors ${view === id ? 'bg-indigo-600 text-white' : 'text-gray-300 hover:bg-gray-700 hover:text-white'}`}
+              >
+                <Icon className="h-5 w-5" />
+                <span>{label}</span>
+              </button>
+            ))}
+          </nav>
+
+          {!user ? null : !views.some(({ id }) => id === view) ? (
+            <p className="text-sm text-gray-400">Your role does not include this page.</p>
+          ) : view === 'broadcast' ? (
+            <div className="grid grid-cols-1 lg:grid-cols-5 gap-8">
+              <div className={can('campaigns.send') ? 'lg:col-span-2' : 'lg:col-span-5'}>
+                <ContactManager
+                  groups={groups}
+                  defaultCountry={settings.defaultCountry}
+                  attributeDefinitions={settings.contactAttributes}
+                  contactsVersion={contactsVersion}
+                  onAddContact={addContact}
+                  onDeleteContact={deleteContact}
+                  onImported={refreshContacts}
+                  onContactsChanged={refreshContacts}
+                  onSegmentsChanged={fetchSegments}
+                  onMessageContacts={messageContacts}
+                />
+              </div>
+              {can('campaigns.send') && (
+                <div className="lg:col-span-3">
+                  <MessageComposer contactsVersion={contactsVersion} groups={groups} tags={tags} requestedAudience={composerAudience} />
+                </div>
+              )}
+            </div>
+          ) : view === 'scheduled' ? (
+            <ScheduledCampaigns contactsVersion={contactsVersion} groups={groups} tags={tags} />
+          ) : view === 'campaigns' ? (
+            <CampaignAnalytics />
+          ) : view === 'inbox' ? (
+            <Inbox />
+          ) : view === 'templates' ? (
+            <TemplateManager />
+          ) : (
+            <div className="space-y-8">
+              {can('settings.manage') && (
+                <>
+                  <WorkspaceSettingsPanel settings={settings} onSaved={setSettings} />
+                  <ContactAttributeSettings attributes={settings.contactAttributes} onSaved={setSettings} />
+                </>
+              )}
+              {can('users.manage') && <TeamManager currentUser={user} />}
+            </div>
+          )}
+        </main>
+      </div>
+    </PermissionsContext.Provider>
   );
 };
 
@@ -0,0 +1,81 @@
+import React from 'react';
+import { DeliveryTimeline, DeliveryTimelinePoint } from '../types';
+
+interface DeliveryChartProps {
+  timeline: DeliveryTimeline;
+}
+
+type Series = keyof Omit<DeliveryTimelinePoint, 'at'>;
+
+const SERIES: { key: Series; label: string; color: string }[] = [
+  { key: 'sent', label: 'Sent', color: '#818cf8' },
+  { key: 'delivered', label: 'Delivered', color: '#34d399' },
+  { key: 'read', label: 'Read', color: '#38bdf8' },
+  { key: 'failed', label: 'Failed', color: '#f87171' },
+];
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PADDING = { top: 10, right: 10, bottom: 24, left: 40 };
+
+const formatTime = (at: string, unit: string) => new Date(at).toLocaleString(undefined, unit === 'day'
+  ? { month: 'short', day: 'numeric' }
+  : { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Running totals of sent, delivered, read and failed messages over the life of a campaign, drawn
+// as plain SVG lines from the per-bucket counts of the timeline endpoint.
+const DeliveryChart: React.FC<DeliveryChartProps> = ({ timeline }) => {
+  const { points, bucket } = timeline;
+  if (points.length === 0 || !bucket) {
+    return <p className="text-sm text-gray-400">No messages have gone out yet.</p>;
+  }
+
+  const cumulative = SERIES.map(({ key }) => {
+    let total = 0;
+    return points.map((point) => (total += point[key]));
+  });
+  const maxValue = Math.max(1, ...cumulative.map((values) => values[values.length - 1]));
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (index: number) => PADDING.left + (points.length === 1 ? plotWidth / 2 : (index / (points.length - 1)) * plotWidth);
+  const y = (value: number) => PADDING.top + plotHeight - (value / maxValue) * plotHeight;
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Messages sent, delivered, read and failed over time">
+        {[0, 0.5, 1].map((fraction) => (
+          <g key={fraction}>
+            <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(maxValue * fraction)} y2={y(maxValue * fraction)} stroke="#374151" strokeDasharray="4 4" />
+            <text x={PADDING.left - 6} y={y(maxValue * fraction) + 4} textAnchor="end" fontSize="10" fill="#9ca3af">
+              {Math.round(maxValue * fraction)}
+            </text>
+          </g>
+        ))}
+        {SERIES.map(({ key, color }, seriesIndex) => (
+          <polyline
+            key={key}
+            fill="none"
+            stroke={color}
+            strokeWidth={2}
+            points={cumulative[seriesIndex].map((value, index) => `${x(index)},${y(value)}`).join(' ')}
+          />
+        ))}
+        <text x={PADDING.left} y={HEIGHT - 6} fontSize="10" fill="#9ca3af">{formatTime(points[0].at, bucket.unit)}</text>
+        <text x={WIDTH - PADDING.right} y={HEIGHT - 6} textAnchor="end" fontSize="10" fill="#9ca3af">
+          {formatTime(points[points.length - 1].at, bucket.unit)}
+        </text>
+      </svg>
+      <div className="flex flex-wrap gap-4 mt-2 text-xs text-gray-300">
+        {SERIES.map(({ key, label, color }, seriesIndex) => (
+          <span key={key} className="flex items-center">
+            <span className="inline-block h-2 w-4 rounded-sm mr-1" style={{ backgroundColor: color }} />
+            {label} ({cumulative[seriesIndex][points.length - 1]})
+          </span>
+        ))}
+        <span className="text-gray-500">Running totals in {bucket.binSize}-{bucket.unit} steps</span>
+      </div>
+    </div>
+  );
+};
+
+export default DeliveryChart;
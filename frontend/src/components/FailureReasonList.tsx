@@ -0,0 +1,46 @@
+import React from 'react';
+import { FailureReason } from '../types';
+
+interface FailureReasonListProps {
+  reasons: FailureReason[];
+  // Shows how many campaigns each reason affected; only meaningful across campaigns.
+  showCampaignCount?: boolean;
+  onSelect?: (reason: FailureReason) => void;
+}
+
+const FailureReasonList: React.FC<FailureReasonListProps> = ({ reasons, showCampaignCount = false, onSelect }) => {
+  if (reasons.length === 0) {
+    return <p className="text-sm text-gray-400">No failed messages.</p>;
+  }
+  const top = reasons[0].count;
+
+  return (
+    <ul className="space-y-2">
+      {reasons.map((reason) => (
+        <li key={String(reason.code)}>
+          <button
+            type="button"
+            onClick={() => onSelect?.(reason)}
+            disabled={!onSelect || reason.code === null}
+            className="w-full text-left p-2 rounded-md bg-gray-900 border border-gray-700 enabled:hover:border-indigo-500 disabled:cursor-default"
+          >
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-200">
+                <span className="font-mono text-red-300 mr-2">{reason.code ?? 'no code'}</span>
+                {reason.message || 'Unknown error'}
+              </span>
+              <span className="text-gray-400 shrink-0 ml-2">
+                {reason.count}{showCampaignCount && ` in ${reason.campaignCount} ${reason.campaignCount === 1 ? 'campaign' : 'campaigns'}`}
+              </span>
+            </div>
+            <div className="mt-1 h-1 bg-gray-700 rounded-full overflow-hidden">
+              <div className="h-full bg-red-500" style={{ width: `${(reason.count / top) * 100}%` }} />
+            </div>
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default FailureReasonList;
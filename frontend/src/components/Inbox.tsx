@@ -0,0 +1,261 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Conversation, ConversationMessage } from '../types';
+import * as api from '../services/apiService';
+import { ChatBubbleIcon, PaperAirplaneIcon, LoadingSpinner } from './icons';
+import usePermission from '../hooks/usePermission';
+import { formatPhone } from '../utils/phone';
+import { acceptFor, checkMediaFile, MEDIA_TYPES } from '../utils/media';
+
+const POLL_INTERVAL_MS = 5000;
+// WhatsApp only allows free-form messages within 24 hours of the customer's last message.
+const SERVICE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const formatTime = (iso: string) => {
+  const date = new Date(iso);
+  const isToday = date.toDateString() === new Date().toDateString();
+  return isToday
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+};
+
+const MessageMedia: React.FC<{ conversationId: string; message: ConversationMessage }> = ({ conversationId, message }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    api.getMessageMedia(conversationId, message.id)
+      .then((blob) => {
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch(() => !cancelled && setFailed(true));
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [conversationId, message.id]);
+
+  if (failed) return <p className="text-xs italic text-gray-400">Media unavailable</p>;
+  if (!url) return <LoadingSpinner className="h-5 w-5 text-gray-400" />;
+
+  const mimetype = message.media?.mimetype || '';
+  if (mimetype.startsWith('image/')) return <img src={url} alt="Attachment" className="rounded-md max-h-48 w-auto" />;
+  if (mimetype.startsWith('video/')) return <video src={url} controls className="rounded-md max-h-48 w-auto" />;
+  if (mimetype.startsWith('audio/')) return <audio src={url} controls className="max-w-full" />;
+  return (
+    <a href={url} download={message.media?.filename || 'attachment'} className="text-xs underline text-indigo-300">
+      {message.media?.filename || 'Download attachment'}
+    </a>
+  );
+};
+
+const Inbox: React.FC = () => {
+  const canReply = usePermission('inbox.reply');
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [messages, setMessages] = useState<ConversationMessage[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState('');
+  const [replyFile, setReplyFile] = useState<File | null>(null);
+  const [isSending, setIsSending] = useState(false);
+  const [replyError, setReplyError] = useState<string | null>(null);
+  const historyRef = useRef<HTMLDivElement>(null);
+
+  const fetchConversations = useCallback(async () => {
+    try {
+      setConversations(await api.getConversations());
+      setError(null);
+    } catch (err) {
+      setError('Failed to load conversations.');
+      console.error(err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const fetchMessages = useCallback(async (conversationId: string) => {
+    try {
+      setMessages(await api.getConversationMessages(conversationId));
+    } catch (err) {
+      console.error('Failed to load messages.', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchConversations();
+    const timer = setInterval(fetchConversations, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [fetchConversations]);
+
+  useEffect(() => {
+    if (!selectedId) return;
+    fetchMessages(selectedId);
+    const timer = setInterval(() => fetchMessages(selectedId), POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [selectedId, fetchMessages]);
+
+  useEffect(() => {
+    historyRef.current?.scrollTo({ top: historyRef.current.scrollHeight });
+  }, [messages.length, selectedId]);
+
+  const selected = conversations.find((c) => c.id === selectedId) || null;
+
+  const handleSelect = async (conversation: Conversation) => {
+    setSelectedId(conversation.id);
+    setMessages([]);
+    setReplyError(null);
+    if (conversation.unreadCount > 0) {
+      setConversations((prev) => prev.map((c) => (c.id === conversation.id ? { ...c, unreadCount: 0 } : c)));
+      api.markConversationRead(conversation.id).catch((err) => console.error('Failed to mark conversation read.', err));
+    }
+  };
+
+  const handleReplyFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0] || null;
+    const problem = file && checkMediaFile(file, MEDIA_TYPES);
+    setReplyError(problem || null);
+    setReplyFile(problem ? null : file);
+  };
+
+  const handleReply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedId || (!replyText.trim() && !replyFile)) return;
+
+    setIsSending(true);
+    setReplyError(null);
+    try {
+      const message = await api.sendReply(selectedId, replyText, replyFile);
+      setMessages((prev) => [...prev, message]);
+      setReplyText('');
+      setReplyFile(null);
+      fetchConversations();
+    } catch (err: any) {
+      setReplyError(err.message || 'Failed to send reply.');
+      fetchMessages(selectedId);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const outsideServiceWindow = selected?.lastInboundAt
+    ? Date.now() - new Date(selected.lastInboundAt).getTime() > SERVICE_WINDOW_MS
+    : false;
+
+  return (
+    <div className="bg-gray-800 rounded-lg shadow-lg grid grid-cols-1 md:grid-cols-3 min-h-[32rem]">
+      <div className="border-b md:border-b-0 md:border-r border-gray-700 flex flex-col">
+        <h2 className="text-xl font-semibold p-4 flex items-center border-b border-gray-700">
+          <ChatBubbleIcon className="h-6 w-6 mr-3 text-indigo-400" />
+          Inbox
+        </h2>
+        <div className="flex-1 overflow-y-auto max-h-[36rem]">
+          {isLoading ? (
+            <div className="flex justify-center items-center py-10">
+              <LoadingSpinner className="h-8 w-8 text-indigo-400" />
+            </div>
+          ) : error ? (
+            <p className="text-center text-red-400 p-4">{error}</p>
+          ) : conversations.length === 0 ? (
+            <p className="text-center text-gray-400 p-4">No conversations yet. Replies to your broadcasts will show up here.</p>
+          ) : (
+            <ul className="divide-y divide-gray-700">
+              {conversations.map((conversation) => (
+                <li key={conversation.id}>
+                  <button
+                    onClick={() => handleSelect(conversation)}
+                    className={`w-full text-left px-4 py-3 hover:bg-gray-700/50 ${conversation.id === selectedId ? 'bg-gray-700/70' : ''}`}
+                  >
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm font-medium text-white truncate">{conversation.contactName}</span>
+                      <span className="text-xs text-gray-400 ml-2 shrink-0">{formatTime(conversation.lastMessageAt)}</span>
+                    </div>
+                    <div className="flex justify-between items-center mt-1">
+                      <span className="text-xs text-gray-400 truncate">{conversation.lastMessagePreview}</span>
+                      {conversation.unreadCount > 0 && (
+                        <span className="ml-2 shrink-0 text-xs font-semibold bg-green-600 text-white rounded-full px-2">
+                          {conversation.unreadCount}
+                        </span>
+                      )}
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      <div className="md:col-span-2 flex flex-col">
+        {selected ? (
+          <>
+            <div className="p-4 border-b border-gray-700">
+              <p className="font-semibold text-white">{selected.contactName}</p>
+              <p className="text-xs text-gray-400">{formatPhone(selected.phone)}</p>
+            </div>
+            <div ref={historyRef} className="flex-1 overflow-y-auto p-4 space-y-3 max-h-[28rem]">
+              {messages.map((message) => (
+                <div key={message.id} className={`flex ${message.direction === 'outbound' ? 'justify-end' : 'justify-start'}`}>
+                  <div className={`max-w-[75%] rounded-lg px-3 py-2 space-y-1 ${message.direction === 'outbound' ? 'bg-green-800/70' : 'bg-gray-700'}`}>
+                    {message.media?.providerMediaId && <MessageMedia conversationId={selected.id} message={message} />}
+                    {message.text && <p className="text-sm text-gray-100 whitespace-pre-wrap break-words">{message.text}</p>}
+                    {!message.text && !message.media && <p className="text-xs italic text-gray-400">Unsupported message ({message.type})</p>}
+                    <p className="text-[10px] text-gray-400 text-right">
+                      {formatTime(message.timestamp)}
+                      {message.direction === 'outbound' && ` · ${message.status}`}
+                    </p>
+                    {message.status === 'failed' && message.error && (
+                      <p className="text-xs text-red-300">{message.error.message}</p>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+            {canReply && (
+              <form onSubmit={handleReply} className="p-4 border-t border-gray-700 space-y-2">
+                {outsideServiceWindow && (
+                  <p className="text-xs text-yellow-300">
+                    This customer last wrote more than 24 hours ago. WhatsApp may reject free-form replies until they message you again.
+                  </p>
+                )}
+                {replyError && <p className="text-xs text-red-400">{replyError}</p>}
+                <div className="flex items-end space-x-2">
+                  <textarea
+                    rows={2}
+                    value={replyText}
+                    onChange={(e) => setReplyText(e.target.value)}
+                    className="flex-1 px-3 py-2 bg-gray-900 border border-gray-700 rounded-md shadow-sm placeholder-gray-500 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                    placeholder="Type a reply..."
+                  />
+                  <button
+                    type="submit"
+                    disabled={isSending || (!replyText.trim() && !replyFile)}
+                    className="flex items-center py-2 px-4 rounded-md text-sm font-medium text-white bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed"
+                  >
+                    {isSending ? <LoadingSpinner className="h-5 w-5" /> : <PaperAirplaneIcon className="h-5 w-5" />}
+                  </button>
+                </div>
+                <input
+                  key={replyFile ? 'selected' : 'empty'}
+                  type="file"
+                  accept={acceptFor(MEDIA_TYPES)}
+                  onChange={handleReplyFileChange}
+                  className="block w-full text-xs text-gray-400 file:mr-2 file:py-1 file:px-3 file:rounded-full file:border-0 file:text-xs file:font-semibold file:bg-gray-700 file:text-white hover:file:bg-gray-600"
+                />
+              </form>
+            )}
+          </>
+        ) : (
+          <div className="flex-1 flex items-center justify-center text-gray-400 p-8">
+            Select a conversation to view its messages.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Inbox;
@@ -0,0 +1,29 @@
+import React from 'react';
+import { LANGUAGES, languageLabel } from '../utils/languages';
+
+interface LanguageSelectProps {
+  // A language code, or '' for none.
+  value: string;
+  onChange: (value: string) => void;
+  // Label of the empty choice; without it a language must be picked.
+  noneLabel?: string;
+  id?: string;
+  className?: string;
+}
+
+// Picks a language from the common ones. A code set elsewhere that is not in the list is still
+// shown, so editing a contact never changes its language by accident.
+const LanguageSelect: React.FC<LanguageSelectProps> = ({ value, onChange, noneLabel, id, className = '' }) => {
+  const classes = `px-2 py-1 bg-gray-900 border border-gray-700 rounded-md text-sm text-gray-200 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 ${className}`;
+  const isListed = !value || LANGUAGES.some(({ code }) => code === value);
+
+  return (
+    <select id={id} value={value} onChange={(e) => onChange(e.target.value)} className={classes}>
+      {noneLabel !== undefined && <option value="">{noneLabel}</option>}
+      {!isListed && <option value={value}>{languageLabel(value)}</option>}
+      {LANGUAGES.map(({ code, label }) => <option key={code} value={code}>{label}</option>)}
+    </select>
+  );
+};
+
+export default LanguageSelect;
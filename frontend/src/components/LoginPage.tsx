@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { PaperAirplaneIcon } from './icons';
+import * as api from '../services/apiService';
 
 interface LoginPageProps {
   onLoginSuccess: (token: string) => void;
@@ -11,22 +12,19 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLoginSuccess }) => {
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
     setIsLoading(true);
 
-    // Simulate API call
-    setTimeout(() => {
-      // Hardcoded credentials for demonstration
-      if (username === 'admin' && password === 'password') {
-        const fakeJwt = `header.${btoa(JSON.stringify({ user: 'admin', iat: Date.now() }))}.signature`;
-        onLoginSuccess(fakeJwt);
-      } else {
-        setError('Invalid username or password.');
-      }
+    try {
+      const { token } = await api.login(username, password);
+      onLoginSuccess(token);
+    } catch (err: any) {
+      setError(err.message || 'Invalid username or password.');
+    } finally {
       setIsLoading(false);
-    }, 1000);
+    }
   };
 
   return (
@@ -36,7 +34,7 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLoginSuccess }) => {
           <div className="flex justify-center mb-4">
              <PaperAirplaneIcon className="h-12 w-12 text-indigo-400 transform -rotate-45" />
           </div>
-          <h2 className="text-3xl font-extrabold text-white">Admin Login</h2>
+          <h2 className="text-3xl font-extrabold text-white">Log In</h2>
           <p className="mt-2 text-sm text-gray-400">WhatsApp Bulk Messenger</p>
         </div>
         <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
@@ -51,7 +49,7 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLoginSuccess }) => {
                 value={username}
                 onChange={(e) => setUsername(e.target.value)}
                 className="appearance-none rounded-none relative block w-full px-3 py-3 border border-gray-700 bg-gray-900 text-gray-100 rounded-t-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm"
-                placeholder="Username (admin)"
+                placeholder="Username"
               />
             </div>
             <div>
@@ -65,7 +63,7 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLoginSuccess }) => {
                 value={password}
                 onChange={(e) => setPassword(e.target.value)}
                 className="appearance-none rounded-none relative block w-full px-3 py-3 border border-gray-700 bg-gray-900 text-gray-100 rounded-b-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm"
-                placeholder="Password (password)"
+                placeholder="Password"
               />
             </div>
           </div>
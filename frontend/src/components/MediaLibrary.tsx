@@ -0,0 +1,143 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { MediaItem, MediaType } from '../types';
+import * as api from '../services/apiService';
+import { UploadIcon, TrashIcon, LoadingSpinner } from './icons';
+import MediaThumbnail from './MediaThumbnail';
+import usePermission from '../hooks/usePermission';
+import { acceptFor, checkMediaFile, formatBytes, MEDIA_TYPE_LABELS } from '../utils/media';
+
+interface MediaLibraryProps {
+  // The media types that can be picked, e.g. only images for a template with an image header.
+  types: MediaType[];
+  selectedId: string | null;
+  onSelect: (media: MediaItem) => void;
+}
+
+// Lists the media library for picking a file, newest first. New files are uploaded into the library
+// and picked straight away.
+const MediaLibrary: React.FC<MediaLibraryProps> = ({ types, selectedId, onSelect }) => {
+  const canManage = usePermission('media.manage');
+  const [items, setItems] = useState<MediaItem[]>([]);
+  const [typeFilter, setTypeFilter] = useState<MediaType | ''>('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const typesKey = types.join(',');
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    // A single allowed type is filtered on the server; several are filtered here.
+    const allowed = typesKey.split(',') as MediaType[];
+    const requestedType = typeFilter || (allowed.length === 1 ? allowed[0] : undefined);
+    api.getMedia(requestedType)
+      .then((media) => !cancelled && setItems(media.filter((item) => allowed.includes(item.type))))
+      .catch((err) => !cancelled && setError(err.message || 'Failed to load the media library.'))
+      .finally(() => !cancelled && setIsLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [typesKey, typeFilter]);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const problem = checkMediaFile(file, types);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    setIsUploading(true);
+    setError(null);
+    try {
+      const media = await api.uploadMedia(file);
+      setItems((prev) => [media, ...prev.filter((item) => item.id !== media.id)]);
+      onSelect(media);
+    } catch (err: any) {
+      setError(err.message || 'Upload failed.');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleDelete = async (media: MediaItem) => {
+    if (!window.confirm(`Delete ${media.filename} from the media library?`)) return;
+    try {
+      await api.deleteMedia(media.id);
+      setItems((prev) => prev.filter((item) => item.id !== media.id));
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete the file.');
+    }
+  };
+
+  return (
+    <div className="border border-gray-700 rounded-lg p-3 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        {canManage && (
+          <>
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isUploading}
+              className="flex items-center text-xs px-2 py-1 rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isUploading ? <LoadingSpinner className="h-4 w-4 mr-1" /> : <UploadIcon className="h-4 w-4 mr-1" />}
+              Upload new
+            </button>
+            <input ref={fileInputRef} type="file" accept={acceptFor(types)} onChange={handleUpload} className="hidden" />
+          </>
+        )}
+        {types.length > 1 && (
+          <select
+            value={typeFilter}
+            onChange={(e) => setTypeFilter(e.target.value as MediaType | '')}
+            className="px-2 py-1 bg-gray-900 border border-gray-700 rounded-md text-xs text-gray-200 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+            aria-label="Filter media by type"
+          >
+            <option value="">All types</option>
+            {types.map((type) => <option key={type} value={type}>{MEDIA_TYPE_LABELS[type]}</option>)}
+          </select>
+        )}
+      </div>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <LoadingSpinner className="h-6 w-6 text-indigo-400" />
+        </div>
+      ) : items.length === 0 ? (
+        <p className="text-xs text-gray-400">No files in the library yet. Upload one to get started.</p>
+      ) : (
+        <div className="grid grid-cols-3 sm:grid-cols-4 gap-2 max-h-64 overflow-y-auto">
+          {items.map((item) => (
+            <div
+              key={item.id}
+              className={`relative group rounded-md p-1 ${item.id === selectedId ? 'ring-2 ring-indigo-500 bg-indigo-900/30' : 'hover:bg-gray-700'}`}
+            >
+              <button type="button" onClick={() => onSelect(item)} className="w-full text-left" title={item.filename}>
+                <MediaThumbnail media={item} className="h-20 w-full" />
+                <p className="text-[11px] text-gray-200 truncate mt-1">{item.filename}</p>
+                <p className="text-[10px] text-gray-500">{formatBytes(item.size)}</p>
+              </button>
+              {canManage && (
+                <button
+                  type="button"
+                  onClick={() => handleDelete(item)}
+                  className="absolute top-2 right-2 hidden group-hover:block p-1 rounded bg-gray-900/80 text-red-400 hover:text-red-300"
+                  aria-label={`Delete ${item.filename}`}
+                >
+                  <TrashIcon className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MediaLibrary;
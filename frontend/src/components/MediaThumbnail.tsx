@@ -0,0 +1,41 @@
+import React, { useState, useEffect } from 'react';
+import { MediaItem } from '../types';
+import * as api from '../services/apiService';
+import { DocumentTextIcon } from './icons';
+
+// A square preview of a library file: its thumbnail for images and stickers, otherwise its type.
+const MediaThumbnail: React.FC<{ media: MediaItem; className?: string }> = ({ media, className = 'h-20 w-20' }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!media.hasThumbnail) return;
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    api.getMediaFile(media.id, 'thumbnail')
+      .then((blob) => {
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch((err) => console.error(`Failed to load the thumbnail of ${media.filename}.`, err));
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [media.id, media.hasThumbnail, media.filename]);
+
+  return (
+    <div className={`${className} flex items-center justify-center rounded-md bg-gray-900 overflow-hidden`}>
+      {url ? (
+        <img src={url} alt={media.filename} className="h-full w-full object-cover" />
+      ) : (
+        <div className="flex flex-col items-center text-gray-500">
+          <DocumentTextIcon className="h-6 w-6" />
+          <span className="text-[10px] uppercase mt-1">{media.type}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MediaThumbnail;
@@ -0,0 +1,137 @@
+import React, { useState, useEffect } from 'react';
+import { Audience, CampaignTranslation, MediaType, MessageCheck, MessageIssue } from '../types';
+import * as api from '../services/apiService';
+import { SparklesIcon, LoadingSpinner } from './icons';
+import { languageLabel } from '../utils/languages';
+
+interface MessageCheckPanelProps {
+  heading: string;
+  content: string;
+  mediaType: MediaType | null;
+  translations: CampaignTranslation[];
+  audience: Audience;
+  check: MessageCheck | null;
+  onCheckChange: (check: MessageCheck | null) => void;
+}
+
+const CHECK_DEBOUNCE_MS = 800;
+
+const RISK_CLASSES = {
+  low: 'text-green-300',
+  medium: 'text-yellow-300',
+  high: 'text-red-300',
+};
+
+const CATEGORY_LABELS: Record<MessageIssue['category'], string> = {
+  policy: 'Policy',
+  spam: 'Spam',
+  length: 'Length',
+  placeholders: 'Placeholders',
+  review: 'AI review',
+};
+
+// The issue as shown to the sender, naming the translation it was found in.
+export const describeIssue = (issue: MessageIssue) => (issue.language ? `${languageLabel(issue.language)}: ${issue.message}` : issue.message);
+
+// Lists the warnings and asks whether to go ahead anyway, e.g. "Send it anyway?".
+export const confirmWarnings = (warnings: MessageIssue[], question: string) => {
+  const list = warnings.map((issue) => `- ${describeIssue(issue)}`).join('\n');
+  return window.confirm(`This message has ${warnings.length === 1 ? 'a warning' : `${warnings.length} warnings`}:\n\n${list}\n\n${question}`);
+};
+
+// Checks the message against WhatsApp policy, spam patterns, length limits and unfilled
+// placeholders while it is written, and on request has AI review its tone and risk. The composer
+// keeps the result to stop sends with blocking issues and to confirm warnings.
+const MessageCheckPanel: React.FC<MessageCheckPanelProps> = ({ heading, content, mediaType, translations, audience, check, onCheckChange }) => {
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const result = await api.checkMessage({ heading, content, mediaType, translations, audience });
+        if (!cancelled) onCheckChange(result);
+      } catch {
+        // The send request runs the same check, so a failed check here only hides the hints.
+        if (!cancelled) onCheckChange(null);
+      }
+    }, CHECK_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [heading, content, mediaType, translations, audience, onCheckChange]);
+
+  const handleReview = async () => {
+    setIsReviewing(true);
+    setError(null);
+    try {
+      onCheckChange(await api.checkMessage({ heading, content, mediaType, translations, audience }, { review: true }));
+    } catch (err: any) {
+      setError(err.message || 'Failed to review the message.');
+    } finally {
+      setIsReviewing(false);
+    }
+  };
+
+  if (!heading.trim() && !content.trim()) return null;
+
+  const issues = check?.issues || [];
+  const review = check?.review;
+
+  return (
+    <div className="border border-gray-700 rounded-lg p-3 space-y-2">
+      <div className="flex justify-between items-center">
+        <span className="text-xs font-medium text-gray-300">
+          Message check
+          {check && (
+            <span className="ml-2 font-normal text-gray-400">
+              {issues.length === 0 ? 'No problems found' : [
+                check.blocking > 0 && `${check.blocking} blocking`,
+                check.warnings > 0 && `${check.warnings} ${check.warnings === 1 ? 'warning' : 'warnings'}`,
+              ].filter(Boolean).join(' · ')}
+            </span>
+          )}
+        </span>
+        <button
+          type="button"
+          onClick={handleReview}
+          disabled={isReviewing}
+          className="flex items-center text-xs px-2 py-1 rounded-md text-indigo-300 bg-indigo-900/50 hover:bg-indigo-900/80 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isReviewing ? <LoadingSpinner className="h-4 w-4 mr-1" /> : <SparklesIcon className="h-4 w-4 mr-1" />}
+          Review with AI
+        </button>
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {review && (
+        review.error
+          ? <p className="text-xs text-red-400">AI review failed: {review.error}</p>
+          : (
+            <p className="text-xs text-gray-300">
+              AI review: <span className={review.risk ? RISK_CLASSES[review.risk] : ''}>{review.risk} risk</span>
+              {review.summary && ` · ${review.summary}`}
+            </p>
+          )
+      )}
+
+      {issues.length > 0 && (
+        <ul className="space-y-1">
+          {issues.map((issue, index) => (
+            <li
+              key={`${issue.code}-${issue.language || ''}-${index}`}
+              className={`text-xs p-2 rounded-md ${issue.severity === 'blocking' ? 'bg-red-900/40 text-red-300' : 'bg-yellow-900/30 text-yellow-300'}`}
+            >
+              <span className="font-medium">{issue.severity === 'blocking' ? 'Must fix' : CATEGORY_LABELS[issue.category]}:</span> {describeIssue(issue)}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default MessageCheckPanel;
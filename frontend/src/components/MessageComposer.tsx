@@ -1,64 +1,156 @@
-import React, { useState, useCallback } from 'react';
-import { Contact } from '../types';
+import React, { useState, useRef, useEffect } from 'react';
+import { Audience, CampaignSchedule, CampaignTranslation, Group, MediaItem, MediaType, MessageCheck, MessageTemplate, TagSummary, TemplateParameterMapping } from '../types';
 import * as api from '../services/apiService';
-import { PaperAirplaneIcon, SparklesIcon, LoadingSpinner } from './icons';
+import { PaperAirplaneIcon, SparklesIcon, ClockIcon, LoadingSpinner } from './icons';
+import CampaignProgress from './CampaignProgress';
+import RecipientPicker from './RecipientPicker';
+import PersonalizationPanel from './PersonalizationPanel';
+import TemplateParameterMapper from './TemplateParameterMapper';
+import ScheduleFields from './ScheduleFields';
+import AiAssistant from './AiAssistant';
+import MediaLibrary from './MediaLibrary';
+import MediaThumbnail from './MediaThumbnail';
+import TranslationReview, { translationSource } from './TranslationReview';
+import MessageCheckPanel, { describeIssue, confirmWarnings } from './MessageCheckPanel';
+import usePermission from '../hooks/usePermission';
+import { defaultSchedule } from '../utils/schedule';
+import { formatBytes, MEDIA_TYPES, MEDIA_TYPE_LABELS } from '../utils/media';
+
+type ComposeMode = 'text' | 'template';
+
+// Kept the same between renders so the message check only runs again when the text changes.
+const NO_TRANSLATIONS: CampaignTranslation[] = [];
+
 
 interface MessageComposerProps {
-  contacts: Contact[];
+  // Bumped when contacts change so the recipient count refreshes.
+  contactsVersion: number;
+  groups: Group[];
+  tags: TagSummary[];
+  // An audience picked elsewhere, e.g. contacts selected in the contact list. Applied whenever `id` changes.
+  requestedAudience?: { id: number; audience: Audience } | null;
 }
 
-const MessageComposer: React.FC<MessageComposerProps> = ({ contacts }) => {
+const MessageComposer: React.FC<MessageComposerProps> = ({ contactsVersion, groups, tags, requestedAudience }) => {
+  const canSend = usePermission('campaigns.send');
   const [heading, setHeading] = useState('');
   const [content, setContent] = useState('');
-  const [mediaFile, setMediaFile] = useState<File | null>(null);
-  const [mediaPreview, setMediaPreview] = useState<string | null>(null);
+  const [media, setMedia] = useState<MediaItem | null>(null);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
   const [isSending, setIsSending] = useState(false);
-  const [isGenerating, setIsGenerating] = useState(false);
   const [sendStatus, setSendStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
-  const [aiError, setAiError] = useState<string | null>(null);
-
-  const handleMediaChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      setMediaFile(file);
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setMediaPreview(reader.result as string);
-      };
-      reader.readAsDataURL(file);
-    } else {
-        setMediaFile(null);
-        setMediaPreview(null);
-    }
+  const [isAiOpen, setIsAiOpen] = useState(false);
+  const [isAiStreaming, setIsAiStreaming] = useState(false);
+  const [activeCampaignId, setActiveCampaignId] = useState<string | null>(null);
+  const [audience, setAudience] = useState<Audience>({ type: 'all' });
+  const [recipientCount, setRecipientCount] = useState<number | null>(null);
+  const contentRef = useRef<HTMLTextAreaElement>(null);
+  const [mode, setMode] = useState<ComposeMode>('text');
+  const [template, setTemplate] = useState<MessageTemplate | null>(null);
+  const [templateMapping, setTemplateMapping] = useState<TemplateParameterMapping>({});
+  const [sendLater, setSendLater] = useState(false);
+  const [schedule, setSchedule] = useState<CampaignSchedule>(defaultSchedule);
+  const [autoTranslate, setAutoTranslate] = useState(false);
+  const [messageLanguage, setMessageLanguage] = useState('en');
+  const [translations, setTranslations] = useState<CampaignTranslation[]>([]);
+  const [translatedSource, setTranslatedSource] = useState<string | null>(null);
+  const [messageCheck, setMessageCheck] = useState<MessageCheck | null>(null);
+
+  const composerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!requestedAudience) return;
+    setAudience(requestedAudience.audience);
+    composerRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }, [requestedAudience]);
+
+  const templateMediaSlot = template?.parameters.find((slot) => slot.key === 'header.media');
+
+  // Inserts a placeholder at the cursor position in the content box.
+  const insertVariable = (token: string) => {
+    const textarea = contentRef.current;
+    const start = textarea ? textarea.selectionStart : content.length;
+    const end = textarea ? textarea.selectionEnd : content.length;
+    setContent(content.slice(0, start) + token + content.slice(end));
+    requestAnimationFrame(() => {
+      if (!textarea) return;
+      textarea.focus();
+      textarea.setSelectionRange(start + token.length, start + token.length);
+    });
   };
 
-  const handleGenerateContent = useCallback(async () => {
-    if (!heading) {
-      setAiError("Please enter a heading to generate content.");
-      return;
-    }
-    setAiError(null);
-    setIsGenerating(true);
-    try {
-      const response = await api.generateAiContent(heading);
-      setContent(response.content);
-    } catch (error: any) {
-      setAiError(error.message || "An unknown error occurred.");
-    } finally {
-      setIsGenerating(false);
-    }
-  }, [heading]);
+  // A template's media header takes one media type; a free-form message takes any.
+  const mediaTypes: MediaType[] = templateMediaSlot?.format
+    ? [templateMediaSlot.format.toLowerCase() as MediaType]
+    : MEDIA_TYPES;
+
+  const handleTranslationsChange = (next: CampaignTranslation[], source: string) => {
+    setTranslations(next);
+    setTranslatedSource(next.length > 0 ? source : null);
+  };
+
+  // A translation into the message's own language is not needed any more.
+  const handleMessageLanguageChange = (language: string) => {
+    setMessageLanguage(language);
+    handleTranslationsChange(
+      translations.filter((translation) => translation.language.split('-')[0] !== language.split('-')[0]),
+      translatedSource ?? '',
+    );
+  };
+
+  const handleSelectMedia = (item: MediaItem) => {
+    setMedia(item);
+    setIsLibraryOpen(false);
+  };
 
   const handleSend = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (contacts.length === 0) {
-      setSendStatus({ type: 'error', message: 'No contacts to send to. Please add contacts first.' });
+    if (!canSend) return;
+    if (recipientCount === 0) {
+      setSendStatus({ type: 'error', message: 'No contacts match the selected recipients.' });
       return;
     }
-    if (!content.trim() && !mediaFile) {
+    if (mode === 'template') {
+      if (!template) {
+        setSendStatus({ type: 'error', message: 'Please choose a template.' });
+        return;
+      }
+      if (templateMediaSlot && media?.type !== mediaTypes[0]) {
+        setSendStatus({ type: 'error', message: `This template needs a ${templateMediaSlot.format?.toLowerCase()} for its header.` });
+        return;
+      }
+    } else if (!content.trim() && !media) {
         setSendStatus({ type: 'error', message: 'A message must contain either text content or a media file.' });
         return;
     }
+    const isTranslated = mode === 'text' && autoTranslate;
+    if (isTranslated && translations.length > 0 && translatedSource !== translationSource(heading, content, messageLanguage)
+      && !window.confirm('The message changed after it was translated. Send the translations as they are?')) {
+      return;
+    }
+
+    // Free text is checked again as it is now; findings of an AI review stay until the next check.
+    let warningsConfirmed = false;
+    if (mode === 'text') {
+      let check: MessageCheck;
+      try {
+        check = await api.checkMessage({ heading, content, mediaType: media?.type ?? null, translations: isTranslated ? translations : [], audience });
+      } catch (err: any) {
+        setSendStatus({ type: 'error', message: err.message || 'Failed to check the message.' });
+        return;
+      }
+      const blocking = check.issues.find((issue) => issue.severity === 'blocking');
+      if (blocking) {
+        setMessageCheck(check);
+        setSendStatus({ type: 'error', message: describeIssue(blocking) });
+        return;
+      }
+      const warnings = [...check.issues, ...(messageCheck?.issues || []).filter((issue) => issue.category === 'review')];
+      if (warnings.length > 0) {
+        if (!confirmWarnings(warnings, 'Send it anyway?')) return;
+        warningsConfirmed = true;
+      }
+    }
 
     setIsSending(true);
     setSendStatus(null);
@@ -67,15 +159,28 @@ const MessageComposer: React.FC<MessageComposerProps> = ({ contacts }) => {
       const response = await api.sendBulkMessage({
         heading,
         content,
-        mediaFile,
-        contacts
+        mediaId: mode === 'template' && !templateMediaSlot ? null : media?.id ?? null,
+        audience,
+        template: mode === 'template' && template ? { templateId: template.id, parameters: templateMapping } : undefined,
+        schedule: sendLater ? schedule : undefined,
+        language: isTranslated ? messageLanguage : undefined,
+        translations: isTranslated ? translations : undefined,
+        confirmWarnings: warningsConfirmed,
       });
       setSendStatus({ type: 'success', message: response.message });
+      // Scheduled campaigns are followed on the Scheduled tab instead.
+      if (!sendLater) setActiveCampaignId(response.campaignId);
       // Reset form on success
       setHeading('');
       setContent('');
-      setMediaFile(null);
-      setMediaPreview(null);
+      setMedia(null);
+      setIsLibraryOpen(false);
+      setTemplate(null);
+      setTemplateMapping({});
+      setSendLater(false);
+      setSchedule(defaultSchedule());
+      setTranslations([]);
+      setTranslatedSource(null);
     } catch (err: any) {
       setSendStatus({ type: 'error', message: err.message || 'Failed to send message.' });
     } finally {
@@ -86,9 +191,30 @@ const MessageComposer: React.FC<MessageComposerProps> = ({ contacts }) => {
   };
 
   return (
-    <div className="bg-gray-800 p-6 rounded-lg shadow-lg">
+    <div ref={composerRef} className="bg-gray-800 p-6 rounded-lg shadow-lg">
       <h2 className="text-xl font-semibold mb-4">Compose & Send Message</h2>
       <form onSubmit={handleSend} className="space-y-4">
+        <div className="flex space-x-2">
+          {(['text', 'template'] as const).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setMode(option)}
+              className={`text-xs px-3 py-1 rounded-full border ${mode === option ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-gray-900 border-gray-700 text-gray-300 hover:bg-gray-700'}`}
+            >
+              {option === 'text' ? 'Free text' : 'Use template'}
+            </button>
+          ))}
+        </div>
+
+        {mode === 'template' ? (
+          <TemplateParameterMapper
+            templateId={template?.id || ''}
+            mapping={templateMapping}
+            onChange={(selected, mapping) => { setTemplate(selected); setTemplateMapping(mapping); }}
+          />
+        ) : (
+        <>
         <div>
           <label htmlFor="heading" className="block text-sm font-medium text-gray-300">Heading</label>
           <input
@@ -106,57 +232,147 @@ const MessageComposer: React.FC<MessageComposerProps> = ({ contacts }) => {
             <label htmlFor="content" className="block text-sm font-medium text-gray-300">Content</label>
             <button
               type="button"
-              onClick={handleGenerateContent}
-              disabled={isGenerating}
-              className="flex items-center text-xs px-2 py-1 rounded-md text-indigo-300 bg-indigo-900/50 hover:bg-indigo-900/80 disabled:opacity-50 disabled:cursor-not-allowed"
+              onClick={() => setIsAiOpen((open) => !open)}
+              className="flex items-center text-xs px-2 py-1 rounded-md text-indigo-300 bg-indigo-900/50 hover:bg-indigo-900/80"
             >
-              {isGenerating ? <LoadingSpinner className="h-4 w-4 mr-1" /> : <SparklesIcon className="h-4 w-4 mr-1" />}
-              {isGenerating ? 'Generating...' : 'Generate with AI'}
+              <SparklesIcon className="h-4 w-4 mr-1" />
+              {isAiOpen ? 'Hide AI assistant' : 'Write with AI'}
             </button>
           </div>
+          {isAiOpen && (
+            <div className="mt-2">
+              <AiAssistant heading={heading} content={content} onUse={setContent} onStreamingChange={setIsAiStreaming} />
+            </div>
+          )}
           <textarea
+            ref={contentRef}
             id="content"
             rows={6}
             value={content}
             onChange={(e) => setContent(e.target.value)}
+            readOnly={isAiStreaming}
             className="mt-1 block w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-md shadow-sm placeholder-gray-500 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
             placeholder="Write your message here..."
           />
-           {aiError && <p className="text-xs text-red-400 mt-1">{aiError}</p>}
         </div>
 
-        <div>
-            <label htmlFor="media" className="block text-sm font-medium text-gray-300">Media (Image/Video)</label>
-            <input 
-                type="file" 
-                id="media" 
-                accept="image/*,video/*"
-                onChange={handleMediaChange}
-                className="mt-1 block w-full text-sm text-gray-400 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-indigo-600 file:text-white hover:file:bg-indigo-700"
+        <PersonalizationPanel audience={audience} heading={heading} content={content} onInsert={insertVariable} />
+
+        <div className="space-y-2">
+          <label className="flex items-center space-x-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={autoTranslate}
+              onChange={(e) => setAutoTranslate(e.target.checked)}
             />
-            {mediaPreview && (
-                <div className="mt-4 border border-gray-700 rounded-lg p-2 max-w-xs">
-                    <p className="text-xs text-gray-400 mb-2">Preview:</p>
-                    {mediaFile?.type.startsWith('image/') && <img src={mediaPreview} alt="Media preview" className="rounded-md max-h-40 w-auto" />}
-                    {mediaFile?.type.startsWith('video/') && <video src={mediaPreview} controls className="rounded-md max-h-40 w-auto" />}
+            <span>Translate for each recipient's language</span>
+          </label>
+          {autoTranslate && (
+            <TranslationReview
+              audience={audience}
+              heading={heading}
+              content={content}
+              language={messageLanguage}
+              onLanguageChange={handleMessageLanguageChange}
+              translations={translations}
+              onTranslationsChange={handleTranslationsChange}
+              translatedSource={translatedSource}
+            />
+          )}
+        </div>
+
+        <MessageCheckPanel
+          heading={heading}
+          content={content}
+          mediaType={media?.type ?? null}
+          translations={autoTranslate ? translations : NO_TRANSLATIONS}
+          audience={audience}
+          check={messageCheck}
+          onCheckChange={setMessageCheck}
+        />
+        </>
+        )}
+
+        <RecipientPicker
+          contactsVersion={contactsVersion}
+          groups={groups}
+          tags={tags}
+          audience={audience}
+          onAudienceChange={setAudience}
+          onCountChange={setRecipientCount}
+        />
+
+        {(mode === 'text' || templateMediaSlot) && (
+          <div className="space-y-2">
+            <div className="flex justify-between items-center">
+              <span className="block text-sm font-medium text-gray-300">
+                {templateMediaSlot ? `Header ${templateMediaSlot.format?.toLowerCase()}` : 'Media'}
+              </span>
+              <button
+                type="button"
+                onClick={() => setIsLibraryOpen((open) => !open)}
+                className="text-xs px-2 py-1 rounded-md text-indigo-300 bg-indigo-900/50 hover:bg-indigo-900/80"
+              >
+                {isLibraryOpen ? 'Close media library' : media ? 'Change file' : 'Choose from media library'}
+              </button>
+            </div>
+            {media && (
+              <div className="flex items-center space-x-3 border border-gray-700 rounded-lg p-2">
+                <MediaThumbnail media={media} className="h-16 w-16" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-gray-200 truncate">{media.filename}</p>
+                  <p className="text-xs text-gray-400">{MEDIA_TYPE_LABELS[media.type]} · {formatBytes(media.size)}</p>
+                  {!mediaTypes.includes(media.type) && (
+                    <p className="text-xs text-yellow-400">This template needs a {mediaTypes[0]} instead.</p>
+                  )}
                 </div>
+                <button type="button" onClick={() => setMedia(null)} className="text-xs text-gray-400 hover:text-white">Remove</button>
+              </div>
             )}
+            {isLibraryOpen && <MediaLibrary types={mediaTypes} selectedId={media?.id ?? null} onSelect={handleSelectMedia} />}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <label className="flex items-center space-x-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={sendLater}
+              onChange={(e) => setSendLater(e.target.checked)}
+            />
+            <span>Send later</span>
+          </label>
+          {sendLater && <ScheduleFields schedule={schedule} onChange={setSchedule} />}
         </div>
-        
+
+        {activeCampaignId && (
+          <CampaignProgress
+            key={activeCampaignId}
+            campaignId={activeCampaignId}
+            onDismiss={() => setActiveCampaignId(null)}
+          />
+        )}
+
         {sendStatus && (
           <div className={`p-3 rounded-md text-sm ${sendStatus.type === 'success' ? 'bg-green-900/50 text-green-300' : 'bg-red-900/50 text-red-300'}`}>
             {sendStatus.message}
           </div>
         )}
 
-        <button 
-          type="submit"
-          disabled={isSending || contacts.length === 0}
-          className="w-full flex items-center justify-center py-3 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 focus:ring-offset-gray-900 disabled:bg-gray-600 disabled:cursor-not-allowed"
-        >
-          {isSending ? <LoadingSpinner className="h-5 w-5 mr-2" /> : <PaperAirplaneIcon className="h-5 w-5 mr-2" />}
-          {isSending ? 'Sending...' : `Send to All (${contacts.length}) Contacts`}
-        </button>
+        {canSend ? (
+          <button 
+            type="submit"
+            disabled={isSending || isAiStreaming || !recipientCount}
+            className="w-full flex items-center justify-center py-3 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 focus:ring-offset-gray-900 disabled:bg-gray-600 disabled:cursor-not-allowed"
+          >
+            {isSending ? <LoadingSpinner className="h-5 w-5 mr-2" /> : sendLater ? <ClockIcon className="h-5 w-5 mr-2" /> : <PaperAirplaneIcon className="h-5 w-5 mr-2" />}
+            {isSending
+              ? (sendLater ? 'Scheduling...' : 'Queueing...')
+              : `${sendLater ? 'Schedule for' : 'Send to'} ${recipientCount ?? '…'} ${recipientCount === 1 ? 'Contact' : 'Contacts'}`}
+          </button>
+        ) : (
+          <p className="text-sm text-gray-400 text-center">Your role cannot send campaigns.</p>
+        )}
       </form>
     </div>
   );
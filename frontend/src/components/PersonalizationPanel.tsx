@@ -0,0 +1,112 @@
+import React, { useState, useEffect } from 'react';
+import { Audience, MessageVariables, PersonalizationCheck } from '../types';
+import * as api from '../services/apiService';
+import { buildMessagePreview } from '../utils/personalize';
+import { formatPhone } from '../utils/phone';
+
+interface PersonalizationPanelProps {
+  audience: Audience;
+  heading: string;
+  content: string;
+  // Called with a `{{variable}}` token to insert into the message content.
+  onInsert: (token: string) => void;
+}
+
+const CHECK_DEBOUNCE_MS = 500;
+
+const PersonalizationPanel: React.FC<PersonalizationPanelProps> = ({ audience, heading, content, onInsert }) => {
+  const [variables, setVariables] = useState<MessageVariables | null>(null);
+  const [check, setCheck] = useState<PersonalizationCheck | null>(null);
+  const [previewContactId, setPreviewContactId] = useState('');
+
+  useEffect(() => {
+    api.getMessageVariables()
+      .then(setVariables)
+      .catch((err) => console.error('Failed to load message variables.', err));
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const result = await api.checkPersonalization(audience, heading, content);
+        if (!cancelled) setCheck(result);
+      } catch {
+        // Incomplete audiences are rejected; the recipient picker already explains why.
+        if (!cancelled) setCheck(null);
+      }
+    }, CHECK_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [audience, heading, content]);
+
+  const sample = check?.sample || [];
+  const previewContact = sample.find((contact) => contact.id === previewContactId) || sample[0];
+  const unfilled = (check?.placeholders || []).filter((placeholder) => placeholder.missing > 0);
+  const hasPlaceholders = (check?.placeholders.length || 0) > 0;
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <span className="block text-xs text-gray-400 mb-1">Insert a variable:</span>
+        <div className="flex flex-wrap gap-1">
+          {(variables?.builtIn || []).map((name) => (
+            <button
+              key={name}
+              type="button"
+              onClick={() => onInsert(`{{${name}}}`)}
+              className="text-xs px-2 py-0.5 rounded-full bg-gray-900 border border-gray-700 text-indigo-300 hover:bg-gray-700"
+            >
+              {name}
+            </button>
+          ))}
+          {(variables?.attributes || []).map(({ name, label, count }) => (
+            <button
+              key={name}
+              type="button"
+              onClick={() => onInsert(`{{${name}|}}`)}
+              title={`${label}: set on ${count} contacts. Type a fallback after the "|".`}
+              className="text-xs px-2 py-0.5 rounded-full bg-gray-900 border border-gray-700 text-teal-300 hover:bg-gray-700"
+            >
+              {name}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {unfilled.length > 0 && (
+        <div className="p-2 rounded-md bg-yellow-900/30 text-xs text-yellow-300 space-y-1">
+          {unfilled.map(({ key, missing }) => (
+            <p key={key}>
+              {`{{${key}}}`} is empty for {missing} recipients. Add a fallback like {`{{${key}|friend}}`} or they will see nothing there.
+            </p>
+          ))}
+        </div>
+      )}
+
+      {hasPlaceholders && previewContact && (
+        <div className="border border-gray-700 rounded-md p-3 space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-gray-400">Preview as</span>
+            <select
+              value={previewContact.id}
+              onChange={(e) => setPreviewContactId(e.target.value)}
+              className="px-2 py-1 bg-gray-900 border border-gray-700 rounded-md text-xs text-gray-200"
+            >
+              {sample.map((contact) => (
+                <option key={contact.id} value={contact.id}>{contact.name} ({formatPhone(contact.phone)})</option>
+              ))}
+            </select>
+          </div>
+          <p className="text-sm text-gray-100 whitespace-pre-wrap break-words">
+            {buildMessagePreview(heading, content, previewContact)}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PersonalizationPanel;
@@ -0,0 +1,29 @@
+import React from 'react';
+import { checkPhone, PHONE_TYPE_LABELS } from '../utils/phone';
+
+interface PhoneNumberHintProps {
+  input: string;
+  defaultCountry: string | null;
+}
+
+// Shows how a typed phone number will be saved, e.g. "+92 300 1234567 · PK · Mobile".
+const PhoneNumberHint: React.FC<PhoneNumberHintProps> = ({ input, defaultCountry }) => {
+  if (!input.trim()) {
+    return (
+      <p className="text-xs text-gray-500 mt-1">
+        {defaultCountry ? `Local ${defaultCountry} numbers or +country code.` : 'Include the + and country code, or set a default country.'}
+      </p>
+    );
+  }
+  const check = checkPhone(input, defaultCountry);
+  if (!check.valid) {
+    return <p className="text-xs text-yellow-300 mt-1">{check.error}</p>;
+  }
+  return (
+    <p className="text-xs text-gray-400 mt-1">
+      Saved as {check.display}{check.country && ` · ${check.country}`} · {PHONE_TYPE_LABELS[check.type]}
+    </p>
+  );
+};
+
+export default PhoneNumberHint;
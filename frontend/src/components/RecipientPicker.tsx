@@ -0,0 +1,271 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Audience, Contact, Group, TagSummary } from '../types';
+import useContactPages from '../hooks/useContactPages';
+import * as api from '../services/apiService';
+import { LoadingSpinner } from './icons';
+import { formatPhone } from '../utils/phone';
+
+interface RecipientPickerProps {
+  // Bumped when contacts change so the count refreshes.
+  contactsVersion: number;
+  groups: Group[];
+  tags: TagSummary[];
+  audience: Audience;
+  onAudienceChange: (audience: Audience) => void;
+  onCountChange: (count: number | null) => void;
+}
+
+const AUDIENCE_TYPES: { type: Audience['type']; label: string }[] = [
+  { type: 'all', label: 'All contacts' },
+  { type: 'groups', label: 'Groups' },
+  { type: 'tags', label: 'Tags' },
+  { type: 'contacts', label: 'Pick contacts' },
+];
+
+const EMPTY_AUDIENCES: Record<Audience['type'], Audience> = {
+  all: { type: 'all' },
+  groups: { type: 'groups', groupIds: [] },
+  tags: { type: 'tags', include: [], exclude: [], match: 'any' },
+  contacts: { type: 'contacts', contactIds: [] },
+};
+
+const PREVIEW_DEBOUNCE_MS = 300;
+
+const toggle = (values: string[], value: string) => (
+  values.includes(value) ? values.filter((v) => v !== value) : [...values, value]
+);
+
+const chipClassName = (active: boolean, tone: 'indigo' | 'red' = 'indigo') => `text-xs px-2 py-1 rounded-full border ${
+  active
+    ? tone === 'red' ? 'bg-red-900/60 border-red-500 text-red-200' : 'bg-indigo-600 border-indigo-500 text-white'
+    : 'bg-gray-900 border-gray-700 text-gray-300 hover:bg-gray-700'
+}`;
+
+const CONTACT_SORT = { sort: 'name' as const, order: 'asc' as const };
+
+interface ContactChooserProps {
+  selectedIds: string[];
+  onToggle: (contact: Contact) => void;
+  contactsVersion: number;
+}
+
+// Search-as-you-type list for hand-picking recipients, loaded a page at a time.
+const ContactChooser: React.FC<ContactChooserProps> = ({ selectedIds, onToggle, contactsVersion }) => {
+  const [search, setSearch] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(search.trim()), PREVIEW_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const filters = useMemo(() => ({ search: debouncedSearch || undefined }), [debouncedSearch]);
+  const { contacts, hasMore, isLoading, isLoadingMore, error, loadMore } = useContactPages(filters, CONTACT_SORT, contactsVersion);
+
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const { scrollTop, scrollHeight, clientHeight } = e.currentTarget;
+    if (hasMore && scrollHeight - scrollTop - clientHeight < 48) loadMore();
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search name or phone"
+          className="flex-1 px-2 py-1 bg-gray-900 border border-gray-700 rounded-md text-xs text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+        />
+        <span className="text-xs text-gray-400">{selectedIds.length} selected</span>
+      </div>
+      <div onScroll={handleScroll} className="max-h-48 overflow-y-auto border border-gray-700 rounded-md divide-y divide-gray-700">
+        {contacts.map((contact) => (
+          <label key={contact.id} className="flex items-center px-3 py-1.5 text-sm text-gray-200 hover:bg-gray-700/50">
+            <input
+              type="checkbox"
+              checked={selectedIds.includes(contact.id)}
+              onChange={() => onToggle(contact)}
+              className="mr-2"
+            />
+            <span className="flex-1 truncate">{contact.name}</span>
+            <span className="text-xs text-gray-400">{formatPhone(contact.phone)}</span>
+          </label>
+        ))}
+        {(isLoading || isLoadingMore) && (
+          <div className="flex justify-center py-2"><LoadingSpinner className="h-4 w-4 text-indigo-400" /></div>
+        )}
+        {!isLoading && contacts.length === 0 && <p className="px-3 py-2 text-xs text-gray-400">No contacts match.</p>}
+      </div>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+// An audience the server would reject; counting it would only produce an error.
+const isIncomplete = (audience: Audience) => {
+  switch (audience.type) {
+    case 'groups':
+      return audience.groupIds.length === 0;
+    case 'contacts':
+      return audience.contactIds.length === 0;
+    case 'tags':
+      return audience.include.length === 0 && audience.exclude.length === 0;
+    default:
+      return false;
+  }
+};
+
+const RecipientPicker: React.FC<RecipientPickerProps> = ({ contactsVersion, groups, tags, audience, onAudienceChange, onCountChange }) => {
+  const [count, setCount] = useState<number | null>(null);
+  const [skipped, setSkipped] = useState(0);
+  const [isCounting, setIsCounting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setError(null);
+    if (isIncomplete(audience)) {
+      setCount(0);
+      setSkipped(0);
+      onCountChange(0);
+      return;
+    }
+
+    let cancelled = false;
+    setIsCounting(true);
+    const timer = setTimeout(async () => {
+      try {
+        const result = await api.previewAudience(audience);
+        if (cancelled) return;
+        setCount(result.count);
+        setSkipped(result.skipped);
+        onCountChange(result.count);
+      } catch (err: any) {
+        if (cancelled) return;
+        setCount(null);
+        onCountChange(null);
+        setError(err.message || 'Could not count recipients.');
+      } finally {
+        if (!cancelled) setIsCounting(false);
+      }
+    }, PREVIEW_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+    // `contactsVersion` is included so the count refreshes after contacts are added, tagged or deleted.
+  }, [audience, contactsVersion, onCountChange]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <span className="block text-sm font-medium text-gray-300">Recipients</span>
+        <span className="flex items-center text-xs text-gray-400">
+          {isCounting && <LoadingSpinner className="h-3 w-3 mr-1" />}
+          {count !== null && `${count} matching contacts`}
+        </span>
+      </div>
+      {skipped > 0 && (
+        <p className="text-xs text-yellow-300">{skipped} opted-out or suppressed contacts will be skipped.</p>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {AUDIENCE_TYPES.map(({ type, label }) => (
+          <button
+            key={type}
+            type="button"
+            onClick={() => type !== audience.type && onAudienceChange(EMPTY_AUDIENCES[type])}
+            className={chipClassName(audience.type === type)}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {audience.type === 'groups' && (
+        groups.length === 0 ? (
+          <p className="text-xs text-gray-400">No groups yet. Create one in the contacts panel.</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {groups.map((group) => (
+              <button
+                key={group.id}
+                type="button"
+                onClick={() => onAudienceChange({ ...audience, groupIds: toggle(audience.groupIds, group.id) })}
+                className={chipClassName(audience.groupIds.includes(group.id))}
+              >
+                {group.name} ({group.memberCount})
+              </button>
+            ))}
+          </div>
+        )
+      )}
+
+      {audience.type === 'tags' && (
+        tags.length === 0 ? (
+          <p className="text-xs text-gray-400">No tagged contacts yet.</p>
+        ) : (
+          <div className="space-y-2">
+            <div className="flex items-center space-x-2 text-xs text-gray-400">
+              <span>Include contacts with</span>
+              <select
+                value={audience.match}
+                onChange={(e) => onAudienceChange({ ...audience, match: e.target.value as 'any' | 'all' })}
+                className="px-2 py-1 bg-gray-900 border border-gray-700 rounded-md text-xs text-gray-200"
+              >
+                <option value="any">any</option>
+                <option value="all">all</option>
+              </select>
+              <span>of:</span>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {tags.map((tag) => (
+                <button
+                  key={tag.name}
+                  type="button"
+                  onClick={() => onAudienceChange({
+                    ...audience,
+                    include: toggle(audience.include, tag.name),
+                    exclude: audience.exclude.filter((t) => t !== tag.name),
+                  })}
+                  className={chipClassName(audience.include.includes(tag.name))}
+                >
+                  #{tag.name} ({tag.count})
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-gray-400">Exclude contacts with any of:</p>
+            <div className="flex flex-wrap gap-2">
+              {tags.map((tag) => (
+                <button
+                  key={tag.name}
+                  type="button"
+                  onClick={() => onAudienceChange({
+                    ...audience,
+                    exclude: toggle(audience.exclude, tag.name),
+                    include: audience.include.filter((t) => t !== tag.name),
+                  })}
+                  className={chipClassName(audience.exclude.includes(tag.name), 'red')}
+                >
+                  #{tag.name}
+                </button>
+              ))}
+            </div>
+          </div>
+        )
+      )}
+
+      {audience.type === 'contacts' && (
+        <ContactChooser
+          selectedIds={audience.contactIds}
+          onToggle={(contact) => onAudienceChange({ ...audience, contactIds: toggle(audience.contactIds, contact.id) })}
+          contactsVersion={contactsVersion}
+        />
+      )}
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default RecipientPicker;
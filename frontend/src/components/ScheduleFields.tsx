@@ -0,0 +1,46 @@
+import React, { useMemo } from 'react';
+import { CampaignSchedule } from '../types';
+import { timeZoneOptions } from '../utils/schedule';
+
+interface ScheduleFieldsProps {
+  schedule: CampaignSchedule;
+  onChange: (schedule: CampaignSchedule) => void;
+}
+
+const fieldClassName = 'px-3 py-2 bg-gray-900 border border-gray-700 rounded-md text-sm text-gray-200 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500';
+
+// Date, time and time zone inputs for a "send later" campaign.
+const ScheduleFields: React.FC<ScheduleFieldsProps> = ({ schedule, onChange }) => {
+  const zones = useMemo(timeZoneOptions, []);
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      <input
+        type="date"
+        value={schedule.date}
+        onChange={(e) => onChange({ ...schedule, date: e.target.value })}
+        className={fieldClassName}
+        aria-label="Send date"
+        required
+      />
+      <input
+        type="time"
+        value={schedule.time}
+        onChange={(e) => onChange({ ...schedule, time: e.target.value })}
+        className={fieldClassName}
+        aria-label="Send time"
+        required
+      />
+      <select
+        value={schedule.timezone}
+        onChange={(e) => onChange({ ...schedule, timezone: e.target.value })}
+        className={`${fieldClassName} flex-1 min-w-0`}
+        aria-label="Time zone"
+      >
+        {zones.map((zone) => <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>)}
+      </select>
+    </div>
+  );
+};
+
+export default ScheduleFields;
@@ -0,0 +1,220 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Audience, Campaign, CampaignSchedule, Group, TagSummary } from '../types';
+import * as api from '../services/apiService';
+import { ClockIcon, LoadingSpinner } from './icons';
+import RecipientPicker from './RecipientPicker';
+import ScheduleFields from './ScheduleFields';
+import usePermission from '../hooks/usePermission';
+import { campaignSchedule, formatSchedule } from '../utils/schedule';
+import { describeIssue, confirmWarnings } from './MessageCheckPanel';
+
+interface ScheduledCampaignsProps {
+  // Bumped when contacts change so the recipient count refreshes.
+  contactsVersion: number;
+  groups: Group[];
+  tags: TagSummary[];
+}
+
+type EditMode = 'edit' | 'reschedule';
+
+interface ScheduledCampaignEditorProps extends ScheduledCampaignsProps {
+  campaign: Campaign;
+  mode: EditMode;
+  onSaved: (campaign: Campaign) => void;
+  onClose: () => void;
+}
+
+const inputClassName = 'block w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-md shadow-sm placeholder-gray-500 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm';
+
+// Inline form for a scheduled campaign. "Reschedule" only shows the send time; "edit" also
+// covers the text (free-text campaigns only) and the recipients.
+const ScheduledCampaignEditor: React.FC<ScheduledCampaignEditorProps> = ({ campaign, mode, contactsVersion, groups, tags, onSaved, onClose }) => {
+  const [heading, setHeading] = useState(campaign.heading);
+  const [content, setContent] = useState(campaign.content);
+  const [audience, setAudience] = useState<Audience>(campaign.audience || { type: 'all' });
+  const [recipientCount, setRecipientCount] = useState<number | null>(null);
+  const [schedule, setSchedule] = useState<CampaignSchedule>(campaignSchedule(campaign.scheduledAt || campaign.createdAt, campaign.timezone));
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canEditText = mode === 'edit' && !campaign.template;
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+    try {
+      const update: api.ScheduledCampaignUpdate = { schedule };
+      if (mode === 'edit') update.audience = audience;
+      if (canEditText) Object.assign(update, { heading, content });
+      // Edited text and recipients are checked as in the composer.
+      if (mode === 'edit' && !campaign.template) {
+        const check = await api.checkMessage({
+          heading,
+          content,
+          mediaType: campaign.media?.type ?? null,
+          translations: campaign.translations || [],
+          audience,
+        });
+        const blocking = check.issues.find((issue) => issue.severity === 'blocking');
+        if (blocking) {
+          setError(describeIssue(blocking));
+          return;
+        }
+        if (check.issues.length > 0) {
+          if (!confirmWarnings(check.issues, 'Save it anyway?')) return;
+          update.confirmWarnings = true;
+        }
+      }
+      onSaved(await api.updateScheduledCampaign(campaign.id, update));
+    } catch (err: any) {
+      setError(err.message || 'Failed to update the campaign.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSave} className="mt-3 pt-3 border-t border-gray-700 space-y-3">
+      {canEditText && (
+        <>
+          <input value={heading} onChange={(e) => setHeading(e.target.value)} className={inputClassName} placeholder="Heading" />
+          <textarea value={content} onChange={(e) => setContent(e.target.value)} rows={4} className={inputClassName} placeholder="Message content" />
+        </>
+      )}
+      {mode === 'edit' && (
+        <RecipientPicker
+          contactsVersion={contactsVersion}
+          groups={groups}
+          tags={tags}
+          audience={audience}
+          onAudienceChange={setAudience}
+          onCountChange={setRecipientCount}
+        />
+      )}
+      <ScheduleFields schedule={schedule} onChange={setSchedule} />
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      <div className="flex justify-end space-x-2">
+        <button type="button" onClick={onClose} className="text-xs px-3 py-1.5 rounded-md text-gray-300 bg-gray-700 hover:bg-gray-600">
+          Close
+        </button>
+        <button
+          type="submit"
+          disabled={isSaving || (mode === 'edit' && !recipientCount)}
+          className="text-xs px-3 py-1.5 rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-600 disabled:cursor-not-allowed"
+        >
+          {isSaving ? 'Saving...' : mode === 'edit' ? 'Save changes' : 'Reschedule'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+// Campaigns waiting for their "send later" time, soonest first, with edit, reschedule and cancel.
+const ScheduledCampaigns: React.FC<ScheduledCampaignsProps> = ({ contactsVersion, groups, tags }) => {
+  const canSend = usePermission('campaigns.send');
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ id: string; mode: EditMode } | null>(null);
+
+  const fetchScheduled = useCallback(async () => {
+    try {
+      setCampaigns(await api.getCampaigns('scheduled'));
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load scheduled campaigns.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchScheduled();
+  }, [fetchScheduled]);
+
+  const handleSaved = (updated: Campaign) => {
+    setCampaigns((prev) => prev
+      .map((campaign) => (campaign.id === updated.id ? updated : campaign))
+      .sort((a, b) => (a.scheduledAt || '').localeCompare(b.scheduledAt || '')));
+    setEditing(null);
+  };
+
+  const handleCancel = async (campaign: Campaign) => {
+    if (!window.confirm(`Cancel "${campaign.heading || 'Untitled campaign'}"? It will not be sent.`)) return;
+    setError(null);
+    try {
+      await api.updateCampaignState(campaign.id, 'cancel');
+      setCampaigns((prev) => prev.filter((c) => c.id !== campaign.id));
+    } catch (err: any) {
+      setError(err.message || 'Failed to cancel the campaign.');
+      // It may have started in the meantime; show the list as it is now.
+      fetchScheduled();
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 p-6 rounded-lg shadow-lg">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold">Scheduled Campaigns</h2>
+        <button type="button" onClick={fetchScheduled} className="text-xs px-2 py-1 rounded-md text-gray-300 bg-gray-700 hover:bg-gray-600">
+          Refresh
+        </button>
+      </div>
+      {error && <p className="mb-3 text-sm text-red-400">{error}</p>}
+      {isLoading ? (
+        <div className="flex justify-center py-8"><LoadingSpinner className="h-6 w-6 text-indigo-400" /></div>
+      ) : campaigns.length === 0 ? (
+        <p className="text-sm text-gray-400">Nothing scheduled. Tick "Send later" in the composer to schedule a broadcast.</p>
+      ) : (
+        <ul className="space-y-3">
+          {campaigns.map((campaign) => (
+            <li key={campaign.id} className="p-4 rounded-md bg-gray-900 border border-gray-700">
+              <div className="flex justify-between items-start gap-4">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-100 truncate">
+                    {campaign.heading || 'Untitled campaign'}
+                    {campaign.template && <span className="ml-2 text-xs text-indigo-300">template</span>}
+                  </p>
+                  <p className="text-xs text-gray-400 line-clamp-2">{campaign.content}</p>
+                  <p className="mt-1 flex items-center text-xs text-gray-300">
+                    <ClockIcon className="h-4 w-4 mr-1 text-indigo-400" />
+                    {campaign.scheduledAt && formatSchedule(campaignSchedule(campaign.scheduledAt, campaign.timezone))}
+                    <span className="ml-2 text-gray-500">· about {campaign.recipientCount} contacts</span>
+                  </p>
+                </div>
+                {canSend && (
+                  <div className="flex shrink-0 space-x-2">
+                    <button type="button" onClick={() => setEditing({ id: campaign.id, mode: 'edit' })} className="text-xs px-2 py-1 rounded-md text-indigo-300 bg-indigo-900/40 hover:bg-indigo-900/70">
+                      Edit
+                    </button>
+                    <button type="button" onClick={() => setEditing({ id: campaign.id, mode: 'reschedule' })} className="text-xs px-2 py-1 rounded-md text-gray-300 bg-gray-700 hover:bg-gray-600">
+                      Reschedule
+                    </button>
+                    <button type="button" onClick={() => handleCancel(campaign)} className="text-xs px-2 py-1 rounded-md text-red-300 bg-red-900/40 hover:bg-red-900/70">
+                      Cancel
+                    </button>
+                  </div>
+                )}
+              </div>
+              {editing?.id === campaign.id && (
+                <ScheduledCampaignEditor
+                  key={editing.mode}
+                  campaign={campaign}
+                  mode={editing.mode}
+                  contactsVersion={contactsVersion}
+                  groups={groups}
+                  tags={tags}
+                  onSaved={handleSaved}
+                  onClose={() => setEditing(null)}
+                />
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ScheduledCampaigns;
@@ -0,0 +1,125 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Suppression } from '../types';
+import * as api from '../services/apiService';
+import { TrashIcon, LoadingSpinner } from './icons';
+import PhoneNumberHint from './PhoneNumberHint';
+import usePermission from '../hooks/usePermission';
+import { checkPhone, formatPhone } from '../utils/phone';
+
+interface SuppressionListProps {
+  defaultCountry: string | null;
+}
+
+const SuppressionList: React.FC<SuppressionListProps> = ({ defaultCountry }) => {
+  const canManage = usePermission('suppressions.manage');
+  const [suppressions, setSuppressions] = useState<Suppression[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [phone, setPhone] = useState('');
+  const [reason, setReason] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSuppressions = useCallback(async () => {
+    try {
+      setSuppressions(await api.getSuppressions());
+    } catch (err: any) {
+      setError(err.message || 'Failed to load the suppression list.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSuppressions();
+  }, [fetchSuppressions]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const phoneCheck = checkPhone(phone, defaultCountry);
+    if (!phoneCheck.valid) {
+      setError(phoneCheck.error);
+      return;
+    }
+    setIsAdding(true);
+    setError(null);
+    try {
+      const suppression = await api.addSuppression(phoneCheck.phone, reason.trim());
+      setSuppressions((prev) => [suppression, ...prev]);
+      setPhone('');
+      setReason('');
+    } catch (err: any) {
+      setError(err.message || 'Failed to suppress the number.');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleDelete = async (suppression: Suppression) => {
+    if (!window.confirm(`Allow broadcasts to ${formatPhone(suppression.phone)} again?`)) return;
+    setError(null);
+    try {
+      await api.deleteSuppression(suppression.id);
+      setSuppressions((prev) => prev.filter((s) => s.id !== suppression.id));
+    } catch (err: any) {
+      setError(err.message || 'Failed to remove the number.');
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 p-6 rounded-lg shadow-lg space-y-4">
+      <div>
+        <h2 className="text-xl font-semibold">Suppression List ({suppressions.length})</h2>
+        <p className="text-xs text-gray-400 mt-1">These numbers never receive broadcasts, even if they are not contacts.</p>
+      </div>
+      {canManage && (
+        <form onSubmit={handleAdd} className="flex space-x-2">
+          <input
+            type="tel"
+            value={phone}
+            onChange={(e) => setPhone(e.target.value)}
+            className="w-36 px-3 py-2 bg-gray-900 border border-gray-700 rounded-md shadow-sm placeholder-gray-500 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            placeholder="+12125551234"
+          />
+          <input
+            type="text"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            className="flex-1 min-w-0 px-3 py-2 bg-gray-900 border border-gray-700 rounded-md shadow-sm placeholder-gray-500 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            placeholder="Reason (optional)"
+          />
+          <button
+            type="submit"
+            disabled={isAdding || !phone.trim()}
+            className="flex items-center py-2 px-4 rounded-md text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-500/50 disabled:cursor-not-allowed"
+          >
+            {isAdding && <LoadingSpinner className="h-4 w-4 mr-2" />}
+            Add
+          </button>
+        </form>
+      )}
+      {phone.trim() && <PhoneNumberHint input={phone} defaultCountry={defaultCountry} />}
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      {isLoading ? (
+        <div className="flex justify-center"><LoadingSpinner className="h-6 w-6 text-indigo-400" /></div>
+      ) : suppressions.length > 0 && (
+        <ul className="divide-y divide-gray-700 max-h-48 overflow-y-auto">
+          {suppressions.map((suppression) => (
+            <li key={suppression.id} className="flex justify-between items-center py-2">
+              <span className="text-sm text-white">
+                {formatPhone(suppression.phone)}
+                {suppression.reason && <span className="text-gray-400"> · {suppression.reason}</span>}
+              </span>
+              {canManage && (
+                <button onClick={() => handleDelete(suppression)} className="text-red-400 hover:text-red-600">
+                  <TrashIcon className="h-4 w-4" />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SuppressionList;
@@ -0,0 +1,193 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Role, TeamMember } from '../types';
+import * as api from '../services/apiService';
+import { UserPlusIcon, TrashIcon, LoadingSpinner } from './icons';
+import { ROLES, ROLE_LABELS, ROLE_DESCRIPTIONS, inviteLink } from '../utils/roles';
+
+interface TeamManagerProps {
+  currentUser: api.AuthUser;
+}
+
+const inputClassName = 'px-3 py-2 bg-gray-900 border border-gray-700 rounded-md shadow-sm placeholder-gray-500 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm';
+
+// Team members and their roles. Invitations are links shown here to pass on to the invitee, who
+// opens it to choose a password; the server sends no email.
+const TeamManager: React.FC<TeamManagerProps> = ({ currentUser }) => {
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [username, setUsername] = useState('');
+  const [role, setRole] = useState<Role>('agent');
+  const [isInviting, setIsInviting] = useState(false);
+  // The latest invitation link, only available right after it was created.
+  const [invite, setInvite] = useState<{ username: string; link: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchMembers = useCallback(async () => {
+    try {
+      setMembers(await api.getTeamMembers());
+    } catch (err: any) {
+      setError(err.message || 'Failed to load the team.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchMembers();
+  }, [fetchMembers]);
+
+  // Owners are managed by owners only, and nobody changes their own role.
+  const canManage = (member: TeamMember) => member.id !== currentUser.id && (currentUser.role === 'owner' || member.role !== 'owner');
+  const assignableRoles = ROLES.filter((option) => currentUser.role === 'owner' || option !== 'owner');
+
+  const showInvite = (member: TeamMember, inviteToken: string) => {
+    setInvite({ username: member.username, link: inviteLink(inviteToken) });
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsInviting(true);
+    setError(null);
+    try {
+      const { user, inviteToken } = await api.inviteTeamMember(username.trim(), role);
+      setMembers((prev) => [...prev, user]);
+      showInvite(user, inviteToken);
+      setUsername('');
+    } catch (err: any) {
+      setError(err.message || 'Failed to invite the team member.');
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleRenew = async (member: TeamMember) => {
+    setError(null);
+    try {
+      const { user, inviteToken } = await api.renewInvite(member.id);
+      setMembers((prev) => prev.map((m) => (m.id === user.id ? user : m)));
+      showInvite(user, inviteToken);
+    } catch (err: any) {
+      setError(err.message || 'Failed to renew the invitation.');
+    }
+  };
+
+  const handleRoleChange = async (member: TeamMember, nextRole: Role) => {
+    setError(null);
+    try {
+      const updated = await api.updateTeamMemberRole(member.id, nextRole);
+      setMembers((prev) => prev.map((m) => (m.id === updated.id ? updated : m)));
+    } catch (err: any) {
+      setError(err.message || 'Failed to change the role.');
+    }
+  };
+
+  const handleRemove = async (member: TeamMember) => {
+    const prompt = member.status === 'invited'
+      ? `Withdraw the invitation for "${member.username}"?`
+      : `Remove "${member.username}" from the team? They are logged out at once.`;
+    if (!window.confirm(prompt)) return;
+    setError(null);
+    try {
+      await api.removeTeamMember(member.id);
+      setMembers((prev) => prev.filter((m) => m.id !== member.id));
+      if (invite?.username === member.username) setInvite(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to remove the team member.');
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 p-6 rounded-lg shadow-lg space-y-4">
+      <div>
+        <h2 className="text-xl font-semibold">Team ({members.length})</h2>
+        <p className="text-xs text-gray-400 mt-1">Each member's role decides what they can see and do.</p>
+      </div>
+
+      <form onSubmit={handleInvite} className="flex flex-wrap gap-2">
+        <input
+          type="text"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          className={`${inputClassName} flex-1 min-w-0`}
+          placeholder="Username"
+        />
+        <select value={role} onChange={(e) => setRole(e.target.value as Role)} className={`${inputClassName} text-gray-200`}>
+          {assignableRoles.map((option) => <option key={option} value={option}>{ROLE_LABELS[option]}</option>)}
+        </select>
+        <button
+          type="submit"
+          disabled={isInviting || !username.trim()}
+          className="flex items-center py-2 px-4 rounded-md text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-500/50 disabled:cursor-not-allowed"
+        >
+          {isInviting ? <LoadingSpinner className="h-4 w-4 mr-2" /> : <UserPlusIcon className="h-4 w-4 mr-2" />}
+          Invite
+        </button>
+      </form>
+      <p className="text-xs text-gray-400">{ROLE_LABELS[role]}: {ROLE_DESCRIPTIONS[role]}</p>
+
+      {invite && (
+        <div className="p-3 rounded-md bg-indigo-900/30 text-xs text-indigo-200 space-y-2">
+          <p>Send this link to {invite.username}. It works once, for 7 days, and is not shown again.</p>
+          <div className="flex space-x-2">
+            <input readOnly value={invite.link} onFocus={(e) => e.target.select()} className={`${inputClassName} flex-1 min-w-0 text-xs text-gray-200`} />
+            <button
+              type="button"
+              onClick={() => navigator.clipboard.writeText(invite.link)}
+              className="px-3 rounded-md text-white bg-indigo-600 hover:bg-indigo-700"
+            >
+              Copy
+            </button>
+            <button type="button" onClick={() => setInvite(null)} className="px-2 text-gray-400 hover:text-white">✕</button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {isLoading ? (
+        <div className="flex justify-center"><LoadingSpinner className="h-6 w-6 text-indigo-400" /></div>
+      ) : (
+        <ul className="divide-y divide-gray-700">
+          {members.map((member) => (
+            <li key={member.id} className="flex flex-wrap justify-between items-center gap-2 py-2">
+              <span className="text-sm text-white">
+                {member.username}
+                {member.id === currentUser.id && <span className="text-gray-400"> (you)</span>}
+                {member.status === 'invited' && (
+                  <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-yellow-900/40 text-yellow-300">
+                    {member.inviteExpiresAt && new Date(member.inviteExpiresAt) < new Date() ? 'Invitation expired' : 'Invited'}
+                  </span>
+                )}
+              </span>
+              <div className="flex items-center space-x-3">
+                {member.status === 'invited' && canManage(member) && (
+                  <button type="button" onClick={() => handleRenew(member)} className="text-xs text-indigo-300 hover:text-indigo-100">
+                    New link
+                  </button>
+                )}
+                {canManage(member) ? (
+                  <select
+                    value={member.role}
+                    onChange={(e) => handleRoleChange(member, e.target.value as Role)}
+                    className="px-2 py-1 bg-gray-900 border border-gray-700 rounded-md text-xs text-gray-200"
+                  >
+                    {assignableRoles.map((option) => <option key={option} value={option}>{ROLE_LABELS[option]}</option>)}
+                  </select>
+                ) : (
+                  <span className="text-xs text-gray-400">{ROLE_LABELS[member.role]}</span>
+                )}
+                {canManage(member) && (
+                  <button type="button" onClick={() => handleRemove(member)} className="text-red-400 hover:text-red-600" aria-label={`Remove ${member.username}`}>
+                    <TrashIcon className="h-4 w-4" />
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TeamManager;
@@ -0,0 +1,440 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { MessageTemplate, TemplateButton, TemplateCategory, TemplateComponent } from '../types';
+import * as api from '../services/apiService';
+import { parameterNumbers, findComponent } from '../utils/templates';
+import { DocumentTextIcon, TrashIcon, LoadingSpinner } from './icons';
+import usePermission from '../hooks/usePermission';
+
+type HeaderFormat = 'NONE' | 'TEXT' | 'IMAGE' | 'VIDEO' | 'DOCUMENT';
+
+interface ButtonDraft {
+  type: 'QUICK_REPLY' | 'URL';
+  text: string;
+  url: string;
+}
+
+interface TemplateDraft {
+  name: string;
+  language: string;
+  category: TemplateCategory;
+  headerFormat: HeaderFormat;
+  headerText: string;
+  bodyText: string;
+  footerText: string;
+  buttons: ButtonDraft[];
+  // Sample values Meta needs for review, keyed like the parameter slots: header.1, body.2, button.0
+  examples: Record<string, string>;
+}
+
+const EMPTY_DRAFT: TemplateDraft = {
+  name: '',
+  language: 'en_US',
+  category: 'MARKETING',
+  headerFormat: 'NONE',
+  headerText: '',
+  bodyText: '',
+  footerText: '',
+  buttons: [],
+  examples: {},
+};
+
+const CATEGORIES: TemplateCategory[] = ['MARKETING', 'UTILITY', 'AUTHENTICATION'];
+
+const STATUS_STYLES: Record<string, string> = {
+  APPROVED: 'bg-green-900/60 text-green-200',
+  PENDING: 'bg-yellow-900/60 text-yellow-200',
+  REJECTED: 'bg-red-900/60 text-red-200',
+};
+
+const inputClassName = 'mt-1 block w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-md shadow-sm placeholder-gray-500 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm';
+
+// Turns the form into Meta's component structure, including the review examples.
+const toComponents = (draft: TemplateDraft): TemplateComponent[] => {
+  const example = (prefix: string, text: string) => parameterNumbers(text).map((n) => draft.examples[`${prefix}.${n}`] || '');
+  const components: TemplateComponent[] = [];
+
+  if (draft.headerFormat === 'TEXT') {
+    const headerExamples = example('header', draft.headerText);
+    components.push({
+      type: 'HEADER',
+      format: 'TEXT',
+      text: draft.headerText,
+      ...(headerExamples.length > 0 ? { example: { header_text: headerExamples } } : {}),
+    });
+  } else if (draft.headerFormat !== 'NONE') {
+    components.push({ type: 'HEADER', format: draft.headerFormat });
+  }
+
+  const bodyExamples = example('body', draft.bodyText);
+  components.push({
+    type: 'BODY',
+    text: draft.bodyText,
+    ...(bodyExamples.length > 0 ? { example: { body_text: [bodyExamples] } } : {}),
+  });
+
+  if (draft.footerText.trim()) {
+    components.push({ type: 'FOOTER', text: draft.footerText });
+  }
+
+  const buttons = draft.buttons.filter((button) => button.text.trim());
+  if (buttons.length > 0) {
+    components.push({
+      type: 'BUTTONS',
+      buttons: buttons.map((button, index): TemplateButton => (button.type === 'URL'
+        ? {
+          type: 'URL',
+          text: button.text,
+          url: button.url,
+          ...(parameterNumbers(button.url).length > 0 ? { example: [draft.examples[`button.${index}`] || ''] } : {}),
+        }
+        : { type: 'QUICK_REPLY', text: button.text })),
+    });
+  }
+  return components;
+};
+
+// The reverse of toComponents, for editing an existing template.
+const toDraft = (template: MessageTemplate): TemplateDraft => {
+  const header = findComponent(template, 'HEADER');
+  const body = findComponent(template, 'BODY');
+  const examples: Record<string, string> = {};
+  (header?.example?.header_text || []).forEach((value, i) => { examples[`header.${i + 1}`] = value; });
+  (body?.example?.body_text?.[0] || []).forEach((value, i) => { examples[`body.${i + 1}`] = value; });
+  const buttons = (findComponent(template, 'BUTTONS')?.buttons || [])
+    .filter((button) => button.type === 'URL' || button.type === 'QUICK_REPLY')
+    .map((button, index): ButtonDraft => {
+      if (button.example?.[0]) examples[`button.${index}`] = button.example[0];
+      return { type: button.type === 'URL' ? 'URL' : 'QUICK_REPLY', text: button.text || '', url: button.url || '' };
+    });
+
+  return {
+    name: template.name,
+    language: template.language,
+    category: template.category,
+    headerFormat: header ? (header.format === 'LOCATION' ? 'NONE' : header.format || 'TEXT') : 'NONE',
+    headerText: header?.text || '',
+    bodyText: body?.text || '',
+    footerText: findComponent(template, 'FOOTER')?.text || '',
+    buttons,
+    examples,
+  };
+};
+
+const TemplateManager: React.FC = () => {
+  const canManage = usePermission('templates.manage');
+  const [templates, setTemplates] = useState<MessageTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [status, setStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+  const [draft, setDraft] = useState<TemplateDraft>(EMPTY_DRAFT);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const fetchTemplates = useCallback(async () => {
+    try {
+      setTemplates(await api.getTemplates());
+    } catch (err: any) {
+      setStatus({ type: 'error', message: err.message || 'Failed to load templates.' });
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  const handleSync = async () => {
+    setIsSyncing(true);
+    setStatus(null);
+    try {
+      const result = await api.syncTemplates();
+      setStatus({ type: 'success', message: result.message });
+      await fetchTemplates();
+    } catch (err: any) {
+      setStatus({ type: 'error', message: err.message || 'Sync failed.' });
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const handleDelete = async (template: MessageTemplate) => {
+    if (!window.confirm(`Delete the template "${template.name}" (${template.language})? It is also removed from WhatsApp.`)) return;
+    setStatus(null);
+    try {
+      await api.deleteTemplate(template.id);
+      setTemplates((prev) => prev.filter((t) => t.id !== template.id));
+    } catch (err: any) {
+      setStatus({ type: 'error', message: err.message || 'Failed to delete template.' });
+    }
+  };
+
+  const startEditing = (template: MessageTemplate) => {
+    setEditingId(template.id);
+    setDraft(toDraft(template));
+    setFormError(null);
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setDraft(EMPTY_DRAFT);
+    setFormError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.bodyText.trim()) {
+      setFormError('The template body cannot be empty.');
+      return;
+    }
+    setIsSaving(true);
+    setFormError(null);
+    try {
+      const components = toComponents(draft);
+      const saved = editingId
+        ? await api.updateTemplate(editingId, { category: draft.category, components })
+        : await api.createTemplate({ name: draft.name.trim(), language: draft.language.trim(), category: draft.category, components });
+      setTemplates((prev) => [...prev.filter((t) => t.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)));
+      setStatus({ type: 'success', message: `Template "${saved.name}" submitted for review.` });
+      resetForm();
+    } catch (err: any) {
+      setFormError(err.message || 'Failed to save template.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const update = (changes: Partial<TemplateDraft>) => setDraft((prev) => ({ ...prev, ...changes }));
+  const updateButton = (index: number, changes: Partial<ButtonDraft>) => update({
+    buttons: draft.buttons.map((button, i) => (i === index ? { ...button, ...changes } : button)),
+  });
+
+  // Every parameter in the draft needs a sample value for Meta's review.
+  const exampleFields = [
+    ...(draft.headerFormat === 'TEXT' ? parameterNumbers(draft.headerText).map((n) => ({ key: `header.${n}`, label: `Header {{${n}}}` })) : []),
+    ...parameterNumbers(draft.bodyText).map((n) => ({ key: `body.${n}`, label: `Body {{${n}}}` })),
+    ...draft.buttons.flatMap((button, index) => (button.type === 'URL' && parameterNumbers(button.url).length > 0
+      ? [{ key: `button.${index}`, label: `Button ${index + 1} URL {{1}}` }]
+      : [])),
+  ];
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-5 gap-8">
+      <div className={`${canManage ? 'lg:col-span-2' : 'lg:col-span-5'} bg-gray-800 p-6 rounded-lg shadow-lg space-y-4`}>
+        <div className="flex justify-between items-center">
+          <h2 className="text-xl font-semibold flex items-center">
+            <DocumentTextIcon className="h-6 w-6 mr-3 text-indigo-400" />
+            Templates ({templates.length})
+          </h2>
+          {canManage && (
+            <button
+              onClick={handleSync}
+              disabled={isSyncing}
+              className="flex items-center text-xs px-2 py-1 rounded-md text-gray-200 bg-gray-700 hover:bg-gray-600 disabled:opacity-50"
+            >
+              {isSyncing && <LoadingSpinner className="h-3 w-3 mr-1" />}
+              Sync with WhatsApp
+            </button>
+          )}
+        </div>
+        {status && (
+          <p className={`text-sm ${status.type === 'success' ? 'text-green-400' : 'text-red-400'}`}>{status.message}</p>
+        )}
+        {isLoading ? (
+          <div className="flex justify-center py-6"><LoadingSpinner className="h-6 w-6 text-indigo-400" /></div>
+        ) : templates.length === 0 ? (
+          <p className="text-sm text-gray-400">No templates yet. Create one or sync the ones from WhatsApp Manager.</p>
+        ) : (
+          <ul className="divide-y divide-gray-700">
+            {templates.map((template) => (
+              <li key={template.id} className="py-3 space-y-1">
+                <div className="flex justify-between items-center">
+                  <button onClick={() => startEditing(template)} disabled={!canManage} className="text-sm font-medium text-white enabled:hover:text-indigo-300 disabled:cursor-default text-left">
+                    {template.name} <span className="text-gray-400 font-normal">({template.language})</span>
+                  </button>
+                  <div className="flex items-center space-x-2">
+                    <span className={`text-[10px] px-1.5 py-0.5 rounded ${STATUS_STYLES[template.status] || 'bg-gray-700 text-gray-300'}`}>
+                      {template.status}
+                    </span>
+                    {canManage && (
+                      <button onClick={() => handleDelete(template)} className="text-red-400 hover:text-red-600">
+                        <TrashIcon className="h-4 w-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+                <p className="text-xs text-gray-400 line-clamp-2">{findComponent(template, 'BODY')?.text}</p>
+                {template.rejectedReason && <p className="text-xs text-red-300">Rejected: {template.rejectedReason}</p>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {canManage && (
+        <form onSubmit={handleSubmit} className="lg:col-span-3 bg-gray-800 p-6 rounded-lg shadow-lg space-y-4">
+          <h2 className="text-xl font-semibold">{editingId ? `Edit ${draft.name}` : 'New Template'}</h2>
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="template-name" className="block text-sm font-medium text-gray-300">Name</label>
+              <input
+                id="template-name"
+                value={draft.name}
+                disabled={!!editingId}
+                onChange={(e) => update({ name: e.target.value.toLowerCase().replace(/[^a-z0-9_]/g, '_') })}
+                className={`${inputClassName} disabled:opacity-60`}
+                placeholder="summer_sale"
+              />
+            </div>
+            <div>
+              <label htmlFor="template-language" className="block text-sm font-medium text-gray-300">Language</label>
+              <input
+                id="template-language"
+                value={draft.language}
+                disabled={!!editingId}
+                onChange={(e) => update({ language: e.target.value })}
+                className={`${inputClassName} disabled:opacity-60`}
+                placeholder="en_US"
+              />
+            </div>
+            <div>
+              <label htmlFor="template-category" className="block text-sm font-medium text-gray-300">Category</label>
+              <select
+                id="template-category"
+                value={draft.category}
+                onChange={(e) => update({ category: e.target.value as TemplateCategory })}
+                className={inputClassName}
+              >
+                {CATEGORIES.map((category) => <option key={category} value={category}>{category}</option>)}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="template-header" className="block text-sm font-medium text-gray-300">Header</label>
+            <div className="flex space-x-2">
+              <select
+                id="template-header"
+                value={draft.headerFormat}
+                onChange={(e) => update({ headerFormat: e.target.value as HeaderFormat })}
+                className={`${inputClassName} w-36`}
+              >
+                <option value="NONE">None</option>
+                <option value="TEXT">Text</option>
+                <option value="IMAGE">Image</option>
+                <option value="VIDEO">Video</option>
+                <option value="DOCUMENT">Document</option>
+              </select>
+              {draft.headerFormat === 'TEXT' && (
+                <input
+                  value={draft.headerText}
+                  onChange={(e) => update({ headerText: e.target.value })}
+                  className={inputClassName}
+                  placeholder="Hello {{1}}"
+                />
+              )}
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="template-body" className="block text-sm font-medium text-gray-300">Body</label>
+            <textarea
+              id="template-body"
+              rows={5}
+              value={draft.bodyText}
+              onChange={(e) => update({ bodyText: e.target.value })}
+              className={inputClassName}
+              placeholder="Hi {{1}}, our summer sale starts today with {{2}} off everything."
+            />
+            <p className="text-xs text-gray-400 mt-1">Use {'{{1}}'}, {'{{2}}'}, ... for values filled in per recipient.</p>
+          </div>
+
+          <div>
+            <label htmlFor="template-footer" className="block text-sm font-medium text-gray-300">Footer (optional)</label>
+            <input
+              id="template-footer"
+              value={draft.footerText}
+              onChange={(e) => update({ footerText: e.target.value })}
+              className={inputClassName}
+              placeholder="Reply STOP to unsubscribe"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex justify-between items-center">
+              <span className="block text-sm font-medium text-gray-300">Buttons</span>
+              <div className="space-x-2">
+                <button type="button" onClick={() => update({ buttons: [...draft.buttons, { type: 'QUICK_REPLY', text: '', url: '' }] })} className="text-xs text-indigo-300 hover:text-indigo-200">
+                  + Quick reply
+                </button>
+                <button type="button" onClick={() => update({ buttons: [...draft.buttons, { type: 'URL', text: '', url: '' }] })} className="text-xs text-indigo-300 hover:text-indigo-200">
+                  + Link
+                </button>
+              </div>
+            </div>
+            {draft.buttons.map((button, index) => (
+              <div key={index} className="flex space-x-2 items-center">
+                <input
+                  value={button.text}
+                  onChange={(e) => updateButton(index, { text: e.target.value })}
+                  className={inputClassName}
+                  placeholder={button.type === 'URL' ? 'Link label' : 'Quick reply label'}
+                />
+                {button.type === 'URL' && (
+                  <input
+                    value={button.url}
+                    onChange={(e) => updateButton(index, { url: e.target.value })}
+                    className={inputClassName}
+                    placeholder="https://example.com/{{1}}"
+                  />
+                )}
+                <button type="button" onClick={() => update({ buttons: draft.buttons.filter((_, i) => i !== index) })} className="text-red-400 hover:text-red-600">
+                  <TrashIcon className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {exampleFields.length > 0 && (
+            <div className="space-y-2">
+              <span className="block text-sm font-medium text-gray-300">Sample values for review</span>
+              <div className="grid grid-cols-2 gap-2">
+                {exampleFields.map(({ key, label }) => (
+                  <label key={key} className="text-xs text-gray-400">
+                    {label}
+                    <input
+                      value={draft.examples[key] || ''}
+                      onChange={(e) => update({ examples: { ...draft.examples, [key]: e.target.value } })}
+                      className={inputClassName}
+                    />
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {formError && <p className="text-sm text-red-400">{formError}</p>}
+
+          <div className="flex space-x-2">
+            {editingId && (
+              <button type="button" onClick={resetForm} className="flex-1 py-2 px-4 rounded-md text-sm font-medium text-gray-300 bg-gray-700 hover:bg-gray-600">
+                Cancel
+              </button>
+            )}
+            <button
+              type="submit"
+              disabled={isSaving || (!editingId && !draft.name)}
+              className="flex-1 flex justify-center items-center py-2 px-4 rounded-md text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-500/50 disabled:cursor-not-allowed"
+            >
+              {isSaving && <LoadingSpinner className="h-4 w-4 mr-2" />}
+              {editingId ? 'Save and resubmit' : 'Submit for approval'}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default TemplateManager;
@@ -0,0 +1,129 @@
+import React, { useState, useEffect } from 'react';
+import { MessageTemplate, MessageVariables, TemplateParameterMapping, TemplateParameterSlot, TemplateParameterValue } from '../types';
+import * as api from '../services/apiService';
+import { findComponent, fillParameters } from '../utils/templates';
+import { LoadingSpinner } from './icons';
+
+interface TemplateParameterMapperProps {
+  templateId: string;
+  mapping: TemplateParameterMapping;
+  onChange: (template: MessageTemplate | null, mapping: TemplateParameterMapping) => void;
+}
+
+const FIXED_VALUE = '__fixed__';
+
+const selectClassName = 'px-2 py-1 bg-gray-900 border border-gray-700 rounded-md text-xs text-gray-200 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500';
+const inputClassName = 'flex-1 min-w-0 px-2 py-1 bg-gray-900 border border-gray-700 rounded-md text-xs placeholder-gray-500 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500';
+
+const slotLabel = (slot: TemplateParameterSlot) => {
+  if (slot.component === 'button') return `Button ${(slot.buttonIndex ?? 0) + 1} link {{1}}`;
+  return `${slot.component === 'header' ? 'Header' : 'Body'} {{${slot.index}}}`;
+};
+
+// Shows what the mapping puts in each parameter, for the template preview.
+const previewValue = (value: TemplateParameterValue | undefined) => {
+  if (!value) return '';
+  return value.source === 'text' ? value.value : `[${value.variable}]`;
+};
+
+// Composer section for sending an approved template: picks the template and maps each of its
+// parameters to a contact field or a fixed value.
+const TemplateParameterMapper: React.FC<TemplateParameterMapperProps> = ({ templateId, mapping, onChange }) => {
+  const [templates, setTemplates] = useState<MessageTemplate[] | null>(null);
+  const [variables, setVariables] = useState<MessageVariables | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([api.getTemplates(), api.getMessageVariables()])
+      .then(([fetchedTemplates, fetchedVariables]) => {
+        setTemplates(fetchedTemplates.filter((template) => template.status === 'APPROVED'));
+        setVariables(fetchedVariables);
+      })
+      .catch((err) => setError(err.message || 'Failed to load templates.'));
+  }, []);
+
+  if (error) return <p className="text-sm text-red-400">{error}</p>;
+  if (!templates) return <LoadingSpinner className="h-5 w-5 text-indigo-400" />;
+  if (templates.length === 0) {
+    return <p className="text-sm text-gray-400">No approved templates yet. Create one on the Templates tab and wait for WhatsApp to approve it.</p>;
+  }
+
+  const template = templates.find((t) => t.id === templateId) || null;
+  const textSlots = template ? template.parameters.filter((slot) => slot.key !== 'header.media') : [];
+  const mediaSlot = template?.parameters.find((slot) => slot.key === 'header.media');
+  const variableNames = [...(variables?.builtIn || []), ...(variables?.attributes || []).map((attribute) => attribute.name)];
+
+  const selectTemplate = (id: string) => {
+    const selected = templates.find((t) => t.id === id) || null;
+    // Start every parameter on the recipient's first name; the most common choice for {{1}}.
+    const initial: TemplateParameterMapping = {};
+    selected?.parameters.forEach((slot) => {
+      if (slot.key !== 'header.media') initial[slot.key] = { source: 'variable', variable: 'first_name', fallback: '' };
+    });
+    onChange(selected, initial);
+  };
+
+  const setSlot = (key: string, value: TemplateParameterValue) => onChange(template, { ...mapping, [key]: value });
+
+  const values = (component: 'header' | 'body') => Object.fromEntries(
+    textSlots.filter((slot) => slot.component === component).map((slot) => [slot.index, previewValue(mapping[slot.key])])
+  );
+
+  return (
+    <div className="space-y-3">
+      <select value={templateId} onChange={(e) => selectTemplate(e.target.value)} className={`${selectClassName} w-full py-2 text-sm`}>
+        <option value="">Choose an approved template...</option>
+        {templates.map((t) => <option key={t.id} value={t.id}>{t.name} ({t.language})</option>)}
+      </select>
+
+      {template && (
+        <>
+          <div className="p-3 rounded-md bg-gray-900 border border-gray-700 text-sm text-gray-100 space-y-1 whitespace-pre-wrap break-words">
+            {mediaSlot && <p className="text-xs text-gray-400">[{mediaSlot.format?.toLowerCase()} header from the media field below]</p>}
+            {findComponent(template, 'HEADER')?.text && (
+              <p className="font-semibold">{fillParameters(findComponent(template, 'HEADER')?.text || '', values('header'))}</p>
+            )}
+            <p>{fillParameters(findComponent(template, 'BODY')?.text || '', values('body'))}</p>
+            {findComponent(template, 'FOOTER')?.text && <p className="text-xs text-gray-400">{findComponent(template, 'FOOTER')?.text}</p>}
+          </div>
+
+          {textSlots.map((slot) => {
+            const value = mapping[slot.key];
+            return (
+              <div key={slot.key} className="flex items-center space-x-2">
+                <span className="w-32 shrink-0 text-xs text-gray-400">{slotLabel(slot)}</span>
+                <select
+                  value={value?.source === 'variable' ? value.variable : FIXED_VALUE}
+                  onChange={(e) => setSlot(slot.key, e.target.value === FIXED_VALUE
+                    ? { source: 'text', value: slot.example || '' }
+                    : { source: 'variable', variable: e.target.value, fallback: value?.source === 'variable' ? value.fallback : '' })}
+                  className={selectClassName}
+                >
+                  {variableNames.map((name) => <option key={name} value={name}>Contact: {name}</option>)}
+                  <option value={FIXED_VALUE}>Fixed value</option>
+                </select>
+                {value?.source === 'text' ? (
+                  <input
+                    value={value.value}
+                    onChange={(e) => setSlot(slot.key, { source: 'text', value: e.target.value })}
+                    className={inputClassName}
+                    placeholder={slot.example || 'Value for everyone'}
+                  />
+                ) : (
+                  <input
+                    value={value?.fallback || ''}
+                    onChange={(e) => setSlot(slot.key, { source: 'variable', variable: value?.variable || 'first_name', fallback: e.target.value })}
+                    className={inputClassName}
+                    placeholder="Fallback if empty"
+                  />
+                )}
+              </div>
+            );
+          })}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TemplateParameterMapper;
@@ -0,0 +1,223 @@
+import React, { useState, useEffect } from 'react';
+import { Audience, AudienceLanguage, CampaignTranslation } from '../types';
+import * as api from '../services/apiService';
+import { SparklesIcon, LoadingSpinner } from './icons';
+import LanguageSelect from './LanguageSelect';
+import { languageLabel } from '../utils/languages';
+
+interface TranslationReviewProps {
+  audience: Audience;
+  heading: string;
+  content: string;
+  // Language the heading and content are written in.
+  language: string;
+  onLanguageChange: (language: string) => void;
+  translations: CampaignTranslation[];
+  // Called with the translations and the text they were made from.
+  onTranslationsChange: (translations: CampaignTranslation[], source: string) => void;
+  // The text the current translations were made from; they are stale when the message changed since.
+  translatedSource: string | null;
+}
+
+const LANGUAGES_DEBOUNCE_MS = 500;
+
+const inputClasses = 'w-full px-2 py-1 bg-gray-900 border border-gray-700 rounded-md text-sm text-gray-200 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500';
+
+const baseLanguage = (code: string) => code.split('-')[0];
+
+// The text translations are made from, to notice when the message changes afterwards.
+export const translationSource = (heading: string, content: string, language: string) => `${language}\n${heading}\n${content}`;
+
+// Translates the message with AI into the languages the audience's contacts prefer, and shows each
+// translation next to the original so it can be corrected before sending. Recipients without a
+// preferred language, or one without a translation, get the original.
+const TranslationReview: React.FC<TranslationReviewProps> = ({
+  audience,
+  heading,
+  content,
+  language,
+  onLanguageChange,
+  translations,
+  onTranslationsChange,
+  translatedSource,
+}) => {
+  const [audienceLanguages, setAudienceLanguages] = useState<AudienceLanguage[]>([]);
+  const [translating, setTranslating] = useState<string[]>([]);
+  // Problems per language: a failed translation, or placeholders it lost.
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const result = await api.getAudienceLanguages(audience);
+        if (!cancelled) setAudienceLanguages(result);
+      } catch {
+        // Incomplete audiences are rejected; the recipient picker already explains why.
+        if (!cancelled) setAudienceLanguages([]);
+      }
+    }, LANGUAGES_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [audience]);
+
+  // Contacts whose language only differs from the message's by region read the original.
+  const targetLanguages = audienceLanguages
+    .map((entry) => entry.language)
+    .filter((code): code is string => Boolean(code) && baseLanguage(code as string) !== baseLanguage(language));
+
+  const source = translationSource(heading, content, language);
+  const isStale = translations.length > 0 && translatedSource !== source;
+
+  const translate = async (languages: string[]) => {
+    if (!heading.trim() && !content.trim()) {
+      setError('Please write the message before translating it.');
+      return;
+    }
+    setTranslating(languages);
+    setError(null);
+    try {
+      const { translations: suggestions } = await api.translateMessage({ heading, content, language }, languages);
+      const nextNotes = { ...notes };
+      const next = translations.filter((translation) => !languages.includes(translation.language));
+      suggestions.forEach((suggestion) => {
+        delete nextNotes[suggestion.language];
+        if (suggestion.error) {
+          nextNotes[suggestion.language] = suggestion.error;
+          return;
+        }
+        if (suggestion.missingPlaceholders && suggestion.missingPlaceholders.length > 0) {
+          nextNotes[suggestion.language] = `Check the placeholders: ${suggestion.missingPlaceholders.join(', ')} is missing from the translation.`;
+        }
+        next.push({ language: suggestion.language, heading: suggestion.heading || '', content: suggestion.content || '' });
+      });
+      setNotes(nextNotes);
+      // Translating only some languages again leaves the others as fresh or stale as they were.
+      const isComplete = targetLanguages.every((code) => languages.includes(code));
+      onTranslationsChange(
+        targetLanguages.flatMap((code) => next.filter((t) => t.language === code)),
+        isComplete ? source : translatedSource ?? source,
+      );
+    } catch (err: any) {
+      setError(err.message || 'Failed to translate the message.');
+    } finally {
+      setTranslating([]);
+    }
+  };
+
+  const updateTranslation = (code: string, changes: Partial<CampaignTranslation>) => {
+    onTranslationsChange(
+      translations.map((translation) => (translation.language === code ? { ...translation, ...changes } : translation)),
+      translatedSource ?? source,
+    );
+  };
+
+  const removeTranslation = (code: string) => {
+    onTranslationsChange(translations.filter((translation) => translation.language !== code), translatedSource ?? source);
+  };
+
+  const countFor = (code: string | null) => audienceLanguages.find((entry) => entry.language === code)?.count || 0;
+  const missing = targetLanguages.filter((code) => !translations.some((translation) => translation.language === code));
+
+  return (
+    <div className="border border-gray-700 rounded-lg p-3 space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-xs text-gray-300">
+        <label htmlFor="messageLanguage">Message written in</label>
+        <LanguageSelect id="messageLanguage" value={language} onChange={onLanguageChange} className="text-xs" />
+      </div>
+
+      <p className="text-xs text-gray-400">
+        {audienceLanguages.length === 0
+          ? 'Counting the recipients\' languages...'
+          : audienceLanguages.map((entry) => `${entry.language ? languageLabel(entry.language) : 'No language set'}: ${entry.count}`).join(' · ')}
+      </p>
+
+      {targetLanguages.length === 0 ? (
+        audienceLanguages.length > 0 && <p className="text-xs text-gray-400">Every recipient reads the message's own language, so nothing needs translating.</p>
+      ) : (
+        <button
+          type="button"
+          onClick={() => translate(targetLanguages)}
+          disabled={translating.length > 0}
+          className="flex items-center text-xs px-2 py-1 rounded-md text-indigo-300 bg-indigo-900/50 hover:bg-indigo-900/80 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {translating.length > 0 && translating.length === targetLanguages.length ? <LoadingSpinner className="h-4 w-4 mr-1" /> : <SparklesIcon className="h-4 w-4 mr-1" />}
+          {translations.length > 0 ? 'Translate all again' : `Translate into ${targetLanguages.length} ${targetLanguages.length === 1 ? 'language' : 'languages'}`}
+        </button>
+      )}
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      {isStale && (
+        <p className="text-xs text-yellow-300">The message changed after it was translated. Translate again, or check that the translations below still match it.</p>
+      )}
+      {missing.length > 0 && translations.length > 0 && (
+        <p className="text-xs text-gray-400">
+          No translation for {missing.map(languageLabel).join(', ')}; those recipients get the original.
+        </p>
+      )}
+
+      {translations.map((translation) => (
+        <div key={translation.language} className="bg-gray-900/60 rounded-md p-2 space-y-2">
+          <div className="flex justify-between items-center">
+            <span className="text-xs font-medium text-gray-200">
+              {languageLabel(translation.language)} <span className="text-gray-500">· {countFor(translation.language)} recipients</span>
+            </span>
+            <div className="flex items-center space-x-3 text-xs">
+              <button
+                type="button"
+                onClick={() => translate([translation.language])}
+                disabled={translating.length > 0}
+                className="flex items-center text-indigo-300 hover:text-indigo-100 disabled:opacity-50"
+              >
+                {translating.includes(translation.language) && <LoadingSpinner className="h-3 w-3 mr-1" />}
+                Translate again
+              </button>
+              <button type="button" onClick={() => removeTranslation(translation.language)} className="text-gray-400 hover:text-red-400">
+                Remove
+              </button>
+            </div>
+          </div>
+          {notes[translation.language] && <p className="text-xs text-yellow-300">{notes[translation.language]}</p>}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <span className="block text-[11px] text-gray-500">Original ({languageLabel(language)})</span>
+              {heading && <p className="text-sm text-gray-400 px-2 py-1">{heading}</p>}
+              <p className="text-sm text-gray-400 whitespace-pre-wrap px-2 py-1">{content}</p>
+            </div>
+            <div className="space-y-1">
+              <span className="block text-[11px] text-gray-500">{languageLabel(translation.language)}</span>
+              {heading && (
+                <input
+                  value={translation.heading}
+                  onChange={(e) => updateTranslation(translation.language, { heading: e.target.value })}
+                  className={inputClasses}
+                  aria-label={`Heading in ${languageLabel(translation.language)}`}
+                />
+              )}
+              <textarea
+                rows={4}
+                value={translation.content}
+                onChange={(e) => updateTranslation(translation.language, { content: e.target.value })}
+                className={inputClasses}
+                aria-label={`Content in ${languageLabel(translation.language)}`}
+              />
+            </div>
+          </div>
+        </div>
+      ))}
+
+      {missing.some((code) => notes[code]) && (
+        <div className="space-y-1">
+          {missing.filter((code) => notes[code]).map((code) => (
+            <p key={code} className="text-xs text-red-400">{languageLabel(code)}: {notes[code]}</p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TranslationReview;
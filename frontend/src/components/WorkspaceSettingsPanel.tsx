@@ -0,0 +1,124 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { AiProviderInfo, AiProviderName, WorkspaceSettings } from '../types';
+import * as api from '../services/apiService';
+import { countryOptions } from '../utils/phone';
+
+interface WorkspaceSettingsPanelProps {
+  settings: WorkspaceSettings;
+  onSaved: (settings: WorkspaceSettings) => void;
+}
+
+const WorkspaceSettingsPanel: React.FC<WorkspaceSettingsPanelProps> = ({ settings, onSaved }) => {
+  const [defaultCountry, setDefaultCountry] = useState(settings.defaultCountry || '');
+  const [aiProvider, setAiProvider] = useState<AiProviderName | ''>(settings.ai.provider || '');
+  const [aiModel, setAiModel] = useState(settings.ai.model || '');
+  const [providers, setProviders] = useState<AiProviderInfo[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [status, setStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+  const countries = useMemo(countryOptions, []);
+
+  // The settings may still be loading when the panel first renders.
+  useEffect(() => {
+    setDefaultCountry(settings.defaultCountry || '');
+  }, [settings.defaultCountry]);
+
+  useEffect(() => {
+    setAiProvider(settings.ai.provider || '');
+    setAiModel(settings.ai.model || '');
+  }, [settings.ai.provider, settings.ai.model]);
+
+  useEffect(() => {
+    api.getAiProviders()
+      .then(setProviders)
+      .catch((err) => console.error('Failed to load AI providers.', err));
+  }, []);
+
+  const serverDefault = providers.find((provider) => provider.isDefault);
+  const effectiveProvider = providers.find((provider) => provider.name === (aiProvider || serverDefault?.name));
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setStatus(null);
+    try {
+      onSaved(await api.updateSettings({
+        defaultCountry: defaultCountry || null,
+        ai: { provider: aiProvider || null, model: aiModel.trim() || null },
+      }));
+      setStatus({ type: 'success', message: 'Settings saved.' });
+    } catch (err: any) {
+      setStatus({ type: 'error', message: err.message || 'Failed to save settings.' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 p-6 rounded-lg shadow-lg max-w-xl">
+      <h2 className="text-xl font-semibold mb-4">Workspace Settings</h2>
+      <form onSubmit={handleSave} className="space-y-4">
+        <div>
+          <label htmlFor="defaultCountry" className="block text-sm font-medium text-gray-300">Default country for phone numbers</label>
+          <select
+            id="defaultCountry"
+            value={defaultCountry}
+            onChange={(e) => setDefaultCountry(e.target.value)}
+            className="mt-1 block w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-md text-sm text-gray-200 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+          >
+            <option value="">None (numbers need a + and country code)</option>
+            {countries.map(({ code, label }) => <option key={code} value={code}>{label}</option>)}
+          </select>
+          <p className="text-xs text-gray-400 mt-1">
+            Numbers typed or imported without a country code, like "0300 1234567", are read as numbers of this country.
+          </p>
+        </div>
+        <div>
+          <label htmlFor="aiProvider" className="block text-sm font-medium text-gray-300">AI provider for writing help</label>
+          <select
+            id="aiProvider"
+            value={aiProvider}
+            onChange={(e) => setAiProvider(e.target.value as AiProviderName | '')}
+            className="mt-1 block w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-md text-sm text-gray-200 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+          >
+            <option value="">Server default{serverDefault ? ` (${serverDefault.label})` : ''}</option>
+            {providers.map((provider) => (
+              <option key={provider.name} value={provider.name}>
+                {provider.label}{provider.configured ? '' : ' (not set up on the server)'}
+              </option>
+            ))}
+          </select>
+          {effectiveProvider && !effectiveProvider.configured && (
+            <p className="text-xs text-yellow-300 mt-1">The server has no key or endpoint for this provider, so AI requests will fail.</p>
+          )}
+          {effectiveProvider?.name === 'fake' && (
+            <p className="text-xs text-gray-400 mt-1">Writes fixed sample text without calling a model, for demos and testing.</p>
+          )}
+        </div>
+        <div>
+          <label htmlFor="aiModel" className="block text-sm font-medium text-gray-300">AI model</label>
+          <input
+            type="text"
+            id="aiModel"
+            value={aiModel}
+            onChange={(e) => setAiModel(e.target.value)}
+            placeholder={effectiveProvider ? effectiveProvider.defaultModel : ''}
+            className="mt-1 block w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-md text-sm text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+          />
+          <p className="text-xs text-gray-400 mt-1">Leave empty to use the provider's default model.</p>
+        </div>
+        {status && (
+          <p className={`text-sm ${status.type === 'success' ? 'text-green-300' : 'text-red-400'}`}>{status.message}</p>
+        )}
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="py-2 px-4 rounded-md text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-500/50 disabled:cursor-not-allowed"
+        >
+          {isSaving ? 'Saving...' : 'Save'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default WorkspaceSettingsPanel;
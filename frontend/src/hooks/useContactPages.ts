@@ -0,0 +1,91 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Contact } from '../types';
+import * as api from '../services/apiService';
+
+const PAGE_SIZE = 50;
+
+interface ContactPages {
+  contacts: Contact[];
+  // Contacts matching the filters, counted when the first page loads.
+  total: number | null;
+  hasMore: boolean;
+  isLoading: boolean;
+  isLoadingMore: boolean;
+  error: string | null;
+  loadMore: () => void;
+  reload: () => void;
+  // Drops a contact from the loaded pages right away, e.g. while it is being deleted.
+  removeLocally: (id: string) => void;
+  // Shows an edited contact in place without reloading the pages.
+  replaceLocally: (contact: Contact) => void;
+}
+
+// Loads the contact list a page at a time through the API's cursor. The pages start over whenever
+// the filters, the sort or `version` change; bump `version` after contacts were added or edited.
+function useContactPages(filters: api.ContactFilters, sort: api.ContactPageOptions, version: number): ContactPages {
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [total, setTotal] = useState<number | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reloads, setReloads] = useState(0);
+  // Responses for an earlier query are ignored once the query has changed.
+  const requestId = useRef(0);
+
+  const queryKey = JSON.stringify({ filters, sort });
+
+  useEffect(() => {
+    const id = ++requestId.current;
+    setIsLoading(true);
+    setError(null);
+    const { filters: currentFilters, sort: currentSort } = JSON.parse(queryKey);
+    api.getContacts(currentFilters, { ...currentSort, limit: PAGE_SIZE })
+      .then((page) => {
+        if (id !== requestId.current) return;
+        setContacts(page.contacts);
+        setTotal(page.total);
+        setNextCursor(page.nextCursor);
+      })
+      .catch((err) => {
+        if (id !== requestId.current) return;
+        setError(err.message || 'Failed to load contacts.');
+      })
+      .finally(() => {
+        if (id === requestId.current) setIsLoading(false);
+      });
+  }, [queryKey, version, reloads]);
+
+  const loadMore = useCallback(() => {
+    if (!nextCursor || isLoading || isLoadingMore) return;
+    const id = requestId.current;
+    const { filters: currentFilters, sort: currentSort } = JSON.parse(queryKey);
+    setIsLoadingMore(true);
+    api.getContacts(currentFilters, { ...currentSort, limit: PAGE_SIZE, cursor: nextCursor })
+      .then((page) => {
+        if (id !== requestId.current) return;
+        setContacts((prev) => [...prev, ...page.contacts]);
+        setNextCursor(page.nextCursor);
+      })
+      .catch((err) => {
+        if (id !== requestId.current) return;
+        setError(err.message || 'Failed to load more contacts.');
+      })
+      .finally(() => setIsLoadingMore(false));
+  }, [queryKey, nextCursor, isLoading, isLoadingMore]);
+
+  const reload = useCallback(() => setReloads((count) => count + 1), []);
+
+  const removeLocally = useCallback((id: string) => {
+    setContacts((prev) => prev.filter((contact) => contact.id !== id));
+    setTotal((prev) => (prev === null ? prev : Math.max(prev - 1, 0)));
+  }, []);
+
+  const replaceLocally = useCallback((updated: Contact) => {
+    setContacts((prev) => prev.map((contact) => (contact.id === updated.id ? updated : contact)));
+  }, []);
+
+  return { contacts, total, hasMore: nextCursor !== null, isLoading, isLoadingMore, error, loadMore, reload, removeLocally, replaceLocally };
+}
+
+export default useContactPages;
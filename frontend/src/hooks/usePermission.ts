@@ -0,0 +1,14 @@
+import { createContext, useContext } from 'react';
+import { Permission } from '../types';
+
+// The logged-in user's permissions, provided by DashboardPage. Empty until the user is loaded,
+// so restricted actions stay hidden rather than flash up and disappear.
+export const PermissionsContext = createContext<Permission[]>([]);
+
+// Whether the logged-in user's role allows `permission`. The server checks every request as well;
+// this only hides what the role cannot use.
+function usePermission(permission: Permission): boolean {
+  return useContext(PermissionsContext).includes(permission);
+}
+
+export default usePermission;
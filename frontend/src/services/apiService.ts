@@ -1,15 +1,60 @@
-import { Contact } from '../types';
+import { Permission, Role, TeamMember, AiAction, AiGenerationOptions, AiProviderInfo, AudienceLanguage, CampaignLanguageStats, CampaignTranslation, MessageCheck, TranslationSuggestion, Contact, ContactPage, ContactSort, BulkResult, AttributeCondition, AttributeValue, WorkspaceSettings, CampaignSchedule, MessageTemplate, TemplateParameterMapping, MessageVariables, PersonalizationCheck, ConsentEvent, ConsentStatus, Suppression, Group, TagSummary, Audience, Campaign, CampaignDetail, CampaignStatus, RecipientStatus, RecipientPage, DeliveryTimeline, FailureReason, AnalyticsOverview, Conversation, ConversationMessage, MediaItem, MediaType, ImportMapping, ImportPreview, ImportReport } from '../types';
 
 const API_BASE_URL = '/api';
 
 interface SendMessagePayload {
   heading: string;
   content: string;
-  mediaFile: File | null;
-  contacts: Contact[];
+  // A file from the media library.
+  mediaId: string | null;
+  audience: Audience;
+  // Sends an approved WhatsApp template instead of the heading and content.
+  template?: { templateId: string; parameters: TemplateParameterMapping };
+  // Sends later instead of right away.
+  schedule?: CampaignSchedule;
+  // Language of the heading and content, and versions for recipients who prefer other languages.
+  language?: string | null;
+  translations?: CampaignTranslation[];
+  // The sender has seen and accepted the pre-send check's warnings.
+  confirmWarnings?: boolean;
 }
 
+export interface AuthUser {
+  id: string;
+  username: string;
+  role: Role;
+  permissions: Permission[];
+  createdAt: string;
+}
+
+// The token is written by `useLocalStorage` in App.tsx, which stores values JSON-encoded.
+export const AUTH_TOKEN_KEY = 'admin-auth-token';
+
+const getAuthToken = (): string | null => {
+  try {
+    const item = window.localStorage.getItem(AUTH_TOKEN_KEY);
+    return item ? JSON.parse(item) : null;
+  } catch {
+    return null;
+  }
+};
+
+const authHeaders = (): Record<string, string> => {
+  const token = getAuthToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+};
+
+let unauthorizedHandler: (() => void) | null = null;
+
+// Registers the callback that sends the user back to the login page when the server rejects their session.
+export const setUnauthorizedHandler = (handler: (() => void) | null) => {
+  unauthorizedHandler = handler;
+};
+
 const handleResponse = async (response: Response) => {
+  if (response.status === 401 && unauthorizedHandler) {
+    unauthorizedHandler();
+  }
   if (!response.ok) {
     const errorData = await response.json().catch(() => ({ message: 'An unknown error occurred.' }));
     throw new Error(errorData.message || `HTTP error! status: ${response.status}`);
@@ -17,40 +62,509 @@ const handleResponse = async (response: Response) => {
   return response.json();
 };
 
-export const getContacts = async (): Promise<Contact[]> => {
-  const response = await fetch(`${API_BASE_URL}/contacts`);
+export const login = async (username: string, password: string): Promise<{ token: string; user: AuthUser }> => {
+  const response = await fetch(`${API_BASE_URL}/auth/login`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ username, password }),
+  });
+  return handleResponse(response);
+};
+
+export const logout = async (): Promise<{ success: boolean }> => {
+  const response = await fetch(`${API_BASE_URL}/auth/logout`, {
+    method: 'POST',
+    headers: authHeaders(),
+  });
+  return handleResponse(response);
+};
+
+export const getCurrentUser = async (): Promise<AuthUser> => {
+  const response = await fetch(`${API_BASE_URL}/auth/me`, {
+    headers: authHeaders(),
+  });
+  return handleResponse(response);
+};
+
+// Sets the password of an invited team member and logs them in.
+export const acceptInvite = async (token: string, password: string): Promise<{ token: string; user: AuthUser }> => {
+  const response = await fetch(`${API_BASE_URL}/auth/accept-invite`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ token, password }),
+  });
+  return handleResponse(response);
+};
+
+export const getTeamMembers = async (): Promise<TeamMember[]> => {
+  const response = await fetch(`${API_BASE_URL}/users`, {
+    headers: authHeaders(),
+  });
+  return handleResponse(response);
+};
+
+// Invites a team member; `inviteToken` goes into the invitation link and is only returned once.
+export const inviteTeamMember = async (username: string, role: Role): Promise<{ user: TeamMember; inviteToken: string }> => {
+  const response = await fetch(`${API_BASE_URL}/users`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...authHeaders(),
+    },
+    body: JSON.stringify({ username, role }),
+  });
+  return handleResponse(response);
+};
+
+export const renewInvite = async (id: string): Promise<{ user: TeamMember; inviteToken: string }> => {
+  const response = await fetch(`${API_BASE_URL}/users/${id}/invite`, {
+    method: 'POST',
+    headers: authHeaders(),
+  });
   return handleResponse(response);
 };
 
-export const addContact = async (contactData: Omit<Contact, 'id'>): Promise<Contact> => {
+export const updateTeamMemberRole = async (id: string, role: Role): Promise<TeamMember> => {
+  const response = await fetch(`${API_BASE_URL}/users/${id}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+      ...authHeaders(),
+    },
+    body: JSON.stringify({ role }),
+  });
+  return handleResponse(response);
+};
+
+export const removeTeamMember = async (id: string): Promise<{ success: boolean }> => {
+  const response = await fetch(`${API_BASE_URL}/users/${id}`, {
+    method: 'DELETE',
+    headers: authHeaders(),
+  });
+  return handleResponse(response);
+};
+
+export interface ContactFilters {
+  search?: string;
+  tags?: string;
+  excludeTags?: string;
+  group?: string;
+  consent?: ConsentStatus;
+  // ISO 3166 country of the phone number.
+  country?: string;
+  // Every condition has to match.
+  attributes?: AttributeCondition[];
+}
+
+const toQueryString = (params: Record<string, string | undefined>) => {
+  const query = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value) query.set(key, value);
+  });
+  const result = query.toString();
+  return result ? `?${result}` : '';
+};
+
+const contactFilterParams = ({ attributes, ...filters }: ContactFilters) => ({
+  ...filters,
+  attributes: attributes && attributes.length > 0 ? JSON.stringify(attributes) : undefined,
+});
+
+export interface ContactPageOptions {
+  sort?: ContactSort;
+  order?: 'asc' | 'desc';
+  limit?: number;
+  // `nextCursor` of the previous page.
+  cursor?: string;
+}
+
+// Contacts picked for a bulk action: the ticked rows, or every contact matching the list's filters
+// except the rows unticked afterwards.
+export type ContactSelection =
+  | { contactIds: string[] }
+  | { filter: ContactFilters; excludeIds?: string[] };
+
+const selectionBody = (selection: ContactSelection) => ('contactIds' in selection
+  ? { contactIds: selection.contactIds }
+  : { filter: contactFilterParams(selection.filter), excludeIds: selection.excludeIds || [] });
+
+export const getContacts = async (filters: ContactFilters = {}, page: ContactPageOptions = {}): Promise<ContactPage> => {
+  const params = {
+    ...contactFilterParams(filters),
+    sort: page.sort,
+    order: page.order,
+    limit: page.limit ? String(page.limit) : undefined,
+    cursor: page.cursor,
+  };
+  const response = await fetch(`${API_BASE_URL}/contacts${toQueryString(params)}`, {
+    headers: authHeaders(),
+  });
+  return handleResponse(response);
+};
+
+export const addContact = async (contactData: Pick<Contact, 'name' | 'phone'> & { language?: string | null; tags?: string[]; attributes?: Record<string, AttributeValue> }): Promise<Contact> => {
   const response = await fetch(`${API_BASE_URL}/contacts`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
+      ...authHeaders(),
     },
     body: JSON.stringify(contactData),
   });
   return handleResponse(response);
 };
 
+// Changes only the fields given. Attributes are merged into the contact's values; null clears one.
+export interface ContactUpdate {
+  name?: string;
+  phone?: string;
+  // Null clears the preferred language.
+  language?: string | null;
+  tags?: string[];
+  attributes?: Record<string, AttributeValue | null>;
+}
+
+export const updateContact = async (id: string, update: ContactUpdate): Promise<Contact> => {
+  const response = await fetch(`${API_BASE_URL}/contacts/${id}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+      ...authHeaders(),
+    },
+    body: JSON.stringify(update),
+  });
+  return handleResponse(response);
+};
+
 export const deleteContact = async (id: string): Promise<{ success: boolean }> => {
   const response = await fetch(`${API_BASE_URL}/contacts/${id}`, {
     method: 'DELETE',
+    headers: authHeaders(),
   });
   return handleResponse(response);
 };
 
-export const sendBulkMessage = async (payload: SendMessagePayload): Promise<{ message: string }> => {
+export const deleteContacts = async (selection: ContactSelection): Promise<BulkResult> => {
+  const response = await fetch(`${API_BASE_URL}/contacts/bulk/delete`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...authHeaders(),
+    },
+    body: JSON.stringify(selectionBody(selection)),
+  });
+  return handleResponse(response);
+};
+
+// Returns the ids of the contacts a selection covers, e.g. to message exactly those contacts.
+export const resolveContactSelection = async (selection: ContactSelection): Promise<{ contactIds: string[] }> => {
+  const response = await fetch(`${API_BASE_URL}/contacts/bulk/resolve`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...authHeaders(),
+    },
+    body: JSON.stringify(selectionBody(selection)),
+  });
+  return handleResponse(response);
+};
+
+export const updateContactConsent = async (id: string, status: ConsentStatus, note: string): Promise<Contact> => {
+  const response = await fetch(`${API_BASE_URL}/contacts/${id}/consent`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...authHeaders(),
+    },
+    body: JSON.stringify({ status, note }),
+  });
+  return handleResponse(response);
+};
+
+// Bulk consent changes only opt out; contacts are opted back in one at a time.
+export const optOutContacts = async (selection: ContactSelection, note: string): Promise<BulkResult> => {
+  const response = await fetch(`${API_BASE_URL}/contacts/bulk/opt-out`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...authHeaders(),
+    },
+    body: JSON.stringify({ ...selectionBody(selection), note }),
+  });
+  return handleResponse(response);
+};
+
+export const getConsentEvents = async (id: string): Promise<ConsentEvent[]> => {
+  const response = await fetch(`${API_BASE_URL}/contacts/${id}/consent-events`, {
+    headers: authHeaders(),
+  });
+  return handleResponse(response);
+};
+
+export const getSuppressions = async (): Promise<Suppression[]> => {
+  const response = await fetch(`${API_BASE_URL}/suppressions`, {
+    headers: authHeaders(),
+  });
+  return handleResponse(response);
+};
+
+export const addSuppression = async (phone: string, reason: string): Promise<Suppression> => {
+  const response = await fetch(`${API_BASE_URL}/suppressions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...authHeaders(),
+    },
+    body: JSON.stringify({ phone, reason }),
+  });
+  return handleResponse(response);
+};
+
+export const deleteSuppression = async (id: string): Promise<{ success: boolean }> => {
+  const response = await fetch(`${API_BASE_URL}/suppressions/${id}`, {
+    method: 'DELETE',
+    headers: authHeaders(),
+  });
+  return handleResponse(response);
+};
+
+export const previewContactImport = async (file: File): Promise<ImportPreview> => {
+  const formData = new FormData();
+  formData.append('file', file);
+  const response = await fetch(`${API_BASE_URL}/contacts/import/preview`, {
+    method: 'POST',
+    headers: authHeaders(),
+    body: formData,
+  });
+  return handleResponse(response);
+};
+
+export const importContacts = async (file: File, mapping: ImportMapping, dryRun: boolean): Promise<ImportReport> => {
+  const formData = new FormData();
+  formData.append('file', file);
+  formData.append('mapping', JSON.stringify(mapping));
+  formData.append('dryRun', String(dryRun));
+  const response = await fetch(`${API_BASE_URL}/contacts/import`, {
+    method: 'POST',
+    headers: authHeaders(),
+    body: formData,
+  });
+  return handleResponse(response);
+};
+
+export const getTags = async (): Promise<TagSummary[]> => {
+  const response = await fetch(`${API_BASE_URL}/tags`, {
+    headers: authHeaders(),
+  });
+  return handleResponse(response);
+};
+
+export const updateContactTags = async (selection: ContactSelection, add: string[], remove: string[]): Promise<BulkResult> => {
+  const response = await fetch(`${API_BASE_URL}/contacts/bulk/tags`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...authHeaders(),
+    },
+    body: JSON.stringify({ ...selectionBody(selection), add, remove }),
+  });
+  return handleResponse(response);
+};
+
+export const getGroups = async (): Promise<Group[]> => {
+  const response = await fetch(`${API_BASE_URL}/groups`, {
+    headers: authHeaders(),
+  });
+  return handleResponse(response);
+};
+
+export const createGroup = async (name: string, description = ''): Promise<Group> => {
+  const response = await fetch(`${API_BASE_URL}/groups`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...authHeaders(),
+    },
+    body: JSON.stringify({ name, description }),
+  });
+  return handleResponse(response);
+};
+
+export const deleteGroup = async (id: string): Promise<{ success: boolean }> => {
+  const response = await fetch(`${API_BASE_URL}/groups/${id}`, {
+    method: 'DELETE',
+    headers: authHeaders(),
+  });
+  return handleResponse(response);
+};
+
+export const updateGroupMembership = async (selection: ContactSelection, groupId: string, action: 'add' | 'remove'): Promise<BulkResult> => {
+  const response = await fetch(`${API_BASE_URL}/contacts/bulk/groups`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...authHeaders(),
+    },
+    body: JSON.stringify({ ...selectionBody(selection), groupId, action }),
+  });
+  return handleResponse(response);
+};
+
+export const previewAudience = async (audience: Audience): Promise<{ count: number; skipped: number }> => {
+  const response = await fetch(`${API_BASE_URL}/audience/preview`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...authHeaders(),
+    },
+    body: JSON.stringify({ audience }),
+  });
+  return handleResponse(response);
+};
+
+// How many of the audience's contacts prefer each language.
+export const getAudienceLanguages = async (audience: Audience): Promise<AudienceLanguage[]> => {
+  const response = await fetch(`${API_BASE_URL}/audience/languages`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...authHeaders(),
+    },
+    body: JSON.stringify({ audience }),
+  });
+  return handleResponse(response);
+};
+
+export const checkPersonalization = async (audience: Audience, heading: string, content: string): Promise<PersonalizationCheck> => {
+  const response = await fetch(`${API_BASE_URL}/audience/personalization`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...authHeaders(),
+    },
+    body: JSON.stringify({ audience, heading, content }),
+  });
+  return handleResponse(response);
+};
+
+export const getMessageVariables = async (): Promise<MessageVariables> => {
+  const response = await fetch(`${API_BASE_URL}/variables`, {
+    headers: authHeaders(),
+  });
+  return handleResponse(response);
+};
+
+export type TemplateInput = Pick<MessageTemplate, 'name' | 'language' | 'category' | 'components'>;
+
+export const getTemplates = async (): Promise<MessageTemplate[]> => {
+  const response = await fetch(`${API_BASE_URL}/templates`, {
+    headers: authHeaders(),
+  });
+  return handleResponse(response);
+};
+
+export const createTemplate = async (template: TemplateInput): Promise<MessageTemplate> => {
+  const response = await fetch(`${API_BASE_URL}/templates`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...authHeaders(),
+    },
+    body: JSON.stringify(template),
+  });
+  return handleResponse(response);
+};
+
+export const updateTemplate = async (id: string, template: Pick<TemplateInput, 'category' | 'components'>): Promise<MessageTemplate> => {
+  const response = await fetch(`${API_BASE_URL}/templates/${id}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      ...authHeaders(),
+    },
+    body: JSON.stringify(template),
+  });
+  return handleResponse(response);
+};
+
+export const deleteTemplate = async (id: string): Promise<{ success: boolean }> => {
+  const response = await fetch(`${API_BASE_URL}/templates/${id}`, {
+    method: 'DELETE',
+    headers: authHeaders(),
+  });
+  return handleResponse(response);
+};
+
+export const syncTemplates = async (): Promise<{ message: string; created: number; updated: number; removed: number }> => {
+  const response = await fetch(`${API_BASE_URL}/templates/sync`, {
+    method: 'POST',
+    headers: authHeaders(),
+  });
+  return handleResponse(response);
+};
+
+export type ExportFormat = 'csv' | 'vcf';
+
+// Reads a contact export response into a file to save.
+const exportDownload = async (response: Response, format: ExportFormat): Promise<{ blob: Blob; filename: string }> => {
+  if (!response.ok) {
+    await handleResponse(response);
+  }
+  const disposition = response.headers.get('Content-Disposition') || '';
+  const filename = /filename="([^"]+)"/.exec(disposition)?.[1] || `contacts.${format}`;
+  return { blob: await response.blob(), filename };
+};
+
+export const exportContacts = async (format: ExportFormat, filters: ContactFilters = {}): Promise<{ blob: Blob; filename: string }> => {
+  const response = await fetch(`${API_BASE_URL}/contacts/export${toQueryString({ format, ...contactFilterParams(filters) })}`, {
+    headers: authHeaders(),
+  });
+  return exportDownload(response, format);
+};
+
+export const exportSelectedContacts = async (format: ExportFormat, selection: ContactSelection): Promise<{ blob: Blob; filename: string }> => {
+  const response = await fetch(`${API_BASE_URL}/contacts/bulk/export`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...authHeaders(),
+    },
+    body: JSON.stringify({ ...selectionBody(selection), format }),
+  });
+  return exportDownload(response, format);
+};
+
+export const sendBulkMessage = async (payload: SendMessagePayload): Promise<{ message: string; campaignId: string; skipped: number }> => {
   const formData = new FormData();
   formData.append('heading', payload.heading);
   formData.append('content', payload.content);
-  formData.append('contacts', JSON.stringify(payload.contacts));
-  if (payload.mediaFile) {
-    formData.append('media', payload.mediaFile);
+  formData.append('audience', JSON.stringify(payload.audience));
+  if (payload.template) {
+    formData.append('template', JSON.stringify(payload.template));
+  }
+  if (payload.schedule) {
+    formData.append('schedule', JSON.stringify(payload.schedule));
+  }
+  if (payload.mediaId) {
+    formData.append('mediaId', payload.mediaId);
+  }
+  if (payload.language) {
+    formData.append('language', payload.language);
+  }
+  if (payload.translations && payload.translations.length > 0) {
+    formData.append('translations', JSON.stringify(payload.translations));
+  }
+  if (payload.confirmWarnings) {
+    formData.append('confirmWarnings', 'true');
   }
 
   const response = await fetch(`${API_BASE_URL}/send-bulk`, {
     method: 'POST',
+    headers: authHeaders(),
     body: formData,
     // Note: Don't set 'Content-Type' header manually for FormData,
     // the browser will do it automatically with the correct boundary.
@@ -59,13 +573,314 @@ export const sendBulkMessage = async (payload: SendMessagePayload): Promise<{ me
   return handleResponse(response);
 };
 
-export const generateAiContent = async (heading: string): Promise<{ content: string }> => {
+export interface MessageDraft {
+  heading: string;
+  content: string;
+  mediaType?: MediaType | null;
+  translations?: CampaignTranslation[];
+  // Checks placeholders against the contacts the message goes to.
+  audience?: Audience;
+}
+
+// Checks a message for policy, spam, length and placeholder problems before it is sent; `review`
+// also has AI review its tone and risk.
+export const checkMessage = async (draft: MessageDraft, { review = false }: { review?: boolean } = {}): Promise<MessageCheck> => {
+  const response = await fetch(`${API_BASE_URL}/messages/check`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...authHeaders(),
+    },
+    body: JSON.stringify({ ...draft, review }),
+  });
+  return handleResponse(response);
+};
+
+export const getCampaigns = async (status?: CampaignStatus): Promise<Campaign[]> => {
+  const response = await fetch(`${API_BASE_URL}/campaigns${toQueryString({ status })}`, {
+    headers: authHeaders(),
+  });
+  return handleResponse(response);
+};
+
+export const getCampaign = async (id: string, recipientLimit = 100): Promise<CampaignDetail> => {
+  const response = await fetch(`${API_BASE_URL}/campaigns/${id}?recipientLimit=${recipientLimit}`, {
+    headers: authHeaders(),
+  });
+  return handleResponse(response);
+};
+
+export const getCampaignTimeline = async (id: string): Promise<DeliveryTimeline> => {
+  const response = await fetch(`${API_BASE_URL}/campaigns/${id}/timeline`, {
+    headers: authHeaders(),
+  });
+  return handleResponse(response);
+};
+
+export const getCampaignFailures = async (id: string): Promise<FailureReason[]> => {
+  const response = await fetch(`${API_BASE_URL}/campaigns/${id}/failures`, {
+    headers: authHeaders(),
+  });
+  return handleResponse(response);
+};
+
+export const getCampaignLanguages = async (id: string): Promise<CampaignLanguageStats[]> => {
+  const response = await fetch(`${API_BASE_URL}/campaigns/${id}/languages`, {
+    headers: authHeaders(),
+  });
+  return handleResponse(response);
+};
+
+export interface RecipientQuery {
+  status?: RecipientStatus;
+  search?: string;
+  errorCode?: string;
+  page?: number;
+  limit?: number;
+}
+
+export const getCampaignRecipients = async (id: string, query: RecipientQuery = {}): Promise<RecipientPage> => {
+  const params = toQueryString({
+    status: query.status,
+    search: query.search,
+    errorCode: query.errorCode,
+    page: query.page ? String(query.page) : undefined,
+    limit: query.limit ? String(query.limit) : undefined,
+  });
+  const response = await fetch(`${API_BASE_URL}/campaigns/${id}/recipients${params}`, {
+    headers: authHeaders(),
+  });
+  return handleResponse(response);
+};
+
+export const getAnalyticsOverview = async (days: number): Promise<AnalyticsOverview> => {
+  const response = await fetch(`${API_BASE_URL}/analytics/overview?days=${days}`, {
+    headers: authHeaders(),
+  });
+  return handleResponse(response);
+};
+
+export interface ScheduledCampaignUpdate {
+  heading?: string;
+  content?: string;
+  audience?: Audience;
+  schedule?: CampaignSchedule;
+  confirmWarnings?: boolean;
+}
+
+export const updateScheduledCampaign = async (id: string, update: ScheduledCampaignUpdate): Promise<Campaign> => {
+  const response = await fetch(`${API_BASE_URL}/campaigns/${id}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      ...authHeaders(),
+    },
+    body: JSON.stringify(update),
+  });
+  return handleResponse(response);
+};
+
+export const updateCampaignState = async (id: string, action: 'pause' | 'resume' | 'cancel'): Promise<Campaign> => {
+  const response = await fetch(`${API_BASE_URL}/campaigns/${id}/${action}`, {
+    method: 'POST',
+    headers: authHeaders(),
+  });
+  return handleResponse(response);
+};
+
+export const getConversations = async (): Promise<Conversation[]> => {
+  const response = await fetch(`${API_BASE_URL}/conversations`, {
+    headers: authHeaders(),
+  });
+  return handleResponse(response);
+};
+
+export const getConversationMessages = async (conversationId: string): Promise<ConversationMessage[]> => {
+  const response = await fetch(`${API_BASE_URL}/conversations/${conversationId}/messages`, {
+    headers: authHeaders(),
+  });
+  return handleResponse(response);
+};
+
+export const markConversationRead = async (conversationId: string): Promise<{ success: boolean }> => {
+  const response = await fetch(`${API_BASE_URL}/conversations/${conversationId}/read`, {
+    method: 'POST',
+    headers: authHeaders(),
+  });
+  return handleResponse(response);
+};
+
+export const sendReply = async (conversationId: string, text: string, mediaFile: File | null): Promise<ConversationMessage> => {
+  const formData = new FormData();
+  formData.append('text', text);
+  if (mediaFile) {
+    formData.append('media', mediaFile);
+  }
+  const response = await fetch(`${API_BASE_URL}/conversations/${conversationId}/messages`, {
+    method: 'POST',
+    headers: authHeaders(),
+    body: formData,
+  });
+  return handleResponse(response);
+};
+
+// Media has to be fetched with the auth header, so it is loaded as a blob rather than linked directly.
+export const getMessageMedia = async (conversationId: string, messageId: string): Promise<Blob> => {
+  const response = await fetch(`${API_BASE_URL}/conversations/${conversationId}/messages/${messageId}/media`, {
+    headers: authHeaders(),
+  });
+  if (!response.ok) {
+    await handleResponse(response);
+  }
+  return response.blob();
+};
+
+export const getMedia = async (type?: MediaType): Promise<MediaItem[]> => {
+  const response = await fetch(`${API_BASE_URL}/media${toQueryString({ type })}`, {
+    headers: authHeaders(),
+  });
+  return handleResponse(response);
+};
+
+// Adds a file to the media library. A file that is already there comes back as its existing entry.
+export const uploadMedia = async (file: File): Promise<MediaItem> => {
+  const formData = new FormData();
+  formData.append('file', file);
+  const response = await fetch(`${API_BASE_URL}/media`, {
+    method: 'POST',
+    headers: authHeaders(),
+    body: formData,
+  });
+  return handleResponse(response);
+};
+
+export const deleteMedia = async (id: string): Promise<{ success: boolean }> => {
+  const response = await fetch(`${API_BASE_URL}/media/${id}`, {
+    method: 'DELETE',
+    headers: authHeaders(),
+  });
+  return handleResponse(response);
+};
+
+export const getMediaFile = async (id: string, variant: 'file' | 'thumbnail' = 'file'): Promise<Blob> => {
+  const response = await fetch(`${API_BASE_URL}/media/${id}/${variant}`, {
+    headers: authHeaders(),
+  });
+  if (!response.ok) {
+    await handleResponse(response);
+  }
+  return response.blob();
+};
+
+// Drafts messages from `heading` ("generate") or reworks the draft in `content`; returns the variants.
+export const generateAiContent = async (
+  action: AiAction,
+  text: { heading: string; content: string },
+  options: AiGenerationOptions,
+  { signal }: { signal?: AbortSignal } = {},
+): Promise<{ variants: string[] }> => {
   const response = await fetch(`${API_BASE_URL}/generate-content`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
+      ...authHeaders(),
+    },
+    body: JSON.stringify({ action, ...text, ...options }),
+    signal,
+  });
+  return handleResponse(response);
+};
+
+// Generates a single message and calls `onToken` with each piece of text as the server streams it.
+// Aborting `signal` stops the generation on the server; the promise then resolves with the text
+// received so far, as it does when the message is complete.
+export const streamAiContent = async (
+  action: AiAction,
+  text: { heading: string; content: string },
+  options: AiGenerationOptions,
+  { onToken, signal }: { onToken: (text: string) => void; signal: AbortSignal },
+): Promise<void> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/generate-content/stream`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...authHeaders(),
+      },
+      body: JSON.stringify({ action, ...text, ...options }),
+      signal,
+    });
+    if (!response.ok || !response.body) {
+      await handleResponse(response);
+      throw new Error('The server did not stream a response.');
+    }
+
+    // EventSource cannot send a POST body or the auth header, so the events are read by hand:
+    // frames are separated by a blank line and hold "event:" and "data:" lines.
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) throw new Error('The connection closed before the message was complete.');
+      buffer += value;
+      let end;
+      while ((end = buffer.indexOf('\n\n')) !== -1) {
+        const frame = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        const event = /^event: (.*)$/m.exec(frame)?.[1];
+        const data = JSON.parse(/^data: (.*)$/m.exec(frame)?.[1] || '{}');
+        if (event === 'token') onToken(data.text);
+        if (event === 'error') throw new Error(data.message || 'An unknown error occurred.');
+        if (event === 'done') {
+          reader.cancel();
+          return;
+        }
+      }
+    }
+  } catch (err: any) {
+    if (signal.aborted) return;
+    throw err;
+  }
+};
+
+// Translates a message written in `language` into each of `languages` with AI.
+export const translateMessage = async (
+  text: { heading: string; content: string; language: string },
+  languages: string[],
+): Promise<{ translations: TranslationSuggestion[] }> => {
+  const response = await fetch(`${API_BASE_URL}/translate`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...authHeaders(),
     },
-    body: JSON.stringify({ heading }),
+    body: JSON.stringify({ ...text, languages }),
+  });
+  return handleResponse(response);
+};
+
+export const getAiProviders = async (): Promise<AiProviderInfo[]> => {
+  const response = await fetch(`${API_BASE_URL}/ai/providers`, {
+    headers: authHeaders(),
   });
   return handleResponse(response);
-};
\ No newline at end of file
+};
+
+export const getSettings = async (): Promise<WorkspaceSettings> => {
+  const response = await fetch(`${API_BASE_URL}/settings`, {
+    headers: authHeaders(),
+  });
+  return handleResponse(response);
+};
+
+export const updateSettings = async (settings: Partial<WorkspaceSettings>): Promise<WorkspaceSettings> => {
+  const response = await fetch(`${API_BASE_URL}/settings`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      ...authHeaders(),
+    },
+    body: JSON.stringify(settings),
+  });
+  return handleResponse(response);
+};
@@ -1,5 +1,474 @@
+export type ConsentStatus = 'opted_in' | 'opted_out';
+
+export type ConsentSource = 'manual' | 'bulk' | 'keyword' | 'import' | 'inbound';
+
+export type PhoneType =
+  | 'mobile'
+  | 'fixed_line'
+  | 'fixed_line_or_mobile'
+  | 'voip'
+  | 'toll_free'
+  | 'premium_rate'
+  | 'shared_cost'
+  | 'personal_number'
+  | 'pager'
+  | 'uan'
+  | 'voicemail'
+  | 'unknown';
+
+// A custom attribute's value, stored as its type; dates are "YYYY-MM-DD".
+export type AttributeValue = string | number | boolean;
+
 export interface Contact {
   id: string;
   name: string;
+  phone: string; // E.164
+  phoneCountry?: string;
+  phoneType?: PhoneType;
+  // Preferred language for messages, a BCP 47 code such as "es" or "pt-BR".
+  language: string | null;
+  tags: string[];
+  groups: string[];
+  attributes: Record<string, AttributeValue>;
+  consent: {
+    status: ConsentStatus;
+    changedAt: string;
+    source: ConsentSource;
+  };
+}
+
+export type ContactSort = 'name' | 'phone' | 'createdAt';
+
+// One page of the contact list. `total` is only counted for the first page.
+export interface ContactPage {
+  contacts: Contact[];
+  nextCursor: string | null;
+  total: number | null;
+}
+
+export type BulkItemStatus = 'updated' | 'unchanged' | 'deleted' | 'not_found' | 'failed';
+
+// The outcome of a bulk contact action, with a count per status and one entry per selected contact.
+export interface BulkResult {
+  modified: number;
+  summary: Record<BulkItemStatus, number>;
+  results: { id: string; status: BulkItemStatus; message?: string }[];
+}
+
+export interface ConsentEvent {
+  id: string;
+  status: ConsentStatus;
+  previousStatus?: ConsentStatus;
+  source: ConsentSource;
+  note: string;
+  changedBy: string | null;
+  createdAt: string;
+}
+
+export interface Suppression {
+  id: string;
   phone: string;
+  reason: string;
+  createdAt: string;
+}
+
+export interface Group {
+  id: string;
+  name: string;
+  description: string;
+  memberCount: number;
+}
+
+export interface TagSummary {
+  name: string;
+  count: number;
+}
+
+// Who a broadcast goes to; the server resolves this to contacts when the campaign is queued.
+export type Audience =
+  | { type: 'all' }
+  | { type: 'groups'; groupIds: string[] }
+  | { type: 'tags'; include: string[]; exclude: string[]; match: 'any' | 'all' }
+  | { type: 'contacts'; contactIds: string[] };
+
+export interface MessageVariables {
+  builtIn: string[];
+  attributes: { name: string; label: string; type: AttributeType; count: number }[];
+}
+
+export interface PlaceholderCheck {
+  key: string;
+  fallback: string | null;
+  // Recipients that would get an empty value for this placeholder.
+  missing: number;
+}
+
+export interface PersonalizationCheck {
+  placeholders: PlaceholderCheck[];
+  sample: Contact[];
+}
+
+// Team member roles, most to least access (see backend/users/roles.js).
+export type Role = 'owner' | 'admin' | 'campaign_manager' | 'agent' | 'viewer';
+
+// What a role may do; the server enforces these and the UI hides what the user cannot use.
+export type Permission =
+  | 'contacts.view'
+  | 'contacts.edit'
+  | 'contacts.delete'
+  | 'contacts.export'
+  | 'campaigns.view'
+  | 'campaigns.send'
+  | 'templates.manage'
+  | 'media.manage'
+  | 'inbox.view'
+  | 'inbox.reply'
+  | 'suppressions.manage'
+  | 'settings.manage'
+  | 'users.manage';
+
+export interface TeamMember {
+  id: string;
+  username: string;
+  role: Role;
+  permissions: Permission[];
+  // Invited members have not chosen a password yet.
+  status: 'active' | 'invited';
+  inviteExpiresAt?: string;
+  createdAt: string;
+}
+
+// A problem found by the pre-send check. Blocking issues stop the send; warnings must be confirmed.
+export interface MessageIssue {
+  severity: 'blocking' | 'warning';
+  category: 'policy' | 'spam' | 'length' | 'placeholders' | 'review';
+  code: string;
+  message: string;
+  // Set for issues found in a translation.
+  language?: string;
+}
+
+// An AI review of the message's tone and risk; `error` is set instead when it failed.
+export interface MessageReview {
+  risk?: 'low' | 'medium' | 'high';
+  summary?: string;
+  findings?: string[];
+  error?: string;
+}
+
+export interface MessageCheck {
+  issues: MessageIssue[];
+  blocking: number;
+  warnings: number;
+  review?: MessageReview;
+}
+
+export type TemplateCategory = 'MARKETING' | 'UTILITY' | 'AUTHENTICATION';
+
+export type TemplateHeaderFormat = 'TEXT' | 'IMAGE' | 'VIDEO' | 'DOCUMENT' | 'LOCATION';
+
+export interface TemplateButton {
+  type: 'QUICK_REPLY' | 'URL' | 'PHONE_NUMBER' | 'COPY_CODE';
+  text?: string;
+  url?: string;
+  phone_number?: string;
+  example?: string[];
+}
+
+// Mirrors Meta's template component structure; `text` may contain {{1}}-style parameters.
+export interface TemplateComponent {
+  type: 'HEADER' | 'BODY' | 'FOOTER' | 'BUTTONS';
+  format?: TemplateHeaderFormat;
+  text?: string;
+  buttons?: TemplateButton[];
+  example?: { header_text?: string[]; body_text?: string[][] };
+}
+
+// One parameter to fill when sending: header.1, body.2, button.0.1 or header.media.
+export interface TemplateParameterSlot {
+  key: string;
+  component: 'header' | 'body' | 'button';
+  index?: number;
+  buttonIndex?: number;
+  format?: TemplateHeaderFormat;
+  example?: string | null;
+}
+
+export interface MessageTemplate {
+  id: string;
+  name: string;
+  language: string;
+  category: TemplateCategory;
+  components: TemplateComponent[];
+  status: string;
+  rejectedReason?: string | null;
+  lastSyncedAt?: string;
+  parameters: TemplateParameterSlot[];
+}
+
+export type TemplateParameterValue =
+  | { source: 'variable'; variable: string; fallback: string }
+  | { source: 'text'; value: string };
+
+export type TemplateParameterMapping = Record<string, TemplateParameterValue>;
+
+export type RecipientStatus = 'queued' | 'sent' | 'delivered' | 'read' | 'failed' | 'cancelled';
+
+export type CampaignStats = Record<RecipientStatus, number>;
+
+// Shares from 0 to 1. Delivered and read are out of all sent messages, failed out of sent plus failed.
+export interface CampaignRates {
+  delivered: number;
+  read: number;
+  failed: number;
+}
+
+export interface FailureReason {
+  code: number | string | null;
+  message?: string;
+  count: number;
+  campaignCount: number;
+  lastSeenAt?: string;
+}
+
+export interface DeliveryTimelinePoint {
+  at: string;
+  sent: number;
+  delivered: number;
+  read: number;
+  failed: number;
+}
+
+export interface DeliveryTimeline {
+  bucket: { unit: 'minute' | 'hour' | 'day'; binSize: number } | null;
+  points: DeliveryTimelinePoint[];
+}
+
+export interface AnalyticsOverview {
+  days: number;
+  campaignCount: number;
+  totals: CampaignStats;
+  rates: CampaignRates;
+  failureReasons: FailureReason[];
+}
+
+export type MediaType = 'image' | 'video' | 'audio' | 'document' | 'sticker';
+
+// A file in the media library. Images and stickers have a thumbnail.
+export interface MediaItem {
+  id: string;
+  filename: string;
+  mimetype: string;
+  type: MediaType;
+  size: number;
+  checksum: string;
+  width: number | null;
+  height: number | null;
+  hasThumbnail: boolean;
+  createdAt: string;
+}
+
+export interface CampaignMedia {
+  filename: string;
+  mimetype: string;
+  size: number;
+  type: 'image' | 'video' | 'audio' | 'document' | 'sticker';
+  providerMediaId?: string;
+}
+
+export type CampaignStatus = 'scheduled' | 'queued' | 'sending' | 'paused' | 'cancelled' | 'completed' | 'failed';
+
+// A "send later" time as entered: wall-clock date and time in an IANA time zone.
+export interface CampaignSchedule {
+  date: string; // YYYY-MM-DD
+  time: string; // HH:mm
+  timezone: string;
+}
+
+// A version of a campaign's heading and content for recipients who prefer `language`.
+export interface CampaignTranslation {
+  language: string;
+  heading: string;
+  content: string;
+}
+
+// A translation suggested by AI for review; `error` is set instead of the text when it failed.
+export interface TranslationSuggestion extends Partial<CampaignTranslation> {
+  language: string;
+  // Placeholders of the original, such as "{{name}}", that the translation lost.
+  missingPlaceholders?: string[];
+  error?: string;
+}
+
+export interface AudienceLanguage {
+  // Null for contacts without a preferred language.
+  language: string | null;
+  count: number;
+}
+
+export interface Campaign {
+  id: string;
+  heading: string;
+  content: string;
+  // Language of the heading and content; recipients preferring another language with a
+  // translation get that translation instead.
+  language?: string | null;
+  translations?: CampaignTranslation[];
+  media?: CampaignMedia;
+  template?: { name: string; language: string };
+  audience?: Audience;
+  provider: string;
+  createdBy?: string;
+  status: CampaignStatus;
+  recipientCount: number;
+  scheduledAt?: string;
+  timezone?: string;
+  startedAt?: string;
+  completedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+  stats: CampaignStats;
+  rates: CampaignRates;
+}
+
+export interface MessageRecipient {
+  id: string;
+  campaign: string;
+  contact?: string;
+  name?: string;
+  phone: string;
+  // The language version of the campaign this recipient was sent.
+  language?: string | null;
+  status: RecipientStatus;
+  providerMessageId?: string;
+  error?: { code: number | string | null; message: string };
+  sentAt?: string;
+  deliveredAt?: string;
+  readAt?: string;
+  failedAt?: string;
+  createdAt: string;
+}
+
+export interface CampaignDetail extends Campaign {
+  recipients: MessageRecipient[];
+}
+
+// How one language version of a campaign performed.
+export interface CampaignLanguageStats {
+  language: string | null;
+  recipients: number;
+  stats: CampaignStats;
+  rates: CampaignRates;
+}
+
+export interface RecipientPage {
+  recipients: MessageRecipient[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+export interface Conversation {
+  id: string;
+  contactId: string;
+  contactName: string;
+  phone: string;
+  lastMessageAt: string;
+  lastMessagePreview: string;
+  lastInboundAt?: string;
+  unreadCount: number;
+}
+
+export interface ConversationMessage {
+  id: string;
+  conversation: string;
+  direction: 'inbound' | 'outbound';
+  type: string;
+  text?: string;
+  media?: { providerMediaId: string; mimetype?: string; filename?: string };
+  providerMessageId?: string;
+  status: 'received' | 'sent' | 'delivered' | 'read' | 'failed';
+  error?: { code: number | string | null; message: string };
+  timestamp: string;
+}
+
+export interface ImportMapping {
+  name: string;
+  phone: string;
+}
+
+export interface ImportPreview {
+  columns: string[];
+  rows: Record<string, string>[];
+  totalRows: number;
+  suggestedMapping: { name: string | null; phone: string | null };
+}
+
+export type ImportRowStatus = 'created' | 'duplicate' | 'invalid';
+
+export interface ImportReport {
+  dryRun: boolean;
+  summary: { total: number } & Record<ImportRowStatus, number>;
+  // The first few hundred created rows and the first few hundred duplicate or invalid rows, in file
+  // order; `row` is the line in the file. `omittedRows` counts the rows left out.
+  rows: { row: number; name: string; phone: string; status: ImportRowStatus; reason?: string }[];
+  omittedRows: number;
+}
+
+export type AttributeType = 'text' | 'number' | 'date' | 'boolean' | 'select';
+
+// A custom contact attribute defined for the workspace. `key` is also its message placeholder.
+export interface AttributeDefinition {
+  key: string;
+  label: string;
+  type: AttributeType;
+  // The allowed values of a `select` attribute.
+  options: string[];
+}
+
+export type AttributeOperator = 'eq' | 'ne' | 'contains' | 'in' | 'gt' | 'gte' | 'lt' | 'lte' | 'exists' | 'missing';
+
+export interface AttributeCondition {
+  key: string;
+  op: AttributeOperator;
+  value?: AttributeValue | string[];
+}
+
+export type AiProviderName = 'gemini' | 'openai' | 'fake';
+
+export interface AiSettings {
+  // Null uses the server's default provider, or the provider's default model.
+  provider: AiProviderName | null;
+  model: string | null;
+}
+
+export interface AiProviderInfo {
+  name: AiProviderName;
+  label: string;
+  defaultModel: string;
+  // Whether the server has the key or endpoint the provider needs.
+  configured: boolean;
+  isDefault: boolean;
+}
+
+export interface WorkspaceSettings {
+  // ISO 3166 code used for phone numbers typed without a country code.
+  defaultCountry: string | null;
+  contactAttributes: AttributeDefinition[];
+  ai: AiSettings;
+}
+
+export type AiAction = 'generate' | 'rewrite' | 'shorten' | 'improve';
+export type AiTone = 'friendly' | 'formal' | 'urgent';
+export type AiLength = 'short' | 'medium' | 'long';
+export type AiEmoji = 'none' | 'few' | 'many';
+
+// How AI-written messages should read. `language` is a BCP 47 code such as "en" or "pt-BR".
+export interface AiGenerationOptions {
+  tone: AiTone;
+  language: string;
+  length: AiLength;
+  emoji: AiEmoji;
+  callToAction: boolean;
+  variants: number;
 }
@@ -0,0 +1,6 @@
+import { CampaignStats } from '../types';
+
+export const formatRate = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+
+// Delivered and read messages were sent too.
+export const sentCount = (stats: CampaignStats) => stats.sent + stats.delivered + stats.read;
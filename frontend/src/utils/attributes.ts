@@ -0,0 +1,62 @@
+import { AttributeDefinition, AttributeOperator, AttributeType, AttributeValue } from '../types';
+
+// Same rules as backend/contacts/attributes.js. The server converts and checks values again.
+
+export const ATTRIBUTE_TYPE_LABELS: Record<AttributeType, string> = {
+  text: 'Text',
+  number: 'Number',
+  date: 'Date',
+  boolean: 'Yes / no',
+  select: 'List of options',
+};
+
+export const OPERATOR_LABELS: Record<AttributeOperator, string> = {
+  eq: 'is',
+  ne: 'is not',
+  contains: 'contains',
+  in: 'is any of',
+  gt: 'is more than',
+  gte: 'is at least',
+  lt: 'is less than',
+  lte: 'is at most',
+  exists: 'is set',
+  missing: 'is not set',
+};
+
+const TYPE_OPERATORS: Record<AttributeType, AttributeOperator[]> = {
+  text: ['eq', 'ne', 'contains'],
+  select: ['eq', 'ne', 'in'],
+  number: ['eq', 'ne', 'gt', 'gte', 'lt', 'lte'],
+  date: ['eq', 'ne', 'gt', 'gte', 'lt', 'lte'],
+  boolean: ['eq'],
+};
+
+export const operatorsFor = (type: AttributeType): AttributeOperator[] => [...TYPE_OPERATORS[type], 'exists', 'missing'];
+
+export const operatorNeedsValue = (op: AttributeOperator) => op !== 'exists' && op !== 'missing';
+
+const BUILT_IN_VARIABLES = ['name', 'first_name', 'last_name', 'phone'];
+
+export const isValidAttributeKey = (key: string) => /^[A-Za-z_][A-Za-z0-9_]*$/.test(key) && !BUILT_IN_VARIABLES.includes(key);
+
+// Suggests a placeholder key for a label: "Customer tier" -> "customer_tier".
+export const attributeKeyFromLabel = (label: string) => label
+  .trim()
+  .toLowerCase()
+  .replace(/[^a-z0-9]+/g, '_')
+  .replace(/^_+|_+$/g, '')
+  .replace(/^(\d)/, '_$1');
+
+// A stored value written for people. Booleans read as Yes / No.
+export const formatAttributeValue = (value: AttributeValue | undefined) => {
+  if (value === undefined || value === null || value === '') return '';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+};
+
+// A stored value as the text of a form input. Booleans become "true" / "false", which the server reads back.
+export const attributeInputValue = (value: AttributeValue | undefined) => (value === undefined || value === null ? '' : String(value));
+
+// Labels for contact attributes, falling back to the key for values without a definition.
+export const attributeLabel = (definitions: AttributeDefinition[], key: string) => definitions
+  .find((definition) => definition.key === key)?.label || key;
@@ -0,0 +1,44 @@
+// Languages offered for contacts, AI writing and translations. Any BCP 47 code the server accepts
+// (see backend/contacts/language.js) is shown by name, including ones not in this list.
+
+export const LANGUAGES: { code: string; label: string }[] = [
+  { code: 'en', label: 'English' },
+  { code: 'es', label: 'Spanish' },
+  { code: 'pt-BR', label: 'Portuguese (Brazil)' },
+  { code: 'pt', label: 'Portuguese' },
+  { code: 'fr', label: 'French' },
+  { code: 'de', label: 'German' },
+  { code: 'it', label: 'Italian' },
+  { code: 'nl', label: 'Dutch' },
+  { code: 'pl', label: 'Polish' },
+  { code: 'ru', label: 'Russian' },
+  { code: 'uk', label: 'Ukrainian' },
+  { code: 'tr', label: 'Turkish' },
+  { code: 'ar', label: 'Arabic' },
+  { code: 'fa', label: 'Persian' },
+  { code: 'he', label: 'Hebrew' },
+  { code: 'hi', label: 'Hindi' },
+  { code: 'ur', label: 'Urdu' },
+  { code: 'bn', label: 'Bengali' },
+  { code: 'id', label: 'Indonesian' },
+  { code: 'ms', label: 'Malay' },
+  { code: 'th', label: 'Thai' },
+  { code: 'vi', label: 'Vietnamese' },
+  { code: 'zh', label: 'Chinese' },
+  { code: 'ja', label: 'Japanese' },
+  { code: 'ko', label: 'Korean' },
+  { code: 'sw', label: 'Swahili' },
+];
+
+const displayNames = new Intl.DisplayNames(['en'], { type: 'language', fallback: 'code' });
+
+// The English name of a language code, e.g. "Brazilian Portuguese" for "pt-BR".
+export const languageLabel = (code: string): string => {
+  const listed = LANGUAGES.find((language) => language.code === code);
+  if (listed) return listed.label;
+  try {
+    return displayNames.of(code) || code;
+  } catch {
+    return code;
+  }
+};
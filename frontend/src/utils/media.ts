@@ -0,0 +1,67 @@
+import { MediaType } from '../types';
+
+// Same limits as backend/media/limits.js, so a file WhatsApp would reject is caught before it is
+// uploaded. The server checks again (including sticker dimensions) and has the final say.
+
+const MB = 1024 * 1024;
+
+export const MEDIA_LIMITS: Record<MediaType, { mimetypes: string[]; maxBytes: number }> = {
+  image: { mimetypes: ['image/jpeg', 'image/png'], maxBytes: 5 * MB },
+  video: { mimetypes: ['video/mp4', 'video/3gpp'], maxBytes: 16 * MB },
+  audio: { mimetypes: ['audio/aac', 'audio/amr', 'audio/mpeg', 'audio/mp4', 'audio/ogg'], maxBytes: 16 * MB },
+  document: {
+    mimetypes: [
+      'text/plain',
+      'application/pdf',
+      'application/msword',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/vnd.ms-excel',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'application/vnd.ms-powerpoint',
+      'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    ],
+    maxBytes: 100 * MB,
+  },
+  // Animated stickers may be up to 500 KB; the server tells them apart.
+  sticker: { mimetypes: ['image/webp'], maxBytes: 500 * 1024 },
+};
+
+export const MEDIA_TYPES = Object.keys(MEDIA_LIMITS) as MediaType[];
+
+export const MEDIA_TYPE_LABELS: Record<MediaType, string> = {
+  image: 'Image',
+  video: 'Video',
+  audio: 'Audio',
+  document: 'Document',
+  sticker: 'Sticker',
+};
+
+export const mediaTypeFromMime = (mimetype: string): MediaType => {
+  if (mimetype === 'image/webp') return 'sticker';
+  if (mimetype.startsWith('image/')) return 'image';
+  if (mimetype.startsWith('video/')) return 'video';
+  if (mimetype.startsWith('audio/')) return 'audio';
+  return 'document';
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes >= MB) return `${Number((bytes / MB).toFixed(1))} MB`;
+  if (bytes >= 1024) return `${Number((bytes / 1024).toFixed(1))} KB`;
+  return `${bytes} B`;
+};
+
+// The `accept` attribute for a file input that takes the given media types.
+export const acceptFor = (types: MediaType[]): string =>
+  types.flatMap((type) => MEDIA_LIMITS[type].mimetypes).join(',');
+
+// Returns why WhatsApp would reject the file as one of `types`, or null if it fits.
+export const checkMediaFile = (file: File, types: MediaType[]): string | null => {
+  const type = mediaTypeFromMime(file.type);
+  if (!types.includes(type) || !MEDIA_LIMITS[type].mimetypes.includes(file.type)) {
+    return `${file.name} is not a supported ${types.map((t) => MEDIA_TYPE_LABELS[t].toLowerCase()).join(' or ')} file.`;
+  }
+  if (file.size > MEDIA_LIMITS[type].maxBytes) {
+    return `${file.name} is ${formatBytes(file.size)}; WhatsApp accepts ${MEDIA_TYPE_LABELS[type].toLowerCase()} files up to ${formatBytes(MEDIA_LIMITS[type].maxBytes)}.`;
+  }
+  return null;
+};
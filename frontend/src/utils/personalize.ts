@@ -0,0 +1,42 @@
+import { Contact } from '../types';
+
+// Mirrors backend/senders/personalize.js so the composer can show exactly what a recipient will
+// receive. Keep the two in sync.
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*(?:\|([^}]*))?\}\}/g;
+
+export const contactVariables = (contact: Pick<Contact, 'name' | 'phone' | 'attributes'>): Record<string, string> => {
+  const [first = '', ...rest] = contact.name.trim().split(/\s+/);
+  return {
+    ...Object.fromEntries(Object.entries(contact.attributes || {})
+      .filter(([, value]) => value !== undefined && value !== null)
+      .map(([key, value]) => [key, String(value)])),
+    name: contact.name,
+    first_name: first,
+    last_name: rest.join(' '),
+    phone: contact.phone,
+  };
+};
+
+export const renderTemplate = (text: string, variables: Record<string, string>): { text: string; missing: string[] } => {
+  const missing = new Set<string>();
+  const rendered = text.replace(PLACEHOLDER_PATTERN, (_match, key: string, fallback: string | undefined) => {
+    const value = variables[key];
+    if (value !== undefined && value !== null && String(value).trim() !== '') return String(value);
+    if (fallback !== undefined) return fallback.trim();
+    missing.add(key);
+    return '';
+  });
+  return { text: rendered, missing: Array.from(missing) };
+};
+
+// The text one contact will receive, laid out like backend/senders/message.js `buildMessageBody`.
+export const buildMessagePreview = (heading: string, content: string, contact: Pick<Contact, 'name' | 'phone' | 'attributes'>): string => {
+  const variables = contactVariables(contact);
+  const parts: string[] = [];
+  const renderedHeading = renderTemplate(heading, variables).text.trim();
+  const renderedContent = renderTemplate(content, variables).text.trim();
+  if (renderedHeading) parts.push(`*${renderedHeading}*`);
+  if (renderedContent) parts.push(renderedContent);
+  return parts.join('\n\n');
+};
@@ -0,0 +1,55 @@
+import { parsePhoneNumberFromString, isSupportedCountry, getCountries, getCountryCallingCode, CountryCode } from 'libphonenumber-js/max';
+import { PhoneType } from '../types';
+
+// Same rules as backend/contacts/phone.js, with the same library, so the forms can show the number
+// that will be saved before it is submitted. The server normalizes again and has the final say.
+
+export type PhoneCheck =
+  | { valid: true; phone: string; country: string | null; type: PhoneType; display: string }
+  | { valid: false; error: string };
+
+export const PHONE_TYPE_LABELS: Record<PhoneType, string> = {
+  mobile: 'Mobile',
+  fixed_line: 'Landline',
+  fixed_line_or_mobile: 'Landline or mobile',
+  voip: 'VoIP',
+  toll_free: 'Toll-free',
+  premium_rate: 'Premium rate',
+  shared_cost: 'Shared cost',
+  personal_number: 'Personal number',
+  pager: 'Pager',
+  uan: 'UAN',
+  voicemail: 'Voicemail',
+  unknown: 'Unknown type',
+};
+
+export const checkPhone = (input: string, defaultCountry: string | null): PhoneCheck => {
+  const raw = input.trim();
+  if (!raw) return { valid: false, error: 'Please provide a phone number.' };
+  const country = defaultCountry && isSupportedCountry(defaultCountry) ? defaultCountry : undefined;
+  const parsed = parsePhoneNumberFromString(raw, country);
+  if (!parsed) {
+    return {
+      valid: false,
+      error: country || raw.startsWith('+')
+        ? `"${raw}" is not a phone number.`
+        : `"${raw}" has no country code. Start it with + and the country code, or set a default country.`,
+    };
+  }
+  if (!parsed.isValid()) {
+    return { valid: false, error: `"${raw}" is not a valid ${parsed.country ? `${parsed.country} ` : ''}phone number.` };
+  }
+  return {
+    valid: true,
+    phone: parsed.number,
+    country: parsed.country || null,
+    type: (parsed.getType()?.toLowerCase() || 'unknown') as PhoneType,
+    display: parsed.formatInternational(),
+  };
+};
+
+// A stored E.164 number written for people, e.g. "+1 212 555 1234".
+export const formatPhone = (phone: string) => parsePhoneNumberFromString(phone)?.formatInternational() || phone;
+
+export const countryOptions = () => getCountries()
+  .map((code: CountryCode) => ({ code, label: `${code} (+${getCountryCallingCode(code)})` }));
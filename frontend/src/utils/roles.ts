@@ -0,0 +1,24 @@
+import { Role } from '../types';
+
+// Same roles as backend/users/roles.js, most to least access.
+
+export const ROLES: Role[] = ['owner', 'admin', 'campaign_manager', 'agent', 'viewer'];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  campaign_manager: 'Campaign Manager',
+  agent: 'Agent',
+  viewer: 'Viewer',
+};
+
+export const ROLE_DESCRIPTIONS: Record<Role, string> = {
+  owner: 'Everything, including managing other owners.',
+  admin: 'Everything except managing owners.',
+  campaign_manager: 'Contacts, templates, media and campaigns; cannot delete contacts or change settings.',
+  agent: 'Replies in the inbox; can view contacts and campaigns.',
+  viewer: 'Can view contacts, campaigns and the inbox, but change nothing.',
+};
+
+// The address of the page where an invited member chooses their password.
+export const inviteLink = (token: string) => `${window.location.origin}/?invite=${encodeURIComponent(token)}`;
@@ -0,0 +1,63 @@
+import { CampaignSchedule } from '../types';
+
+// Time zones offered when the browser cannot list them all.
+const COMMON_TIME_ZONES = [
+  'UTC',
+  'America/Los_Angeles',
+  'America/Denver',
+  'America/Chicago',
+  'America/New_York',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Berlin',
+  'Europe/Moscow',
+  'Africa/Lagos',
+  'Africa/Johannesburg',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Jakarta',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+];
+
+export const browserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+export const timeZoneOptions = (): string[] => {
+  const intl = Intl as unknown as { supportedValuesOf?: (key: 'timeZone') => string[] };
+  const zones = intl.supportedValuesOf?.('timeZone') || COMMON_TIME_ZONES;
+  const current = browserTimeZone();
+  return zones.includes(current) ? zones : [current, ...zones];
+};
+
+// The wall-clock date and time an instant shows in `timeZone`.
+export const zonedParts = (instant: Date | string, timeZone: string): Pick<CampaignSchedule, 'date' | 'time'> => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+    }).formatToParts(new Date(instant)).map(({ type, value }) => [type, value])
+  );
+  return { date: `${parts.year}-${parts.month}-${parts.day}`, time: `${parts.hour}:${parts.minute}` };
+};
+
+// Starts the "send later" fields at the next full hour in the browser's time zone.
+export const defaultSchedule = (): CampaignSchedule => {
+  const nextHour = new Date();
+  nextHour.setHours(nextHour.getHours() + 1, 0, 0, 0);
+  const timezone = browserTimeZone();
+  return { ...zonedParts(nextHour, timezone), timezone };
+};
+
+// The schedule of a stored campaign, as it was entered.
+export const campaignSchedule = (scheduledAt: string, timezone = browserTimeZone()): CampaignSchedule => ({
+  ...zonedParts(scheduledAt, timezone),
+  timezone,
+});
+
+export const formatSchedule = ({ date, time, timezone }: CampaignSchedule) => `${date} ${time} (${timezone})`;
@@ -0,0 +1,3 @@
+// Splits "vip, Newsletter ,  " into ["vip", "newsletter"], matching how the server stores tags.
+export const parseTags = (value: string): string[] =>
+  value.split(',').map((tag) => tag.trim().toLowerCase()).filter(Boolean);
@@ -0,0 +1,17 @@
+import { MessageTemplate, TemplateComponent } from '../types';
+
+const PARAMETER_PATTERN = /\{\{(\d+)\}\}/g;
+
+// The distinct {{n}} parameter numbers used in a piece of template text, in order.
+export const parameterNumbers = (text = ''): number[] => (
+  Array.from(new Set(Array.from(text.matchAll(PARAMETER_PATTERN), ([, n]) => Number(n)))).sort((a, b) => a - b)
+);
+
+export const findComponent = (template: Pick<MessageTemplate, 'components'>, type: TemplateComponent['type']) => (
+  template.components.find((component) => component.type === type)
+);
+
+// Fills {{n}} parameters in `text` from `values` (keyed by number), leaving unknown ones as they are.
+export const fillParameters = (text: string, values: Record<number, string>) => (
+  text.replace(PARAMETER_PATTERN, (match, n) => values[Number(n)] || match)
+);